@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { brandAnalyses } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { handleApiError, AuthenticationError, NotFoundError, ValidationError } from '@/lib/api-errors';
+import {
+  buildCsvSheet,
+  buildExportSheets,
+  buildJsonExport,
+  CSV_SHEETS,
+  CsvSheet,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportFileName,
+  toCsv,
+  toXlsx,
+} from '@/lib/analysis-export';
+
+// GET /api/brand-monitor/analyses/[analysisId]/export?format=csv|xlsx|json&sheet= - Download a saved analysis as data
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ analysisId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to export this analysis');
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    const sheet = (searchParams.get('sheet') || 'responses') as CsvSheet;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new ValidationError('Invalid export format', {
+        format: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      });
+    }
+    if (format === 'csv' && !CSV_SHEETS.includes(sheet)) {
+      throw new ValidationError('Invalid export sheet', {
+        sheet: `Sheet must be one of: ${CSV_SHEETS.join(', ')}`,
+      });
+    }
+
+    const { analysisId } = await params;
+
+    const analysis = await db.query.brandAnalyses.findFirst({
+      where: and(
+        eq(brandAnalyses.id, analysisId),
+        eq(brandAnalyses.userId, sessionResponse.user.id)
+      ),
+    });
+
+    if (!analysis) {
+      throw new NotFoundError('Analysis not found');
+    }
+
+    const download = (body: BodyInit, contentType: string, fileName: string) =>
+      new NextResponse(body, {
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      });
+
+    switch (format) {
+      case 'csv':
+        return download(
+          toCsv(buildCsvSheet(analysis, sheet)),
+          'text/csv; charset=utf-8',
+          exportFileName(analysis, format, sheet)
+        );
+      case 'xlsx':
+        return download(
+          new Uint8Array(await toXlsx(buildExportSheets(analysis))),
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          exportFileName(analysis, format)
+        );
+      case 'json':
+        return download(
+          JSON.stringify(buildJsonExport(analysis), null, 2),
+          'application/json',
+          exportFileName(analysis, format)
+        );
+    }
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
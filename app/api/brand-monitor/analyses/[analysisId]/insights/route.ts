@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { brandAnalyses } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { handleApiError, AuthenticationError, ExternalServiceError, NotFoundError, ValidationError } from '@/lib/api-errors';
+import { AnalysisResult } from '@/lib/analyze-common';
+import { generateReportInsights } from '@/lib/report-insights';
+import { ReportInsights } from '@/lib/types';
+
+// POST /api/brand-monitor/analyses/[analysisId]/insights?refresh=true - Get the analysis's AI insights, writing them on first use
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ analysisId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to generate insights');
+    }
+
+    const { analysisId } = await params;
+    const refresh = request.nextUrl.searchParams.get('refresh') === 'true';
+
+    const analysis = await db.query.brandAnalyses.findFirst({
+      where: and(
+        eq(brandAnalyses.id, analysisId),
+        eq(brandAnalyses.userId, sessionResponse.user.id)
+      ),
+    });
+
+    if (!analysis) {
+      throw new NotFoundError('Analysis not found');
+    }
+
+    const analysisData = analysis.analysisData as AnalysisResult | null;
+    if (!analysisData?.company || !analysisData.responses?.length) {
+      throw new ValidationError('Analysis has no stored responses to summarize', {
+        analysisId: 'Only analyses with saved provider responses have insights'
+      });
+    }
+
+    if (analysisData.insights && !refresh) {
+      return NextResponse.json({ insights: analysisData.insights, cached: true });
+    }
+
+    let insights: ReportInsights;
+    try {
+      insights = await generateReportInsights(analysisData, analysisData.company, request.signal);
+    } catch (error) {
+      console.error('Failed to generate report insights:', error);
+      throw new ExternalServiceError('Could not generate insights, please try again', 'ai');
+    }
+
+    await db
+      .update(brandAnalyses)
+      .set({ analysisData: { ...analysisData, insights } })
+      .where(eq(brandAnalyses.id, analysis.id));
+
+    return NextResponse.json({ insights, cached: false });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
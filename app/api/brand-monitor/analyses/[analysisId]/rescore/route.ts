@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { brandAnalyses } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { handleApiError, AuthenticationError, NotFoundError, ValidationError } from '@/lib/api-errors';
+import { AnalysisResult } from '@/lib/analyze-common';
+import { storeAnalysisDetails } from '@/lib/analysis-storage';
+import { parseRescoreRequest, rescoreAnalysis } from '@/lib/rescore';
+import { resolveScoringProfile } from '@/lib/scoring-preferences';
+
+// POST /api/brand-monitor/analyses/[analysisId]/rescore - Score stored responses again with new competitors and aliases
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ analysisId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to rescore this analysis');
+    }
+
+    const { analysisId } = await params;
+    const { request: rescoreRequest, error } = parseRescoreRequest(await request.json());
+    if (!rescoreRequest) {
+      throw new ValidationError('Invalid rescore request', { request: error || 'Invalid request' });
+    }
+
+    const original = await db.query.brandAnalyses.findFirst({
+      where: and(
+        eq(brandAnalyses.id, analysisId),
+        eq(brandAnalyses.userId, sessionResponse.user.id)
+      ),
+    });
+
+    if (!original) {
+      throw new NotFoundError('Analysis not found');
+    }
+
+    const analysisData = original.analysisData as AnalysisResult | null;
+    if (!analysisData?.company || !analysisData.responses?.length) {
+      throw new ValidationError('Analysis has no stored responses to rescore', {
+        analysisId: 'Only analyses with saved provider responses can be rescored'
+      });
+    }
+
+    // Requested profile, else the one the analysis was scored with, else the user's default
+    const scoringProfile = rescoreRequest.scoringProfileId
+      ? await resolveScoringProfile(sessionResponse.user.id, rescoreRequest.scoringProfileId)
+      : analysisData.scoringProfile || await resolveScoringProfile(sessionResponse.user.id);
+    if (!scoringProfile) {
+      throw new ValidationError('Unknown scoring profile', {
+        scoringProfileId: `No profile with id "${rescoreRequest.scoringProfileId}"`
+      });
+    }
+
+    const rescored: AnalysisResult = {
+      ...await rescoreAnalysis(analysisData, rescoreRequest, scoringProfile),
+      rescoredFrom: { analysisId: original.id, rescoredAt: new Date().toISOString() },
+    };
+
+    const analysis = await db.transaction(async (tx) => {
+      const [saved] = await tx.insert(brandAnalyses).values({
+        userId: sessionResponse.user.id,
+        url: original.url,
+        companyName: original.companyName,
+        industry: original.industry,
+        analysisData: rescored,
+        competitors: rescoreRequest.competitors,
+        prompts: original.prompts,
+        creditsUsed: 0,
+      }).returning();
+
+      await storeAnalysisDetails(saved.id, rescored, tx);
+
+      return saved;
+    });
+
+    return NextResponse.json(analysis);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { handleApiError, AuthenticationError, NotFoundError } from '@/lib/api-errors';
+import { revokeAnalysisShare } from '@/lib/analysis-shares';
+
+// DELETE /api/brand-monitor/analyses/[analysisId]/shares/[shareId] - Revoke a share link
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ analysisId: string; shareId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to revoke share links');
+    }
+
+    const { analysisId, shareId } = await params;
+
+    const revoked = await revokeAnalysisShare(sessionResponse.user.id, analysisId, shareId);
+    if (!revoked) {
+      throw new NotFoundError('Share link');
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
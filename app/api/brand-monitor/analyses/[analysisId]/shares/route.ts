@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { brandAnalyses } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { handleApiError, AuthenticationError, NotFoundError, ValidationError } from '@/lib/api-errors';
+import { createAnalysisShare, listAnalysisShares, parseShareRequest } from '@/lib/analysis-shares';
+
+async function findOwnAnalysis(analysisId: string, userId: string) {
+  const analysis = await db.query.brandAnalyses.findFirst({
+    where: and(
+      eq(brandAnalyses.id, analysisId),
+      eq(brandAnalyses.userId, userId)
+    ),
+  });
+
+  if (!analysis) {
+    throw new NotFoundError('Analysis');
+  }
+  return analysis;
+}
+
+// GET /api/brand-monitor/analyses/[analysisId]/shares - List the share links of an analysis
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ analysisId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to view share links');
+    }
+
+    const { analysisId } = await params;
+    await findOwnAnalysis(analysisId, sessionResponse.user.id);
+
+    const shares = await listAnalysisShares(sessionResponse.user.id, analysisId, request.nextUrl.origin);
+    return NextResponse.json({ shares });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST /api/brand-monitor/analyses/[analysisId]/shares - Create a public share link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ analysisId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to share analyses');
+    }
+
+    const { analysisId } = await params;
+    await findOwnAnalysis(analysisId, sessionResponse.user.id);
+
+    const body = await request.json();
+    const { request: shareRequest, error } = parseShareRequest(body);
+    if (!shareRequest) {
+      throw new ValidationError('Invalid share link', { share: error || 'Invalid share link' });
+    }
+
+    const share = await createAnalysisShare(sessionResponse.user.id, analysisId, shareRequest, request.nextUrl.origin);
+    return NextResponse.json({ share });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { brandAnalyses } from '@/lib/db/schema';
+import { storeAnalysisDetails } from '@/lib/analysis-storage';
 import { eq, desc } from 'drizzle-orm';
 import { handleApiError, AuthenticationError, ValidationError } from '@/lib/api-errors';
 
@@ -47,16 +48,23 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const [analysis] = await db.insert(brandAnalyses).values({
-      userId: sessionResponse.user.id,
-      url: body.url,
-      companyName: body.companyName,
-      industry: body.industry,
-      analysisData: body.analysisData,
-      competitors: body.competitors,
-      prompts: body.prompts,
-      creditsUsed: body.creditsUsed || 10,
-    }).returning();
+    const analysis = await db.transaction(async (tx) => {
+      const [saved] = await tx.insert(brandAnalyses).values({
+        userId: sessionResponse.user.id,
+        url: body.url,
+        companyName: body.companyName,
+        industry: body.industry,
+        analysisData: body.analysisData,
+        competitors: body.competitors,
+        prompts: body.prompts,
+        creditsUsed: body.creditsUsed || 10,
+      }).returning();
+
+      // Mirror prompts, responses and scores into the queryable tables
+      await storeAnalysisDetails(saved.id, body.analysisData, tx);
+
+      return saved;
+    });
 
     return NextResponse.json(analysis);
   } catch (error) {
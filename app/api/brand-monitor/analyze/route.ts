@@ -2,7 +2,13 @@ import { NextRequest } from 'next/server';
 import { auth } from '@/lib/auth';
 import { Autumn } from 'autumn-js';
 import { performAnalysis, createSSEMessage } from '@/lib/analyze-common';
-import { SSEEvent } from '@/lib/types';
+import { BrandTerms, ProviderModelSelection, SSEEvent } from '@/lib/types';
+import { validateModelSelections } from '@/lib/provider-config';
+import { isModelSelectionList } from '@/lib/model-selection';
+import { getDefaultModelSelections, saveDefaultModelSelections } from '@/lib/model-preferences';
+import { resolveScoringProfile } from '@/lib/scoring-preferences';
+import { getBrandTerms, parseBrandTerms } from '@/lib/brand-terms';
+import { AnalysisJobRequest, createAnalysisJob, startAnalysisJob, streamAnalysisJobEvents } from '@/lib/analysis-jobs';
 import { 
   AuthenticationError, 
   InsufficientCreditsError, 
@@ -14,7 +20,8 @@ import {
   FEATURE_ID_MESSAGES, 
   CREDITS_PER_BRAND_ANALYSIS,
   ERROR_MESSAGES,
-  SSE_MAX_DURATION
+  SSE_MAX_DURATION,
+  MAX_SAMPLES_PER_PROMPT
 } from '@/config/constants';
 
 const autumn = new Autumn({
@@ -40,7 +47,7 @@ export async function POST(request: NextRequest) {
 
     // No credit checks or usage tracking needed - completely free platform
 
-    const { company, prompts: customPrompts, competitors: userSelectedCompetitors, useWebSearch = false } = await request.json();
+    const { company, prompts: customPrompts, competitors: userSelectedCompetitors, useWebSearch = false, models, samplesPerPrompt = 1, scoringProfileId, forceRefresh = false, llmExtraction = false, brandTerms: requestedBrandTerms } = await request.json();
 
     if (!company || !company.name) {
       throw new ValidationError(ERROR_MESSAGES.COMPANY_INFO_REQUIRED, {
@@ -48,6 +55,80 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    if (!Number.isInteger(samplesPerPrompt) || samplesPerPrompt < 1 || samplesPerPrompt > MAX_SAMPLES_PER_PROMPT) {
+      throw new ValidationError('Invalid samples per prompt', {
+        samplesPerPrompt: `Must be a whole number between 1 and ${MAX_SAMPLES_PER_PROMPT}`
+      });
+    }
+
+    if (typeof forceRefresh !== 'boolean') {
+      throw new ValidationError('Invalid force refresh option', {
+        forceRefresh: 'Must be true or false'
+      });
+    }
+
+    if (typeof llmExtraction !== 'boolean') {
+      throw new ValidationError('Invalid LLM extraction option', {
+        llmExtraction: 'Must be true or false'
+      });
+    }
+
+    // Terms edited on the company card, or the ones the user saved for this brand
+    let brandTerms: BrandTerms | undefined;
+    if (requestedBrandTerms !== undefined) {
+      const { terms, error } = parseBrandTerms(requestedBrandTerms);
+      if (!terms) {
+        throw new ValidationError('Invalid brand terms', { brandTerms: error || 'Invalid brand terms' });
+      }
+      brandTerms = terms;
+    } else if (user?.id && company.url) {
+      try {
+        brandTerms = await getBrandTerms(user.id, company.url);
+      } catch (err) {
+        console.error('Failed to load brand terms:', err);
+      }
+    }
+
+    // Explicit provider/model pairs become the user's new default; otherwise use the saved default
+    let modelSelections: ProviderModelSelection[] | undefined;
+    if (models !== undefined) {
+      if (!isModelSelectionList(models)) {
+        throw new ValidationError('Invalid model selection', {
+          models: 'Must be a list of { providerId, modelId } pairs'
+        });
+      }
+      const selectionError = validateModelSelections(models);
+      if (selectionError) {
+        throw new ValidationError('Invalid model selection', { models: selectionError });
+      }
+      modelSelections = models;
+
+      if (user?.id) {
+        try {
+          await saveDefaultModelSelections(user.id, models);
+        } catch (err) {
+          console.error('Failed to save default model selection:', err);
+        }
+      }
+    } else if (user?.id) {
+      try {
+        modelSelections = await getDefaultModelSelections(user.id);
+      } catch (err) {
+        console.error('Failed to load default model selection:', err);
+      }
+    }
+
+    // Requested scoring profile, or the user's default
+    if (scoringProfileId !== undefined && typeof scoringProfileId !== 'string') {
+      throw new ValidationError('Invalid scoring profile', { scoringProfileId: 'Must be a profile id' });
+    }
+    const scoringProfile = await resolveScoringProfile(user?.id, scoringProfileId);
+    if (!scoringProfile) {
+      throw new ValidationError('Unknown scoring profile', {
+        scoringProfileId: `No profile with id "${scoringProfileId}"`
+      });
+    }
+
     // Track usage with Autumn (deduct credits) - only if user is authenticated
     if (user?.id) {
       try {
@@ -68,6 +149,48 @@ export async function POST(request: NextRequest) {
     // No credit tracking needed - completely free platform
     let remainingCredits = 999999; // Show unlimited credits
 
+    const jobRequest: AnalysisJobRequest = {
+      company,
+      customPrompts,
+      userSelectedCompetitors,
+      useWebSearch,
+      modelSelections,
+      samplesPerPrompt,
+      scoringProfile,
+      forceRefresh,
+      llmExtraction,
+      brandTerms
+    };
+    const creditsEvent: SSEEvent = {
+      type: 'progress',
+      stage: 'initializing',
+      data: {
+        remainingCredits,
+        creditsUsed: CREDITS_PER_BRAND_ANALYSIS
+      },
+      timestamp: new Date()
+    };
+
+    // Run as a persisted job so the client can reconnect via /api/brand-monitor/jobs/:id/events
+    let job = null;
+    try {
+      job = await createAnalysisJob(user?.id ?? null, jobRequest);
+    } catch (err) {
+      console.error('Failed to create analysis job, streaming without resume support:', err);
+    }
+
+    if (job) {
+      startAnalysisJob(job, [creditsEvent]);
+      return new Response(streamAnalysisJobEvents(job.id), {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'X-Analysis-Job-Id': job.id,
+        },
+      });
+    }
+
     // Create a TransformStream for SSE
     const encoder = new TextEncoder();
     const stream = new TransformStream();
@@ -82,22 +205,12 @@ export async function POST(request: NextRequest) {
     (async () => {
       try {
         // Send initial credit info
-        await sendEvent({
-          type: 'progress',
-          stage: 'initializing',
-          data: {
-            remainingCredits,
-            creditsUsed: CREDITS_PER_BRAND_ANALYSIS
-          },
-          timestamp: new Date()
-        });
+        await sendEvent(creditsEvent);
 
         // Perform the analysis using common logic
         const analysisResult = await performAnalysis({
-          company,
-          customPrompts,
-          userSelectedCompetitors,
-          useWebSearch,
+          ...jobRequest,
+          abortSignal: request.signal, // Without a job, closing the stream is the only way to cancel
           sendEvent
         });
 
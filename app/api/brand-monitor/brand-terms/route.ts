@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getBrandTerms, parseBrandTerms, saveBrandTerms } from '@/lib/brand-terms';
+import { handleApiError, AuthenticationError, ValidationError } from '@/lib/api-errors';
+
+// GET /api/brand-monitor/brand-terms?url= - Get the aliases and excluded terms saved for a brand
+export async function GET(request: NextRequest) {
+  try {
+    const url = request.nextUrl.searchParams.get('url');
+
+    if (!url) {
+      throw new ValidationError('Invalid request', {
+        url: 'URL is required',
+      });
+    }
+
+    // Anonymous users have nothing saved
+    let user = null;
+    try {
+      const sessionResponse = await auth.api.getSession({
+        headers: request.headers,
+      });
+      user = sessionResponse?.user || null;
+    } catch (authError) {
+      console.warn('Authentication failed, returning no brand terms:', authError);
+    }
+
+    if (!user?.id) {
+      return NextResponse.json({ terms: {} });
+    }
+
+    return NextResponse.json({ terms: await getBrandTerms(user.id, url) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// PUT /api/brand-monitor/brand-terms - Replace the aliases and excluded terms of a brand
+export async function PUT(request: NextRequest) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to save brand terms');
+    }
+
+    const body = await request.json();
+    if (!body.url || typeof body.url !== 'string') {
+      throw new ValidationError('Invalid request', {
+        url: 'URL is required',
+      });
+    }
+
+    const { terms, error } = parseBrandTerms(body.terms);
+    if (!terms) {
+      throw new ValidationError('Invalid brand terms', { terms: error || 'Invalid brand terms' });
+    }
+
+    await saveBrandTerms(sessionResponse.user.id, body.url, terms);
+
+    return NextResponse.json({ terms });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { getConfiguredProviders } from '@/lib/provider-config';
+import { getConfiguredProviders, getProviderOptions } from '@/lib/provider-config';
+import { getDefaultModelSelections } from '@/lib/model-preferences';
 import { handleApiError, AuthenticationError } from '@/lib/api-errors';
 
 export async function POST(request: NextRequest) {
@@ -27,7 +28,17 @@ export async function POST(request: NextRequest) {
       });
     }
     
-    return NextResponse.json({ providers });
+    // Model choices for the picker, plus the user's saved default selection
+    let defaultSelections = null;
+    if (user?.id) {
+      try {
+        defaultSelections = await getDefaultModelSelections(user.id) || null;
+      } catch (err) {
+        console.error('Failed to load default model selection:', err);
+      }
+    }
+
+    return NextResponse.json({ providers, options: getProviderOptions(), defaultSelections });
 
   } catch (error) {
     return handleApiError(error);
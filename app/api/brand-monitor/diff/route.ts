@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { brandAnalyses } from '@/lib/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { diffAnalyses } from '@/lib/analysis-diff';
+import { normalizeTrendUrl } from '@/lib/trends';
+import { handleApiError, AuthenticationError, NotFoundError, ValidationError } from '@/lib/api-errors';
+
+// GET /api/brand-monitor/diff?base=&compare= - Compare two saved analyses of the same URL
+export async function GET(request: NextRequest) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to compare analyses');
+    }
+
+    const baseId = request.nextUrl.searchParams.get('base');
+    const compareId = request.nextUrl.searchParams.get('compare');
+
+    if (!baseId || !compareId || baseId === compareId) {
+      throw new ValidationError('Two different analysis ids are required', {
+        base: 'Base analysis id is required',
+        compare: 'Compare analysis id must differ from base',
+      });
+    }
+
+    const analyses = await db.query.brandAnalyses.findMany({
+      where: and(
+        inArray(brandAnalyses.id, [baseId, compareId]),
+        eq(brandAnalyses.userId, sessionResponse.user.id)
+      ),
+    });
+
+    const base = analyses.find(a => a.id === baseId);
+    const compare = analyses.find(a => a.id === compareId);
+
+    if (!base || !compare) {
+      throw new NotFoundError('Analysis');
+    }
+
+    if (normalizeTrendUrl(base.url) !== normalizeTrendUrl(compare.url)) {
+      throw new ValidationError('Analyses must be for the same URL', {
+        compare: `Expected an analysis of ${base.url}`,
+      });
+    }
+
+    return NextResponse.json(diffAnalyses(base, compare));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
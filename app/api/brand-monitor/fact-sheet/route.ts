@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getFactSheet, parseFactSheet, saveFactSheet } from '@/lib/fact-sheets';
+import { handleApiError, AuthenticationError, ValidationError } from '@/lib/api-errors';
+
+// GET /api/brand-monitor/fact-sheet?url= - Get the fact sheet saved for a brand
+export async function GET(request: NextRequest) {
+  try {
+    const url = request.nextUrl.searchParams.get('url');
+
+    if (!url) {
+      throw new ValidationError('Invalid request', {
+        url: 'URL is required',
+      });
+    }
+
+    // Anonymous users have nothing saved
+    let user = null;
+    try {
+      const sessionResponse = await auth.api.getSession({
+        headers: request.headers,
+      });
+      user = sessionResponse?.user || null;
+    } catch (authError) {
+      console.warn('Authentication failed, returning no fact sheet:', authError);
+    }
+
+    if (!user?.id) {
+      return NextResponse.json({ facts: null });
+    }
+
+    return NextResponse.json({ facts: await getFactSheet(user.id, url) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// PUT /api/brand-monitor/fact-sheet - Replace the fact sheet of a brand
+export async function PUT(request: NextRequest) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to save the fact sheet');
+    }
+
+    const body = await request.json();
+    if (!body.url || typeof body.url !== 'string') {
+      throw new ValidationError('Invalid request', {
+        url: 'URL is required',
+      });
+    }
+
+    const { facts, error } = parseFactSheet(body.facts);
+    if (!facts) {
+      throw new ValidationError('Invalid fact sheet', { facts: error || 'Invalid fact sheet' });
+    }
+
+    await saveFactSheet(sessionResponse.user.id, body.url, facts);
+
+    return NextResponse.json({ facts });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { canAccessAnalysisJob, getAnalysisJob, isAnalysisJobId, streamAnalysisJobEvents } from '@/lib/analysis-jobs';
+import { handleApiError, NotFoundError, ValidationError } from '@/lib/api-errors';
+
+export const runtime = 'nodejs'; // Use Node.js runtime for streaming
+export const maxDuration = 300; // 5 minutes
+
+// GET /api/brand-monitor/jobs/[jobId]/events - Stream a job's events, replaying those after Last-Event-ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    let userId: string | undefined;
+    try {
+      const sessionResponse = await auth.api.getSession({
+        headers: request.headers,
+      });
+      userId = sessionResponse?.user?.id;
+    } catch (authError) {
+      console.warn('Authentication failed, only anonymous jobs are visible:', authError);
+    }
+
+    const { jobId } = await params;
+    const job = isAnalysisJobId(jobId) ? await getAnalysisJob(jobId) : undefined;
+
+    if (!job || !canAccessAnalysisJob(job, userId)) {
+      throw new NotFoundError('Analysis job');
+    }
+
+    // EventSource sends the header on reconnect; the query parameter is for manual resumes
+    const lastEventIdValue = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId') ?? '0';
+    const lastEventId = Number(lastEventIdValue);
+    if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+      throw new ValidationError('Invalid Last-Event-ID', { lastEventId: 'Must be a non-negative integer' });
+    }
+
+    return new Response(streamAnalysisJobEvents(job.id, lastEventId), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Analysis-Job-Id': job.id,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { cancelAnalysisJob, canAccessAnalysisJob, getAnalysisJob, isAnalysisJobId } from '@/lib/analysis-jobs';
+import { handleApiError, NotFoundError } from '@/lib/api-errors';
+
+// GET /api/brand-monitor/jobs/[jobId] - Get an analysis job's status and inputs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    let userId: string | undefined;
+    try {
+      const sessionResponse = await auth.api.getSession({
+        headers: request.headers,
+      });
+      userId = sessionResponse?.user?.id;
+    } catch (authError) {
+      console.warn('Authentication failed, only anonymous jobs are visible:', authError);
+    }
+
+    const { jobId } = await params;
+    const job = isAnalysisJobId(jobId) ? await getAnalysisJob(jobId) : undefined;
+
+    if (!job || !canAccessAnalysisJob(job, userId)) {
+      throw new NotFoundError('Analysis job');
+    }
+
+    return NextResponse.json({
+      id: job.id,
+      status: job.status,
+      companyName: job.companyName,
+      request: job.request,
+      error: job.error,
+      lastEventId: job.lastEventId,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/brand-monitor/jobs/[jobId] - Cancel a running analysis job
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    let userId: string | undefined;
+    try {
+      const sessionResponse = await auth.api.getSession({
+        headers: request.headers,
+      });
+      userId = sessionResponse?.user?.id;
+    } catch (authError) {
+      console.warn('Authentication failed, only anonymous jobs can be cancelled:', authError);
+    }
+
+    const { jobId } = await params;
+    const job = isAnalysisJobId(jobId) ? await getAnalysisJob(jobId) : undefined;
+
+    if (!job || !canAccessAnalysisJob(job, userId)) {
+      throw new NotFoundError('Analysis job');
+    }
+
+    // The job finishes on its own: remaining pairs are reported as skipped and
+    // the partial analysis arrives as the usual complete event
+    const cancelled = await cancelAnalysisJob(job.id);
+
+    return NextResponse.json({ id: job.id, cancelled }, { status: cancelled ? 202 : 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { trackedProjects, scheduleCadenceEnum, NewTrackedProject } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getNextRunAt } from '@/lib/scheduler';
+import { handleApiError, AuthenticationError, NotFoundError, ValidationError } from '@/lib/api-errors';
+
+// GET /api/brand-monitor/projects/[projectId] - Get a specific tracked project
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to view this project');
+    }
+
+    const { projectId } = await params;
+
+    const project = await db.query.trackedProjects.findFirst({
+      where: and(
+        eq(trackedProjects.id, projectId),
+        eq(trackedProjects.userId, sessionResponse.user.id)
+      ),
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// PATCH /api/brand-monitor/projects/[projectId] - Update a project's schedule or inputs
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to update this project');
+    }
+
+    const { projectId } = await params;
+    const body = await request.json();
+
+    if (body.cadence !== undefined && !scheduleCadenceEnum.enumValues.includes(body.cadence)) {
+      throw new ValidationError('Invalid request', {
+        cadence: 'Cadence must be daily or weekly',
+      });
+    }
+
+    const updates: Partial<NewTrackedProject> = {};
+    if (body.company?.name) {
+      updates.company = body.company;
+      updates.companyName = body.company.name;
+      updates.industry = body.company.industry;
+      if (body.company.url) updates.url = body.company.url;
+    }
+    if (Array.isArray(body.competitors)) updates.competitors = body.competitors;
+    if (Array.isArray(body.prompts)) updates.prompts = body.prompts;
+    if (typeof body.useWebSearch === 'boolean') updates.useWebSearch = body.useWebSearch;
+    if (typeof body.enabled === 'boolean') updates.enabled = body.enabled;
+    if (body.cadence) {
+      updates.cadence = body.cadence;
+      updates.nextRunAt = getNextRunAt(body.cadence);
+    }
+    // Allow "run now" by pulling the next run forward
+    if (body.runNow === true) updates.nextRunAt = new Date();
+
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('No valid fields to update');
+    }
+
+    const [project] = await db.update(trackedProjects)
+      .set(updates)
+      .where(and(
+        eq(trackedProjects.id, projectId),
+        eq(trackedProjects.userId, sessionResponse.user.id)
+      ))
+      .returning();
+
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/brand-monitor/projects/[projectId] - Stop tracking a project
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to delete this project');
+    }
+
+    const { projectId } = await params;
+
+    const result = await db.delete(trackedProjects)
+      .where(and(
+        eq(trackedProjects.id, projectId),
+        eq(trackedProjects.userId, sessionResponse.user.id)
+      ))
+      .returning();
+
+    if (result.length === 0) {
+      throw new NotFoundError('Project');
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { trackedProjects, scheduleCadenceEnum, ScheduleCadence } from '@/lib/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { handleApiError, AuthenticationError, ValidationError } from '@/lib/api-errors';
+
+// GET /api/brand-monitor/projects - Get user's tracked projects
+export async function GET(request: NextRequest) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to view your tracked projects');
+    }
+
+    const projects = await db.query.trackedProjects.findMany({
+      where: eq(trackedProjects.userId, sessionResponse.user.id),
+      orderBy: desc(trackedProjects.createdAt),
+    });
+
+    return NextResponse.json(projects);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST /api/brand-monitor/projects - Register a company for scheduled analysis
+export async function POST(request: NextRequest) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to track projects');
+    }
+
+    const body = await request.json();
+    const cadence: ScheduleCadence = body.cadence || 'weekly';
+
+    const fields: Record<string, string> = {};
+    if (!body.company?.name || !body.company?.url) {
+      fields.company = 'Company name and URL are required';
+    }
+    if (!scheduleCadenceEnum.enumValues.includes(cadence)) {
+      fields.cadence = 'Cadence must be daily or weekly';
+    }
+    if (Object.keys(fields).length > 0) {
+      throw new ValidationError('Invalid request', fields);
+    }
+
+    const [project] = await db.insert(trackedProjects).values({
+      userId: sessionResponse.user.id,
+      url: body.company.url,
+      companyName: body.company.name,
+      industry: body.company.industry,
+      company: body.company,
+      competitors: Array.isArray(body.competitors) ? body.competitors : [],
+      prompts: Array.isArray(body.prompts) ? body.prompts : [],
+      cadence,
+      useWebSearch: body.useWebSearch ?? false,
+      enabled: body.enabled ?? true,
+    }).returning();
+
+    return NextResponse.json(project);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { DEFAULT_REPORT_TEMPLATE, parseReportTemplate } from '@/lib/report-template';
+import { getReportTemplate, saveReportTemplate } from '@/lib/report-preferences';
+import { handleApiError, AuthenticationError, ValidationError } from '@/lib/api-errors';
+
+// GET /api/brand-monitor/report-template - Get the user's report template
+export async function GET(request: NextRequest) {
+  try {
+    // Anonymous users get the default template
+    let user = null;
+    try {
+      const sessionResponse = await auth.api.getSession({
+        headers: request.headers,
+      });
+      user = sessionResponse?.user || null;
+    } catch (authError) {
+      console.warn('Authentication failed, returning the default report template:', authError);
+    }
+
+    if (!user?.id) {
+      return NextResponse.json({ template: DEFAULT_REPORT_TEMPLATE });
+    }
+
+    return NextResponse.json({ template: await getReportTemplate(user.id) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// PUT /api/brand-monitor/report-template - Replace the user's report template
+export async function PUT(request: NextRequest) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to save the report template');
+    }
+
+    const body = await request.json();
+    const { template, error } = parseReportTemplate(body.template);
+    if (!template) {
+      throw new ValidationError('Invalid report template', { template: error || 'Invalid report template' });
+    }
+
+    await saveReportTemplate(sessionResponse.user.id, template);
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueTrackedProjects } from '@/lib/scheduler';
+import { purgeExpiredResponses } from '@/lib/response-cache';
+import { handleApiError, AuthenticationError } from '@/lib/api-errors';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 5 minutes
+
+// GET /api/brand-monitor/scheduler/run - Run all due tracked projects (called by cron)
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      throw new AuthenticationError('Invalid scheduler credentials');
+    }
+
+    const results = await runDueTrackedProjects();
+    const purgedResponses = await purgeExpiredResponses();
+
+    return NextResponse.json({
+      ran: results.length,
+      failed: results.filter(r => r.error).length,
+      purgedResponses,
+      results,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { BUILT_IN_SCORING_PROFILES, DEFAULT_SCORING_PROFILE } from '@/lib/scoring';
+import { getScoringPreferences, saveScoringPreferences } from '@/lib/scoring-preferences';
+import { handleApiError, AuthenticationError, NotFoundError, ValidationError } from '@/lib/api-errors';
+
+// DELETE /api/brand-monitor/scoring-profiles/[profileId] - Delete a saved scoring profile
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to delete scoring profiles');
+    }
+
+    const { profileId } = await params;
+
+    if (BUILT_IN_SCORING_PROFILES.some(p => p.id === profileId)) {
+      throw new ValidationError('Built-in profiles cannot be deleted', { profileId: 'Built-in profile' });
+    }
+
+    const { savedProfiles, defaultProfileId } = await getScoringPreferences(sessionResponse.user.id);
+    if (!savedProfiles.some(p => p.id === profileId)) {
+      throw new NotFoundError('Scoring profile');
+    }
+
+    // Deleting the default profile falls back to the built-in default
+    const profiles = savedProfiles.filter(p => p.id !== profileId);
+    const nextDefaultId = defaultProfileId === profileId ? DEFAULT_SCORING_PROFILE.id : defaultProfileId;
+    await saveScoringPreferences(sessionResponse.user.id, profiles, nextDefaultId);
+
+    return NextResponse.json({
+      profiles: [...BUILT_IN_SCORING_PROFILES, ...profiles],
+      defaultProfileId: nextDefaultId,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
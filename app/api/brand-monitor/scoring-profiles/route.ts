@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { BUILT_IN_SCORING_PROFILES, DEFAULT_SCORING_PROFILE, findScoringProfile, parseScoringProfile } from '@/lib/scoring';
+import { getScoringPreferences, saveScoringPreferences } from '@/lib/scoring-preferences';
+import { handleApiError, AuthenticationError, ValidationError } from '@/lib/api-errors';
+
+const MAX_SAVED_PROFILES = 20;
+
+// GET /api/brand-monitor/scoring-profiles - List built-in and saved scoring profiles
+export async function GET(request: NextRequest) {
+  try {
+    // Anonymous users only get the built-in profiles
+    let user = null;
+    try {
+      const sessionResponse = await auth.api.getSession({
+        headers: request.headers,
+      });
+      user = sessionResponse?.user || null;
+    } catch (authError) {
+      console.warn('Authentication failed, returning built-in profiles:', authError);
+    }
+
+    if (!user?.id) {
+      return NextResponse.json({
+        profiles: BUILT_IN_SCORING_PROFILES,
+        defaultProfileId: DEFAULT_SCORING_PROFILE.id,
+      });
+    }
+
+    const { savedProfiles, defaultProfileId } = await getScoringPreferences(user.id);
+
+    return NextResponse.json({
+      profiles: [...BUILT_IN_SCORING_PROFILES, ...savedProfiles],
+      defaultProfileId,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST /api/brand-monitor/scoring-profiles - Save a custom profile or change the default
+export async function POST(request: NextRequest) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to save scoring profiles');
+    }
+
+    const body = await request.json();
+    const { savedProfiles, defaultProfileId } = await getScoringPreferences(sessionResponse.user.id);
+
+    let profiles = savedProfiles;
+    let profileId: string | undefined = body.defaultProfileId;
+
+    if (body.profile !== undefined) {
+      const { profile, error } = parseScoringProfile(body.profile);
+      if (!profile) {
+        throw new ValidationError('Invalid scoring profile', { profile: error || 'Invalid profile' });
+      }
+
+      const exists = profiles.some(p => p.id === profile.id);
+      if (!exists && profiles.length >= MAX_SAVED_PROFILES) {
+        throw new ValidationError('Too many scoring profiles', {
+          profile: `You can save up to ${MAX_SAVED_PROFILES} profiles`,
+        });
+      }
+
+      profiles = exists
+        ? profiles.map(p => (p.id === profile.id ? profile : p))
+        : [...profiles, profile];
+      if (body.makeDefault) profileId = profile.id;
+    }
+
+    if (profileId !== undefined && !findScoringProfile(profileId, profiles)) {
+      throw new ValidationError('Unknown scoring profile', { defaultProfileId: `No profile with id "${profileId}"` });
+    }
+
+    await saveScoringPreferences(sessionResponse.user.id, profiles, profileId);
+
+    return NextResponse.json({
+      profiles: [...BUILT_IN_SCORING_PROFILES, ...profiles],
+      defaultProfileId: profileId ?? defaultProfileId,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, AuthenticationError, NotFoundError, ValidationError } from '@/lib/api-errors';
+import { getSharedAnalysis, isShareUnlocked, unlockCookieName } from '@/lib/analysis-shares';
+import { AnalysisResult } from '@/lib/analyze-common';
+import { renderReportHtml } from '@/lib/report-html';
+import { renderReportPdf } from '@/lib/report-pdf';
+import { getReportTemplate } from '@/lib/report-preferences';
+import { sanitizeForByteString, sanitizeObject } from '@/lib/report-sanitize';
+import { DEFAULT_REPORT_TEMPLATE } from '@/lib/report-template';
+import { Company, ReportTemplate } from '@/lib/types';
+
+// GET /api/brand-monitor/share/[token]/report?format=html|pdf - Render the report of a shared analysis with the owner's template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'html';
+
+    if (format !== 'html' && format !== 'pdf') {
+      throw new ValidationError('Invalid report format', {
+        format: 'Format must be one of: html, pdf',
+      });
+    }
+
+    const shared = await getSharedAnalysis(token);
+    if (!shared) {
+      throw new NotFoundError('Share link');
+    }
+
+    const { share, analysis } = shared;
+    if (!isShareUnlocked(share, request.cookies.get(unlockCookieName(share))?.value)) {
+      throw new AuthenticationError('This share link is password protected');
+    }
+
+    const analysisData = analysis.analysisData as AnalysisResult | null;
+    if (!analysisData) {
+      throw new ValidationError('Analysis has no results to report', {
+        analysis: 'The shared analysis has no stored results',
+      });
+    }
+
+    const company: Company = analysisData.company || {
+      id: analysis.id,
+      url: analysis.url,
+      name: analysis.companyName || analysis.url,
+      industry: analysis.industry || undefined,
+    };
+
+    let template: ReportTemplate = DEFAULT_REPORT_TEMPLATE;
+    try {
+      template = await getReportTemplate(share.userId);
+    } catch (templateError) {
+      console.warn('Could not load the owner report template, using the default:', templateError);
+    }
+
+    const sanitizedAnalysis = sanitizeObject(analysisData);
+    const sanitizedCompany: Company = sanitizeObject(company);
+    const sanitizedTemplate: ReportTemplate = sanitizeObject(template);
+    const fileName = `${sanitizeForByteString(sanitizedCompany.name || 'Company')}-GEO-Analysis-Report`;
+
+    if (format === 'pdf') {
+      const pdf = await renderReportPdf(sanitizedAnalysis, sanitizedCompany, sanitizedTemplate);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${fileName}.pdf"`,
+          'Content-Length': String(pdf.length),
+        },
+      });
+    }
+
+    return new NextResponse(sanitizeForByteString(renderReportHtml(sanitizedAnalysis, sanitizedCompany, sanitizedTemplate)), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `inline; filename="${fileName}.html"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, AuthenticationError, NotFoundError } from '@/lib/api-errors';
+import { getSharedAnalysis, isShareUnlocked, recordShareView, unlockCookieName } from '@/lib/analysis-shares';
+
+// GET /api/brand-monitor/share/[token] - Get a shared analysis (public, read-only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const shared = await getSharedAnalysis(token);
+    if (!shared) {
+      throw new NotFoundError('Share link');
+    }
+
+    const { share, analysis } = shared;
+    if (!isShareUnlocked(share, request.cookies.get(unlockCookieName(share))?.value)) {
+      throw new AuthenticationError('This share link is password protected');
+    }
+
+    try {
+      await recordShareView(share);
+    } catch (viewError) {
+      console.warn('Could not record share view:', viewError);
+    }
+
+    return NextResponse.json({
+      analysis: {
+        id: analysis.id,
+        url: analysis.url,
+        companyName: analysis.companyName,
+        industry: analysis.industry,
+        analysisData: analysis.analysisData,
+        competitors: analysis.competitors,
+        createdAt: analysis.createdAt,
+      },
+      expiresAt: share.expiresAt,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
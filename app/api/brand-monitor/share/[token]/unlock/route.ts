@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, AuthenticationError, NotFoundError, ValidationError } from '@/lib/api-errors';
+import { getSharedAnalysis, unlockCookieName, unlockCookieValue, verifySharePassword } from '@/lib/analysis-shares';
+import { clientAddress, shareUnlockLinkRateLimit, shareUnlockRateLimit } from '@/lib/rate-limit';
+
+// POST /api/brand-monitor/share/[token]/unlock - Unlock a password protected share link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const shared = await getSharedAnalysis(token);
+    if (!shared) {
+      throw new NotFoundError('Share link');
+    }
+
+    const { share } = shared;
+    const response = NextResponse.json({ success: true });
+    if (!share.passwordHash) {
+      return response;
+    }
+
+    // Only wrong passwords count. Per client first, so one client cannot lock the recipient
+    // out of the link; the higher per-link limit caps guesses spread over many addresses
+    const clientKey = `share-unlock:${share.id}:${clientAddress(request)}`;
+    const linkKey = `share-unlock:${share.id}`;
+    shareUnlockRateLimit.check(clientKey);
+    shareUnlockLinkRateLimit.check(linkKey);
+
+    const body = await request.json();
+    if (!body.password || typeof body.password !== 'string') {
+      throw new ValidationError('Invalid request', {
+        password: 'Password is required',
+      });
+    }
+
+    if (!(await verifySharePassword(share, body.password))) {
+      shareUnlockRateLimit.recordFailure(clientKey);
+      shareUnlockLinkRateLimit.recordFailure(linkKey);
+      throw new AuthenticationError('Incorrect password');
+    }
+
+    response.cookies.set(unlockCookieName(share), unlockCookieValue(share), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: share.expiresAt,
+    });
+    return response;
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { brandAnalyses } from '@/lib/db/schema';
+import { eq, and, asc, ilike } from 'drizzle-orm';
+import { buildBrandTrends, normalizeTrendUrl } from '@/lib/trends';
+import { handleApiError, AuthenticationError, ValidationError } from '@/lib/api-errors';
+
+// GET /api/brand-monitor/trends?url= - Get trend series from a company's saved analyses
+export async function GET(request: NextRequest) {
+  try {
+    const sessionResponse = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!sessionResponse?.user) {
+      throw new AuthenticationError('Please log in to view trends');
+    }
+
+    const url = request.nextUrl.searchParams.get('url');
+
+    if (!url) {
+      throw new ValidationError('Invalid request', {
+        url: 'URL is required',
+      });
+    }
+
+    // Narrow by hostname in SQL; buildBrandTrends does the exact match
+    const analyses = await db.query.brandAnalyses.findMany({
+      where: and(
+        eq(brandAnalyses.userId, sessionResponse.user.id),
+        ilike(brandAnalyses.url, `%${normalizeTrendUrl(url)}%`)
+      ),
+      orderBy: asc(brandAnalyses.createdAt),
+    });
+
+    return NextResponse.json(buildBrandTrends(url, analyses));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
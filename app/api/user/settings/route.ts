@@ -4,6 +4,15 @@ import { db } from '@/lib/db';
 import { userSettings } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { handleApiError, AuthenticationError, ValidationError } from '@/lib/api-errors';
+import { validateModelSelections } from '@/lib/provider-config';
+import { isModelSelectionList } from '@/lib/model-selection';
+
+// Returns an error message when analysisModels is set but invalid
+function checkAnalysisModels(analysisModels: unknown): string | null {
+  if (analysisModels === undefined || analysisModels === null) return null;
+  if (!isModelSelectionList(analysisModels)) return 'analysisModels must be a list of { providerId, modelId } pairs';
+  return validateModelSelections(analysisModels);
+}
 
 // GET /api/user/settings - Get user settings
 export async function GET(request: NextRequest) {
@@ -27,6 +36,7 @@ export async function GET(request: NextRequest) {
         emailNotifications: true,
         marketingEmails: false,
         defaultModel: 'gpt-3.5-turbo',
+        analysisModels: null,
         metadata: {},
       });
     }
@@ -49,13 +59,18 @@ export async function PUT(request: NextRequest) {
     }
 
     const data = await request.json();
-    const { theme, emailNotifications, marketingEmails, defaultModel, metadata } = data;
+    const { theme, emailNotifications, marketingEmails, defaultModel, analysisModels, metadata } = data;
 
     // Validate theme
     if (theme && !['light', 'dark'].includes(theme)) {
       return NextResponse.json({ error: 'Invalid theme value' }, { status: 400 });
     }
 
+    const analysisModelsError = checkAnalysisModels(analysisModels);
+    if (analysisModelsError) {
+      throw new ValidationError('Invalid model selection', { analysisModels: analysisModelsError });
+    }
+
     // Upsert user settings
     const [updatedSettings] = await db
       .insert(userSettings)
@@ -65,6 +80,7 @@ export async function PUT(request: NextRequest) {
         emailNotifications: emailNotifications ?? true,
         marketingEmails: marketingEmails ?? false,
         defaultModel: defaultModel || 'gpt-3.5-turbo',
+        analysisModels: analysisModels ?? null,
         metadata: metadata || {},
       })
       .onConflictDoUpdate({
@@ -74,6 +90,7 @@ export async function PUT(request: NextRequest) {
           emailNotifications,
           marketingEmails,
           defaultModel,
+          analysisModels,
           metadata,
           updatedAt: new Date(),
         },
@@ -109,6 +126,11 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid theme value' }, { status: 400 });
     }
 
+    const analysisModelsError = checkAnalysisModels(updates.analysisModels);
+    if (analysisModelsError) {
+      throw new ValidationError('Invalid model selection', { analysisModels: analysisModelsError });
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
     }
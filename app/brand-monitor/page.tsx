@@ -1,9 +1,10 @@
 'use client';
 
 import { BrandMonitor } from '@/components/brand-monitor/brand-monitor';
+import { AnalysisDiffView } from '@/components/brand-monitor/analysis-diff-view';
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Sparkles, Menu, X, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Sparkles, Menu, X, Plus, Trash2, Loader2, GitCompareArrows } from 'lucide-react';
 
 import { useBrandAnalyses, useBrandAnalysis, useDeleteBrandAnalysis } from '@/hooks/useBrandAnalyses';
 import { Button } from '@/components/ui/button';
@@ -19,6 +20,8 @@ function BrandMonitorContent({ session }: { session: any }) {
   const [selectedAnalysisId, setSelectedAnalysisId] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [analysisToDelete, setAnalysisToDelete] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
   
   // Queries and mutations
   const { data: analyses, isLoading: analysesLoading } = useBrandAnalyses();
@@ -39,12 +42,26 @@ function BrandMonitorContent({ session }: { session: any }) {
       if (selectedAnalysisId === analysisToDelete) {
         setSelectedAnalysisId(null);
       }
+      if (compareIds.includes(analysisToDelete)) {
+        setCompareIds(compareIds.filter(id => id !== analysisToDelete));
+        setShowComparison(false);
+      }
       setAnalysisToDelete(null);
     }
   };
   
   const handleNewAnalysis = () => {
     setSelectedAnalysisId(null);
+    setShowComparison(false);
+  };
+
+  // Keep at most two analyses selected for comparison, dropping the oldest pick
+  const toggleCompare = (analysisId: string) => {
+    setShowComparison(false);
+    setCompareIds(prev => prev.includes(analysisId)
+      ? prev.filter(id => id !== analysisId)
+      : [...prev, analysisId].slice(-2)
+    );
   };
 
   return (
@@ -96,6 +113,17 @@ function BrandMonitorContent({ session }: { session: any }) {
               <Plus className="w-4 h-4 mr-2" />
               New Analysis
             </Button>
+            {compareIds.length > 0 && (
+              <Button
+                onClick={() => setShowComparison(true)}
+                disabled={compareIds.length < 2}
+                variant="outline"
+                className="w-full mt-2"
+              >
+                <GitCompareArrows className="w-4 h-4 mr-2" />
+                {compareIds.length < 2 ? 'Select one more to compare' : 'Compare selected'}
+              </Button>
+            )}
           </div>
           
           <div className="overflow-y-auto flex-1">
@@ -111,7 +139,10 @@ function BrandMonitorContent({ session }: { session: any }) {
                     className={`p-3 rounded-lg cursor-pointer hover:bg-gray-100 ${
                       selectedAnalysisId === analysis.id ? 'bg-gray-100' : ''
                     }`}
-                    onClick={() => setSelectedAnalysisId(analysis.id)}
+                    onClick={() => {
+                      setSelectedAnalysisId(analysis.id);
+                      setShowComparison(false);
+                    }}
                   >
                     <div className="flex justify-between items-start">
                       <div className="flex-1 min-w-0">
@@ -125,16 +156,30 @@ function BrandMonitorContent({ session }: { session: any }) {
                           {analysis.createdAt && format(new Date(analysis.createdAt), 'MMM d, yyyy')}
                         </p>
                       </div>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteAnalysis(analysis.id);
-                        }}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      <div className="flex">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className={compareIds.includes(analysis.id) ? 'text-orange-600 bg-orange-50' : ''}
+                          aria-label="Select for comparison"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleCompare(analysis.id);
+                          }}
+                        >
+                          <GitCompareArrows className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteAnalysis(analysis.id);
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -146,13 +191,21 @@ function BrandMonitorContent({ session }: { session: any }) {
         {/* Main Content */}
         <div className="flex-1 overflow-y-auto">
           <div className="px-6 sm:px-8 lg:px-12 py-8">
-            <BrandMonitor 
-              selectedAnalysis={selectedAnalysisId ? currentAnalysis : null}
-              onSaveAnalysis={(analysis) => {
-                // This will be called when analysis completes
-                // We'll implement this in the next step
-              }}
-            />
+            {showComparison && compareIds.length === 2 ? (
+              <AnalysisDiffView
+                baseId={compareIds[0]}
+                compareId={compareIds[1]}
+                onClose={() => setShowComparison(false)}
+              />
+            ) : (
+              <BrandMonitor 
+                selectedAnalysis={selectedAnalysisId ? currentAnalysis : null}
+                onSaveAnalysis={(analysis) => {
+                  // This will be called when analysis completes
+                  // We'll implement this in the next step
+                }}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,144 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Loader2, Lock } from 'lucide-react';
+import { SharedAnalysisView } from '@/components/brand-monitor/shared-analysis-view';
+import { Analysis, IdentifiedCompetitor } from '@/lib/brand-monitor-reducer';
+
+interface SharedAnalysis {
+  analysis: {
+    id: string;
+    url: string;
+    companyName: string | null;
+    analysisData: Analysis | null;
+    competitors: IdentifiedCompetitor[] | null;
+    createdAt: string | null;
+  };
+  expiresAt: string;
+}
+
+type ShareState =
+  | { status: 'loading' }
+  | { status: 'locked' }
+  | { status: 'unavailable' }
+  | { status: 'ready'; shared: SharedAnalysis; analysisData: Analysis };
+
+export default function SharedAnalysisPage() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<ShareState>({ status: 'loading' });
+  const [password, setPassword] = useState('');
+  const [unlockError, setUnlockError] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+
+  const loadShare = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/brand-monitor/share/${token}`);
+      if (response.status === 401) {
+        setState({ status: 'locked' });
+        return;
+      }
+      if (!response.ok) {
+        setState({ status: 'unavailable' });
+        return;
+      }
+      const shared: SharedAnalysis = await response.json();
+      const analysisData = shared.analysis.analysisData;
+      setState(analysisData ? { status: 'ready', shared, analysisData } : { status: 'unavailable' });
+    } catch (error) {
+      console.error('Failed to load shared analysis:', error);
+      setState({ status: 'unavailable' });
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadShare();
+  }, [loadShare]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlockError('');
+    setUnlocking(true);
+
+    try {
+      const response = await fetch(`/api/brand-monitor/share/${token}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        setUnlockError(body?.error?.message || 'Failed to unlock the link');
+        return;
+      }
+      setPassword('');
+      await loadShare();
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  if (state.status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-500">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (state.status === 'unavailable') {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="max-w-md text-center">
+          <h1 className="text-2xl font-semibold text-gray-900">This link is no longer available</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            The share link has expired or was revoked. Ask the person who shared it for a new link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (state.status === 'locked') {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <form className="max-w-sm w-full space-y-4" onSubmit={handleUnlock}>
+          <div className="text-center">
+            <Lock className="w-8 h-8 mx-auto text-orange-500" />
+            <h1 className="mt-3 text-2xl font-semibold text-gray-900">Password required</h1>
+            <p className="mt-1 text-sm text-gray-600">Enter the password you were given to view this analysis.</p>
+          </div>
+          <input
+            type="password"
+            required
+            autoFocus
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            className="appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-orange-500 sm:text-sm"
+          />
+          {unlockError && <p className="text-sm text-red-600">{unlockError}</p>}
+          <button
+            type="submit"
+            disabled={unlocking || !password}
+            className="w-full h-10 px-4 rounded-[10px] text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {unlocking ? 'Unlocking...' : 'View analysis'}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  const { shared: { analysis, expiresAt }, analysisData } = state;
+  return (
+    <SharedAnalysisView
+      token={token}
+      analysis={analysisData}
+      companyName={analysis.companyName || analysisData.company?.name || analysis.url}
+      identifiedCompetitors={analysis.competitors || []}
+      createdAt={analysis.createdAt}
+      expiresAt={expiresAt}
+    />
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ChevronDown, ChevronUp, ClipboardCheck } from 'lucide-react';
+import { AIResponse, BrandTerms, ClaimStatus, ClaimTopic, CompetitorRanking, FactSheet } from '@/lib/types';
+import { auditResponses } from '@/lib/claim-audit';
+
+const TOPIC_LABELS: Record<ClaimTopic, string> = {
+  headquarters: 'Headquarters',
+  founded: 'Founded',
+  pricing: 'Pricing',
+  free_tier: 'Free tier',
+  discontinued_product: 'Discontinued product',
+};
+
+const STATUS_BADGES: Record<ClaimStatus, { label: string; className: string }> = {
+  contradicted: { label: 'Contradicted', className: 'bg-red-50 text-red-700 border-red-200' },
+  consistent: { label: 'Correct', className: 'bg-green-50 text-green-700 border-green-200' },
+  unverified: { label: 'Unverified', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+};
+
+const FREE_TIER_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'Not set' },
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' },
+];
+
+const formatList = (values?: string[]) => (values || []).join(', ');
+const parseList = (value: string) => value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+interface FactSheetDraft {
+  headquarters: string;
+  foundedYear: string;
+  pricing: string;
+  hasFreeTier: string;
+  discontinuedProducts: string;
+}
+
+function toDraft(facts: FactSheet): FactSheetDraft {
+  return {
+    headquarters: facts.headquarters || '',
+    foundedYear: facts.foundedYear ? String(facts.foundedYear) : '',
+    pricing: formatList(facts.pricing),
+    hasFreeTier: facts.hasFreeTier === undefined ? '' : facts.hasFreeTier ? 'yes' : 'no',
+    discontinuedProducts: formatList(facts.discontinuedProducts),
+  };
+}
+
+function fromDraft(draft: FactSheetDraft): FactSheet {
+  const foundedYear = parseInt(draft.foundedYear, 10);
+  return {
+    ...(draft.headquarters.trim() && { headquarters: draft.headquarters.trim() }),
+    ...(foundedYear > 0 && { foundedYear }),
+    ...(parseList(draft.pricing).length > 0 && { pricing: parseList(draft.pricing) }),
+    ...(draft.hasFreeTier && { hasFreeTier: draft.hasFreeTier === 'yes' }),
+    ...(parseList(draft.discontinuedProducts).length > 0 && { discontinuedProducts: parseList(draft.discontinuedProducts) }),
+  };
+}
+
+function FactSheetEditor({
+  companyName,
+  factSheet,
+  onSave,
+}: {
+  companyName: string;
+  factSheet: FactSheet;
+  onSave: (facts: FactSheet) => Promise<void>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<FactSheetDraft>(() => toDraft(factSheet));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Reload the fields whenever a saved or seeded fact sheet arrives
+  React.useEffect(() => {
+    setDraft(toDraft(factSheet));
+  }, [factSheet]);
+
+  const factCount = Object.keys(factSheet).length;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await onSave(fromDraft(draft));
+      setMessage('Saved');
+    } catch (error) {
+      // The facts still apply to this view, they just were not stored
+      setMessage(`${error instanceof Error ? error.message : 'Failed to save'}. The check below still uses them.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const textFields: { key: Exclude<keyof FactSheetDraft, 'hasFreeTier'>; label: string; placeholder: string }[] = [
+    { key: 'headquarters', label: 'Headquarters', placeholder: 'e.g. San Francisco, CA' },
+    { key: 'foundedYear', label: 'Founded', placeholder: 'e.g. 2022' },
+    { key: 'pricing', label: 'Current prices', placeholder: 'e.g. $16/mo, $83/mo' },
+    { key: 'discontinuedProducts', label: 'Discontinued products', placeholder: 'e.g. Legacy API' },
+  ];
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-200 px-4 py-3">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between text-left"
+      >
+        <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          <ClipboardCheck className="h-4 w-4 text-gray-500" />
+          Fact sheet
+          <Badge variant="secondary">{factCount} {factCount === 1 ? 'fact' : 'facts'}</Badge>
+        </span>
+        {open ? <ChevronUp className="h-4 w-4 text-gray-500" /> : <ChevronDown className="h-4 w-4 text-gray-500" />}
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-gray-500">
+            What is true about {companyName} today. Claims in the answers are checked against these facts; empty fields are not checked. Separate entries with commas.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            {textFields.map(field => (
+              <label key={field.key} className="block">
+                <span className="text-xs font-medium text-gray-700">{field.label}</span>
+                <Input
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  placeholder={field.placeholder}
+                  className="mt-1"
+                />
+              </label>
+            ))}
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Free tier</span>
+              <select
+                value={draft.hasFreeTier}
+                onChange={(e) => setDraft({ ...draft, hasFreeTier: e.target.value })}
+                className="mt-1 block h-9 w-full rounded-md border border-gray-200 bg-white px-3 text-sm"
+              >
+                {FREE_TIER_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="h-8 px-3 rounded-[10px] text-sm font-medium bg-[#36322F] text-white hover:bg-[#4a4542] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save fact sheet'}
+            </button>
+            {message && <span className="text-xs text-gray-500">{message}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AccuracyTabProps {
+  responses: AIResponse[];
+  brandName: string;
+  brandTerms: BrandTerms;
+  competitors: CompetitorRanking[];
+  factSheet: FactSheet;
+  onSaveFactSheet?: (facts: FactSheet) => Promise<void>; // Without it the fact sheet cannot be edited
+}
+
+export function AccuracyTab({
+  responses,
+  brandName,
+  brandTerms,
+  competitors,
+  factSheet,
+  onSaveFactSheet
+}: AccuracyTabProps) {
+  // Checked against the current fact sheet, so edits show up without a new analysis
+  const audit = useMemo(
+    () => auditResponses(
+      responses,
+      { ...brandTerms, name: brandName },
+      competitors.filter(c => !c.isOwn).map(c => ({ name: c.name })),
+      factSheet
+    ),
+    [responses, brandName, brandTerms, competitors, factSheet]
+  );
+  const contradictions = audit.claims.filter(claim => claim.status === 'contradicted').length;
+
+  return (
+    <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200 h-full flex flex-col">
+      <CardHeader className="border-b">
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="text-xl font-semibold">Factual Accuracy</CardTitle>
+            <CardDescription className="text-sm text-gray-600 mt-1">
+              What the AI providers claim about {brandName}, checked against {onSaveFactSheet ? 'your' : 'the'} fact sheet
+            </CardDescription>
+          </div>
+          <div className="text-right">
+            <p className={`text-2xl font-bold ${contradictions > 0 ? 'text-red-600' : 'text-green-600'}`}>{contradictions}</p>
+            <p className="text-xs text-gray-500 mt-1">Contradicted Claims</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 flex-1 overflow-auto">
+        {onSaveFactSheet && (
+          <FactSheetEditor companyName={brandName} factSheet={factSheet} onSave={onSaveFactSheet} />
+        )}
+
+        {audit.claims.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No claims about {brandName} found</p>
+            <p className="text-sm mt-2">Answers that state its headquarters, founding year, prices or free tier show up here.</p>
+          </div>
+        ) : (
+          <>
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-xs text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Provider</th>
+                  <th className="py-2 pr-4 font-medium text-right">Claims</th>
+                  <th className="py-2 pr-4 font-medium text-right">Correct</th>
+                  <th className="py-2 pr-4 font-medium text-right">Contradicted</th>
+                  <th className="py-2 pr-4 font-medium text-right">Unverified</th>
+                  <th className="py-2 font-medium text-right">Accuracy</th>
+                </tr>
+              </thead>
+              <tbody>
+                {audit.providers.map(provider => (
+                  <tr key={provider.provider} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 font-medium text-gray-900">{provider.provider}</td>
+                    <td className="py-2 pr-4 text-right">{provider.claims}</td>
+                    <td className="py-2 pr-4 text-right text-green-700">{provider.consistent}</td>
+                    <td className="py-2 pr-4 text-right text-red-700">{provider.contradicted}</td>
+                    <td className="py-2 pr-4 text-right text-gray-500">{provider.unverified}</td>
+                    <td className="py-2 text-right font-medium">{provider.accuracy === null ? '-' : `${provider.accuracy}%`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-2">
+              {audit.claims.map((claim, idx) => (
+                <div key={idx} className="rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`rounded border px-1.5 py-0.5 text-xs ${STATUS_BADGES[claim.status].className}`}>
+                      {STATUS_BADGES[claim.status].label}
+                    </span>
+                    <Badge variant="outline" className="text-xs">{claim.provider}</Badge>
+                    <span className="font-medium text-gray-900">{TOPIC_LABELS[claim.topic]}: {claim.claim}</span>
+                    {claim.status === 'contradicted' && claim.expected && (
+                      <span className="text-xs text-gray-500">Fact sheet: {claim.expected}</span>
+                    )}
+                  </div>
+                  <p className="mt-1 text-xs italic text-gray-600">&ldquo;{claim.sentence}&rdquo;</p>
+                  <p className="mt-0.5 text-xs text-gray-400">{claim.prompt}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
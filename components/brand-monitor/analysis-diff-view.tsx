@@ -0,0 +1,242 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, ChevronDown, Minus, X } from 'lucide-react';
+import { AnalysisDiff, PositionDelta } from '@/lib/types';
+import { useAnalysisDiff } from '@/hooks/useBrandAnalyses';
+import { HighlightedResponse } from './highlighted-response';
+
+interface AnalysisDiffViewProps {
+  baseId: string;
+  compareId: string;
+  onClose: () => void;
+}
+
+function PositionCell({ delta }: { delta?: PositionDelta }) {
+  if (!delta) {
+    return <span className="text-gray-300">—</span>;
+  }
+
+  const before = delta.beforePosition !== undefined ? `#${delta.beforePosition}` : '—';
+  const after = delta.afterPosition !== undefined ? `#${delta.afterPosition}` : '—';
+
+  return (
+    <div className="flex items-center justify-center gap-1.5">
+      <span className="text-gray-400">{before}</span>
+      <span className="text-gray-300">→</span>
+      <span className="font-medium text-gray-900">{after}</span>
+      {delta.delta !== undefined && delta.delta !== 0 && (
+        <span className={`flex items-center text-xs font-medium ${delta.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {delta.delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+          {Math.abs(delta.delta)}
+        </span>
+      )}
+      {delta.delta === 0 && <Minus className="h-3 w-3 text-gray-400" />}
+    </div>
+  );
+}
+
+function DiffContent({ diff }: { diff: AnalysisDiff }) {
+  const [expandedPairIndex, setExpandedPairIndex] = useState<number | null>(null);
+  const [flippedOnly, setFlippedOnly] = useState(false);
+
+  const providers = useMemo(
+    () => Array.from(new Set(diff.positionDeltas.map(d => d.provider))),
+    [diff.positionDeltas]
+  );
+
+  const competitorRows = useMemo(() => {
+    const rows = new Map<string, Map<string, PositionDelta>>();
+    diff.positionDeltas.forEach(delta => {
+      if (!rows.has(delta.competitor)) rows.set(delta.competitor, new Map());
+      rows.get(delta.competitor)!.set(delta.provider, delta);
+    });
+    return Array.from(rows.entries());
+  }, [diff.positionDeltas]);
+
+  const competitorNames = useMemo(
+    () => competitorRows.map(([name]) => name).filter(name => name !== diff.brandName),
+    [competitorRows, diff.brandName]
+  );
+
+  const flippedKeys = useMemo(
+    () => new Set(diff.mentionFlips.map(flip => `${flip.prompt}::${flip.provider}`)),
+    [diff.mentionFlips]
+  );
+
+  const visiblePairs = flippedOnly
+    ? diff.responsePairs.filter(pair => flippedKeys.has(`${pair.prompt}::${pair.provider}`))
+    : diff.responsePairs;
+
+  return (
+    <div className="space-y-8">
+      {/* Competitor set changes */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Competitor Changes</h3>
+        {diff.competitorsAdded.length === 0 && diff.competitorsRemoved.length === 0 ? (
+          <p className="text-sm text-gray-500">The same competitors appeared in both runs.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {diff.competitorsAdded.map(name => (
+              <Badge key={`added-${name}`} className="bg-green-100 text-green-800 border-green-200">+ {name}</Badge>
+            ))}
+            {diff.competitorsRemoved.map(name => (
+              <Badge key={`removed-${name}`} className="bg-red-100 text-red-800 border-red-200">− {name}</Badge>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Position deltas per provider */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Position Changes by Provider</h3>
+        {competitorRows.length === 0 ? (
+          <p className="text-sm text-gray-500">No provider comparison data available.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-3 font-medium text-gray-900">Company</th>
+                  {providers.map(provider => (
+                    <th key={provider} className="text-center py-2 px-3 font-medium text-gray-900">{provider}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {competitorRows.map(([competitor, byProvider]) => {
+                  const isOwn = Array.from(byProvider.values()).some(d => d.isOwn);
+                  return (
+                    <tr key={competitor} className={`border-b border-gray-100 ${isOwn ? 'bg-orange-50' : ''}`}>
+                      <td className={`py-2 px-3 ${isOwn ? 'font-semibold text-orange-600' : 'text-gray-900'}`}>{competitor}</td>
+                      {providers.map(provider => (
+                        <td key={provider} className="py-2 px-3 text-center">
+                          <PositionCell delta={byProvider.get(provider)} />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Brand mention flips */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Brand Mention Changes</h3>
+        {diff.mentionFlips.length === 0 ? (
+          <p className="text-sm text-gray-500">{diff.brandName} was mentioned in the same responses in both runs.</p>
+        ) : (
+          <div className="space-y-2">
+            {diff.mentionFlips.map((flip, idx) => (
+              <div key={idx} className="flex items-center justify-between gap-4 p-3 rounded-lg border border-gray-200">
+                <p className="text-sm text-gray-900 truncate">{flip.prompt}</p>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Badge variant="outline">{flip.provider}</Badge>
+                  <Badge className={flip.after ? 'bg-green-100 text-green-800 border-green-200' : 'bg-red-100 text-red-800 border-red-200'}>
+                    {flip.after ? 'Now mentioned' : 'No longer mentioned'}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Side by side responses */}
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-900">Responses</h3>
+          <Button size="sm" variant="outline" onClick={() => setFlippedOnly(!flippedOnly)}>
+            {flippedOnly ? 'Show all responses' : 'Show changed mentions only'}
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {visiblePairs.map((pair, idx) => {
+            const isExpanded = expandedPairIndex === idx;
+            return (
+              <div key={`${pair.prompt}-${pair.provider}`} className="rounded-lg border border-gray-200">
+                <button
+                  onClick={() => setExpandedPairIndex(isExpanded ? null : idx)}
+                  className="w-full flex items-center justify-between gap-4 p-3 text-left hover:bg-gray-50"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{pair.prompt}</p>
+                    <p className="text-xs text-gray-500">{pair.provider}</p>
+                  </div>
+                  <ChevronDown className={`h-4 w-4 text-gray-400 flex-shrink-0 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                </button>
+                {isExpanded && (
+                  <div className="grid grid-cols-2 gap-4 p-3 border-t border-gray-200">
+                    {[pair.before, pair.after].map((response, side) => (
+                      <div key={side} className="min-w-0">
+                        <p className="text-xs font-medium text-gray-500 mb-2">
+                          {side === 0 ? 'Before' : 'After'}
+                        </p>
+                        {response ? (
+                          <div className="text-sm text-gray-700">
+                            <HighlightedResponse
+                              response={response}
+                              brandName={diff.brandName}
+                              competitors={competitorNames}
+                              showHighlighting={true}
+                              renderMarkdown={false}
+                            />
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-400 italic">Not run in this analysis</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+export function AnalysisDiffView({ baseId, compareId, onClose }: AnalysisDiffViewProps) {
+  const { data: diff, isLoading, error } = useAnalysisDiff(baseId, compareId);
+
+  return (
+    <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200">
+      <CardHeader className="border-b">
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="text-xl font-semibold">Compare Analyses</CardTitle>
+            <CardDescription className="text-sm text-gray-600 mt-1">
+              {diff
+                ? `${diff.url} · ${format(new Date(diff.before.date), 'MMM d, yyyy')} → ${format(new Date(diff.after.date), 'MMM d, yyyy')}`
+                : 'What changed in AI answers between two runs'}
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="ghost" onClick={onClose} aria-label="Close comparison">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">Comparing analyses...</div>
+        ) : error ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Unable to compare these analyses</p>
+            <p className="text-sm mt-2">{error.message}</p>
+          </div>
+        ) : diff ? (
+          <DiffContent diff={diff} />
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,14 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Plus, Trash2, CheckIcon } from 'lucide-react';
-import { Company, AnalysisStage } from '@/lib/types';
+import { Loader2, Plus, Trash2, CheckIcon, Database } from 'lucide-react';
+import { Company, AnalysisStage, PartialResultData, ProviderModelSelection, ProviderOption, ScoringProfile } from '@/lib/types';
 import { IdentifiedCompetitor, PromptCompletionStatus } from '@/lib/brand-monitor-reducer';
 import { getEnabledProviders } from '@/lib/provider-config';
+import { splitProviderLabel } from '@/lib/model-selection';
+import { ModelSelector } from './model-selector';
+import { WebSearchToggle } from './web-search-toggle';
+import { ScoringProfileSelector } from './scoring-profile-selector';
 
 interface AnalysisProgressSectionProps {
   company: Company;
@@ -15,19 +19,38 @@ interface AnalysisProgressSectionProps {
     stage: AnalysisStage;
     progress: number;
     message: string;
+    partialResults?: PartialResultData[];
   };
   prompts: string[];
   customPrompts: string[];
   removedDefaultPrompts: number[];
   promptCompletionStatus: PromptCompletionStatus;
+  providers: string[]; // Provider (or provider/model) columns shown for each prompt
+  providerOptions: ProviderOption[];
+  modelSelections: ProviderModelSelection[];
+  onModelSelectionsChange: (selections: ProviderModelSelection[]) => void;
+  useWebSearch: boolean;
+  onUseWebSearchChange: (enabled: boolean) => void;
+  samplesPerPrompt: number;
+  onSamplesPerPromptChange: (samples: number) => void;
+  forceRefresh: boolean;
+  onForceRefreshChange: (enabled: boolean) => void;
+  scoringProfiles: ScoringProfile[];
+  scoringProfileId: string;
+  onScoringProfileChange: (profileId: string) => void;
+  onSaveScoringProfile: (profile: ScoringProfile) => Promise<void>;
   onRemoveDefaultPrompt: (index: number) => void;
   onRemoveCustomPrompt: (prompt: string) => void;
   onRemovePrompt: (prompt: string) => void;
   onAddPromptClick: () => void;
   onStartAnalysis: () => void;
+  cancelling: boolean;
+  onCancelAnalysis: () => void;
   detectServiceType: (company: Company) => string;
 }
 
+const SAMPLE_OPTIONS = [1, 3, 5, 10];
+
 // Provider icon mapping
 const getProviderIcon = (provider: string) => {
   switch (provider) {
@@ -81,15 +104,37 @@ export function AnalysisProgressSection({
   customPrompts,
   removedDefaultPrompts,
   promptCompletionStatus,
+  providers,
+  providerOptions,
+  modelSelections,
+  onModelSelectionsChange,
+  useWebSearch,
+  onUseWebSearchChange,
+  samplesPerPrompt,
+  onSamplesPerPromptChange,
+  forceRefresh,
+  onForceRefreshChange,
+  scoringProfiles,
+  scoringProfileId,
+  onScoringProfileChange,
+  onSaveScoringProfile,
   onRemoveDefaultPrompt,
   onRemoveCustomPrompt,
   onRemovePrompt,
   onAddPromptClick,
   onStartAnalysis,
+  cancelling,
+  onCancelAnalysis,
   detectServiceType
 }: AnalysisProgressSectionProps) {
   // Use AI-generated prompts only - no hardcoded fallbacks
   const displayPrompts = prompts.length > 0 ? prompts : customPrompts;
+  const displayProviders = providers.length > 0 ? providers : getEnabledProviders().map(config => config.name);
+  const cachedPairs = new Set(
+    (analysisProgress.partialResults || [])
+      .filter(result => result.response.cached)
+      .map(result => `${result.prompt.trim()}|${result.provider}`)
+  );
   
   return (
     <div className="flex items-center justify-center animate-panel-in">
@@ -192,14 +237,13 @@ export function AnalysisProgressSection({
                         
                         {/* Provider icons and status */}
                         <div className="mt-4 flex items-center gap-3 justify-end">
-                          {getEnabledProviders().map(config => {
-                            const provider = config.name;
+                          {displayProviders.map(provider => {
                             const normalizedPrompt = prompt.trim();
                             const status = analyzing ? (promptCompletionStatus[normalizedPrompt]?.[provider] || 'pending') : null;
                             
                             return (
-                              <div key={`${prompt}-${provider}`} className="flex items-center gap-1">
-                                {getProviderIcon(provider)}
+                              <div key={`${prompt}-${provider}`} className="flex items-center gap-1" title={provider}>
+                                {getProviderIcon(splitProviderLabel(provider).provider)}
                                 {analyzing && (
                                   <>
                                     {status === 'pending' && (
@@ -209,7 +253,13 @@ export function AnalysisProgressSection({
                                       <Loader2 className="w-4 h-4 animate-spin text-orange-500" />
                                     )}
                                     {status === 'completed' && (
-                                      <CheckIcon className="w-4 h-4 text-green-500" />
+                                      cachedPairs.has(`${normalizedPrompt}|${provider}`) ? (
+                                        <span title="Answer reused from the response cache">
+                                          <Database className="w-4 h-4 text-green-500" />
+                                        </span>
+                                      ) : (
+                                        <CheckIcon className="w-4 h-4 text-green-500" />
+                                      )
                                     )}
                                     {status === 'failed' && (
                                       <div className="w-4 h-4 rounded-full bg-red-500" />
@@ -230,6 +280,59 @@ export function AnalysisProgressSection({
                 </div>
               </div>
 
+              {/* Provider and model selection */}
+              {!analyzing && (
+                <div className="space-y-3">
+                  <ModelSelector
+                    options={providerOptions}
+                    selections={modelSelections}
+                    onChange={onModelSelectionsChange}
+                  />
+                  <div className="flex items-center gap-3">
+                    <WebSearchToggle enabled={useWebSearch} onChange={onUseWebSearchChange} />
+                    <span className="text-xs text-gray-500">
+                      Answers use each provider&apos;s native web search and keep the cited sources
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label htmlFor="samples-per-prompt" className="text-sm font-medium text-gray-900">
+                      Samples per prompt
+                    </label>
+                    <select
+                      id="samples-per-prompt"
+                      value={samplesPerPrompt}
+                      onChange={(e) => onSamplesPerPromptChange(Number(e.target.value))}
+                      className="h-8 rounded-lg border border-gray-200 bg-white px-2 text-sm"
+                    >
+                      {SAMPLE_OPTIONS.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-gray-500">
+                      Repeat each prompt to get confidence intervals for the scores
+                    </span>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={forceRefresh}
+                      onChange={(e) => onForceRefreshChange(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 accent-orange-500"
+                    />
+                    Refresh cached responses
+                    <span className="text-xs font-normal text-gray-500">
+                      Answers from the last 24 hours are reused unless this is checked
+                    </span>
+                  </label>
+                  <ScoringProfileSelector
+                    profiles={scoringProfiles}
+                    selectedId={scoringProfileId}
+                    onChange={onScoringProfileChange}
+                    onSave={onSaveScoringProfile}
+                  />
+                </div>
+              )}
+
               {/* Add Prompt Button */}
               <div className="flex justify-end mb-4">
                 <button
@@ -243,7 +346,7 @@ export function AnalysisProgressSection({
               </div>
 
               {/* Start Analysis Button */}
-              <div className="flex justify-center pt-4">
+              <div className="flex justify-center gap-3 pt-4">
                 <button
                   onClick={onStartAnalysis}
                   disabled={analyzing}
@@ -258,6 +361,22 @@ export function AnalysisProgressSection({
                     'Start Analysis'
                   )}
                 </button>
+                {analyzing && (
+                  <button
+                    onClick={onCancelAnalysis}
+                    disabled={cancelling}
+                    className="h-10 px-6 rounded-[10px] text-sm font-medium flex items-center border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {cancelling ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Cancelling...
+                      </>
+                    ) : (
+                      'Cancel Analysis'
+                    )}
+                  </button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { Loader2, CheckCircle2, XCircle, Brain, Sparkles, Bot } from 'lucide-react';
+import { Loader2, CheckCircle2, XCircle, Brain, Sparkles, Bot, Database } from 'lucide-react';
 import { AnalysisProgressData } from '@/lib/types';
 
 interface AnalysisTile {
@@ -13,6 +13,7 @@ interface AnalysisTile {
       brandMentioned: boolean;
       brandPosition?: number;
       sentiment: 'positive' | 'neutral' | 'negative';
+      cached?: boolean;
     };
   }[];
 }
@@ -88,6 +89,12 @@ export function AnalysisTiles({ tiles }: AnalysisTilesProps) {
                             }`}>
                               {provider.result.sentiment}
                             </span>
+                            {provider.result.cached && (
+                              <span className="inline-flex items-center gap-0.5 text-xs text-gray-500" title="Answer reused from the response cache">
+                                <Database className="h-3 w-3" />
+                                cached
+                              </span>
+                            )}
                           </>
                         )}
                       </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useReducer, useCallback, useState, useEffect, useRef } from 'react';
-import { Company } from '@/lib/types';
+import { BrandTerms, Company, FactSheet, ProviderModelSelection, ProviderOption, ReportTemplate, ScoringProfile } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Sparkles } from 'lucide-react';
 
@@ -21,7 +21,9 @@ import {
   getIndustryCompetitors
 } from '@/lib/brand-monitor-utils';
 import { getEnabledProviders } from '@/lib/provider-config';
-import { useSaveBrandAnalysis } from '@/hooks/useBrandAnalyses';
+import { getModelSelectionLabel } from '@/lib/model-selection';
+import { seedFactSheet } from '@/lib/claim-audit';
+import { useSaveBrandAnalysis, useBrandTrends } from '@/hooks/useBrandAnalyses';
 
 // Components
 import { UrlInputSection } from './url-input-section';
@@ -33,11 +35,16 @@ import { VisibilityScoreTab } from './visibility-score-tab';
 import { ErrorMessage } from './error-message';
 import { AddPromptModal } from './modals/add-prompt-modal';
 import { AddCompetitorModal } from './modals/add-competitor-modal';
+import { ShareAnalysisModal } from './modals/share-analysis-modal';
 import { ProviderComparisonMatrix } from './provider-comparison-matrix';
 import { ProviderRankingsTabs } from './provider-rankings-tabs';
+import { TrendsTab } from './trends-tab';
+import { CitedSourcesTab } from './cited-sources-tab';
+import { AccuracyTab } from './accuracy-tab';
+import { ReportBuilder } from './report-builder';
 
 // Hooks
-import { useSSEHandler } from './hooks/use-sse-handler';
+import { useSSEHandler, getActiveAnalysisJobId, clearActiveAnalysisJob } from './hooks/use-sse-handler';
 
 interface BrandMonitorProps {
   selectedAnalysis?: any;
@@ -53,8 +60,11 @@ export function BrandMonitor({
   const saveAnalysis = useSaveBrandAnalysis();
   const [isLoadingExistingAnalysis, setIsLoadingExistingAnalysis] = useState(false);
   const hasSavedRef = useRef(false);
+  const [resumeJobId, setResumeJobId] = useState<string | null>(null);
+  const [savedAnalysisId, setSavedAnalysisId] = useState<string | null>(null);
+  const [showShareModal, setShowShareModal] = useState(false);
   
-  const { startSSEConnection } = useSSEHandler({ 
+  const { startSSEConnection, resumeAnalysisJob, cancelAnalysis } = useSSEHandler({ 
     state, 
     dispatch,
     onAnalysisComplete: (completedAnalysis) => {
@@ -77,6 +87,7 @@ export function BrandMonitor({
           saveAnalysis.mutate(analysisData, {
             onSuccess: (savedAnalysis) => {
               console.log('Analysis saved successfully:', savedAnalysis);
+              setSavedAnalysisId(savedAnalysis.id);
               if (onSaveAnalysis) {
                 onSaveAnalysis(savedAnalysis);
               }
@@ -103,6 +114,7 @@ export function BrandMonitor({
     loading,
     analyzing,
     preparingAnalysis,
+    cancelling,
     company,
     showInput,
     showCompanyCard,
@@ -112,6 +124,16 @@ export function BrandMonitor({
     removedDefaultPrompts,
     identifiedCompetitors,
     availableProviders,
+    providerOptions,
+    modelSelections,
+    useWebSearch,
+    samplesPerPrompt,
+    forceRefresh,
+    scoringProfiles,
+    scoringProfileId,
+    brandTerms,
+    factSheet,
+    reportTemplate,
     analysisProgress,
     promptCompletionStatus,
     analyzingPrompts,
@@ -132,6 +154,7 @@ export function BrandMonitor({
   useEffect(() => {
     if (selectedAnalysis && selectedAnalysis.analysisData) {
       setIsLoadingExistingAnalysis(true);
+      setSavedAnalysisId(selectedAnalysis.id);
       // Restore the analysis state from saved data
       dispatch({ type: 'SET_ANALYSIS', payload: selectedAnalysis.analysisData });
       if (selectedAnalysis.companyName) {
@@ -147,10 +170,119 @@ export function BrandMonitor({
       // Reset state when explicitly set to null (New Analysis clicked)
       dispatch({ type: 'RESET_STATE' });
       hasSavedRef.current = false;
+      setSavedAnalysisId(null);
       setIsLoadingExistingAnalysis(false);
     }
   }, [selectedAnalysis]);
   
+  // Pick up an analysis that was still running when the page was closed or reloaded
+  useEffect(() => {
+    const jobId = getActiveAnalysisJobId();
+    if (!jobId) return;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/brand-monitor/jobs/${jobId}`);
+        if (!response.ok) {
+          clearActiveAnalysisJob();
+          return;
+        }
+        const job = await response.json();
+        const request = job.request || {};
+        const selections = request.modelSelections || [];
+        const enabledProviders = getEnabledProviders();
+        dispatch({
+          type: 'RESUME_ANALYSIS',
+          payload: {
+            company: request.company,
+            prompts: (request.customPrompts || []).map((prompt: string) => prompt.trim()),
+            providers: selections.length > 0
+              ? selections.map((selection: ProviderModelSelection) => getModelSelectionLabel(selection, selections, enabledProviders))
+              : enabledProviders.map(config => config.name),
+            competitors: request.userSelectedCompetitors || []
+          }
+        });
+        setResumeJobId(jobId);
+      } catch (e) {
+        console.error('Failed to resume analysis job:', e);
+      }
+    })();
+  }, []);
+  
+  // Connect once the resumed company is in state, so completion saves the right analysis
+  useEffect(() => {
+    if (!resumeJobId || !company) return;
+    setResumeJobId(null);
+    resumeAnalysisJob(resumeJobId).finally(() => {
+      dispatch({ type: 'SET_ANALYZING', payload: false });
+      dispatch({ type: 'SET_CANCELLING', payload: false });
+    });
+  }, [resumeJobId, company, resumeAnalysisJob]);
+  
+  // Load the user's saved report template
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await fetch('/api/brand-monitor/report-template');
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.template) {
+          dispatch({ type: 'SET_REPORT_TEMPLATE', payload: data.template });
+        }
+      } catch (e) {
+        console.error('Failed to load report template:', e);
+      }
+    })();
+  }, []);
+  
+  // Load the aliases and excluded terms saved for the company
+  useEffect(() => {
+    if (!company?.url) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/brand-monitor/brand-terms?url=${encodeURIComponent(company.url)}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) {
+          dispatch({ type: 'SET_BRAND_TERMS', payload: data.terms || {} });
+        }
+      } catch (e) {
+        console.error('Failed to load brand terms:', e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [company?.url]);
+  
+  // Load the fact sheet saved for the company, or seed one from its website
+  useEffect(() => {
+    if (!company?.url) return;
+    let cancelled = false;
+
+    (async () => {
+      let facts: FactSheet | null = null;
+      try {
+        const response = await fetch(`/api/brand-monitor/fact-sheet?url=${encodeURIComponent(company.url)}`);
+        if (response.ok) {
+          facts = (await response.json()).facts;
+        }
+      } catch (e) {
+        console.error('Failed to load fact sheet:', e);
+      }
+      if (!cancelled) {
+        dispatch({ type: 'SET_FACT_SHEET', payload: facts || company.factSheet || seedFactSheet(company) });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [company]);
+  
   // Handlers
   const handleUrlChange = useCallback((newUrl: string) => {
     dispatch({ type: 'SET_URL', payload: newUrl });
@@ -270,6 +402,14 @@ export function BrandMonitor({
       if (response.ok) {
         const data = await response.json();
         dispatch({ type: 'SET_AVAILABLE_PROVIDERS', payload: data.providers || ['OpenAI', 'Anthropic', 'Google'] });
+        
+        // Start from the user's saved selection, or every provider's default model
+        const options: ProviderOption[] = data.options || [];
+        dispatch({ type: 'SET_PROVIDER_OPTIONS', payload: options });
+        dispatch({
+          type: 'SET_MODEL_SELECTIONS',
+          payload: data.defaultSelections || options.map(option => ({ providerId: option.id, modelId: option.defaultModel }))
+        });
       }
     } catch (e) {
       // Default to providers with API keys if check fails
@@ -279,6 +419,20 @@ export function BrandMonitor({
       dispatch({ type: 'SET_AVAILABLE_PROVIDERS', payload: defaultProviders.length > 0 ? defaultProviders : ['OpenAI', 'Anthropic'] });
     }
     
+    // Scoring profiles, with the user's saved default preselected
+    try {
+      const response = await fetch('/api/brand-monitor/scoring-profiles');
+      if (response.ok) {
+        const data = await response.json();
+        dispatch({ type: 'SET_SCORING_PROFILES', payload: data.profiles || [] });
+        if (data.defaultProfileId) {
+          dispatch({ type: 'SET_SCORING_PROFILE_ID', payload: data.defaultProfileId });
+        }
+      }
+    } catch (e) {
+      console.error('Failed to load scoring profiles:', e);
+    }
+    
     // Use AI to discover real competitors dynamically
     let competitors: IdentifiedCompetitor[] = [];
     
@@ -381,6 +535,7 @@ export function BrandMonitor({
 
     // Reset saved flag for new analysis
     hasSavedRef.current = false;
+    setSavedAnalysisId(null);
 
     // No credit checks needed - completely free platform
 
@@ -449,7 +604,10 @@ export function BrandMonitor({
     
     // Initialize prompt completion status
     const initialStatus: any = {};
-    const expectedProviders = getEnabledProviders().map(config => config.name);
+    const expectedProviders = modelSelections.length > 0
+      ? modelSelections.map(selection => getModelSelectionLabel(selection, modelSelections, providerOptions))
+      : getEnabledProviders().map(config => config.name);
+    dispatch({ type: 'SET_AVAILABLE_PROVIDERS', payload: expectedProviders });
     
     normalizedPrompts.forEach(prompt => {
       initialStatus[prompt] = {};
@@ -464,23 +622,126 @@ export function BrandMonitor({
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          company, 
+          company: { ...company, factSheet }, 
           prompts: normalizedPrompts,
-          competitors: identifiedCompetitors 
+          competitors: identifiedCompetitors,
+          models: modelSelections.length > 0 ? modelSelections : undefined,
+          useWebSearch,
+          samplesPerPrompt,
+          scoringProfileId,
+          forceRefresh,
+          brandTerms
         }),
       });
     } finally {
       dispatch({ type: 'SET_ANALYZING', payload: false });
+      dispatch({ type: 'SET_CANCELLING', payload: false });
+    }
+  }, [company, removedDefaultPrompts, customPrompts, identifiedCompetitors, modelSelections, providerOptions, useWebSearch, samplesPerPrompt, scoringProfileId, forceRefresh, brandTerms, factSheet, startSSEConnection]);
+  
+  const handleCancelAnalysis = useCallback(async () => {
+    dispatch({ type: 'SET_CANCELLING', payload: true });
+    try {
+      await cancelAnalysis();
+    } catch (error) {
+      dispatch({ type: 'SET_CANCELLING', payload: false });
+      dispatch({ type: 'SET_ERROR', payload: error instanceof Error ? error.message : 'Failed to cancel analysis' });
+    }
+  }, [cancelAnalysis]);
+  
+  const handleSaveScoringProfile = useCallback(async (profile: ScoringProfile) => {
+    const response = await fetch('/api/brand-monitor/scoring-profiles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ profile, makeDefault: true })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to save scoring profile');
+    }
+    dispatch({ type: 'SET_SCORING_PROFILES', payload: data.profiles });
+    dispatch({ type: 'SET_SCORING_PROFILE_ID', payload: profile.id });
+  }, []);
+  
+  // Applied to the next analysis right away, then saved for the brand's domain
+  const handleSaveBrandTerms = useCallback(async (terms: BrandTerms) => {
+    if (!company) return;
+    dispatch({ type: 'SET_BRAND_TERMS', payload: terms });
+    const response = await fetch('/api/brand-monitor/brand-terms', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: company.url, terms })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to save brand terms');
+    }
+  }, [company]);
+  
+  // Checked against right away, then saved for the brand's domain
+  const handleSaveFactSheet = useCallback(async (facts: FactSheet) => {
+    if (!company) return;
+    dispatch({ type: 'SET_FACT_SHEET', payload: facts });
+    const response = await fetch('/api/brand-monitor/fact-sheet', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: company.url, facts })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to save fact sheet');
     }
-  }, [company, removedDefaultPrompts, customPrompts, identifiedCompetitors, startSSEConnection]);
+  }, [company]);
   
   const handleRestart = useCallback(() => {
     dispatch({ type: 'RESET_STATE' });
     hasSavedRef.current = false;
+    setSavedAnalysisId(null);
     setIsLoadingExistingAnalysis(false);
   }, []);
 
-  const handleGenerateReport = useCallback(async () => {
+  // Written once per saved analysis and kept with it; refresh writes them again
+  const handleGenerateInsights = useCallback(async (refresh: boolean) => {
+    if (!analysis || !savedAnalysisId) return;
+    const response = await fetch(`/api/brand-monitor/analyses/${savedAnalysisId}/insights${refresh ? '?refresh=true' : ''}`, {
+      method: 'POST'
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to generate insights');
+    }
+    dispatch({ type: 'SET_ANALYSIS', payload: { ...analysis, insights: data.insights } });
+  }, [analysis, savedAnalysisId]);
+
+  const handleSaveReportTemplate = useCallback(async (template: ReportTemplate) => {
+    const response = await fetch('/api/brand-monitor/report-template', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ template })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to save report template');
+    }
+    dispatch({ type: 'SET_REPORT_TEMPLATE', payload: data.template });
+  }, []);
+
+  // The report as HTML, for the preview in the report tab
+  const handlePreviewReport = useCallback(async (template: ReportTemplate) => {
+    if (!analysis || !company) return '';
+    const response = await fetch('/api/brand-monitor/generate-report?format=html', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ analysis, company, template })
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to render report preview');
+    }
+    return response.text();
+  }, [analysis, company]);
+
+  const handleGenerateReport = useCallback(async (template: ReportTemplate) => {
     if (!analysis || !company) {
       console.error('No analysis data available for report generation');
       return;
@@ -489,13 +750,13 @@ export function BrandMonitor({
     try {
       console.log('🎯 Generating comprehensive report...');
       
-      const response = await fetch('/api/brand-monitor/generate-report', {
+      const response = await fetch('/api/brand-monitor/generate-report?format=pdf', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           analysis,
           company,
-          competitors: identifiedCompetitors
+          template
         })
       });
 
@@ -504,45 +765,16 @@ export function BrandMonitor({
         throw new Error(errorData.error || 'Failed to generate report');
       }
 
-      // Get the HTML content
-      const reportHtml = await response.text();
-      
-      // Open in new window for PDF generation
-      const reportWindow = window.open('', '_blank');
-      if (reportWindow) {
-        reportWindow.document.write(reportHtml);
-        reportWindow.document.close();
-        
-        // Add print styles and trigger print dialog
-        reportWindow.addEventListener('load', () => {
-          // Add CSS for better printing
-          const printCSS = reportWindow.document.createElement('style');
-          printCSS.textContent = `
-            @media print {
-              body { -webkit-print-color-adjust: exact !important; color-adjust: exact !important; }
-              .section { page-break-before: always !important; }
-              * { -webkit-print-color-adjust: exact !important; }
-            }
-          `;
-          reportWindow.document.head.appendChild(printCSS);
-          
-          // Auto-trigger print dialog after a short delay
-          setTimeout(() => {
-            reportWindow.print();
-          }, 1000);
-        });
-      } else {
-        // Fallback: create downloadable HTML file
-        const blob = new Blob([reportHtml], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${company.name}-Brand-Analysis-Report.html`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-      }
+      // The PDF is rendered on the server, so it only needs downloading
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${company.name}-GEO-Analysis-Report.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
 
     } catch (error) {
       console.error('Error generating report:', error);
@@ -551,7 +783,7 @@ export function BrandMonitor({
         payload: `Failed to generate report: ${error instanceof Error ? error.message : 'Unknown error'}` 
       });
     }
-  }, [analysis, company, identifiedCompetitors]);
+  }, [analysis, company]);
   
   const batchScrapeAndValidateCompetitors = useCallback(async (competitors: IdentifiedCompetitor[]) => {
     const validatedCompetitors = competitors.map(comp => ({
@@ -569,6 +801,7 @@ export function BrandMonitor({
   
   // Find brand data
   const brandData = analysis?.competitors?.find(c => c.isOwn);
+  const trendsQuery = useBrandTrends(analysis ? analysis.company?.url || company?.url || url : null);
   
   return (
     <div className="flex flex-col">
@@ -607,6 +840,8 @@ export function BrandMonitor({
                   dispatch({ type: 'SET_NEW_COMPETITOR', payload: { name: '', url: '' } });
                 }}
                 onContinueToAnalysis={handleProceedToPrompts}
+                brandTerms={brandTerms}
+                onSaveBrandTerms={handleSaveBrandTerms}
               />
             </div>
             </div>
@@ -627,6 +862,20 @@ export function BrandMonitor({
           customPrompts={customPrompts}
           removedDefaultPrompts={removedDefaultPrompts}
           promptCompletionStatus={promptCompletionStatus}
+          providers={availableProviders}
+          providerOptions={providerOptions}
+          modelSelections={modelSelections}
+          onModelSelectionsChange={(selections) => dispatch({ type: 'SET_MODEL_SELECTIONS', payload: selections })}
+          useWebSearch={useWebSearch}
+          onUseWebSearchChange={(enabled) => dispatch({ type: 'SET_USE_WEB_SEARCH', payload: enabled })}
+          samplesPerPrompt={samplesPerPrompt}
+          onSamplesPerPromptChange={(samples) => dispatch({ type: 'SET_SAMPLES_PER_PROMPT', payload: samples })}
+          forceRefresh={forceRefresh}
+          onForceRefreshChange={(enabled) => dispatch({ type: 'SET_FORCE_REFRESH', payload: enabled })}
+          scoringProfiles={scoringProfiles}
+          scoringProfileId={scoringProfileId}
+          onScoringProfileChange={(profileId) => dispatch({ type: 'SET_SCORING_PROFILE_ID', payload: profileId })}
+          onSaveScoringProfile={handleSaveScoringProfile}
           onRemoveDefaultPrompt={(index) => dispatch({ type: 'REMOVE_DEFAULT_PROMPT', payload: index })}
           onRemoveCustomPrompt={(prompt) => {
             dispatch({ type: 'SET_CUSTOM_PROMPTS', payload: customPrompts.filter(p => p !== prompt) });
@@ -639,6 +888,8 @@ export function BrandMonitor({
             dispatch({ type: 'SET_NEW_PROMPT_TEXT', payload: '' });
           }}
           onStartAnalysis={handleAnalyze}
+          cancelling={cancelling}
+          onCancelAnalysis={handleCancelAnalysis}
           detectServiceType={detectServiceType}
         />
         </div>
@@ -656,17 +907,28 @@ export function BrandMonitor({
                 dispatch({ type: 'SET_ACTIVE_RESULTS_TAB', payload: tab });
               }}
               onRestart={handleRestart}
+              analysisId={savedAnalysisId || undefined}
+              onShare={() => setShowShareModal(true)}
             />
             
             {/* Main Content Area */}
             <div className="flex-1 flex flex-col">
               <div className="w-full flex-1 flex flex-col">
+                {analysis.cancelled && (
+                  <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                    This analysis was cancelled. Results only cover the prompts analyzed before it stopped.
+                  </div>
+                )}
                 {/* Tab Content */}
                 {activeResultsTab === 'visibility' && (
                   <VisibilityScoreTab
                     competitors={analysis.competitors}
                     brandData={brandData}
                     identifiedCompetitors={identifiedCompetitors}
+                    scores={analysis.scores}
+                    scoringProfileName={analysis.scoringProfile?.name}
+                    insights={analysis.insights}
+                    onGenerateInsights={savedAnalysisId ? handleGenerateInsights : undefined}
                   />
                 )}
 
@@ -726,7 +988,7 @@ export function BrandMonitor({
                       shareOfVoice={brandData.shareOfVoice}
                       averagePosition={Math.round(brandData.averagePosition)}
                       sentimentScore={brandData.sentimentScore}
-                      weeklyChange={brandData.weeklyChange}
+                      weeklyChange={brandData.weeklyChange ?? trendsQuery.data?.weeklyChange[brandData.name]}
                     />
                   </div>
                 )}
@@ -760,84 +1022,42 @@ export function BrandMonitor({
                   </Card>
                 )}
 
-                {activeResultsTab === 'report' && (
-                  <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200 h-full flex flex-col">
-                    <CardHeader className="border-b">
-                      <div className="flex justify-between items-center">
-                        <div>
-                          <CardTitle className="text-xl font-semibold flex items-center gap-2">
-                            📊 PDF Report
-                          </CardTitle>
-                          <CardDescription className="text-sm text-gray-600 mt-1">
-                            Generate comprehensive analysis report with AI insights
-                          </CardDescription>
-                        </div>
-                        <div className="text-right">
-                          <p className="text-2xl font-bold text-blue-600">PDF</p>
-                          <p className="text-xs text-gray-500 mt-1">Download Ready</p>
-                        </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="pt-6 flex-1 flex flex-col justify-center items-center">
-                      <div className="text-center max-w-md">
-                        <div className="mb-8">
-                          <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                            <svg className="w-10 h-10 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                            </svg>
-                          </div>
-                          <h3 className="text-xl font-semibold text-gray-900 mb-2">Professional Analysis Report</h3>
-                          <p className="text-gray-600 mb-6">
-                            Generate a comprehensive PDF report with AI-powered insights, executive summary, competitive analysis, and strategic recommendations.
-                          </p>
-                        </div>
-                        
-                        <div className="bg-gray-50 rounded-lg p-4 mb-6">
-                          <h4 className="font-medium text-gray-900 mb-3">Report Includes:</h4>
-                          <div className="grid grid-cols-2 gap-2 text-sm text-gray-600">
-                            <div className="flex items-center gap-2">
-                              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                              Executive Summary
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                              Competitive Analysis
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                              Search Performance
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                              Strategic Recommendations
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                              Market Positioning
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                              Methodology
-                            </div>
-                          </div>
-                        </div>
+                {activeResultsTab === 'sources' && (
+                  <CitedSourcesTab
+                    citedSources={analysis.citedSources || []}
+                    allRunsSources={trendsQuery.data?.citedSources}
+                    brandName={brandData.name}
+                  />
+                )}
 
-                        <button
-                          onClick={handleGenerateReport}
-                          className="w-full bg-blue-600 text-white font-medium py-4 px-6 rounded-[10px] hover:bg-blue-700 transition-all duration-200 [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#1e40af,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(59,_130,_246,_58%)] hover:translate-y-[1px] hover:scale-[0.98] hover:[box-shadow:inset_0px_-1px_0px_0px_#1e40af,_0px_1px_3px_0px_rgba(59,_130,_246,_40%)] active:translate-y-[2px] active:scale-[0.97] active:[box-shadow:inset_0px_1px_1px_0px_#1e40af,_0px_1px_2px_0px_rgba(59,_130,_246,_30%)] flex items-center justify-center gap-2"
-                        >
-                          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                          Generate & Download PDF Report
-                        </button>
-                        
-                        <p className="text-xs text-gray-500 mt-3">
-                          Report will open in a new window with print-to-PDF option
-                        </p>
-                      </div>
-                    </CardContent>
-                  </Card>
+                {activeResultsTab === 'accuracy' && (
+                  <AccuracyTab
+                    responses={analysis.responses}
+                    brandName={brandData.name}
+                    brandTerms={brandTerms}
+                    competitors={analysis.competitors}
+                    factSheet={factSheet}
+                    onSaveFactSheet={handleSaveFactSheet}
+                  />
+                )}
+
+                {activeResultsTab === 'trends' && (
+                  <TrendsTab
+                    trends={trendsQuery.data}
+                    isLoading={trendsQuery.isLoading}
+                    error={trendsQuery.error}
+                    brandName={brandData.name}
+                  />
+                )}
+
+                {activeResultsTab === 'report' && (
+                  <ReportBuilder
+                    template={reportTemplate}
+                    companyName={brandData.name}
+                    onSaveTemplate={handleSaveReportTemplate}
+                    onPreview={handlePreviewReport}
+                    onDownload={handleGenerateReport}
+                  />
                 )}
               </div>
             </div>
@@ -872,6 +1092,14 @@ export function BrandMonitor({
         }}
       />
 
+      {savedAnalysisId && (
+        <ShareAnalysisModal
+          isOpen={showShareModal}
+          analysisId={savedAnalysisId}
+          onClose={() => setShowShareModal(false)}
+        />
+      )}
+
       <AddCompetitorModal
         isOpen={showAddCompetitorModal}
         competitorName={newCompetitorName}
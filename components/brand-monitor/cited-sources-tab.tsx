@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { ExternalLink } from 'lucide-react';
+import { CitedSource } from '@/lib/types';
+
+type SourceScope = 'run' | 'all';
+
+const MAX_SOURCES = 25;
+
+interface CitedSourcesTabProps {
+  citedSources: CitedSource[]; // This analysis
+  allRunsSources?: CitedSource[]; // Every saved analysis of the company
+  brandName: string;
+}
+
+export function CitedSourcesTab({
+  citedSources,
+  allRunsSources,
+  brandName
+}: CitedSourcesTabProps) {
+  const [scope, setScope] = useState<SourceScope>('run');
+
+  const sources = (scope === 'all' && allRunsSources ? allRunsSources : citedSources).slice(0, MAX_SOURCES);
+  const brandCitations = sources.reduce((sum, source) => sum + (source.brands[brandName] || 0), 0);
+
+  return (
+    <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200 h-full flex flex-col">
+      <CardHeader className="border-b">
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="text-xl font-semibold">Top Cited Sources</CardTitle>
+            <CardDescription className="text-sm text-gray-600 mt-1">
+              Pages the AI providers cite when ranking you and your competitors
+            </CardDescription>
+          </div>
+          <div className="text-right">
+            <p className="text-2xl font-bold text-orange-600">{brandCitations}</p>
+            <p className="text-xs text-gray-500 mt-1">Citations Supporting {brandName}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 flex-1 overflow-auto">
+        {allRunsSources && allRunsSources.length > 0 && (
+          <Tabs value={scope} onValueChange={(value) => setScope(value as SourceScope)} className="mb-4">
+            <TabsList>
+              <TabsTrigger value="run" className="text-xs">This Analysis</TabsTrigger>
+              <TabsTrigger value="all" className="text-xs">All Runs</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
+        {sources.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No cited sources yet</p>
+            <p className="text-sm mt-2">Run the analysis with Web Search on to see which pages the providers cite.</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-xs text-gray-500">
+                <th className="py-2 pr-4 font-medium">Domain</th>
+                <th className="py-2 pr-4 font-medium text-right">Citations</th>
+                <th className="py-2 pr-4 font-medium">Supports</th>
+                <th className="py-2 font-medium">Cited By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sources.map(source => (
+                <tr key={source.domain} className="border-b border-gray-100 align-top">
+                  <td className="py-3 pr-4">
+                    <p className="font-medium text-gray-900">{source.domain}</p>
+                    <ul className="mt-1 space-y-0.5">
+                      {source.pages.map(page => (
+                        <li key={page.url}>
+                          <a
+                            href={page.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline"
+                          >
+                            <span className="truncate max-w-xs">{page.title || page.url}</span>
+                            <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="py-3 pr-4 text-right font-semibold text-gray-900">{source.citations}</td>
+                  <td className="py-3 pr-4">
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(source.brands)
+                        .sort(([, a], [, b]) => b - a)
+                        .map(([brand, count]) => (
+                          <Badge
+                            key={brand}
+                            variant="outline"
+                            className={`text-xs ${brand === brandName ? 'bg-orange-100 text-orange-800 border-orange-200' : ''}`}
+                          >
+                            {brand} · {count}
+                          </Badge>
+                        ))}
+                    </div>
+                  </td>
+                  <td className="py-3 text-xs text-gray-600">{source.providers.join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
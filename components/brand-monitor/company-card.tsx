@@ -3,10 +3,118 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Globe, Building2, ExternalLink, Plus, Trash2 } from 'lucide-react';
-import { Company } from '@/lib/types';
+import { Input } from '@/components/ui/input';
+import { Globe, Building2, ExternalLink, Plus, Trash2, Tags, ChevronDown, ChevronUp } from 'lucide-react';
+import { BrandTerms, Company } from '@/lib/types';
 import Image from 'next/image';
 
+const BRAND_TERM_FIELDS: { key: keyof BrandTerms; label: string; placeholder: string }[] = [
+  { key: 'aliases', label: 'Aliases', placeholder: 'e.g. FC, Firecrawl API' },
+  { key: 'misspellings', label: 'Misspellings', placeholder: 'e.g. Firecrawler, Fire Crawl' },
+  { key: 'productNames', label: 'Product names', placeholder: 'e.g. Extract, Crawl Endpoint' },
+  { key: 'excludedTerms', label: "Don't count", placeholder: 'e.g. apple pie, green apple' },
+];
+
+const formatTerms = (terms?: string[]) => (terms || []).join(', ');
+const parseTerms = (value: string) => value.split(',').map(term => term.trim()).filter(Boolean);
+
+function BrandTermsEditor({
+  companyName,
+  brandTerms,
+  onSave,
+}: {
+  companyName: string;
+  brandTerms: BrandTerms;
+  onSave: (terms: BrandTerms) => Promise<void>;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const [draft, setDraft] = React.useState<Record<keyof BrandTerms, string>>({
+    aliases: '', misspellings: '', productNames: '', excludedTerms: '',
+  });
+  const [saving, setSaving] = React.useState(false);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  // Reload the fields whenever saved terms arrive
+  React.useEffect(() => {
+    setDraft({
+      aliases: formatTerms(brandTerms.aliases),
+      misspellings: formatTerms(brandTerms.misspellings),
+      productNames: formatTerms(brandTerms.productNames),
+      excludedTerms: formatTerms(brandTerms.excludedTerms),
+    });
+  }, [brandTerms]);
+
+  const termCount = BRAND_TERM_FIELDS.reduce((count, field) => count + (brandTerms[field.key]?.length || 0), 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await onSave({
+        aliases: parseTerms(draft.aliases),
+        misspellings: parseTerms(draft.misspellings),
+        productNames: parseTerms(draft.productNames),
+        excludedTerms: parseTerms(draft.excludedTerms),
+      });
+      setMessage('Saved');
+    } catch (error) {
+      // The terms still apply to this analysis, they just were not stored
+      setMessage(`${error instanceof Error ? error.message : 'Failed to save'}. They still apply to this analysis.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 px-8 py-4">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between text-left"
+      >
+        <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          <Tags className="h-4 w-4 text-gray-500" />
+          Brand detection
+          {termCount > 0 && (
+            <Badge variant="secondary">{termCount} {termCount === 1 ? 'term' : 'terms'}</Badge>
+          )}
+        </span>
+        {open ? <ChevronUp className="h-4 w-4 text-gray-500" /> : <ChevronDown className="h-4 w-4 text-gray-500" />}
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-gray-500">
+            Other names that count as {companyName} in AI responses, and phrases that look like it but should not count. Separate entries with commas.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            {BRAND_TERM_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className="text-xs font-medium text-gray-700">{field.label}</span>
+                <Input
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  placeholder={field.placeholder}
+                  className="mt-1"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="h-8 px-3 rounded-[10px] text-sm font-medium bg-[#36322F] text-white hover:bg-[#4a4542] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save terms'}
+            </button>
+            {message && <span className="text-xs text-gray-500">{message}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface CompanyCardProps {
   company: Company;
   onAnalyze: () => void;
@@ -26,6 +134,8 @@ interface CompanyCardProps {
   onRemoveCompetitor?: (index: number) => void;
   onAddCompetitor?: () => void;
   onContinueToAnalysis?: () => void;
+  brandTerms?: BrandTerms;
+  onSaveBrandTerms?: (terms: BrandTerms) => Promise<void>;
 }
 
 export function CompanyCard({ 
@@ -36,7 +146,9 @@ export function CompanyCard({
   identifiedCompetitors = [],
   onRemoveCompetitor,
   onAddCompetitor,
-  onContinueToAnalysis 
+  onContinueToAnalysis,
+  brandTerms = {},
+  onSaveBrandTerms
 }: CompanyCardProps) {
   const [logoError, setLogoError] = React.useState(false);
   const [faviconError, setFaviconError] = React.useState(false);
@@ -159,6 +271,11 @@ export function CompanyCard({
         </div>
       </div>
       
+      {/* Aliases and excluded look-alikes of the brand */}
+      {onSaveBrandTerms && (
+        <BrandTermsEditor companyName={company.name} brandTerms={brandTerms} onSave={onSaveBrandTerms} />
+      )}
+      
       {/* Competitors Section */}
       {showCompetitors && identifiedCompetitors.length > 0 && (
         <div className="border-t border-gray-200">
@@ -3,7 +3,7 @@
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { AIResponse } from '@/lib/types';
+import { AIResponse, BrandMention, MentionStance } from '@/lib/types';
 import { detectBrandMention, detectMultipleBrands } from '@/lib/brand-detection-utils';
 import { getBrandDetectionOptions } from '@/lib/brand-detection-config';
 import { highlightBrandMentions, segmentsToReactElements } from '@/lib/text-highlighting-utils';
@@ -46,6 +46,50 @@ function cleanResponseText(text: string, providerName?: string): string {
   return cleaned.trim();
 }
 
+const STANCE_LABELS: Record<MentionStance, { label: string; className: string }> = {
+  recommended: { label: 'Recommended', className: 'bg-green-50 text-green-700 border-green-200' },
+  neutral: { label: 'Neutral listing', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+  warned_against: { label: 'Warned against', className: 'bg-red-50 text-red-700 border-red-200' },
+  compared_unfavorably: { label: 'Compared unfavorably', className: 'bg-orange-50 text-orange-700 border-orange-200' },
+};
+
+const SENTIMENT_DOT: Record<BrandMention['sentiment'], string> = {
+  positive: 'bg-green-500',
+  neutral: 'bg-gray-400',
+  negative: 'bg-red-500',
+};
+
+// One line per mention: company, stance, sentiment and the sentence it was read from
+function MentionAnnotations({ mentions, brandName }: { mentions: BrandMention[]; brandName: string }) {
+  if (mentions.length === 0) return null;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-1.5 not-prose">
+      <p className="text-xs font-medium text-gray-500">Mentions</p>
+      {mentions.map((mention, idx) => (
+        <div key={idx} className="flex items-start gap-2 text-xs">
+          <span
+            className={`mt-1 h-2 w-2 flex-shrink-0 rounded-full ${SENTIMENT_DOT[mention.sentiment]}`}
+            title={`${mention.sentiment} sentiment`}
+          />
+          <span className={`font-medium flex-shrink-0 ${mention.company === brandName ? 'text-orange-600' : 'text-gray-900'}`}>
+            {mention.company}
+          </span>
+          <span className={`flex-shrink-0 rounded border px-1.5 py-0.5 text-[10px] ${STANCE_LABELS[mention.stance].className}`}>
+            {STANCE_LABELS[mention.stance].label}
+          </span>
+          <span
+            className="text-gray-600 italic"
+            title={mention.reasons.length > 0 ? `Reasons: ${mention.reasons.map(r => r.theme).join(', ')}` : undefined}
+          >
+            &ldquo;{mention.sentence}&rdquo;
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function HighlightedResponse({
   response,
   brandName,
@@ -170,6 +214,10 @@ export function HighlightedResponse({
     return <>{cleanedResponse}</>;
   }
   
+  const annotations = response.mentions ? (
+    <MentionAnnotations mentions={response.mentions} brandName={brandName} />
+  ) : null;
+
   if (renderMarkdown) {
     // For markdown with highlighting, render markdown first, then apply highlights to the final text
     return (
@@ -227,11 +275,17 @@ export function HighlightedResponse({
         >
           {cleanedResponse}
         </ReactMarkdown>
+        {annotations}
       </div>
     );
   }
   
-  return <div className="whitespace-pre-wrap">{elements}</div>;
+  return (
+    <>
+      <div className="whitespace-pre-wrap">{elements}</div>
+      {annotations}
+    </>
+  );
 }
 
 // Export a simpler version for use in tooltips or previews
@@ -8,6 +8,36 @@ import {
   AnalysisProgressData, 
   PartialResultData 
 } from '@/lib/types';
+import { SSE_MAX_RECONNECT_ATTEMPTS, SSE_RECONNECT_DELAY } from '@/config/constants';
+
+const ACTIVE_JOB_STORAGE_KEY = 'brand-monitor:active-analysis-job';
+
+/**
+ * Id of the analysis job this browser last started and has not seen finish
+ */
+export function getActiveAnalysisJobId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function clearActiveAnalysisJob() {
+  try {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+  } catch {
+    // Storage unavailable (private mode); nothing to clear
+  }
+}
+
+function setActiveAnalysisJob(jobId: string) {
+  try {
+    localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, jobId);
+  } catch {
+    // Storage unavailable; the analysis just won't resume after a reload
+  }
+}
 
 interface UseSSEHandlerProps {
   state: BrandMonitorState;
@@ -20,6 +50,12 @@ export function useSSEHandler({ state, dispatch, onCreditsUpdate, onAnalysisComp
   // Use ref to track current prompt status to avoid closure issues in SSE handler
   const promptCompletionStatusRef = useRef(state.promptCompletionStatus);
   const analyzingPromptsRef = useRef(state.analyzingPrompts);
+  // Job being followed, the last event id seen and whether it sent complete/error
+  const jobIdRef = useRef<string | null>(null);
+  const lastEventIdRef = useRef(0);
+  const finishedRef = useRef(false);
+  // Aborts a stream that has no job behind it
+  const streamAbortRef = useRef<AbortController | null>(null);
   
   useEffect(() => {
     promptCompletionStatusRef.current = state.promptCompletionStatus;
@@ -178,7 +214,8 @@ export function useSSEHandler({ state, dispatch, onCreditsUpdate, onAnalysisComp
               result: {
                 brandMentioned: partialData.response.brandMentioned || false,
                 brandPosition: partialData.response.brandPosition,
-                sentiment: partialData.response.sentiment || 'neutral'
+                sentiment: partialData.response.sentiment || 'neutral',
+                cached: partialData.response.cached
               }
             };
             dispatch({
@@ -222,7 +259,7 @@ export function useSSEHandler({ state, dispatch, onCreditsUpdate, onAnalysisComp
               });
             }
           }
-        } /* else if ('status' in analysisCompleteData && analysisCompleteData.status === 'skipped') {
+        } else if (analysisCompleteData.status === 'skipped') {
           dispatch({
             type: 'UPDATE_PROMPT_STATUS',
             payload: {
@@ -231,7 +268,7 @@ export function useSSEHandler({ state, dispatch, onCreditsUpdate, onAnalysisComp
               status: 'skipped'
             }
           });
-        } else */ {
+        } else {
           dispatch({
             type: 'UPDATE_PROMPT_STATUS',
             payload: {
@@ -244,6 +281,8 @@ export function useSSEHandler({ state, dispatch, onCreditsUpdate, onAnalysisComp
         break;
 
       case 'complete':
+        finishedRef.current = true;
+        clearActiveAnalysisJob();
         const completeData = eventData.data as { analysis: any };
         dispatch({
           type: 'ANALYSIS_COMPLETE',
@@ -260,6 +299,8 @@ export function useSSEHandler({ state, dispatch, onCreditsUpdate, onAnalysisComp
         break;
 
       case 'error':
+        finishedRef.current = true;
+        clearActiveAnalysisJob();
         const errorData = eventData.data as { message?: string };
         dispatch({
           type: 'SET_ERROR',
@@ -270,70 +311,172 @@ export function useSSEHandler({ state, dispatch, onCreditsUpdate, onAnalysisComp
     }
   };
 
+  const readEventStream = async (response: Response) => {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const parser = new SSEParser();
+    const decoder = new TextDecoder();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const chunk = decoder.decode(value, { stream: true });
+      const events = parser.parse(chunk);
+
+      for (const event of events) {
+        if (event.id) {
+          lastEventIdRef.current = Number(event.id);
+        }
+        if (event.data) {
+          try {
+            const eventData = JSON.parse(event.data);
+            handleSSEEvent(eventData);
+          } catch (e) {
+            console.error('Failed to parse SSE event:', e);
+          }
+        }
+      }
+    }
+  };
+
+  // Reconnect to the job's event stream until it sends complete or error,
+  // backing off after every attempt that brought no new events
+  const followJob = async (jobId: string) => {
+    let failedAttempts = 0;
+
+    while (!finishedRef.current) {
+      if (failedAttempts >= SSE_MAX_RECONNECT_ATTEMPTS) {
+        throw new Error('Connection lost');
+      }
+      if (failedAttempts > 0) {
+        await new Promise(resolve => setTimeout(resolve, SSE_RECONNECT_DELAY * 2 ** (failedAttempts - 1)));
+      }
+
+      const seenEventId = lastEventIdRef.current;
+      let response: Response | null = null;
+      try {
+        response = await fetch(`/api/brand-monitor/jobs/${jobId}/events`, {
+          headers: { 'Last-Event-ID': String(seenEventId) },
+        });
+      } catch (error) {
+        console.warn('[SSE] Failed to reconnect to analysis job:', error);
+      }
+
+      if (response?.status === 404) {
+        clearActiveAnalysisJob();
+        throw new Error('Analysis job not found');
+      }
+      if (response?.ok) {
+        try {
+          await readEventStream(response);
+        } catch (error) {
+          console.warn('[SSE] Connection to analysis job lost:', error);
+        }
+      }
+
+      failedAttempts = lastEventIdRef.current > seenEventId ? 0 : failedAttempts + 1;
+    }
+  };
+
+  const handleConnectionError = (error: unknown) => {
+    // Check if it's a connection error
+    if (error instanceof TypeError && error.message.includes('network')) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: 'Connection lost. Please check your internet connection and try again.'
+      });
+    } else {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: 'Failed to analyze brand visibility'
+      });
+    }
+    console.error(error);
+    
+    // Reset progress
+    dispatch({
+      type: 'SET_ANALYSIS_PROGRESS',
+      payload: {
+        stage: 'initializing',
+        progress: 0,
+        message: '',
+        competitors: [],
+        prompts: [],
+        partialResults: []
+      }
+    });
+  };
+
   const startSSEConnection = async (url: string, options?: RequestInit) => {
+    jobIdRef.current = null;
+    lastEventIdRef.current = 0;
+    finishedRef.current = false;
+    const streamAbort = new AbortController();
+    streamAbortRef.current = streamAbort;
+
     try {
-      const response = await fetch(url, options);
+      const response = await fetch(url, { ...options, signal: streamAbort.signal });
       
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to analyze');
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
+      // Analyses that run as a persisted job can be followed again if the stream drops
+      const jobId = response.headers.get('X-Analysis-Job-Id');
+      if (!jobId) {
+        await readEventStream(response);
+        return;
       }
 
-      const parser = new SSEParser();
-      const decoder = new TextDecoder();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+      jobIdRef.current = jobId;
+      setActiveAnalysisJob(jobId);
+      try {
+        await readEventStream(response);
+      } catch (streamError) {
+        console.warn('[SSE] Analysis stream interrupted, reconnecting:', streamError);
+      }
+      await followJob(jobId);
+    } catch (error) {
+      // Cancelled by the user; a plain stream leaves no partial analysis to show
+      if (streamAbort.signal.aborted) return;
+      handleConnectionError(error);
+    } finally {
+      streamAbortRef.current = null;
+    }
+  };
 
-        const chunk = decoder.decode(value, { stream: true });
-        const events = parser.parse(chunk);
+  // Replay a job from its first event, e.g. after the page was reloaded mid-analysis
+  const resumeAnalysisJob = async (jobId: string) => {
+    jobIdRef.current = jobId;
+    lastEventIdRef.current = 0;
+    finishedRef.current = false;
 
-        for (const event of events) {
-          if (event.data) {
-            try {
-              const eventData = JSON.parse(event.data);
-              handleSSEEvent(eventData);
-            } catch (e) {
-              console.error('Failed to parse SSE event:', e);
-            }
-          }
-        }
-      }
+    try {
+      await followJob(jobId);
     } catch (error) {
-      // Check if it's a connection error
-      if (error instanceof TypeError && error.message.includes('network')) {
-        dispatch({
-          type: 'SET_ERROR',
-          payload: 'Connection lost. Please check your internet connection and try again.'
-        });
-      } else {
-        dispatch({
-          type: 'SET_ERROR',
-          payload: 'Failed to analyze brand visibility'
-        });
-      }
-      console.error(error);
-      
-      // Reset progress
-      dispatch({
-        type: 'SET_ANALYSIS_PROGRESS',
-        payload: {
-          stage: 'initializing',
-          progress: 0,
-          message: '',
-          competitors: [],
-          prompts: [],
-          partialResults: []
-        }
-      });
+      handleConnectionError(error);
+    }
+  };
+
+  // A cancelled job still sends complete with the partial analysis; a plain stream is just closed
+  const cancelAnalysis = async () => {
+    const jobId = jobIdRef.current;
+    if (!jobId) {
+      streamAbortRef.current?.abort();
+      return;
+    }
+
+    const response = await fetch(`/api/brand-monitor/jobs/${jobId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error?.message || 'Failed to cancel analysis');
     }
   };
 
-  return { startSSEConnection };
+  return { startSSEConnection, resumeAnalysisJob, cancelAnalysis };
 }
\ No newline at end of file
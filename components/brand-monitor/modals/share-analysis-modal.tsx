@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Check, Copy, Lock, Loader2 } from 'lucide-react';
+import { useAnalysisShares, useCreateAnalysisShare, useRevokeAnalysisShare } from '@/hooks/useBrandAnalyses';
+import { AnalysisShareLink } from '@/lib/types';
+
+interface ShareAnalysisModalProps {
+  isOpen: boolean;
+  analysisId: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [1, 7, 30, 90];
+
+function shareStatus(share: AnalysisShareLink): string | null {
+  if (share.revokedAt) return 'Revoked';
+  if (new Date(share.expiresAt) <= new Date()) return 'Expired';
+  return null;
+}
+
+export function ShareAnalysisModal({
+  isOpen,
+  analysisId,
+  onClose
+}: ShareAnalysisModalProps) {
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [password, setPassword] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const sharesQuery = useAnalysisShares(isOpen ? analysisId : null);
+  const createShare = useCreateAnalysisShare(analysisId);
+  const revokeShare = useRevokeAnalysisShare(analysisId);
+
+  if (!isOpen) return null;
+
+  const handleCopy = async (share: AnalysisShareLink) => {
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(current => (current === share.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const share = await createShare.mutateAsync({
+        expiresInDays,
+        ...(password.trim() && { password: password.trim() }),
+      });
+      setPassword('');
+      await handleCopy(share);
+    } catch {
+      // Shown below the form through createShare.error
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full mx-4 animate-fade-in">
+        <div className="p-6">
+          <h3 className="text-lg font-semibold mb-1">Share Analysis</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Anyone with the link can view the results and the report without logging in until it expires.
+          </p>
+          <div className="space-y-4">
+            <div className="flex gap-3">
+              <div className="w-32">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Expires in
+                </label>
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                >
+                  {EXPIRY_OPTIONS.map(days => (
+                    <option key={days} value={days}>
+                      {days === 1 ? '1 day' : `${days} days`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Password (optional)
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="At least 6 characters"
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            {createShare.error && (
+              <p className="text-sm text-red-600">{createShare.error.message}</p>
+            )}
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Links</p>
+              {sharesQuery.isLoading ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading share links...
+                </div>
+              ) : sharesQuery.data?.length ? (
+                <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {sharesQuery.data.map(share => {
+                    const status = shareStatus(share);
+                    return (
+                      <li key={share.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                        <div className="flex-1 min-w-0">
+                          <p className={`flex items-center gap-1 font-medium ${status ? 'text-gray-400' : 'text-gray-900'}`}>
+                            {share.passwordProtected && <Lock className="w-3 h-3" />}
+                            {status || `Expires ${format(new Date(share.expiresAt), 'MMM d, yyyy')}`}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {share.viewCount} {share.viewCount === 1 ? 'view' : 'views'}
+                            {share.lastViewedAt && `, last ${format(new Date(share.lastViewedAt), 'MMM d, h:mm a')}`}
+                          </p>
+                        </div>
+                        {!status && (
+                          <>
+                            <button
+                              onClick={() => handleCopy(share)}
+                              className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border border-gray-200 text-gray-700 hover:bg-gray-50"
+                            >
+                              {copiedId === share.id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                              {copiedId === share.id ? 'Copied' : 'Copy'}
+                            </button>
+                            <button
+                              onClick={() => revokeShare.mutate(share.id)}
+                              disabled={revokeShare.isPending}
+                              className="px-2 py-1 rounded-md text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                            >
+                              Revoke
+                            </button>
+                          </>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">No share links yet.</p>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-3 mt-6">
+            <button
+              onClick={handleCreate}
+              disabled={createShare.isPending}
+              className="flex-1 h-10 px-4 rounded-[10px] text-sm font-medium transition-all duration-200 disabled:cursor-not-allowed disabled:opacity-50 bg-orange-500 text-white hover:bg-orange-300 dark:bg-orange-500 dark:hover:bg-orange-300 dark:text-white [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#c2410c,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(234,_88,_12,_58%)] hover:translate-y-[1px] hover:scale-[0.98] hover:[box-shadow:inset_0px_-1px_0px_0px_#c2410c,_0px_1px_3px_0px_rgba(234,_88,_12,_40%)] active:translate-y-[2px] active:scale-[0.97] active:[box-shadow:inset_0px_1px_1px_0px_#c2410c,_0px_1px_2px_0px_rgba(234,_88,_12,_30%)] disabled:shadow-none disabled:hover:translate-y-0 disabled:hover:scale-100"
+            >
+              {createShare.isPending ? 'Creating...' : 'Create & Copy Link'}
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 h-10 rounded-[10px] text-sm font-medium transition-all duration-200 bg-[#36322F] text-[#fff] hover:bg-[#4a4542] [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)] hover:translate-y-[1px] hover:scale-[0.98] hover:[box-shadow:inset_0px_-1px_0px_0px_#171310,_0px_1px_3px_0px_rgba(58,_33,_8,_40%)] active:translate-y-[2px] active:scale-[0.97] active:[box-shadow:inset_0px_1px_1px_0px_#171310,_0px_1px_2px_0px_rgba(58,_33,_8,_30%)]"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import { CheckIcon } from 'lucide-react';
+import { ProviderModelSelection, ProviderOption } from '@/lib/types';
+
+interface ModelSelectorProps {
+  options: ProviderOption[];
+  selections: ProviderModelSelection[];
+  onChange: (selections: ProviderModelSelection[]) => void;
+  disabled?: boolean;
+}
+
+export function ModelSelector({ options, selections, onChange, disabled }: ModelSelectorProps) {
+  if (options.length === 0) {
+    return null;
+  }
+
+  const isSelected = (providerId: string, modelId: string) =>
+    selections.some(s => s.providerId === providerId && s.modelId === modelId);
+
+  const toggle = (providerId: string, modelId: string) => {
+    if (isSelected(providerId, modelId)) {
+      // Keep at least one model selected
+      if (selections.length === 1) return;
+      onChange(selections.filter(s => !(s.providerId === providerId && s.modelId === modelId)));
+    } else {
+      onChange([...selections, { providerId, modelId }]);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-gray-900">Models</p>
+      {options.map(option => (
+        <div key={option.id} className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600 w-28 flex-shrink-0">{option.icon} {option.name}</span>
+          {option.models.map(model => {
+            const selected = isSelected(option.id, model.id);
+            return (
+              <button
+                key={model.id}
+                onClick={() => toggle(option.id, model.id)}
+                disabled={disabled}
+                className={`
+                  flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-medium transition-all
+                  ${selected
+                    ? 'bg-orange-100 text-orange-700 hover:bg-orange-200'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }
+                  ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+                `}
+                title={model.id}
+              >
+                {selected && <CheckIcon className="w-3 h-3" />}
+                {model.name}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
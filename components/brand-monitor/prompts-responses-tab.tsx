@@ -4,7 +4,9 @@ import { Button } from '@/components/ui/button';
 import { ChevronDown, ChevronsDown, ChevronsUp } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { BrandPrompt, AIResponse } from '@/lib/types';
+import { splitProviderLabel } from '@/lib/model-selection';
 import { HighlightedResponse } from './highlighted-response';
+import { ResponseSources } from './response-sources';
 
 interface PromptsResponsesTabProps {
   prompts: BrandPrompt[];
@@ -210,7 +212,7 @@ export function PromptsResponsesTab({
                 
                 {/* Provider icons preview - deduplicated and ordered */}
                 <div className="flex items-center gap-2 shrink-0">
-                  {['OpenAI', 'Anthropic', 'Google', 'Perplexity'].map((providerName) => {
+                  {Array.from(new Set(promptResponses.map(r => r.provider))).map((providerName) => {
                     const providerResponse = promptResponses.find(r => r.provider === providerName);
                     if (!providerResponse) return null;
                     
@@ -218,9 +220,9 @@ export function PromptsResponsesTab({
                     const isFailed = !providerResponse.response || providerResponse.response.trim().length === 0;
                     
                     return (
-                      <div key={providerName} className="relative flex items-center">
+                      <div key={providerName} className="relative flex items-center" title={providerName}>
                         <div className="w-6 h-6 flex items-center justify-center">
-                          {getProviderIcon(providerName)}
+                          {getProviderIcon(splitProviderLabel(providerName).provider)}
                         </div>
                         {isFailed ? (
                           <div className="absolute -top-0.5 -right-0.5 w-3 h-3 flex items-center justify-center bg-red-500 rounded-full border border-white">
@@ -252,7 +254,7 @@ export function PromptsResponsesTab({
               <div className="border-t border-gray-100 px-3 py-3">
                 {promptResponses.length > 0 ? (
                   <div className="space-y-4">
-                    {['OpenAI', 'Anthropic', 'Google', 'Perplexity'].map((providerName) => {
+                    {Array.from(new Set(promptResponses.map(r => r.provider))).map((providerName) => {
                       const response = promptResponses.find(r => r.provider === providerName);
                       if (!response) return null;
                       
@@ -263,7 +265,7 @@ export function PromptsResponsesTab({
                       <div key={providerName} className="space-y-1">
                         <div className="flex items-center gap-2">
                           <div className="flex items-center gap-1">
-                            {getProviderIcon(response.provider)}
+                            {getProviderIcon(splitProviderLabel(response.provider).provider)}
                             <span className="font-medium text-sm text-gray-900">{response.provider}</span>
                           </div>
                           {isFailed ? (
@@ -280,6 +282,11 @@ export function PromptsResponsesTab({
                               Position #{response.brandPosition}
                             </Badge>
                           )}
+                          {response.webSearchUsed && (
+                            <Badge variant="outline" className="text-xs text-blue-700 border-blue-200">
+                              Web Search
+                            </Badge>
+                          )}
                         </div>
                         <div className="bg-gray-50 rounded-md p-3 text-sm text-gray-700 select-text cursor-text">
                           {isFailed ? (
@@ -297,6 +304,9 @@ export function PromptsResponsesTab({
                             />
                           )}
                         </div>
+                        {!isFailed && response.sources && (
+                          <ResponseSources sources={response.sources} brandName={brandName} />
+                        )}
                       </div>
                       );
                     })}
@@ -6,6 +6,7 @@ import { ArrowUpDownIcon, ArrowUpIcon, ArrowDownIcon } from 'lucide-react';
 import { CompetitorCell } from './competitor-cell';
 import { getConfiguredProviders } from '@/lib/provider-config';
 import { assignUrlToCompetitor } from '@/lib/brand-monitor-utils';
+import { splitProviderLabel } from '@/lib/model-selection';
 
 interface ProviderComparisonMatrixProps {
   data: ProviderComparisonData[];
@@ -60,7 +61,11 @@ const getProviderIcon = (provider: string) => {
         />
       );
     default:
-      return <div className="w-5 h-5 bg-gray-400 rounded" />;
+      return (
+        <div className="w-5 h-5 bg-gray-400 rounded flex items-center justify-center text-[10px] font-semibold text-white" title={provider}>
+          {provider.charAt(0).toUpperCase()}
+        </div>
+      );
   }
 };
 
@@ -84,18 +89,14 @@ export function ProviderComparisonMatrix({ data, brandName, competitors }: Provi
     );
   }
 
-  // Get configured providers from centralized config
+  // Get configured providers from centralized config, plus any provider present in the data.
+  // Custom providers are only known on the server, so they are picked up from the data.
   const configuredProviders = getConfiguredProviders();
-  let providers = configuredProviders.map(p => p.name);
-  
-  // If no providers configured, extract from data
-  if (providers.length === 0 && data.length > 0) {
-    const providerSet = new Set<string>();
-    data.forEach(item => {
-      Object.keys(item.providers).forEach(provider => providerSet.add(provider));
-    });
-    providers = Array.from(providerSet);
-  }
+  const providerSet = new Set<string>(configuredProviders.map(p => p.name));
+  data.forEach(item => {
+    Object.keys(item.providers).forEach(provider => providerSet.add(provider));
+  });
+  const providers = Array.from(providerSet);
   
   // Don't filter out providers - show all enabled providers even if they have no data
   // This ensures users can see which providers were attempted
@@ -183,8 +184,11 @@ export function ProviderComparisonMatrix({ data, brandName, competitors }: Provi
                   onClick={() => handleSort(provider)}
                   className="w-full p-3 font-medium text-gray-900 flex items-center justify-center hover:bg-gray-100 transition-colors"
                 >
-                  <div className="flex items-center justify-center gap-2">
-                    {getProviderIcon(provider)}
+                  <div className="flex items-center justify-center gap-2" title={provider}>
+                    {getProviderIcon(splitProviderLabel(provider).provider)}
+                    {splitProviderLabel(provider).model && (
+                      <span className="text-xs font-normal text-gray-500">{splitProviderLabel(provider).model}</span>
+                    )}
                     {getSortIcon(provider)}
                   </div>
                 </button>
@@ -9,6 +9,7 @@ import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import Image from 'next/image';
 import { getConfiguredProviders } from '@/lib/provider-config';
 import { assignUrlToCompetitor } from '@/lib/brand-monitor-utils';
+import { splitProviderLabel } from '@/lib/model-selection';
 
 // Provider icon mapping
 const getProviderIcon = (provider: string) => {
@@ -176,7 +177,10 @@ export function ProviderRankingsTabs({
                   className="text-sm flex items-center justify-center h-full"
                   title={provider}
                 >
-                  {getProviderIcon(provider)}
+                  {getProviderIcon(splitProviderLabel(provider).provider)}
+                  {splitProviderLabel(provider).model && (
+                    <span className="ml-1 text-xs text-gray-500">{splitProviderLabel(provider).model}</span>
+                  )}
                 </TabsTrigger>
               );
             })}
@@ -0,0 +1,280 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ArrowDown, ArrowUp, Download } from 'lucide-react';
+import { ReportSectionId, ReportTemplate } from '@/lib/types';
+import { REPORT_SECTIONS } from '@/lib/report-template';
+
+// Wait for typing to pause before rendering the preview again
+const PREVIEW_DELAY = 600;
+// Logos are stored with the template, so they are kept small
+const MAX_LOGO_BYTES = 140_000;
+
+const BRANDING_FIELDS: { key: 'agencyName' | 'logoUrl' | 'footerText'; label: string; placeholder: string }[] = [
+  { key: 'agencyName', label: 'Agency name', placeholder: 'e.g. Acme Digital' },
+  { key: 'logoUrl', label: 'Logo URL', placeholder: 'https://example.com/logo.png' },
+  { key: 'footerText', label: 'Footer text', placeholder: 'e.g. Confidential - prepared for Example Inc.' },
+];
+
+const COLOR_FIELDS: { key: 'primaryColor' | 'accentColor'; label: string }[] = [
+  { key: 'primaryColor', label: 'Primary color' },
+  { key: 'accentColor', label: 'Accent color' },
+];
+
+// Enabled sections in their report order, followed by the disabled ones
+function sectionOrder(template: ReportTemplate): ReportSectionId[] {
+  const all = REPORT_SECTIONS.map(section => section.id);
+  return [...template.sections, ...all.filter(id => !template.sections.includes(id))];
+}
+
+interface ReportBuilderProps {
+  template: ReportTemplate;
+  companyName: string;
+  onSaveTemplate: (template: ReportTemplate) => Promise<void>;
+  onPreview: (template: ReportTemplate) => Promise<string>;
+  onDownload: (template: ReportTemplate) => Promise<void>;
+}
+
+export function ReportBuilder({
+  template,
+  companyName,
+  onSaveTemplate,
+  onPreview,
+  onDownload
+}: ReportBuilderProps) {
+  const [draft, setDraft] = useState<ReportTemplate>(template);
+  const [order, setOrder] = useState<ReportSectionId[]>(() => sectionOrder(template));
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Reload the fields when the saved template arrives
+  useEffect(() => {
+    setDraft(template);
+    setOrder(sectionOrder(template));
+  }, [template]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const html = await onPreview(draft);
+        if (!cancelled) {
+          setPreviewHtml(html);
+          setPreviewError(null);
+        }
+      } catch (error) {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : 'Failed to render preview');
+      }
+    }, PREVIEW_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, onPreview]);
+
+  const updateSections = (nextOrder: ReportSectionId[], enabled: ReportSectionId[]) => {
+    setOrder(nextOrder);
+    setDraft({ ...draft, sections: nextOrder.filter(id => enabled.includes(id)) });
+  };
+
+  const toggleSection = (id: ReportSectionId) => {
+    const enabled = draft.sections.includes(id)
+      ? draft.sections.filter(section => section !== id)
+      : [...draft.sections, id];
+    updateSections(order, enabled);
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const nextOrder = [...order];
+    [nextOrder[index], nextOrder[index + offset]] = [nextOrder[index + offset], nextOrder[index]];
+    updateSections(nextOrder, draft.sections);
+  };
+
+  const setBranding = (key: keyof ReportTemplate['branding'], value: string) => {
+    setDraft(current => ({ ...current, branding: { ...current.branding, [key]: value } }));
+  };
+
+  // Uploaded logos are data URLs, too long to show in the field
+  const isUploadedLogo = (key: string) => key === 'logoUrl' && !!draft.branding.logoUrl?.startsWith('data:');
+
+  const handleLogoFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type) || file.size > MAX_LOGO_BYTES) {
+      setMessage('The logo must be a PNG or JPEG image under 140 KB');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setBranding('logoUrl', String(reader.result));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await onSaveTemplate(draft);
+      setMessage('Saved');
+    } catch (error) {
+      setMessage(`${error instanceof Error ? error.message : 'Failed to save'}. Downloads still use these settings.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await onDownload(draft);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200 h-full flex flex-col">
+      <CardHeader className="border-b">
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="text-xl font-semibold">Report</CardTitle>
+            <CardDescription className="text-sm text-gray-600 mt-1">
+              Pick the sections and branding of the {companyName} report, then download it as a PDF
+            </CardDescription>
+          </div>
+          <button
+            onClick={handleDownload}
+            disabled={downloading || draft.sections.length === 0}
+            className="h-9 px-4 rounded-[10px] text-sm font-medium flex items-center gap-2 bg-[#36322F] text-white hover:bg-[#4a4542] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4" />
+            {downloading ? 'Generating...' : 'Download PDF'}
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 flex-1 grid grid-cols-1 lg:grid-cols-[360px_1fr] gap-6">
+        <div className="space-y-6">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Sections</h4>
+            <ul className="space-y-1">
+              {order.map((id, index) => {
+                const section = REPORT_SECTIONS.find(entry => entry.id === id)!;
+                return (
+                  <li key={id} className="flex items-center gap-2 rounded-md border border-gray-200 px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={draft.sections.includes(id)}
+                      onChange={() => toggleSection(id)}
+                      aria-label={`Include ${section.title}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900">{section.title}</p>
+                      <p className="text-xs text-gray-500 truncate">{section.description}</p>
+                    </div>
+                    <button
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      aria-label={`Move ${section.title} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === order.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      aria-label={`Move ${section.title} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Branding</h4>
+            {BRANDING_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className="text-xs font-medium text-gray-700">{field.label}</span>
+                <Input
+                  value={isUploadedLogo(field.key) ? '' : draft.branding[field.key] || ''}
+                  onChange={(e) => setBranding(field.key, e.target.value)}
+                  placeholder={isUploadedLogo(field.key) ? 'Uploaded image' : field.placeholder}
+                  className="mt-1"
+                />
+              </label>
+            ))}
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Or upload a logo (PNG or JPEG)</span>
+              <input
+                type="file"
+                accept="image/png,image/jpeg"
+                onChange={(e) => handleLogoFile(e.target.files?.[0])}
+                className="mt-1 block w-full text-xs text-gray-600"
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {COLOR_FIELDS.map(field => (
+                <label key={field.key} className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={draft.branding[field.key]}
+                    onChange={(e) => setBranding(field.key, e.target.value)}
+                    className="h-8 w-10 rounded border border-gray-200"
+                  />
+                  <span className="text-xs font-medium text-gray-700">{field.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-900">Executive summary</span>
+            <p className="text-xs text-gray-500">Opens the Executive Summary section. Separate paragraphs with a blank line.</p>
+            <textarea
+              value={draft.executiveSummary || ''}
+              onChange={(e) => setDraft({ ...draft, executiveSummary: e.target.value })}
+              rows={6}
+              className="mt-1 block w-full rounded-md border border-gray-200 px-3 py-2 text-sm"
+            />
+          </label>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="h-8 px-3 rounded-[10px] text-sm font-medium bg-[#36322F] text-white hover:bg-[#4a4542] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save template'}
+            </button>
+            {message && <span className="text-xs text-gray-500">{message}</span>}
+          </div>
+        </div>
+
+        <div className="flex flex-col min-h-[600px]">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Preview</h4>
+          {previewError && <p className="text-xs text-red-600 mb-2">{previewError}</p>}
+          {previewHtml ? (
+            // Scripts stay disabled: the report is static HTML
+            <iframe
+              title="Report preview"
+              sandbox=""
+              srcDoc={previewHtml}
+              className="flex-1 w-full rounded-md border border-gray-200 bg-white"
+            />
+          ) : (
+            <div className="flex-1 flex items-center justify-center rounded-md border border-dashed border-gray-200 text-sm text-gray-500">
+              Rendering preview...
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
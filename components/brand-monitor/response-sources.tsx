@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { WebSource } from '@/lib/types';
+import { getDomain } from '@/lib/utils';
+
+interface ResponseSourcesProps {
+  sources: WebSource[];
+  brandName: string;
+}
+
+export function ResponseSources({ sources, brandName }: ResponseSourcesProps) {
+  if (sources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="flex items-center gap-1 text-xs font-medium text-gray-500">
+        <Globe className="w-3 h-3" />
+        Sources ({sources.length})
+      </p>
+      <ul className="space-y-1">
+        {sources.map(source => (
+          <li key={source.url} className="flex flex-wrap items-center gap-2 text-xs">
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium text-blue-700 hover:underline"
+              title={source.title || source.url}
+            >
+              {getDomain(source.url)}
+            </a>
+            {source.title && (
+              <span className="text-gray-500 truncate max-w-xs">{source.title}</span>
+            )}
+            {source.mentionsBrand && (
+              <Badge variant="default" className="text-xs bg-green-100 text-green-800">
+                {brandName}
+              </Badge>
+            )}
+            {source.competitorsMentioned?.map(competitor => (
+              <Badge key={competitor} variant="outline" className="text-xs text-orange-700 border-orange-200">
+                {competitor}
+              </Badge>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React from 'react';
+import { Share2 } from 'lucide-react';
 import { ResultsTab } from '@/lib/brand-monitor-reducer';
 
 interface BrandData {
@@ -16,14 +17,26 @@ interface ResultsNavigationProps {
   onRestart: () => void;
   brandData?: BrandData;
   brandName?: string;
+  analysisId?: string; // Saved analysis the data exports and share links are for
+  onShare?: () => void;
 }
 
+const EXPORT_LINKS: { label: string; query: string }[] = [
+  { label: 'Responses CSV', query: 'format=csv&sheet=responses' },
+  { label: 'Rankings CSV', query: 'format=csv&sheet=rankings' },
+  { label: 'Matrix CSV', query: 'format=csv&sheet=matrix' },
+  { label: 'Excel (XLSX)', query: 'format=xlsx' },
+  { label: 'JSON', query: 'format=json' },
+];
+
 export function ResultsNavigation({
   activeTab,
   onTabChange,
   onRestart,
   brandData,
-  brandName
+  brandName,
+  analysisId,
+  onShare
 }: ResultsNavigationProps) {
   const handleTabClick = (tab: ResultsTab) => {
     onTabChange(tab);
@@ -76,6 +89,36 @@ export function ResultsNavigation({
         >
           Visibility Score
         </button>
+        <button
+          onClick={() => handleTabClick('sources')}
+          className={`w-full text-left px-4 py-3 rounded-[10px] text-sm font-medium transition-all duration-200 ${
+            activeTab === 'sources'
+              ? 'bg-[#36322F] text-white [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)]'
+              : 'bg-orange-500 text-white hover:bg-orange-600 [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#c2410c,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(234,_88,_12,_58%)] hover:translate-y-[1px] hover:scale-[0.98]'
+          }`}
+        >
+          Cited Sources
+        </button>
+        <button
+          onClick={() => handleTabClick('accuracy')}
+          className={`w-full text-left px-4 py-3 rounded-[10px] text-sm font-medium transition-all duration-200 ${
+            activeTab === 'accuracy'
+              ? 'bg-[#36322F] text-white [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)]'
+              : 'bg-orange-500 text-white hover:bg-orange-600 [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#c2410c,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(234,_88,_12,_58%)] hover:translate-y-[1px] hover:scale-[0.98]'
+          }`}
+        >
+          Accuracy
+        </button>
+        <button
+          onClick={() => handleTabClick('trends')}
+          className={`w-full text-left px-4 py-3 rounded-[10px] text-sm font-medium transition-all duration-200 ${
+            activeTab === 'trends'
+              ? 'bg-[#36322F] text-white [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)]'
+              : 'bg-orange-500 text-white hover:bg-orange-600 [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#c2410c,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(234,_88,_12,_58%)] hover:translate-y-[1px] hover:scale-[0.98]'
+          }`}
+        >
+          Trends
+        </button>
         <button
           onClick={() => handleTabClick('report')}
           className={`w-full text-left px-4 py-3 rounded-[10px] text-sm font-medium transition-all duration-200 ${
@@ -91,6 +134,33 @@ export function ResultsNavigation({
         
         {/* Analyze another website button - at the bottom */}
         <div className="pt-4 pb-8 border-t border-gray-200 space-y-3">
+          {/* Data exports only exist once the analysis is saved */}
+          {analysisId && (
+            <div>
+              <p className="px-1 mb-2 text-xs font-medium text-gray-500">Export data</p>
+              <div className="flex flex-wrap gap-2">
+                {EXPORT_LINKS.map(link => (
+                  <a
+                    key={link.query}
+                    href={`/api/brand-monitor/analyses/${analysisId}/export?${link.query}`}
+                    download
+                    className="px-2.5 py-1.5 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    {link.label}
+                  </a>
+                ))}
+              </div>
+              {onShare && (
+                <button
+                  onClick={onShare}
+                  className="mt-3 w-full flex items-center gap-2 px-2.5 py-1.5 rounded-md text-xs font-medium border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <Share2 className="w-3.5 h-3.5" />
+                  Share link
+                </button>
+              )}
+            </div>
+          )}
           <button
             onClick={onRestart}
             className="w-full text-left px-4 py-3 rounded-[10px] text-sm font-medium transition-all duration-200 bg-[#36322F] text-[#fff] hover:bg-[#4a4542] [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)] hover:translate-y-[1px] hover:scale-[0.98] hover:[box-shadow:inset_0px_-1px_0px_0px_#171310,_0px_1px_3px_0px_rgba(58,_33,_8,_40%)] active:translate-y-[2px] active:scale-[0.97] active:[box-shadow:inset_0px_1px_1px_0px_#171310,_0px_1px_2px_0px_rgba(58,_33,_8,_30%)] flex items-center gap-2"
@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useState } from 'react';
+import { PositionDecayCurve, ScoringProfile } from '@/lib/types';
+
+interface ScoringProfileSelectorProps {
+  profiles: ScoringProfile[];
+  selectedId: string;
+  onChange: (profileId: string) => void;
+  onSave: (profile: ScoringProfile) => Promise<void>;
+  disabled?: boolean;
+}
+
+const WEIGHT_FIELDS: { key: keyof ScoringProfile['weights']; label: string }[] = [
+  { key: 'visibility', label: 'Visibility' },
+  { key: 'shareOfVoice', label: 'Share of voice' },
+  { key: 'sentiment', label: 'Sentiment' },
+  { key: 'position', label: 'Position' },
+];
+
+const CURVE_OPTIONS: { value: PositionDecayCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'reciprocal', label: 'Reciprocal (1/position)' },
+];
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 64);
+}
+
+export function ScoringProfileSelector({ profiles, selectedId, onChange, onSave, disabled }: ScoringProfileSelectorProps) {
+  const [draft, setDraft] = useState<ScoringProfile | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  const selected = profiles.find(p => p.id === selectedId) || profiles[0];
+
+  const startCustomizing = () => {
+    setSaveError(null);
+    setDraft({
+      ...selected,
+      id: selected.builtIn ? '' : selected.id,
+      name: selected.builtIn ? `${selected.name} (custom)` : selected.name,
+      weights: { ...selected.weights },
+      positionDecay: { ...selected.positionDecay },
+      sentimentScores: { ...selected.sentimentScores },
+      builtIn: false,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave({ ...draft, id: draft.id || slugify(draft.name) });
+      setDraft(null);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <label htmlFor="scoring-profile" className="text-sm font-medium text-gray-900">
+          Scoring profile
+        </label>
+        <select
+          id="scoring-profile"
+          value={selected.id}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="h-8 rounded-lg border border-gray-200 bg-white px-2 text-sm"
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}{profile.builtIn ? '' : ' (saved)'}
+            </option>
+          ))}
+        </select>
+        {!draft && (
+          <button
+            onClick={startCustomizing}
+            disabled={disabled}
+            className="text-xs font-medium text-orange-600 hover:text-orange-700"
+          >
+            Customize
+          </button>
+        )}
+      </div>
+      {selected.description && !draft && (
+        <p className="text-xs text-gray-500">{selected.description}</p>
+      )}
+
+      {draft && (
+        <div className="rounded-lg border border-gray-200 p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <label htmlFor="scoring-profile-name" className="text-xs text-gray-600 w-28">Name</label>
+            <input
+              id="scoring-profile-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="h-8 flex-1 rounded-lg border border-gray-200 px-2 text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+            {WEIGHT_FIELDS.map(field => (
+              <label key={field.key} className="flex flex-col gap-1 text-xs text-gray-600">
+                {field.label} weight
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  value={draft.weights[field.key]}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    weights: { ...draft.weights, [field.key]: Math.max(0, Number(e.target.value)) }
+                  })}
+                  className="h-8 rounded-lg border border-gray-200 px-2 text-sm"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              Position decay
+              <select
+                value={draft.positionDecay.curve}
+                onChange={(e) => setDraft({
+                  ...draft,
+                  positionDecay: { ...draft.positionDecay, curve: e.target.value as PositionDecayCurve }
+                })}
+                className="h-8 rounded-lg border border-gray-200 bg-white px-2 text-sm"
+              >
+                {CURVE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              Scored positions
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={draft.positionDecay.maxPosition}
+                onChange={(e) => setDraft({
+                  ...draft,
+                  positionDecay: { ...draft.positionDecay, maxPosition: Math.round(Number(e.target.value)) }
+                })}
+                className="h-8 w-16 rounded-lg border border-gray-200 px-2 text-sm"
+              />
+            </label>
+            {draft.positionDecay.curve === 'exponential' && (
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                Half-life
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={draft.positionDecay.halfLife ?? 2}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    positionDecay: { ...draft.positionDecay, halfLife: Number(e.target.value) }
+                  })}
+                  className="h-8 w-16 rounded-lg border border-gray-200 px-2 text-sm"
+                />
+              </label>
+            )}
+          </div>
+          {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              disabled={saving}
+              className="h-8 rounded-lg px-3 text-xs font-medium text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim()}
+              className="h-8 rounded-lg bg-orange-500 px-3 text-xs font-medium text-white hover:bg-orange-600 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save profile'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
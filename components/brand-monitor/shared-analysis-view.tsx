@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Analysis, IdentifiedCompetitor, ResultsTab } from '@/lib/brand-monitor-reducer';
+import { ProviderComparisonMatrix } from './provider-comparison-matrix';
+import { ProviderRankingsTabs } from './provider-rankings-tabs';
+import { PromptsResponsesTab } from './prompts-responses-tab';
+import { VisibilityScoreTab } from './visibility-score-tab';
+import { CitedSourcesTab } from './cited-sources-tab';
+import { AccuracyTab } from './accuracy-tab';
+
+interface SharedAnalysisViewProps {
+  token: string;
+  analysis: Analysis;
+  companyName: string;
+  identifiedCompetitors: IdentifiedCompetitor[];
+  createdAt?: string | null;
+  expiresAt: string;
+}
+
+// The read-only tabs of a shared analysis; trends need the owner's other analyses
+const SHARED_TABS: { id: ResultsTab; label: string }[] = [
+  { id: 'matrix', label: 'Comparison Matrix' },
+  { id: 'prompts', label: 'Prompts & Responses' },
+  { id: 'rankings', label: 'Provider Rankings' },
+  { id: 'visibility', label: 'Visibility Score' },
+  { id: 'sources', label: 'Cited Sources' },
+  { id: 'accuracy', label: 'Accuracy' },
+  { id: 'report', label: 'Report' },
+];
+
+export function SharedAnalysisView({
+  token,
+  analysis,
+  companyName,
+  identifiedCompetitors,
+  createdAt,
+  expiresAt
+}: SharedAnalysisViewProps) {
+  const [activeTab, setActiveTab] = useState<ResultsTab>('matrix');
+  const [expandedPromptIndex, setExpandedPromptIndex] = useState<number | null>(null);
+  const brandData = analysis.competitors?.find(c => c.isOwn);
+  const reportUrl = `/api/brand-monitor/share/${token}/report`;
+
+  return (
+    <div className="max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">{companyName} - GEO Analysis</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {createdAt && `Analyzed ${format(new Date(createdAt), 'MMM d, yyyy')} · `}
+            Shared view, available until {format(new Date(expiresAt), 'MMM d, yyyy')}
+          </p>
+        </div>
+      </div>
+
+      <div className="mb-6 flex flex-wrap gap-2">
+        {SHARED_TABS.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-4 py-2 rounded-[10px] text-sm font-medium transition-all duration-200 ${
+              activeTab === tab.id
+                ? 'bg-[#36322F] text-white'
+                : 'bg-orange-500 text-white hover:bg-orange-600'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'matrix' && (
+        <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200">
+          <CardHeader className="border-b">
+            <CardTitle className="text-xl font-semibold">Comparison Matrix</CardTitle>
+            <CardDescription className="text-sm text-gray-600 mt-1">
+              Compare visibility scores across different AI providers
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 overflow-auto">
+            {analysis.providerComparison ? (
+              <ProviderComparisonMatrix
+                data={analysis.providerComparison}
+                brandName={companyName}
+                competitors={identifiedCompetitors}
+              />
+            ) : (
+              <p className="text-center py-8 text-gray-500">No comparison data available</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {activeTab === 'prompts' && (
+        <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200">
+          <CardHeader className="border-b">
+            <CardTitle className="text-xl font-semibold">Prompts & Responses</CardTitle>
+            <CardDescription className="text-sm text-gray-600 mt-1">
+              AI responses to the brand queries
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 overflow-auto">
+            <PromptsResponsesTab
+              prompts={analysis.prompts || []}
+              responses={analysis.responses || []}
+              expandedPromptIndex={expandedPromptIndex}
+              onToggleExpand={setExpandedPromptIndex}
+              brandName={companyName}
+              competitors={analysis.competitors?.map(c => c.name) || []}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {activeTab === 'rankings' && (
+        analysis.providerRankings ? (
+          <ProviderRankingsTabs
+            providerRankings={analysis.providerRankings}
+            brandName={companyName}
+            shareOfVoice={brandData?.shareOfVoice}
+            averagePosition={brandData ? Math.round(brandData.averagePosition) : undefined}
+            sentimentScore={brandData?.sentimentScore}
+          />
+        ) : (
+          <p className="text-center py-8 text-gray-500">No provider rankings available</p>
+        )
+      )}
+
+      {activeTab === 'visibility' && (
+        brandData ? (
+          <VisibilityScoreTab
+            competitors={analysis.competitors}
+            brandData={brandData}
+            identifiedCompetitors={identifiedCompetitors}
+            scores={analysis.scores}
+            scoringProfileName={analysis.scoringProfile?.name}
+            insights={analysis.insights}
+          />
+        ) : (
+          <p className="text-center py-8 text-gray-500">No visibility data available</p>
+        )
+      )}
+
+      {activeTab === 'sources' && (
+        <CitedSourcesTab
+          citedSources={analysis.citedSources || []}
+          brandName={companyName}
+        />
+      )}
+
+      {activeTab === 'accuracy' && (
+        // Checked against the fact sheet the analysis ran with, which cannot be edited here
+        <AccuracyTab
+          responses={analysis.responses || []}
+          brandName={analysis.company?.name || companyName}
+          brandTerms={analysis.brandTerms || {}}
+          competitors={analysis.competitors || []}
+          factSheet={analysis.company?.factSheet || {}}
+        />
+      )}
+
+      {activeTab === 'report' && (
+        <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200">
+          <CardHeader className="border-b">
+            <div className="flex justify-between items-center">
+              <CardTitle className="text-xl font-semibold">Report</CardTitle>
+              <a
+                href={`${reportUrl}?format=pdf`}
+                download
+                className="flex items-center gap-2 px-3 py-2 rounded-[10px] text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+              >
+                <Download className="w-4 h-4" />
+                Download PDF
+              </a>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6">
+            {/* Scripts stay disabled: the report is static HTML */}
+            <iframe
+              title="Report"
+              sandbox=""
+              src={`${reportUrl}?format=html`}
+              className="w-full h-[75vh] rounded-md border border-gray-200 bg-white"
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
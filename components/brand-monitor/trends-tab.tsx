@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { BrandTrends, TrendMetrics } from '@/lib/types';
+
+type TrendMetricKey = keyof TrendMetrics;
+
+const METRIC_OPTIONS: { key: TrendMetricKey; label: string; suffix: string }[] = [
+  { key: 'visibilityScore', label: 'Visibility', suffix: '%' },
+  { key: 'shareOfVoice', label: 'Share of Voice', suffix: '%' },
+  { key: 'averagePosition', label: 'Avg Position', suffix: '' },
+  { key: 'sentimentScore', label: 'Sentiment', suffix: '' },
+];
+
+const ALL_PROVIDERS = 'all';
+const MAX_SERIES = 6;
+const SERIES_COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#10b981', '#f59e0b', '#6366f1', '#14b8a6', '#f43f5e'];
+
+interface TrendsTabProps {
+  trends?: BrandTrends;
+  isLoading: boolean;
+  error?: Error | null;
+  brandName: string;
+}
+
+export function TrendsTab({
+  trends,
+  isLoading,
+  error,
+  brandName
+}: TrendsTabProps) {
+  const [metric, setMetric] = useState<TrendMetricKey>('visibilityScore');
+  const [provider, setProvider] = useState<string>(ALL_PROVIDERS);
+
+  const points = useMemo(() => trends?.points ?? [], [trends]);
+  const ownName = trends?.brandName || brandName;
+
+  const providers = useMemo(() => {
+    const names = new Set<string>();
+    points.forEach(point => Object.keys(point.providers).forEach(name => names.add(name)));
+    return Array.from(names);
+  }, [points]);
+
+  // Brand first, then the competitors with the highest latest visibility
+  const seriesNames = useMemo(() => {
+    const latest = points[points.length - 1];
+    if (!latest) return [];
+    const others = Object.entries(latest.competitors)
+      .filter(([name]) => name !== ownName)
+      .sort(([, a], [, b]) => b.visibilityScore - a.visibilityScore)
+      .map(([name]) => name);
+    return [ownName, ...others].slice(0, MAX_SERIES);
+  }, [points, ownName]);
+
+  const chartData = useMemo(() => points.map(point => {
+    const source = provider === ALL_PROVIDERS ? point.competitors : point.providers[provider] || {};
+    const row: Record<string, string | number> = {
+      date: new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    };
+    seriesNames.forEach(name => {
+      if (source[name]) {
+        row[name] = source[name][metric];
+      }
+    });
+    return row;
+  }), [points, provider, metric, seriesNames]);
+
+  const selectedMetric = METRIC_OPTIONS.find(option => option.key === metric)!;
+  const brandChange = trends?.weeklyChange[ownName];
+
+  const getChangeIcon = (change?: number) => {
+    if (change === undefined || change === 0) return <Minus className="h-4 w-4 text-gray-400" />;
+    return change > 0
+      ? <TrendingUp className="h-4 w-4 text-green-500" />
+      : <TrendingDown className="h-4 w-4 text-red-500" />;
+  };
+
+  return (
+    <Card className="p-2 bg-card text-card-foreground gap-6 rounded-xl border py-6 shadow-sm border-gray-200 h-full flex flex-col">
+      <CardHeader className="border-b">
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="text-xl font-semibold">Trends</CardTitle>
+            <CardDescription className="text-sm text-gray-600 mt-1">
+              How visibility has changed across your saved analyses
+            </CardDescription>
+          </div>
+          <div className="text-right">
+            <div className="flex items-center justify-end gap-1">
+              {getChangeIcon(brandChange)}
+              <p className={`text-2xl font-bold ${
+                brandChange === undefined || brandChange === 0 ? 'text-gray-600' : brandChange > 0 ? 'text-green-600' : 'text-red-600'
+              }`}>
+                {brandChange === undefined ? '—' : `${brandChange > 0 ? '+' : ''}${brandChange}%`}
+              </p>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Weekly Change</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 flex-1">
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Loading trend data...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Trend data is unavailable</p>
+            <p className="text-sm mt-2">Log in to keep a history of saved analyses for this company.</p>
+          </div>
+        ) : points.length < 2 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Not enough history yet</p>
+            <p className="text-sm mt-2">Trends appear once this company has been analyzed at least twice.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <Tabs value={metric} onValueChange={(value) => setMetric(value as TrendMetricKey)}>
+                <TabsList>
+                  {METRIC_OPTIONS.map(option => (
+                    <TabsTrigger key={option.key} value={option.key} className="text-xs">
+                      {option.label}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              {providers.length > 0 && (
+                <Tabs value={provider} onValueChange={setProvider}>
+                  <TabsList>
+                    <TabsTrigger value={ALL_PROVIDERS} className="text-xs">All Providers</TabsTrigger>
+                    {providers.map(name => (
+                      <TabsTrigger key={name} value={name} className="text-xs">
+                        {name}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+              )}
+            </div>
+
+            <div className="h-96">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                  <YAxis
+                    tick={{ fontSize: 12 }}
+                    reversed={metric === 'averagePosition'}
+                    allowDecimals={metric === 'averagePosition'}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                      border: '1px solid #e5e7eb',
+                      borderRadius: '8px',
+                      fontSize: '14px',
+                      padding: '8px 12px',
+                      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+                    }}
+                    formatter={(value, name) => [`${value}${selectedMetric.suffix}`, name]}
+                    labelStyle={{ fontWeight: 600 }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: '12px' }} />
+                  {seriesNames.map((name, idx) => (
+                    <Line
+                      key={name}
+                      type="monotone"
+                      dataKey={name}
+                      stroke={name === ownName ? '#ea580c' : SERIES_COLORS[idx % SERIES_COLORS.length]}
+                      strokeWidth={name === ownName ? 3 : 2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Based on {points.length} saved analyses
+              {metric === 'averagePosition' && ' · lower position is better'}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,24 +1,147 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
-import { CompetitorRanking } from '@/lib/types';
+import { Loader2, Sparkles } from 'lucide-react';
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, ErrorBar } from 'recharts';
+import { BrandScores, CompetitorRanking, MetricStats, ReportInsights } from '@/lib/types';
 import { IdentifiedCompetitor } from '@/lib/brand-monitor-reducer';
+import { getBrandRank } from '@/lib/scoring';
+
+function InsightsPanel({
+  insights,
+  onGenerate,
+}: {
+  insights?: ReportInsights;
+  onGenerate?: (refresh: boolean) => Promise<void>;
+}) {
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleGenerate = async (refresh: boolean) => {
+    if (!onGenerate) return;
+    setGenerating(true);
+    setMessage(null);
+    try {
+      await onGenerate(refresh);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to generate insights');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 rounded-lg border border-gray-200 px-4 py-4">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+          <Sparkles className="h-4 w-4 text-orange-500" />
+          AI Insights
+        </h4>
+        {onGenerate && (
+          <button
+            onClick={() => handleGenerate(!!insights)}
+            disabled={generating}
+            className="h-8 px-3 rounded-[10px] text-sm font-medium flex items-center gap-2 bg-[#36322F] text-white hover:bg-[#4a4542] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {generating && <Loader2 className="h-4 w-4 animate-spin" />}
+            {insights ? 'Regenerate' : 'Generate insights'}
+          </button>
+        )}
+      </div>
+      {message && <p className="mt-2 text-xs text-red-600">{message}</p>}
+
+      {!insights ? (
+        <p className="mt-3 text-sm text-gray-500">
+          {onGenerate
+            ? 'An executive summary, the largest visibility gaps against named competitors and content actions, written from these results. They are kept with the analysis and included in the report.'
+            : 'Insights are written for saved analyses. Log in and run the analysis to save it.'}
+        </p>
+      ) : (
+        <div className="mt-3 space-y-4 text-sm">
+          <p className="text-gray-700 whitespace-pre-line">{insights.executiveSummary}</p>
+          {insights.visibilityGaps.length > 0 && (
+            <div>
+              <h5 className="font-medium text-gray-900 mb-1">Visibility gaps</h5>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-1 pr-4 font-medium">Competitor</th>
+                    <th className="py-1 pr-4 font-medium">Gap</th>
+                    <th className="py-1 font-medium">Evidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {insights.visibilityGaps.map(gap => (
+                    <tr key={gap.competitor} className="border-b border-gray-100 align-top">
+                      <td className="py-1 pr-4 font-medium text-gray-900">{gap.competitor}</td>
+                      <td className="py-1 pr-4 text-gray-700">{gap.gap}</td>
+                      <td className="py-1 text-gray-500">{gap.evidence}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {insights.contentActions.length > 0 && (
+            <div>
+              <h5 className="font-medium text-gray-900 mb-1">Content actions</h5>
+              <ol className="list-decimal pl-5 space-y-1">
+                {insights.contentActions.map((action, index) => (
+                  <li key={index} className="text-gray-700">
+                    <span className="font-medium text-gray-900">{action.title}.</span> {action.description}
+                    {action.competitor && <Badge variant="secondary" className="ml-2">{action.competitor}</Badge>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+          <p className="text-xs text-gray-400">
+            Written by {insights.model} on {new Date(insights.generatedAt).toLocaleDateString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
 
 interface VisibilityScoreTabProps {
   competitors: CompetitorRanking[];
   brandData: CompetitorRanking;
   identifiedCompetitors: IdentifiedCompetitor[];
+  scores?: BrandScores;
+  scoringProfileName?: string;
+  insights?: ReportInsights;
+  onGenerateInsights?: (refresh: boolean) => Promise<void>; // Only for saved analyses
 }
 
 export function VisibilityScoreTab({
   competitors,
   brandData,
-  identifiedCompetitors
+  identifiedCompetitors,
+  scores,
+  scoringProfileName,
+  insights,
+  onGenerateInsights
 }: VisibilityScoreTabProps) {
   const topCompetitor = competitors.filter(c => !c.isOwn)[0];
-  const brandRank = competitors.findIndex(c => c.isOwn) + 1;
+  const brandRank = getBrandRank(competitors);
   const difference = topCompetitor ? brandData.visibilityScore - topCompetitor.visibilityScore : 0;
+  const sampledCompetitors = competitors.slice(0, 8).filter(c => c.stats);
+  const brandStats = brandData.stats?.visibilityScore;
+
+  // Error bar offsets below and above the mean
+  const intervalData = sampledCompetitors.map(competitor => {
+    const stats = competitor.stats!.visibilityScore;
+    return {
+      name: competitor.name,
+      visibility: stats.mean,
+      interval: [stats.mean - stats.ciLow, stats.ciHigh - stats.mean],
+      isOwn: competitor.isOwn,
+    };
+  });
+
+  const formatInterval = (stats?: MetricStats, suffix = '') =>
+    stats ? `${stats.mean}${suffix} (${stats.ciLow}–${stats.ciHigh})` : '—';
   
   return (
     <div className="flex flex-col h-full">
@@ -32,10 +155,26 @@ export function VisibilityScoreTab({
                 Your brand visibility across AI providers
               </CardDescription>
             </div>
-            {/* Visibility Score in top right */}
-            <div className="text-right">
-              <p className="text-3xl font-bold text-orange-600">{brandData.visibilityScore}%</p>
-              <p className="text-xs text-gray-500 mt-1">Visibility Score</p>
+            {/* Visibility and overall score in top right */}
+            <div className="flex gap-8">
+              {scores && (
+                <div className="text-right">
+                  <p className="text-3xl font-bold text-gray-900">{scores.overallScore}</p>
+                  <p className="text-xs text-gray-500 mt-1">Overall Score</p>
+                  {scoringProfileName && (
+                    <p className="text-xs text-gray-500">{scoringProfileName} profile</p>
+                  )}
+                </div>
+              )}
+              <div className="text-right">
+                <p className="text-3xl font-bold text-orange-600">{brandData.visibilityScore}%</p>
+                <p className="text-xs text-gray-500 mt-1">Visibility Score</p>
+                {brandStats && (
+                  <p className="text-xs text-gray-500">
+                    95% CI {brandStats.ciLow}–{brandStats.ciHigh}% · {brandStats.samples} samples
+                  </p>
+                )}
+              </div>
             </div>
           </div>
         </CardHeader>
@@ -165,6 +304,11 @@ export function VisibilityScoreTab({
                       </span>
                       <span className="text-sm font-medium text-gray-900 ml-auto">
                         {competitor.visibilityScore}%
+                        {competitor.stats && (
+                          <span className="text-xs font-normal text-gray-500">
+                            {' '}±{Math.round((competitor.stats.visibilityScore.ciHigh - competitor.stats.visibilityScore.mean) * 10) / 10}
+                          </span>
+                        )}
                       </span>
                     </div>
                   </div>
@@ -172,6 +316,67 @@ export function VisibilityScoreTab({
               })}
             </div>
           </div>
+
+          {/* Spread across repeated samples */}
+          {intervalData.length > 0 && (
+            <div className="mt-8 border-t border-gray-100 pt-6 space-y-4">
+              <div>
+                <p className="text-sm font-medium text-gray-900">Visibility across samples</p>
+                <p className="text-xs text-gray-500">Mean with 95% confidence interval over {brandStats?.samples ?? sampledCompetitors[0].stats!.visibilityScore.samples} samples per prompt</p>
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={intervalData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                    <YAxis tick={{ fontSize: 12 }} domain={[0, 100]} unit="%" />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                        border: '1px solid #e5e7eb',
+                        borderRadius: '8px',
+                        fontSize: '14px',
+                        padding: '8px 12px',
+                        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+                      }}
+                      formatter={(value) => [`${value}% visibility`, 'Mean']}
+                      labelStyle={{ fontWeight: 600 }}
+                    />
+                    <Bar dataKey="visibility" radius={[4, 4, 0, 0]}>
+                      {intervalData.map((entry, idx) => (
+                        <Cell key={`bar-${idx}`} fill={entry.isOwn ? '#ea580c' : '#93c5fd'} />
+                      ))}
+                      <ErrorBar dataKey="interval" width={6} strokeWidth={1.5} stroke="#374151" />
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-1 pr-4 font-medium">Company</th>
+                    <th className="py-1 pr-4 font-medium">Visibility</th>
+                    <th className="py-1 pr-4 font-medium">Avg Position</th>
+                    <th className="py-1 pr-4 font-medium">Sentiment</th>
+                    <th className="py-1 font-medium">Visibility Variance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sampledCompetitors.map(competitor => (
+                    <tr key={competitor.name} className="border-b border-gray-100">
+                      <td className={`py-1 pr-4 ${competitor.isOwn ? 'font-semibold text-orange-600' : 'text-gray-700'}`}>{competitor.name}</td>
+                      <td className="py-1 pr-4 text-gray-700">{formatInterval(competitor.stats!.visibilityScore, '%')}</td>
+                      <td className="py-1 pr-4 text-gray-700">{formatInterval(competitor.stats!.averagePosition)}</td>
+                      <td className="py-1 pr-4 text-gray-700">{formatInterval(competitor.stats!.sentimentScore)}</td>
+                      <td className="py-1 text-gray-700">{competitor.stats!.visibilityScore.variance}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <InsightsPanel insights={insights} onGenerate={onGenerateInsights} />
         </CardContent>
       </Card>
     </div>
@@ -43,6 +43,12 @@ export const QUERY_CACHE_TIME = FIVE_MINUTES;
 export const SSE_HEARTBEAT_INTERVAL = 30000; // 30 seconds
 export const SSE_MAX_DURATION = 300; // 5 minutes in seconds
 export const DEFAULT_RETRY_AFTER = 60; // seconds
+export const SSE_JOB_POLL_INTERVAL = 1000; // How often a job event stream checks for new events
+export const JOB_CANCEL_POLL_INTERVAL = 2000; // How often a running job checks for a cancel request from another instance
+export const JOB_KEEPALIVE_INTERVAL = 30000; // How often a quiet running job marks itself alive
+export const JOB_STALE_TIMEOUT = 120000; // A pending or running job silent this long is failed as its process died
+export const SSE_RECONNECT_DELAY = 1000; // First reconnect delay, doubled on each attempt
+export const SSE_MAX_RECONNECT_ATTEMPTS = 5;
 
 // Animation delays
 export const MIN_ANIMATION_DELAY = 500;
@@ -61,6 +67,8 @@ export const CONVERSATION_DISPLAY_LIMIT = 50;
 // AI Model Limits
 export const AI_MAX_RETRIES = 2;
 export const AI_DEFAULT_MAX_TOKENS = 800;
+export const MAX_SAMPLES_PER_PROMPT = 10; // Repeated calls per prompt/provider pair
+export const RESPONSE_CACHE_TTL = 24 * 60 * 60 * 1000; // How long provider responses are reused (24 hours)
 
 // Model-specific token limits
 export const MODEL_MAX_TOKENS = {
@@ -90,6 +98,13 @@ export const MODEL_RATE_LIMITS = {
   'perplexity-sonar': 20,
 } as const;
 
+// Provider request scheduling (see lib/provider-scheduler.ts)
+export const DEFAULT_REQUESTS_PER_MINUTE = 60; // Providers and models without a configured limit
+export const RATE_LIMIT_BURST_SECONDS = 10; // Token bucket size, in seconds' worth of requests
+export const MAX_CONCURRENT_REQUESTS_PER_PROVIDER = 3;
+export const PROVIDER_RETRY_BASE_DELAY = 1000; // Doubles on each retry
+export const PROVIDER_RETRY_MAX_DELAY = 30000;
+
 // ============================================
 // URLs and Endpoints
 // ============================================
@@ -108,6 +123,7 @@ export const API_ENDPOINTS = {
   BRAND_MONITOR_BATCH_SCRAPE: '/api/brand-monitor/batch-scrape',
   BRAND_MONITOR_WEB_SEARCH: '/api/brand-monitor/web-search',
   BRAND_MONITOR_CHECK_PROVIDERS: '/api/brand-monitor/check-providers',
+  BRAND_MONITOR_PROJECTS: '/api/brand-monitor/projects',
   CHAT_FEEDBACK: '/api/chat/feedback',
 } as const;
 
@@ -183,16 +199,15 @@ export const SENTIMENT_SCORES = {
   NEGATIVE: 0,
 } as const;
 
-export const POSITION_SCORE_THRESHOLDS = {
-  MIN: 10,
-  MAX: 11,
-} as const;
+// Last position that still earns a position score in the default profile
+export const MAX_SCORED_POSITION = 10;
 
+// Overall score weights of the default scoring profile (see lib/scoring.ts)
 export const SCORING_WEIGHTS = {
-  RANK: 0.1,
-  MENTIONS: 0.3,
-  SENTIMENT: 0.4,
-  RECOMMENDED: 0.2,
+  VISIBILITY: 0.3,
+  SENTIMENT: 0.2,
+  SHARE_OF_VOICE: 0.3,
+  POSITION: 0.2,
 } as const;
 
 // ============================================
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSession } from '@/lib/auth-client';
 import type { BrandAnalysis } from '@/lib/db/schema';
+import type { AnalysisDiff, AnalysisShareLink, BrandTrends } from '@/lib/types';
 
 export function useBrandAnalyses() {
   const { data: session } = useSession();
@@ -56,6 +57,7 @@ export function useSaveBrandAnalysis() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['brandAnalyses', session?.user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['brandTrends', session?.user?.id] });
     },
   });
 }
@@ -78,6 +80,104 @@ export function useDeleteBrandAnalysis() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['brandAnalyses', session?.user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['brandTrends', session?.user?.id] });
     },
   });
-}
\ No newline at end of file
+}
+
+export function useBrandTrends(url: string | null | undefined) {
+  const { data: session } = useSession();
+  
+  return useQuery<BrandTrends>({
+    queryKey: ['brandTrends', session?.user?.id, url],
+    queryFn: async () => {
+      const res = await fetch(`/api/brand-monitor/trends?url=${encodeURIComponent(url!)}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch brand trends');
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!url,
+  });
+}
+
+export function useAnalysisDiff(baseId: string | null, compareId: string | null) {
+  const { data: session } = useSession();
+  
+  return useQuery<AnalysisDiff>({
+    queryKey: ['analysisDiff', baseId, compareId],
+    queryFn: async () => {
+      const res = await fetch(`/api/brand-monitor/diff?base=${baseId}&compare=${compareId}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error?.message || 'Failed to compare analyses');
+      }
+      return res.json();
+    },
+    enabled: !!session?.user?.id && !!baseId && !!compareId,
+  });
+}
+export function useAnalysisShares(analysisId: string | null) {
+  const { data: session } = useSession();
+  
+  return useQuery<AnalysisShareLink[]>({
+    queryKey: ['analysisShares', analysisId],
+    queryFn: async () => {
+      const res = await fetch(`/api/brand-monitor/analyses/${analysisId}/shares`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch share links');
+      }
+      const body = await res.json();
+      return body.shares;
+    },
+    enabled: !!session?.user?.id && !!analysisId,
+  });
+}
+
+export function useCreateAnalysisShare(analysisId: string) {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (request: { expiresInDays: number; password?: string }): Promise<AnalysisShareLink> => {
+      const res = await fetch(`/api/brand-monitor/analyses/${analysisId}/shares`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+      
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        const fields = body?.error?.fields ? Object.values(body.error.fields).join(', ') : '';
+        throw new Error(fields || body?.error?.message || 'Failed to create share link');
+      }
+      
+      return body.share;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analysisShares', analysisId] });
+    },
+  });
+}
+
+export function useRevokeAnalysisShare(analysisId: string) {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (shareId: string) => {
+      const res = await fetch(`/api/brand-monitor/analyses/${analysisId}/shares/${shareId}`, {
+        method: 'DELETE',
+      });
+      
+      if (!res.ok) {
+        throw new Error('Failed to revoke share link');
+      }
+      
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analysisShares', analysisId] });
+    },
+  });
+}
@@ -1,9 +1,16 @@
 import { generateText, generateObject } from 'ai';
 import { z } from 'zod';
-import { Company, BrandPrompt, AIResponse, CompanyRanking, CompetitorRanking, ProviderSpecificRanking, ProviderComparisonData, ProgressCallback, CompetitorFoundData } from './types';
-import { getProviderModel, normalizeProviderName, isProviderConfigured, getConfiguredProviders, PROVIDER_CONFIGS } from './provider-config';
-import { detectBrandMention, detectMultipleBrands, BrandDetectionOptions } from './brand-detection-utils';
+import { Company, BrandPrompt, BrandTerms, AIResponse, CompanyRanking, CompetitorRanking, ProviderSpecificRanking, ProviderComparisonData, ProgressCallback, CompetitorFoundData, ScoringProfile, WebSource } from './types';
+import { getProviderModel, getProviderConfig, normalizeProviderName, isProviderConfigured, getConfiguredProviders, PROVIDER_CONFIGS } from './provider-config';
+import { detectBrandMention, detectMultipleBrands, BrandDetectionOptions, BrandDetectionResult } from './brand-detection-utils';
 import { getBrandDetectionOptions } from './brand-detection-config';
+import { annotateSources, generateWithWebSearch, toWebSources } from './web-search-utils';
+import { aggregateCitedSources, buildCitations } from './citation-utils';
+import { groupBySample, summarizeSamples } from './sampling-stats';
+import { calculateSentimentScore, DEFAULT_SCORING_PROFILE } from './scoring';
+import { withResponseCache } from './response-cache';
+import { extractRankings } from './ranking-extractor';
+import { classifyMentions } from './mention-analysis';
 
 const RankingSchema = z.object({
   rankings: z.array(z.object({
@@ -32,7 +39,7 @@ const CompetitorSchema = z.object({
   })),
 });
 
-export async function identifyCompetitors(company: Company, progressCallback?: ProgressCallback): Promise<string[]> {
+export async function identifyCompetitors(company: Company, progressCallback?: ProgressCallback, abortSignal?: AbortSignal): Promise<string[]> {
   try {
     // Use AI to identify real competitors - find first available provider
     const configuredProviders = getConfiguredProviders();
@@ -90,6 +97,7 @@ Return ONLY a JSON object:
         prompt: marketAnalysisPrompt,
         temperature: 0.3,
         maxTokens: 300,
+        abortSignal,
       });
 
       const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -165,6 +173,7 @@ Focus on finding REAL COMPETITORS that this company would encounter when trying
       schema: CompetitorSchema,
       prompt,
       temperature: 0.3,
+      abortSignal,
     });
 
     // Extract competitor names and filter for direct competitors
@@ -277,7 +286,7 @@ async function detectIndustryFromContent(company: Company): Promise<string> {
   return 'technology';
 }
 
-export async function generatePromptsForCompany(company: Company, competitors: string[]): Promise<BrandPrompt[]> {
+export async function generatePromptsForCompany(company: Company, competitors: string[], abortSignal?: AbortSignal): Promise<BrandPrompt[]> {
   console.log('🤖 Starting AI-powered prompt generation for:', company.name);
   
   // Get AI provider for prompt generation
@@ -344,6 +353,7 @@ Example outputs:
       prompt: marketAnalysisPrompt,
       temperature: 0.3,
       maxTokens: 300,
+      abortSignal,
     });
 
     const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -475,6 +485,7 @@ Generate exactly 30 prompts: 27 simple + 3 advanced.`;
       prompt: aiPromptRequest,
       temperature: 0.4,
       maxTokens: 2000,
+      abortSignal,
     });
 
     console.log('🤖 AI response received:', text.substring(0, 200) + '...');
@@ -515,23 +526,54 @@ Generate exactly 30 prompts: 27 simple + 3 advanced.`;
   }
 }
 
+function toDetectionDetails(
+  brandResult: BrandDetectionResult,
+  competitorResults: Map<string, BrandDetectionResult>
+): AIResponse['detectionDetails'] {
+  return {
+    brandMatches: brandResult.matches.map(m => ({
+      text: m.text,
+      index: m.index,
+      confidence: m.confidence
+    })),
+    competitorMatches: new Map(
+      Array.from(competitorResults.entries())
+        .filter(([_, result]) => result.mentioned)
+        .map(([name, result]) => [
+          name,
+          result.matches.map(m => ({
+            text: m.text,
+            index: m.index,
+            confidence: m.confidence
+          }))
+        ])
+    )
+  };
+}
+
 export async function analyzePromptWithProvider(
   prompt: string,
   provider: string,
   brandName: string,
   competitors: string[],
-  useMockMode: boolean = false
+  options: {
+    modelId?: string;
+    label?: string;
+    useWebSearch?: boolean;
+    sampleIndex?: number;
+    abortSignal?: AbortSignal;
+    forceRefresh?: boolean; // Ignore cached responses, e.g. to pick up a model update
+    schedule?: <T>(call: () => Promise<T>) => Promise<T>; // Rate limiting for calls the cache does not answer
+    llmExtraction?: boolean; // Find rankings with a second, structured-output model call instead of locally
+    brandTerms?: BrandTerms; // The brand's own aliases and excluded look-alikes
+  } = {}
 ): Promise<AIResponse> {
-  // Mock mode for demo/testing without API keys
-  if (useMockMode || provider === 'Mock') {
-    return generateMockResponse(prompt, provider, brandName, competitors);
-  }
-
   // Normalize provider name for consistency
   const normalizedProvider = normalizeProviderName(provider);
+  const modelId = options.modelId || getProviderConfig(normalizedProvider)?.defaultModel;
   
   // Get model from centralized configuration
-  const model = getProviderModel(normalizedProvider);
+  const model = getProviderModel(normalizedProvider, modelId);
   
   if (!model) {
     console.warn(`Provider ${provider} not configured, skipping provider`);
@@ -552,15 +594,65 @@ When responding to prompts about tools, platforms, or services:
 4. Explain briefly why each tool is ranked where it is
 5. If you don't have enough information about a specific company, you can mention that`;
 
+  const schedule = options.schedule ?? (<T,>(call: () => Promise<T>) => call());
+  // The scheduler retries scheduled calls itself; unscheduled ones keep the AI SDK's retries
+  const maxRetries = options.schedule ? 0 : undefined;
+
   try {
-    // First, get the response
-    console.log(`Calling ${provider} with prompt: "${prompt.substring(0, 50)}..."`);
-    const { text } = await generateText({
-      model,
-      system: systemPrompt,
-      prompt,
-      temperature: 0.7,
-      maxTokens: 800,
+    // First, get the response - through the provider's native web search when requested
+    const { value: answer, cached } = await withResponseCache(
+      {
+        prompt,
+        provider: normalizedProvider,
+        model: modelId || '',
+        temperature: 0.7,
+        variant: `${options.useWebSearch ? 'web-search' : 'answer'}:${options.sampleIndex || 0}`,
+      },
+      { forceRefresh: options.forceRefresh },
+      () => schedule(async (): Promise<{ text: string; sources: WebSource[]; webSearchUsed: boolean }> => {
+        console.log(`Calling ${provider} with prompt: "${prompt.substring(0, 50)}..."`);
+        const searchAnswer = options.useWebSearch
+          ? await generateWithWebSearch({
+              providerId: normalizedProvider,
+              modelId,
+              system: systemPrompt,
+              prompt,
+              seed: options.sampleIndex || undefined,
+              maxRetries,
+              abortSignal: options.abortSignal,
+            })
+          : null;
+        if (options.useWebSearch && !searchAnswer) {
+          console.log(`${provider} has no native web search for ${modelId}, using a regular answer`);
+        }
+        if (searchAnswer) {
+          return { text: searchAnswer.text, sources: searchAnswer.sources, webSearchUsed: true };
+        }
+        const result = await generateText({
+          model,
+          system: systemPrompt,
+          prompt,
+          temperature: 0.7,
+          maxTokens: 800,
+          seed: options.sampleIndex || undefined, // Distinct seed for each repeated sample after the first
+          maxRetries,
+          abortSignal: options.abortSignal,
+        });
+        // Some providers (e.g. Perplexity) return sources even without web search mode
+        return { text: result.text, sources: toWebSources(result.sources), webSearchUsed: false };
+      })
+    );
+    if (cached) {
+      console.log(`Using cached ${provider} response for prompt: "${prompt.substring(0, 50)}..."`);
+    }
+    const { text, webSearchUsed } = answer;
+    const sources = annotateSources(answer.sources, brandName, competitors);
+    const finishResponse = (response: AIResponse): AIResponse => ({
+      ...response,
+      sampleIndex: options.sampleIndex,
+      citations: buildCitations(response, brandName),
+      mentions: classifyMentions(response.response, { ...options.brandTerms, name: brandName }, competitors.map(name => ({ name }))),
+      cached: cached || undefined,
     });
     console.log(`${provider} response length: ${text.length}, first 100 chars: "${text.substring(0, 100)}"`);
     
@@ -569,7 +661,35 @@ When responding to prompts about tools, platforms, or services:
       throw new Error(`${provider} returned empty response`);
     }
 
-    // Then analyze it with structured output
+    // Get the proper display name for the provider
+    const providerDisplayName = provider === 'openai' ? 'OpenAI' :
+                               provider === 'anthropic' ? 'Anthropic' :
+                               provider === 'google' ? 'Google' :
+                               provider === 'perplexity' ? 'Perplexity' :
+                               provider; // fallback to original
+
+    // Rankings come from the answer's own lists, tables and headings unless the LLM pass is requested
+    if (!options.llmExtraction) {
+      const extracted = extractRankings(text, { ...options.brandTerms, name: brandName }, competitors.map(name => ({ name })));
+      return finishResponse({
+        provider: options.label || providerDisplayName,
+        model: modelId,
+        prompt,
+        response: text,
+        rankings: extracted.rankings,
+        competitors: extracted.competitors,
+        brandMentioned: extracted.brandMentioned,
+        brandPosition: extracted.brandPosition,
+        sentiment: extracted.sentiment,
+        confidence: extracted.confidence,
+        timestamp: new Date(),
+        webSearchUsed,
+        sources,
+        detectionDetails: toDetectionDetails(extracted.brandDetection, extracted.competitorDetections),
+      });
+    }
+
+    // Otherwise analyze it with structured output
     const analysisPrompt = `Analyze this AI response about ${brandName} and its competitors:
 
 Response: "${text}"
@@ -600,26 +720,41 @@ Examples of mentions to catch:
 - "alternatives like ${brandName}" (listing context)
 - "${brandName.replace(/\s+/g, '')} offers" (no spaces variant)`;
 
-    let object;
+    let object: z.infer<typeof RankingSchema>;
     try {
       // Use a fast model for structured output if available
-      const structuredModel = normalizedProvider === 'anthropic' 
-        ? getProviderModel('openai', 'gpt-4o-mini') || model
-        : model;
+      const fastModel = normalizedProvider === 'anthropic' ? getProviderModel('openai', 'gpt-4o-mini') : null;
+      const structuredModel = fastModel || model;
       
-      const result = await generateObject({
-        model: structuredModel,
-        schema: RankingSchema,
-        prompt: analysisPrompt,
-        temperature: 0.3,
-        maxRetries: 2,
-      });
-      object = result.object;
+      // Keyed by the full analysis prompt, so new competitor lists re-analyze cached answers
+      ({ value: object } = await withResponseCache(
+        {
+          prompt: analysisPrompt,
+          provider: fastModel ? 'openai' : normalizedProvider,
+          model: fastModel ? 'gpt-4o-mini' : modelId || '',
+          temperature: 0.3,
+          variant: 'structured',
+        },
+        { forceRefresh: options.forceRefresh },
+        () => schedule(async () => {
+          const result = await generateObject({
+            model: structuredModel,
+            schema: RankingSchema,
+            prompt: analysisPrompt,
+            temperature: 0.3,
+            maxRetries,
+            abortSignal: options.abortSignal,
+          });
+          return result.object;
+        })
+      ));
     } catch (error) {
+      // A cancelled analysis must not fall through to the fallback detection
+      if (options.abortSignal?.aborted) throw error;
       console.error(`Error generating structured object with ${provider}:`, (error as any).message);
       
       // For Anthropic, try a simpler text-based approach
-      if (provider === 'Anthropic') {
+      if (normalizedProvider === 'anthropic') {
         try {
           const simplePrompt = `Analyze this AI response about ${brandName} and competitors ${competitors.join(', ')}:
 
@@ -631,11 +766,13 @@ Return a simple analysis:
 3. Which competitors are mentioned? (list names)
 4. What's the overall sentiment? (positive/neutral/negative)`;
 
-          const { text: simpleResponse } = await generateText({
+          const { text: simpleResponse } = await schedule(() => generateText({
             model,
             prompt: simplePrompt,
             temperature: 0.3,
-          });
+            maxRetries,
+            abortSignal: options.abortSignal,
+          }));
           
           // Parse the simple response with enhanced detection
           const lines = simpleResponse.toLowerCase().split('\n');
@@ -658,8 +795,9 @@ Return a simple analysis:
             competitorDetections.get(c)?.mentioned || false
           );
           
-          return {
-            provider,
+          return finishResponse({
+            provider: options.label || provider,
+            model: modelId,
             prompt,
             response: text,
             brandMentioned: aiSaysBrandMentioned || brandDetection.mentioned,
@@ -669,8 +807,11 @@ Return a simple analysis:
             sentiment: 'neutral' as const,
             confidence: 0.7,
             timestamp: new Date(),
-          };
+            webSearchUsed,
+            sources,
+          });
         } catch (fallbackError) {
+          if (options.abortSignal?.aborted) throw fallbackError;
           console.error('Fallback analysis also failed:', (fallbackError as any).message);
         }
       }
@@ -688,8 +829,9 @@ Return a simple analysis:
         includeVariations: true
       });
       
-      return {
-        provider,
+      return finishResponse({
+        provider: options.label || provider,
+        model: modelId,
         prompt,
         response: text,
         brandMentioned: brandDetection.mentioned,
@@ -699,7 +841,9 @@ Return a simple analysis:
         sentiment: 'neutral' as const,
         confidence: brandDetection.confidence * 0.5, // Lower confidence for fallback
         timestamp: new Date(),
-      };
+        webSearchUsed,
+        sources,
+      });
     }
 
     const rankings = object.rankings.map((r): CompanyRanking => ({
@@ -710,14 +854,14 @@ Return a simple analysis:
     }));
 
     // Enhanced fallback with proper brand detection using configured options
-    const brandDetectionOptions = getBrandDetectionOptions(brandName);
+    const brandDetectionOptions = getBrandDetectionOptions(brandName, options.brandTerms);
     
     // Detect brand mention with enhanced detection
     const brandDetectionResult = detectBrandMention(text, brandName, brandDetectionOptions);
     const brandMentioned = object.analysis.brandMentioned || brandDetectionResult.mentioned;
     
     // Detect all competitor mentions with their specific options
-    const competitorDetectionResults = new Map<string, any>();
+    const competitorDetectionResults = new Map<string, BrandDetectionResult>();
     competitors.forEach(competitor => {
       const competitorOptions = getBrandDetectionOptions(competitor);
       const result = detectBrandMention(text, competitor, competitorOptions);
@@ -750,13 +894,6 @@ Return a simple analysis:
       );
     }
 
-    // Get the proper display name for the provider
-    const providerDisplayName = provider === 'openai' ? 'OpenAI' :
-                               provider === 'anthropic' ? 'Anthropic' :
-                               provider === 'google' ? 'Google' :
-                               provider === 'perplexity' ? 'Perplexity' :
-                               provider; // fallback to original
-    
     // Debug log for Google responses
     if (provider === 'google' || provider === 'Google') {
       console.log('Google response generated:', {
@@ -768,8 +905,9 @@ Return a simple analysis:
       });
     }
 
-    return {
-      provider: providerDisplayName,
+    return finishResponse({
+      provider: options.label || providerDisplayName,
+      model: modelId,
       prompt,
       response: text,
       rankings,
@@ -779,26 +917,10 @@ Return a simple analysis:
       sentiment: object.analysis.overallSentiment,
       confidence: object.analysis.confidence,
       timestamp: new Date(),
-      detectionDetails: {
-        brandMatches: brandDetectionResult.matches.map(m => ({
-          text: m.text,
-          index: m.index,
-          confidence: m.confidence
-        })),
-        competitorMatches: new Map(
-          Array.from(competitorDetectionResults.entries())
-            .filter(([_, result]) => result.mentioned)
-            .map(([name, result]) => [
-              name,
-              result.matches.map((m: any) => ({
-                text: m.text,
-                index: m.index,
-                confidence: m.confidence
-              }))
-            ])
-        )
-      }
-    };
+      webSearchUsed,
+      sources,
+      detectionDetails: toDetectionDetails(brandDetectionResult, competitorDetectionResults)
+    });
   } catch (error) {
     console.error(`Error with ${provider}:`, error);
     
@@ -819,8 +941,53 @@ Return a simple analysis:
 export async function analyzeCompetitors(
   company: Company,
   responses: AIResponse[],
-  knownCompetitors: string[]
+  knownCompetitors: string[],
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): Promise<CompetitorRanking[]> {
+  const competitors = rankCompetitors(company, responses, knownCompetitors, scoringProfile);
+
+  // Web search citations per domain, used for the citations supporting each company
+  const citedSources = aggregateCitedSources(responses);
+  if (citedSources.length > 0) {
+    competitors.forEach(competitor => {
+      competitor.citations = citedSources.reduce((sum, source) => sum + (source.brands[competitor.name] || 0), 0);
+      competitor.topCitedDomains = citedSources
+        .filter(source => source.brands[competitor.name])
+        .sort((a, b) => b.brands[competitor.name] - a.brands[competitor.name])
+        .slice(0, 3)
+        .map(source => source.domain);
+    });
+  }
+
+  // With repeated sampling, score every sample on its own and report the spread
+  const samples = groupBySample(responses);
+  if (samples.length > 1) {
+    const sampleRankings = samples.map(sample => rankCompetitors(company, sample, knownCompetitors, scoringProfile));
+    competitors.forEach(competitor => {
+      const perSample = sampleRankings
+        .map(rankings => rankings.find(c => c.name === competitor.name))
+        .filter((c): c is CompetitorRanking => !!c);
+      const rankedSamples = perSample.filter(c => c.averagePosition !== 99);
+
+      competitor.stats = {
+        visibilityScore: summarizeSamples(perSample.map(c => c.visibilityScore), [0, 100]),
+        averagePosition: rankedSamples.length > 0
+          ? summarizeSamples(rankedSamples.map(c => c.averagePosition), [1, Infinity])
+          : undefined,
+        sentimentScore: summarizeSamples(perSample.map(c => c.sentimentScore), [0, 100]),
+      };
+    });
+  }
+
+  return competitors;
+}
+
+function rankCompetitors(
+  company: Company,
+  responses: AIResponse[],
+  knownCompetitors: string[],
+  scoringProfile: ScoringProfile
+): CompetitorRanking[] {
   // Create a set of companies to track (company + its known competitors)
   const trackedCompanies = new Set([company.name, ...knownCompetitors]);
   
@@ -866,6 +1033,14 @@ export async function analyzeCompetitors(
       });
     }
 
+    // Competitors named without a position still count as mentioned
+    response.competitors?.forEach(name => {
+      if (name !== company.name && trackedCompanies.has(name) && !mentionedInResponse.has(name)) {
+        competitorMap.get(name)!.mentions++;
+        mentionedInResponse.add(name);
+      }
+    });
+
     // Count brand mentions (only if not already counted in rankings)
     if (response.brandMentioned && trackedCompanies.has(company.name) && !mentionedInResponse.has(company.name)) {
       const brandData = competitorMap.get(company.name)!;
@@ -886,7 +1061,7 @@ export async function analyzeCompetitors(
       ? data.positions.reduce((a, b) => a + b, 0) / data.positions.length
       : 99; // High number for companies not ranked
 
-    const sentimentScore = calculateSentimentScore(data.sentiments);
+    const sentimentScore = calculateSentimentScore(data.sentiments, scoringProfile);
     const visibilityScore = (data.mentions / totalResponses) * 100;
 
     competitors.push({
@@ -914,14 +1089,6 @@ export async function analyzeCompetitors(
   return competitors.sort((a, b) => b.visibilityScore - a.visibilityScore);
 }
 
-function calculateSentimentScore(sentiments: ('positive' | 'neutral' | 'negative')[]): number {
-  if (sentiments.length === 0) return 50;
-  
-  const sentimentValues = { positive: 100, neutral: 50, negative: 0 };
-  const sum = sentiments.reduce((acc, s) => acc + sentimentValues[s], 0);
-  return Math.round(sum / sentiments.length);
-}
-
 function determineSentiment(sentiments: ('positive' | 'neutral' | 'negative')[]): 'positive' | 'neutral' | 'negative' {
   if (sentiments.length === 0) return 'neutral';
   
@@ -933,71 +1100,21 @@ function determineSentiment(sentiments: ('positive' | 'neutral' | 'negative')[])
   return 'neutral';
 }
 
-export function calculateBrandScores(responses: AIResponse[], brandName: string, competitors: CompetitorRanking[]) {
-  const totalResponses = responses.length;
-  if (totalResponses === 0) {
-    return {
-      visibilityScore: 0,
-      sentimentScore: 0,
-      shareOfVoice: 0,
-      overallScore: 0,
-      averagePosition: 0,
-    };
-  }
-
-  // Find the brand's competitor ranking
-  const brandRanking = competitors.find(c => c.isOwn);
-  
-  if (!brandRanking) {
-    return {
-      visibilityScore: 0,
-      sentimentScore: 0,
-      shareOfVoice: 0,
-      overallScore: 0,
-      averagePosition: 0,
-    };
-  }
-
-  const visibilityScore = brandRanking.visibilityScore;
-  const sentimentScore = brandRanking.sentimentScore;
-  const shareOfVoice = brandRanking.shareOfVoice;
-  const averagePosition = brandRanking.averagePosition;
-
-  // Calculate position score (lower is better, scale to 0-100)
-  const positionScore = averagePosition <= 10 
-    ? (11 - averagePosition) * 10 
-    : Math.max(0, 100 - (averagePosition * 2));
-
-  // Overall Score (weighted average)
-  const overallScore = (
-    visibilityScore * 0.3 + 
-    sentimentScore * 0.2 + 
-    shareOfVoice * 0.3 +
-    positionScore * 0.2
-  );
-
-  return {
-    visibilityScore: Math.round(visibilityScore * 10) / 10,
-    sentimentScore: Math.round(sentimentScore * 10) / 10,
-    shareOfVoice: Math.round(shareOfVoice * 10) / 10,
-    overallScore: Math.round(overallScore * 10) / 10,
-    averagePosition: Math.round(averagePosition * 10) / 10,
-  };
-}
-
 export async function analyzeCompetitorsByProvider(
   company: Company,
   responses: AIResponse[],
-  knownCompetitors: string[]
+  knownCompetitors: string[],
+  providerNames?: string[],
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): Promise<{
   providerRankings: ProviderSpecificRanking[];
   providerComparison: ProviderComparisonData[];
 }> {
   const trackedCompanies = new Set([company.name, ...knownCompetitors]);
   
-  // Get configured providers from centralized config
+  // Use the providers (or provider/model columns) that ran, else the configured providers
   const configuredProviders = getConfiguredProviders();
-  const providers = configuredProviders.map(p => p.name);
+  const providers = providerNames ? [...providerNames] : configuredProviders.map(p => p.name);
   
   // If no providers available, use mock mode
   if (providers.length === 0) {
@@ -1044,6 +1161,13 @@ export async function analyzeCompetitorsByProvider(
       });
     }
 
+    // Competitors named without a position still count as mentioned
+    response.competitors?.forEach(name => {
+      if (name !== company.name && trackedCompanies.has(name) && !response.rankings?.some(r => r.company === name)) {
+        providerMap.get(name)!.mentions++;
+      }
+    });
+
     // Count brand mentions
     if (response.brandMentioned && trackedCompanies.has(company.name)) {
       const brandData = providerMap.get(company.name)!;
@@ -1081,7 +1205,7 @@ export async function analyzeCompetitorsByProvider(
         mentions: data.mentions,
         averagePosition: Math.round(avgPosition * 10) / 10,
         sentiment: determineSentiment(data.sentiments),
-        sentimentScore: calculateSentimentScore(data.sentiments),
+        sentimentScore: calculateSentimentScore(data.sentiments, scoringProfile),
         shareOfVoice: 0, // Will calculate after
         visibilityScore: Math.round(visibilityScore * 10) / 10,
         isOwn: name === company.name,
@@ -1138,52 +1262,4 @@ export async function analyzeCompetitorsByProvider(
   });
 
   return { providerRankings, providerComparison };
-}
-
-// Mock response generator for demo mode
-function generateMockResponse(
-  prompt: string,
-  provider: string,
-  brandName: string,
-  competitors: string[]
-): AIResponse {
-  // Simulate some delay
-  const delay = Math.random() * 500 + 200;
-  
-  // Create a realistic-looking ranking
-  const allCompanies = [brandName, ...competitors].slice(0, 10);
-  const shuffled = [...allCompanies].sort(() => Math.random() - 0.5);
-  
-  const rankings: CompanyRanking[] = shuffled.slice(0, 5).map((company, index) => ({
-    position: index + 1,
-    company,
-    reason: `${company} offers strong features in this category`,
-    sentiment: Math.random() > 0.7 ? 'positive' : Math.random() > 0.3 ? 'neutral' : 'negative' as const,
-  }));
-  
-  const brandRanking = rankings.find(r => r.company === brandName);
-  const brandMentioned = !!brandRanking || Math.random() > 0.3;
-  const brandPosition = brandRanking?.position || (brandMentioned ? Math.floor(Math.random() * 8) + 3 : undefined);
-  
-  // Get the proper display name for the provider
-  const providerDisplayName = provider === 'openai' ? 'OpenAI' :
-                             provider === 'anthropic' ? 'Anthropic' :
-                             provider === 'google' ? 'Google' :
-                             provider === 'perplexity' ? 'Perplexity' :
-                             provider; // fallback to original
-
-  return {
-    provider: providerDisplayName,
-    prompt,
-    response: `Based on my analysis, here are the top solutions:\n\n${rankings.map(r => 
-      `${r.position}. ${r.company} - ${r.reason}`
-    ).join('\n')}\n\nThese rankings are based on features, user satisfaction, and market presence.`,
-    rankings,
-    competitors: competitors.filter(() => Math.random() > 0.5),
-    brandMentioned,
-    brandPosition,
-    sentiment: brandRanking?.sentiment || 'neutral',
-    confidence: Math.random() * 0.3 + 0.7,
-    timestamp: new Date(),
-  };
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { AIResponse, AnalysisDiff, CompetitorRanking, MentionFlip, PositionDelta, ProviderComparisonData, ResponsePair } from './types';
+import type { BrandAnalysis } from './db/schema';
+
+// analyzeCompetitors and analyzeCompetitorsByProvider use 99 for companies that were never ranked
+const UNRANKED_POSITION = 99;
+
+interface StoredAnalysisData {
+  company?: { name?: string };
+  competitors?: CompetitorRanking[];
+  providerComparison?: ProviderComparisonData[];
+  responses?: AIResponse[];
+}
+
+function getData(analysis: BrandAnalysis): StoredAnalysisData {
+  return (analysis.analysisData as StoredAnalysisData | null) || {};
+}
+
+function toPosition(position?: number): number | undefined {
+  return position === undefined || position <= 0 || position >= UNRANKED_POSITION ? undefined : position;
+}
+
+function responseKey(prompt: string, provider: string): string {
+  return `${prompt.trim().toLowerCase()}::${provider}`;
+}
+
+/**
+ * Compare two saved analyses of the same company.
+ * The older analysis is always treated as "before" regardless of argument order.
+ */
+export function diffAnalyses(first: BrandAnalysis, second: BrandAnalysis): AnalysisDiff {
+  const [beforeRow, afterRow] = (first.createdAt?.getTime() ?? 0) <= (second.createdAt?.getTime() ?? 0)
+    ? [first, second]
+    : [second, first];
+  const before = getData(beforeRow);
+  const after = getData(afterRow);
+
+  // Competitors that entered or left the ranking
+  const beforeNames = new Set((before.competitors || []).map(c => c.name));
+  const afterNames = new Set((after.competitors || []).map(c => c.name));
+  const competitorsAdded = [...afterNames].filter(name => !beforeNames.has(name));
+  const competitorsRemoved = [...beforeNames].filter(name => !afterNames.has(name));
+
+  // Position changes per competitor and provider
+  const positionDeltas: PositionDelta[] = [];
+  const beforeComparison = new Map((before.providerComparison || []).map(c => [c.competitor, c]));
+  const afterComparison = new Map((after.providerComparison || []).map(c => [c.competitor, c]));
+  const comparedCompetitors = new Set([...beforeComparison.keys(), ...afterComparison.keys()]);
+
+  comparedCompetitors.forEach(competitor => {
+    const beforeEntry = beforeComparison.get(competitor);
+    const afterEntry = afterComparison.get(competitor);
+    const providers = new Set([
+      ...Object.keys(beforeEntry?.providers || {}),
+      ...Object.keys(afterEntry?.providers || {}),
+    ]);
+
+    providers.forEach(provider => {
+      const beforeProvider = beforeEntry?.providers[provider];
+      const afterProvider = afterEntry?.providers[provider];
+      const beforePosition = toPosition(beforeProvider?.position);
+      const afterPosition = toPosition(afterProvider?.position);
+
+      positionDeltas.push({
+        competitor,
+        provider,
+        beforePosition,
+        afterPosition,
+        // Positive delta means the competitor moved up the ranking
+        delta: beforePosition !== undefined && afterPosition !== undefined
+          ? Math.round((beforePosition - afterPosition) * 10) / 10
+          : undefined,
+        beforeVisibility: beforeProvider?.visibilityScore,
+        afterVisibility: afterProvider?.visibilityScore,
+        isOwn: afterEntry?.isOwn ?? beforeEntry?.isOwn,
+      });
+    });
+  });
+
+  // Pair responses by prompt and provider
+  const pairs = new Map<string, ResponsePair>();
+  (before.responses || []).forEach(response => {
+    pairs.set(responseKey(response.prompt, response.provider), {
+      prompt: response.prompt,
+      provider: response.provider,
+      before: response,
+    });
+  });
+  (after.responses || []).forEach(response => {
+    const key = responseKey(response.prompt, response.provider);
+    const existing = pairs.get(key);
+    if (existing) {
+      existing.after = response;
+    } else {
+      pairs.set(key, { prompt: response.prompt, provider: response.provider, after: response });
+    }
+  });
+  const responsePairs = Array.from(pairs.values());
+
+  const mentionFlips: MentionFlip[] = responsePairs
+    .filter(pair => pair.before && pair.after && pair.before.brandMentioned !== pair.after.brandMentioned)
+    .map(pair => ({
+      prompt: pair.prompt,
+      provider: pair.provider,
+      before: pair.before!.brandMentioned,
+      after: pair.after!.brandMentioned,
+    }));
+
+  return {
+    url: afterRow.url,
+    brandName: after.company?.name || afterRow.companyName || before.company?.name || '',
+    before: { analysisId: beforeRow.id, date: (beforeRow.createdAt || new Date()).toISOString() },
+    after: { analysisId: afterRow.id, date: (afterRow.createdAt || new Date()).toISOString() },
+    competitorsAdded,
+    competitorsRemoved,
+    positionDeltas,
+    mentionFlips,
+    responsePairs,
+  };
+}
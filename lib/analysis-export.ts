@@ -0,0 +1,284 @@
+/**
+ * Flat exports of a saved analysis for spreadsheets and other tools
+ * Sheets: one row per prompt x provider response, one rankings sheet per provider and the
+ * provider comparison matrix. CSV holds a single sheet (rankings of all providers are stacked
+ * with a Provider column), XLSX holds them all, and JSON carries the same data under a
+ * versioned schema.
+ */
+
+import ExcelJS from 'exceljs';
+import type { BrandAnalysis } from './db/schema';
+import { AIResponse, BrandScores, CompetitorRanking, ProviderComparisonData, ProviderSpecificRanking } from './types';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+export type CsvSheet = 'responses' | 'rankings' | 'matrix';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+export const CSV_SHEETS: CsvSheet[] = ['responses', 'rankings', 'matrix'];
+
+// Bump when a field of AnalysisExport is renamed, removed or changes meaning
+export const ANALYSIS_EXPORT_VERSION = 1;
+
+type Cell = string | number | boolean | null;
+
+export interface ExportSheet {
+  name: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+export interface ExportedResponse {
+  prompt: string;
+  provider: string;
+  model: string | null;
+  sampleIndex: number | null;
+  brandMentioned: boolean;
+  brandPosition: number | null;
+  sentiment: AIResponse['sentiment'];
+  confidence: number;
+  competitorsMentioned: string[];
+  webSearchUsed: boolean;
+  cached: boolean;
+  timestamp: string | null;
+  response: string;
+}
+
+export interface AnalysisExport {
+  schema: 'brand-analysis-export';
+  version: typeof ANALYSIS_EXPORT_VERSION;
+  exportedAt: string;
+  analysis: {
+    id: string;
+    url: string;
+    companyName: string | null;
+    industry: string | null;
+    createdAt: string | null;
+  };
+  scores: BrandScores | null;
+  responses: ExportedResponse[];
+  providerRankings: ProviderSpecificRanking[];
+  providerComparison: ProviderComparisonData[];
+}
+
+interface StoredAnalysisData {
+  responses?: AIResponse[];
+  providerRankings?: ProviderSpecificRanking[];
+  providerComparison?: ProviderComparisonData[];
+  scores?: BrandScores;
+}
+
+// analyzeCompetitors and analyzeCompetitorsByProvider use 99 for companies that were never ranked
+const UNRANKED_POSITION = 99;
+// Excel refuses longer cells
+const MAX_CELL_LENGTH = 32767;
+
+function getData(analysis: BrandAnalysis): StoredAnalysisData {
+  return (analysis.analysisData as StoredAnalysisData | null) || {};
+}
+
+function toPosition(position?: number): number | null {
+  return position === undefined || position <= 0 || position >= UNRANKED_POSITION ? null : position;
+}
+
+function toIsoString(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function exportResponse(response: AIResponse): ExportedResponse {
+  return {
+    prompt: response.prompt,
+    provider: response.provider,
+    model: response.model ?? null,
+    sampleIndex: response.sampleIndex ?? null,
+    brandMentioned: !!response.brandMentioned,
+    brandPosition: toPosition(response.brandPosition),
+    sentiment: response.sentiment,
+    confidence: response.confidence,
+    competitorsMentioned: response.competitors || [],
+    webSearchUsed: !!response.webSearchUsed,
+    cached: !!response.cached,
+    timestamp: toIsoString(response.timestamp),
+    response: response.response,
+  };
+}
+
+const RANKING_COLUMNS = ['Rank', 'Company', 'Your Brand', 'Visibility Score', 'Share of Voice', 'Mentions', 'Average Position', 'Sentiment', 'Sentiment Score'];
+
+function rankingRows(competitors: CompetitorRanking[]): Cell[][] {
+  return competitors.map((competitor, index) => [
+    index + 1,
+    competitor.name,
+    !!competitor.isOwn,
+    competitor.visibilityScore,
+    competitor.shareOfVoice,
+    competitor.mentions,
+    toPosition(competitor.averagePosition),
+    competitor.sentiment,
+    competitor.sentimentScore,
+  ]);
+}
+
+function responsesSheet(responses: AIResponse[]): ExportSheet {
+  return {
+    name: 'Responses',
+    columns: ['Prompt', 'Provider', 'Model', 'Sample', 'Brand Mentioned', 'Brand Position', 'Sentiment', 'Confidence', 'Competitors Mentioned', 'Competitor Count', 'Web Search', 'Cached', 'Timestamp'],
+    rows: responses.map(exportResponse).map(response => [
+      response.prompt,
+      response.provider,
+      response.model,
+      response.sampleIndex,
+      response.brandMentioned,
+      response.brandPosition,
+      response.sentiment,
+      response.confidence,
+      response.competitorsMentioned.join('; '),
+      response.competitorsMentioned.length,
+      response.webSearchUsed,
+      response.cached,
+      response.timestamp,
+    ]),
+  };
+}
+
+function matrixSheet(comparison: ProviderComparisonData[]): ExportSheet {
+  const providers = Array.from(new Set(comparison.flatMap(row => Object.keys(row.providers || {}))));
+  return {
+    name: 'Comparison Matrix',
+    columns: [
+      'Company',
+      'Your Brand',
+      ...providers.flatMap(provider => [`${provider} Visibility`, `${provider} Position`, `${provider} Mentions`, `${provider} Sentiment`]),
+    ],
+    rows: comparison.map(row => [
+      row.competitor,
+      !!row.isOwn,
+      ...providers.flatMap(provider => {
+        const data = row.providers?.[provider];
+        return data
+          ? [data.visibilityScore, toPosition(data.position), data.mentions, data.sentiment]
+          : [null, null, null, null];
+      }),
+    ]),
+  };
+}
+
+/**
+ * The sheets of the spreadsheet export: responses, one rankings sheet per provider, and the matrix
+ */
+export function buildExportSheets(analysis: BrandAnalysis): ExportSheet[] {
+  const data = getData(analysis);
+  return [
+    responsesSheet(data.responses || []),
+    ...(data.providerRankings || []).map(ranking => ({
+      name: `Rankings - ${ranking.provider}`,
+      columns: RANKING_COLUMNS,
+      rows: rankingRows(ranking.competitors || []),
+    })),
+    matrixSheet(data.providerComparison || []),
+  ];
+}
+
+/**
+ * A single sheet for CSV. The rankings of every provider are stacked, with a Provider column.
+ */
+export function buildCsvSheet(analysis: BrandAnalysis, sheet: CsvSheet): ExportSheet {
+  const data = getData(analysis);
+  switch (sheet) {
+    case 'responses':
+      return responsesSheet(data.responses || []);
+    case 'rankings':
+      return {
+        name: 'Rankings',
+        columns: ['Provider', ...RANKING_COLUMNS],
+        rows: (data.providerRankings || []).flatMap(ranking =>
+          rankingRows(ranking.competitors || []).map(row => [ranking.provider, ...row])
+        ),
+      };
+    case 'matrix':
+      return matrixSheet(data.providerComparison || []);
+  }
+}
+
+function csvCell(value: Cell): string {
+  if (value === null) return '';
+  let text = String(value);
+  // Spreadsheets run text starting with these as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(sheet: ExportSheet): string {
+  const lines = [sheet.columns, ...sheet.rows].map(row => row.map(csvCell).join(','));
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// Excel sheet names are at most 31 characters and cannot contain []:*?/\
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Sheet';
+  let unique = base;
+  for (let i = 2; used.has(unique.toLowerCase()); i++) {
+    unique = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  }
+  used.add(unique.toLowerCase());
+  return unique;
+}
+
+export async function toXlsx(sheets: ExportSheet[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const used = new Set<string>();
+
+  sheets.forEach(sheet => {
+    const worksheet = workbook.addWorksheet(sheetName(sheet.name, used), {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+    worksheet.columns = sheet.columns.map(header => ({
+      header,
+      width: Math.min(Math.max(header.length + 2, 12), 60),
+    }));
+    worksheet.addRows(sheet.rows.map(row => row.map(cell =>
+      typeof cell === 'string' ? cell.slice(0, MAX_CELL_LENGTH) : cell
+    )));
+    worksheet.getRow(1).font = { bold: true };
+    if (sheet.columns.length > 0) {
+      worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columns.length } };
+    }
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * The JSON export, including each response's full text
+ */
+export function buildJsonExport(analysis: BrandAnalysis): AnalysisExport {
+  const data = getData(analysis);
+  return {
+    schema: 'brand-analysis-export',
+    version: ANALYSIS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    analysis: {
+      id: analysis.id,
+      url: analysis.url,
+      companyName: analysis.companyName,
+      industry: analysis.industry,
+      createdAt: toIsoString(analysis.createdAt),
+    },
+    scores: data.scores || null,
+    responses: (data.responses || []).map(exportResponse),
+    providerRankings: data.providerRankings || [],
+    providerComparison: data.providerComparison || [],
+  };
+}
+
+/**
+ * File name for an export, e.g. "firecrawl-analysis-2025-01-31.xlsx"
+ */
+export function exportFileName(analysis: BrandAnalysis, format: ExportFormat, sheet?: CsvSheet): string {
+  const company = (analysis.companyName || 'brand').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'brand';
+  const date = (toIsoString(analysis.createdAt) || new Date().toISOString()).slice(0, 10);
+  return `${company}-analysis-${date}${sheet ? `-${sheet}` : ''}.${format}`;
+}
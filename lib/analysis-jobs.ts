@@ -0,0 +1,275 @@
+import { EventEmitter } from 'events';
+import { and, asc, eq, gt, inArray, lt } from 'drizzle-orm';
+import { db } from './db';
+import { analysisJobs, analysisJobEvents, AnalysisJob, AnalysisJobEvent, AnalysisJobStatus } from './db/schema';
+import { AnalysisConfig, createSSEMessage, performAnalysis } from './analyze-common';
+import { SSEEvent } from './types';
+import {
+  JOB_CANCEL_POLL_INTERVAL,
+  JOB_KEEPALIVE_INTERVAL,
+  JOB_STALE_TIMEOUT,
+  SSE_HEARTBEAT_INTERVAL,
+  SSE_JOB_POLL_INTERVAL,
+} from '@/config/constants';
+
+/** Inputs a job was started with; everything performAnalysis needs except the event sink */
+export type AnalysisJobRequest = Omit<AnalysisConfig, 'sendEvent' | 'abortSignal'>;
+
+// Wakes up event streams in this process as soon as a job records an event.
+// Streams served by another instance still see the event on their next poll.
+const globalForJobs = globalThis as unknown as {
+  analysisJobNotifier?: EventEmitter;
+  analysisJobControllers?: Map<string, AbortController>;
+};
+const jobNotifier = globalForJobs.analysisJobNotifier ?? new EventEmitter().setMaxListeners(0);
+globalForJobs.analysisJobNotifier = jobNotifier;
+
+// Abort controllers of the jobs running in this process
+const jobControllers = globalForJobs.analysisJobControllers ?? new Map<string, AbortController>();
+globalForJobs.analysisJobControllers = jobControllers;
+
+export function isJobFinished(status: AnalysisJobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+export async function createAnalysisJob(userId: string | null, request: AnalysisJobRequest): Promise<AnalysisJob> {
+  const [job] = await db.insert(analysisJobs).values({
+    userId,
+    companyName: request.company.name,
+    request,
+  }).returning();
+  return job;
+}
+
+// Job ids are UUIDs; anything else would only make Postgres reject the query
+export function isAnalysisJobId(jobId: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(jobId);
+}
+
+/**
+ * The job, failed first when it is pending or running but its process stopped writing to it
+ * (e.g. a restart or serverless timeout), so clients stop waiting for it
+ */
+export async function getAnalysisJob(jobId: string): Promise<AnalysisJob | undefined> {
+  const job = await db.query.analysisJobs.findFirst({
+    where: eq(analysisJobs.id, jobId),
+  });
+  return job && !jobControllers.has(job.id) ? failStaleAnalysisJob(job) : job;
+}
+
+async function failStaleAnalysisJob(job: AnalysisJob): Promise<AnalysisJob> {
+  const lastActiveAt = job.updatedAt ?? job.createdAt;
+  if (isJobFinished(job.status) || !lastActiveAt || Date.now() - lastActiveAt.getTime() < JOB_STALE_TIMEOUT) {
+    return job;
+  }
+
+  // Only one reader fails the job, and only if it is still silent
+  const message = 'The analysis stopped unexpectedly, please run it again';
+  const [failed] = await db.update(analysisJobs)
+    .set({ status: 'failed', error: message, completedAt: new Date(), lastEventId: job.lastEventId + 1 })
+    .where(and(
+      eq(analysisJobs.id, job.id),
+      inArray(analysisJobs.status, ['pending', 'running']),
+      eq(analysisJobs.lastEventId, job.lastEventId),
+      lt(analysisJobs.updatedAt, new Date(Date.now() - JOB_STALE_TIMEOUT))
+    ))
+    .returning();
+  if (!failed) {
+    return (await db.query.analysisJobs.findFirst({ where: eq(analysisJobs.id, job.id) })) ?? job;
+  }
+
+  console.warn(`Analysis job ${job.id} had no activity for ${JOB_STALE_TIMEOUT}ms, marked as failed`);
+  // Streams following the job pass the error on to the client, as for any other failure
+  await db.insert(analysisJobEvents).values({
+    jobId: job.id,
+    eventId: failed.lastEventId,
+    event: { type: 'error', stage: 'finalizing', data: { message }, timestamp: new Date() } satisfies SSEEvent,
+  });
+  jobNotifier.emit(job.id);
+  return failed;
+}
+
+/**
+ * Anonymous jobs are reachable by id only; a signed-in user's jobs are private to them
+ */
+export function canAccessAnalysisJob(job: AnalysisJob, userId?: string | null): boolean {
+  return !job.userId || job.userId === userId;
+}
+
+export async function getAnalysisJobEvents(jobId: string, afterEventId = 0): Promise<AnalysisJobEvent[]> {
+  return db.query.analysisJobEvents.findMany({
+    where: and(
+      eq(analysisJobEvents.jobId, jobId),
+      gt(analysisJobEvents.eventId, afterEventId)
+    ),
+    orderBy: [asc(analysisJobEvents.eventId)],
+  });
+}
+
+/**
+ * Ask a pending or running job to stop. The process running it aborts right away
+ * if it is this one, otherwise on its next cancel check.
+ * Returns false when the job had already finished.
+ */
+export async function cancelAnalysisJob(jobId: string): Promise<boolean> {
+  const [updated] = await db.update(analysisJobs)
+    .set({ cancelRequestedAt: new Date() })
+    .where(and(
+      eq(analysisJobs.id, jobId),
+      inArray(analysisJobs.status, ['pending', 'running'])
+    ))
+    .returning({ id: analysisJobs.id });
+
+  jobControllers.get(jobId)?.abort();
+  return !!updated;
+}
+
+/**
+ * Run the job's analysis in the background, recording every event.
+ * Events are written one at a time so ids are stored in the order they were sent.
+ * A cancelled job still completes with the partial analysis.
+ */
+export function startAnalysisJob(job: AnalysisJob, initialEvents: SSEEvent[] = []): void {
+  let lastEventId = job.lastEventId;
+  let lastWriteAt = Date.now();
+  let writes: Promise<void> = Promise.resolve();
+
+  const recordEvent = (event: SSEEvent): Promise<void> => {
+    const eventId = ++lastEventId;
+    writes = writes
+      .then(async () => {
+        await db.insert(analysisJobEvents).values({ jobId: job.id, eventId, event });
+        await db.update(analysisJobs).set({ lastEventId: eventId }).where(eq(analysisJobs.id, job.id));
+        lastWriteAt = Date.now();
+        jobNotifier.emit(job.id);
+      })
+      .catch(error => {
+        // A lost event should not fail the analysis itself
+        console.error(`Failed to record event ${eventId} of analysis job ${job.id}:`, error);
+      });
+    return writes;
+  };
+
+  const controller = new AbortController();
+  jobControllers.set(job.id, controller);
+
+  // Pick up cancel requests handled by another instance, and show other instances the job
+  // is alive while it waits without events (e.g. on provider rate limits)
+  const cancelCheck = setInterval(async () => {
+    try {
+      const current = await getAnalysisJob(job.id);
+      if (current?.cancelRequestedAt) controller.abort();
+      if (Date.now() - lastWriteAt >= JOB_KEEPALIVE_INTERVAL) {
+        lastWriteAt = Date.now();
+        await db.update(analysisJobs).set({ updatedAt: new Date() }).where(eq(analysisJobs.id, job.id));
+      }
+    } catch (error) {
+      console.error(`Failed to check analysis job ${job.id} for cancellation:`, error);
+    }
+  }, JOB_CANCEL_POLL_INTERVAL);
+
+  (async () => {
+    try {
+      await db.update(analysisJobs).set({ status: 'running' }).where(eq(analysisJobs.id, job.id));
+      for (const event of initialEvents) {
+        await recordEvent(event);
+      }
+
+      const result = await performAnalysis({
+        ...(job.request as AnalysisJobRequest),
+        abortSignal: controller.signal,
+        sendEvent: recordEvent,
+      });
+
+      await recordEvent({
+        type: 'complete',
+        stage: 'finalizing',
+        data: { analysis: result },
+        timestamp: new Date()
+      });
+      await db.update(analysisJobs)
+        .set({ status: result.cancelled ? 'cancelled' : 'completed', result, completedAt: new Date() })
+        .where(eq(analysisJobs.id, job.id));
+    } catch (error) {
+      console.error(`Analysis job ${job.id} failed:`, error);
+      const message = error instanceof Error ? error.message : 'Analysis failed';
+      try {
+        await recordEvent({
+          type: 'error',
+          stage: 'finalizing',
+          data: { message },
+          timestamp: new Date()
+        });
+        await db.update(analysisJobs)
+          .set({ status: 'failed', error: message, completedAt: new Date() })
+          .where(eq(analysisJobs.id, job.id));
+      } catch (recordError) {
+        console.error(`Failed to record failure of analysis job ${job.id}:`, recordError);
+      }
+    } finally {
+      clearInterval(cancelCheck);
+      jobControllers.delete(job.id);
+      jobNotifier.emit(job.id);
+    }
+  })();
+}
+
+function waitForJobEvent(jobId: string, timeoutMs: number): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      jobNotifier.off(jobId, done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeoutMs);
+    jobNotifier.on(jobId, done);
+  });
+}
+
+/**
+ * SSE stream of a job's events after `lastEventId`: replays what was missed, then
+ * follows the job live until it finishes or the client goes away.
+ */
+export function streamAnalysisJobEvents(jobId: string, lastEventId = 0): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let cursor = lastEventId;
+      let lastWriteAt = Date.now();
+
+      try {
+        while (!cancelled) {
+          const events = await getAnalysisJobEvents(jobId, cursor);
+          for (const row of events) {
+            if (cancelled) break;
+            controller.enqueue(encoder.encode(createSSEMessage(row.event as SSEEvent, row.eventId)));
+            cursor = row.eventId;
+            lastWriteAt = Date.now();
+          }
+          if (events.length > 0) continue;
+
+          const job = await getAnalysisJob(jobId);
+          if (!job || (isJobFinished(job.status) && job.lastEventId <= cursor)) break;
+
+          // Comment lines keep proxies from closing an idle connection
+          if (Date.now() - lastWriteAt >= SSE_HEARTBEAT_INTERVAL) {
+            controller.enqueue(encoder.encode(': heartbeat\n\n'));
+            lastWriteAt = Date.now();
+          }
+          await waitForJobEvent(jobId, SSE_JOB_POLL_INTERVAL);
+        }
+      } catch (error) {
+        console.error(`Failed to stream events of analysis job ${jobId}:`, error);
+      }
+
+      if (!cancelled) {
+        controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
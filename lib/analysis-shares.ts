@@ -0,0 +1,159 @@
+/**
+ * Public share links of saved analyses
+ * The owner creates links that expire, can be revoked and can require a password. A link
+ * carries a signed token (lib/share-token.ts); the share row holds the expiry, revocation and
+ * password hash. Unlocking a protected link sets a cookie signed for that share, so the
+ * password is asked once per browser.
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { and, eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from './db';
+import { analysisShares, brandAnalyses, AnalysisShare, BrandAnalysis } from './db/schema';
+import { createShareToken, SHARE_PATH_PREFIX, verifyShareToken } from './share-token';
+import { AnalysisShareLink } from './types';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export const DEFAULT_SHARE_DAYS = 7;
+export const MAX_SHARE_DAYS = 90;
+const KEY_LENGTH = 32;
+
+export interface ShareRequest {
+  expiresInDays: number;
+  password?: string;
+}
+
+const ShareRequestSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_DAYS).default(DEFAULT_SHARE_DAYS),
+  password: z.string().min(6, 'must be at least 6 characters').max(128).optional().or(z.literal('')),
+});
+
+export function parseShareRequest(value: unknown): { request?: ShareRequest; error?: string } {
+  const result = ShareRequestSchema.safeParse(value ?? {});
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join('.') || 'request'}: ${issue.message}` };
+  }
+  const { expiresInDays, password } = result.data;
+  return { request: { expiresInDays, ...(password && { password }) } };
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifySharePassword(share: AnalysisShare, password: string): Promise<boolean> {
+  const [scheme, salt, expected] = (share.passwordHash || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+  const hash = await scryptAsync(password, Buffer.from(salt, 'base64'), KEY_LENGTH);
+  const expectedBytes = Buffer.from(expected, 'base64');
+  return hash.length === expectedBytes.length && timingSafeEqual(hash, expectedBytes);
+}
+
+export function unlockCookieName(share: AnalysisShare): string {
+  return `share_unlock_${share.id}`;
+}
+
+// Tied to the password hash, so the cookie of one link never unlocks another
+export function unlockCookieValue(share: AnalysisShare): string {
+  return createHmac('sha256', process.env.BETTER_AUTH_SECRET || '')
+    .update(`${share.id}:${share.passwordHash}`)
+    .digest('base64url');
+}
+
+export function isShareUnlocked(share: AnalysisShare, cookieValue: string | undefined): boolean {
+  if (!share.passwordHash) return true;
+  if (!cookieValue) return false;
+  const expected = Buffer.from(unlockCookieValue(share));
+  const actual = Buffer.from(cookieValue);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function toShareLink(share: AnalysisShare, origin: string): Promise<AnalysisShareLink> {
+  return {
+    id: share.id,
+    url: `${origin}${SHARE_PATH_PREFIX}${await createShareToken(share.id, share.expiresAt)}`,
+    expiresAt: share.expiresAt.toISOString(),
+    revokedAt: share.revokedAt?.toISOString() ?? null,
+    passwordProtected: !!share.passwordHash,
+    viewCount: share.viewCount,
+    lastViewedAt: share.lastViewedAt?.toISOString() ?? null,
+    createdAt: share.createdAt?.toISOString() ?? null,
+  };
+}
+
+export async function createAnalysisShare(
+  userId: string,
+  analysisId: string,
+  request: ShareRequest,
+  origin: string
+): Promise<AnalysisShareLink> {
+  const [share] = await db.insert(analysisShares).values({
+    analysisId,
+    userId,
+    passwordHash: request.password ? await hashPassword(request.password) : null,
+    expiresAt: new Date(Date.now() + request.expiresInDays * 24 * 60 * 60 * 1000),
+  }).returning();
+  return toShareLink(share, origin);
+}
+
+export async function listAnalysisShares(userId: string, analysisId: string, origin: string): Promise<AnalysisShareLink[]> {
+  const shares = await db.query.analysisShares.findMany({
+    where: and(eq(analysisShares.analysisId, analysisId), eq(analysisShares.userId, userId)),
+    orderBy: (shares, { desc }) => [desc(shares.createdAt)],
+  });
+  return Promise.all(shares.map(share => toShareLink(share, origin)));
+}
+
+/**
+ * Revoke one of the user's links. Returns false when the link does not exist.
+ */
+export async function revokeAnalysisShare(userId: string, analysisId: string, shareId: string): Promise<boolean> {
+  const revoked = await db
+    .update(analysisShares)
+    .set({ revokedAt: new Date() })
+    .where(and(
+      eq(analysisShares.id, shareId),
+      eq(analysisShares.analysisId, analysisId),
+      eq(analysisShares.userId, userId)
+    ))
+    .returning({ id: analysisShares.id });
+  return revoked.length > 0;
+}
+
+/**
+ * The share and analysis behind a token, or null when the token is invalid or expired,
+ * the link was revoked, or the analysis was deleted
+ */
+export async function getSharedAnalysis(token: string): Promise<{ share: AnalysisShare; analysis: BrandAnalysis } | null> {
+  const verified = await verifyShareToken(token);
+  if (!verified) return null;
+
+  const share = await db.query.analysisShares.findFirst({
+    where: eq(analysisShares.id, verified.shareId),
+  });
+  if (!share || share.revokedAt || share.expiresAt <= new Date()) {
+    return null;
+  }
+  // The expiry in the token (whole seconds) must be the one stored for the link
+  if (Math.floor(share.expiresAt.getTime() / 1000) * 1000 !== verified.expiresAt.getTime()) {
+    return null;
+  }
+
+  const analysis = await db.query.brandAnalyses.findFirst({
+    where: eq(brandAnalyses.id, share.analysisId),
+  });
+  return analysis ? { share, analysis } : null;
+}
+
+export async function recordShareView(share: AnalysisShare): Promise<void> {
+  await db
+    .update(analysisShares)
+    .set({ viewCount: sql`${analysisShares.viewCount} + 1`, lastViewedAt: new Date() })
+    .where(eq(analysisShares.id, share.id));
+}
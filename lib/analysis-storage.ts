@@ -0,0 +1,113 @@
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import {
+  analysisPrompts,
+  analysisResponses,
+  analysisCompetitorScores,
+  NewAnalysisCompetitorScore,
+  NewAnalysisResponse,
+} from './db/schema';
+import { AIResponse, BrandPrompt, CompetitorRanking, ProviderSpecificRanking } from './types';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | Transaction;
+
+interface StoredAnalysisData {
+  prompts?: (BrandPrompt | string)[];
+  responses?: AIResponse[];
+  competitors?: CompetitorRanking[];
+  providerRankings?: ProviderSpecificRanking[];
+}
+
+function promptKey(prompt: string): string {
+  return prompt.trim().toLowerCase();
+}
+
+function toScoreRow(
+  analysisId: string,
+  provider: string | null,
+  competitor: CompetitorRanking
+): NewAnalysisCompetitorScore {
+  return {
+    analysisId,
+    provider,
+    competitor: competitor.name,
+    isOwn: competitor.isOwn ?? false,
+    mentions: competitor.mentions,
+    averagePosition: competitor.averagePosition,
+    sentiment: competitor.sentiment,
+    sentimentScore: competitor.sentimentScore,
+    shareOfVoice: competitor.shareOfVoice,
+    visibilityScore: competitor.visibilityScore,
+  };
+}
+
+/**
+ * Write the prompts, responses and competitor scores of an analysis into the
+ * normalized tables. Any rows already stored for the analysis are replaced.
+ */
+export async function storeAnalysisDetails(
+  analysisId: string,
+  analysisData: unknown,
+  executor: DbExecutor = db
+): Promise<{ prompts: number; responses: number; scores: number }> {
+  const data = (analysisData || {}) as StoredAnalysisData;
+
+  await executor.delete(analysisResponses).where(eq(analysisResponses.analysisId, analysisId));
+  await executor.delete(analysisPrompts).where(eq(analysisPrompts.analysisId, analysisId));
+  await executor.delete(analysisCompetitorScores).where(eq(analysisCompetitorScores.analysisId, analysisId));
+
+  // Prompts may be stored as BrandPrompt objects or plain strings
+  const promptValues = (data.prompts || [])
+    .map((p, index) => typeof p === 'string'
+      ? { prompt: p, category: null, sortOrder: index }
+      : { prompt: p.prompt, category: p.category, sortOrder: index })
+    .filter(p => p.prompt);
+
+  const promptRows = promptValues.length > 0
+    ? await executor.insert(analysisPrompts)
+        .values(promptValues.map(p => ({ analysisId, ...p })))
+        .returning({ id: analysisPrompts.id, prompt: analysisPrompts.prompt })
+    : [];
+  const promptIds = new Map(promptRows.map(row => [promptKey(row.prompt), row.id]));
+
+  const responseValues: NewAnalysisResponse[] = (data.responses || [])
+    .filter(r => r.provider && r.prompt)
+    .map(r => ({
+      analysisId,
+      promptId: promptIds.get(promptKey(r.prompt)) ?? null,
+      provider: r.provider,
+      prompt: r.prompt,
+      response: r.response || '',
+      brandMentioned: r.brandMentioned ?? false,
+      brandPosition: typeof r.brandPosition === 'number' ? Math.round(r.brandPosition) : null,
+      sentiment: r.sentiment,
+      confidence: r.confidence,
+      competitors: r.competitors,
+      rankings: r.rankings,
+      webSearchUsed: r.webSearchUsed ?? false,
+      sources: r.sources,
+      respondedAt: r.timestamp ? new Date(r.timestamp) : null,
+    }));
+
+  if (responseValues.length > 0) {
+    await executor.insert(analysisResponses).values(responseValues);
+  }
+
+  const scoreValues: NewAnalysisCompetitorScore[] = [
+    ...(data.competitors || []).map(c => toScoreRow(analysisId, null, c)),
+    ...(data.providerRankings || []).flatMap(ranking =>
+      ranking.competitors.map(c => toScoreRow(analysisId, ranking.provider, c))
+    ),
+  ];
+
+  if (scoreValues.length > 0) {
+    await executor.insert(analysisCompetitorScores).values(scoreValues);
+  }
+
+  return {
+    prompts: promptRows.length,
+    responses: responseValues.length,
+    scores: scoreValues.length,
+  };
+}
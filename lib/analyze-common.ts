@@ -1,13 +1,24 @@
-import { AIResponse, AnalysisProgressData, Company, PartialResultData, ProgressData, PromptGeneratedData, ScoringProgressData, SSEEvent } from './types';
-import { generatePromptsForCompany, analyzePromptWithProvider, calculateBrandScores, analyzeCompetitors, identifyCompetitors, analyzeCompetitorsByProvider } from './ai-utils';
+import { AIResponse, AnalysisProgressData, BrandScores, BrandTerms, CitedSource, Company, PartialResultData, ProgressData, PromptGeneratedData, ProviderModelSelection, ReportInsights, ScoringProfile, ScoringProgressData, SSEEvent } from './types';
+import { generatePromptsForCompany, analyzePromptWithProvider, analyzeCompetitors, identifyCompetitors, analyzeCompetitorsByProvider } from './ai-utils';
+import { calculateBrandScores, DEFAULT_SCORING_PROFILE } from './scoring';
 // Removed enhanced imports due to type conflicts
-import { getConfiguredProviders } from './provider-config';
+import { getConfiguredProviders, getProviderConfig } from './provider-config';
+import { getModelSelectionLabel } from './model-selection';
+import { aggregateCitedSources } from './citation-utils';
+import { providerScheduler } from './provider-scheduler';
 
 export interface AnalysisConfig {
   company: Company;
   customPrompts?: string[];
   userSelectedCompetitors?: { name: string }[];
   useWebSearch?: boolean;
+  modelSelections?: ProviderModelSelection[]; // Defaults to every configured provider's default model
+  samplesPerPrompt?: number; // Calls per prompt/provider pair, used for confidence intervals
+  scoringProfile?: ScoringProfile;
+  forceRefresh?: boolean; // Call the providers even when the response cache has an answer
+  llmExtraction?: boolean; // Rank mentions with a second model call instead of the local extractor
+  brandTerms?: BrandTerms; // The brand's saved aliases and excluded look-alikes
+  abortSignal?: AbortSignal; // Cancels the run; pairs not yet analysed are reported as skipped
   sendEvent: (event: SSEEvent) => Promise<void>;
 }
 
@@ -16,12 +27,20 @@ export interface AnalysisResult {
   knownCompetitors: string[];
   prompts: any[];
   responses: AIResponse[];
-  scores: any;
+  scores: BrandScores;
   competitors: any[];
   providerRankings: any;
   providerComparison: any;
+  citedSources?: CitedSource[];
   errors?: string[];
   webSearchUsed?: boolean;
+  modelSelections?: ProviderModelSelection[];
+  samplesPerPrompt?: number;
+  scoringProfile?: ScoringProfile;
+  brandTerms?: BrandTerms; // Kept so rescoring detects the brand the same way
+  cancelled?: boolean; // Stopped early; scores cover the pairs analysed before cancelling
+  rescoredFrom?: { analysisId: string; rescoredAt: string }; // Saved analysis whose responses were scored again
+  insights?: ReportInsights; // Generated on request by /analyses/[analysisId]/insights
 }
 
 /**
@@ -32,8 +51,17 @@ export async function performAnalysis({
   customPrompts,
   userSelectedCompetitors,
   useWebSearch = false,
+  modelSelections,
+  samplesPerPrompt = 1,
+  scoringProfile = DEFAULT_SCORING_PROFILE,
+  forceRefresh = false,
+  llmExtraction = false,
+  brandTerms,
+  abortSignal,
   sendEvent
 }: AnalysisConfig): Promise<AnalysisResult> {
+  const isCancelled = () => !!abortSignal?.aborted;
+
   // Send start event
   await sendEvent({
     type: 'start',
@@ -77,7 +105,7 @@ export async function performAnalysis({
     }
   } else {
     // Use AI-powered competitor discovery
-    competitors = await identifyCompetitors(company, sendEvent);
+    competitors = await identifyCompetitors(company, sendEvent, abortSignal);
   }
 
   // Stage 2: Generate prompts
@@ -94,7 +122,7 @@ export async function performAnalysis({
   });
 
   // Use custom prompts if provided, otherwise generate them
-  let analysisPrompts;
+  let analysisPrompts: { id: string; prompt: string; category: string }[];
   if (customPrompts && customPrompts.length > 0) {
     // Convert string prompts to BrandPrompt objects
     analysisPrompts = customPrompts.map((prompt: string, index: number) => ({
@@ -102,10 +130,17 @@ export async function performAnalysis({
       prompt,
       category: 'custom' as const
     }));
+  } else if (isCancelled()) {
+    analysisPrompts = [];
   } else {
-    const prompts = await generatePromptsForCompany(company, competitors);
-    // Use more prompts for comprehensive analysis
-    analysisPrompts = prompts.slice(0, 10);
+    try {
+      const prompts = await generatePromptsForCompany(company, competitors, abortSignal);
+      // Use more prompts for comprehensive analysis
+      analysisPrompts = prompts.slice(0, 10);
+    } catch (error) {
+      if (!isCancelled()) throw error;
+      analysisPrompts = [];
+    }
   }
 
   // Send prompt generated events
@@ -136,11 +171,13 @@ export async function performAnalysis({
     timestamp: new Date()
   });
 
-  const responses: AIResponse[] = [];
+  // Samples of each prompt/provider pair, stored by pair so the responses keep that order
+  // however the calls finish
+  const pairResponses: AIResponse[][] = [];
   const errors: string[] = [];
   
   // Filter providers based on available API keys
-  const availableProviders = getAvailableProviders();
+  const availableProviders = getAvailableProviders(modelSelections);
   
   console.log('Available providers for analysis:', availableProviders.map(p => p.name));
   console.log('Available provider details:', availableProviders.map(p => ({ name: p.name, model: p.model })));
@@ -157,160 +194,199 @@ export async function performAnalysis({
   const totalAnalyses = analysisPrompts.length * availableProviders.length;
   let completedAnalyses = 0;
   console.log('Total analyses to perform:', totalAnalyses);
+  console.log('Samples per prompt:', samplesPerPrompt);
 
-  // Check if we should use mock mode (no API keys configured)
-  const useMockMode = process.env.USE_MOCK_MODE === 'true' || availableProviders.length === 0;
+  // Every prompt/provider pair is queued at once; the provider scheduler applies each
+  // provider's concurrency and rate limits, so a slow provider does not hold up the others
+  const pairTasks = analysisPrompts.flatMap((prompt, promptIndex) =>
+    availableProviders.map(async (provider, providerIndex) => {
+      const pairIndex = promptIndex * availableProviders.length + providerIndex;
+      const pairProgress = {
+        provider: provider.name,
+        prompt: prompt.prompt,
+        promptIndex: promptIndex + 1,
+        totalPrompts: analysisPrompts.length,
+        providerIndex: 0,
+        totalProviders: availableProviders.length,
+      };
 
-  // Process prompts in parallel batches of 3
-  const BATCH_SIZE = 3;
-  
-  for (let batchStart = 0; batchStart < analysisPrompts.length; batchStart += BATCH_SIZE) {
-    const batchEnd = Math.min(batchStart + BATCH_SIZE, analysisPrompts.length);
-    const batchPrompts = analysisPrompts.slice(batchStart, batchEnd);
-    
-    // Create all analysis promises for this batch
-    const batchPromises = batchPrompts.flatMap((prompt, batchIndex) => 
-      availableProviders.map(async (provider) => {
-        const promptIndex = batchStart + batchIndex;
-        
-        // Send analysis start event
+      // Pairs not started before cancellation are skipped
+      if (isCancelled()) {
+        await sendEvent({
+          type: 'analysis-complete',
+          stage: 'analyzing-prompts',
+          data: { ...pairProgress, status: 'skipped' } as AnalysisProgressData,
+          timestamp: new Date()
+        });
+        return;
+      }
+      
+      // Sent once the provider has a free slot, so queued pairs still show as pending
+      let started = false;
+      const sendStart = async () => {
+        if (started) return;
+        started = true;
         await sendEvent({
           type: 'analysis-start',
           stage: 'analyzing-prompts',
-          data: {
-            provider: provider.name,
-            prompt: prompt.prompt,
-            promptIndex: promptIndex + 1,
-            totalPrompts: analysisPrompts.length,
-            providerIndex: 0,
-            totalProviders: availableProviders.length,
-            status: 'started'
-          } as AnalysisProgressData,
+          data: { ...pairProgress, status: 'started' } as AnalysisProgressData,
           timestamp: new Date()
         });
+      };
 
-        try {
-          // Debug log for each provider attempt
-          console.log(`Attempting analysis with provider: ${provider.name} for prompt: "${prompt.prompt.substring(0, 50)}..."`);
-          
-          // Choose the appropriate analysis function based on useWebSearch
-          const analyzeFunction = analyzePromptWithProvider;
-          
-          const response = await analyzeFunction(
+      // Repeated samples of the same pair run one after another
+      const samples: AIResponse[] = [];
+      try {
+        // Debug log for each provider attempt
+        console.log(`Attempting analysis with provider: ${provider.name} for prompt: "${prompt.prompt.substring(0, 50)}..."`);
+        
+        for (let sampleIndex = 0; sampleIndex < samplesPerPrompt && !isCancelled(); sampleIndex++) {
+          const sample = await analyzePromptWithProvider(
             prompt.prompt, 
-            provider.name, 
+            provider.providerId, 
             company.name, 
-            competitors
+            competitors,
+            {
+              modelId: provider.model,
+              label: provider.name,
+              useWebSearch,
+              sampleIndex: samplesPerPrompt > 1 ? sampleIndex : undefined,
+              abortSignal,
+              forceRefresh,
+              llmExtraction,
+              brandTerms,
+              // Cached answers skip the provider's queue
+              schedule: call => providerScheduler.run(provider.providerId, provider.model, call, {
+                signal: abortSignal,
+                onStart: sendStart,
+              }),
+            }
           );
-          
-          console.log(`Analysis completed for ${provider.name}:`, {
-            hasResponse: !!response,
-            provider: response?.provider,
-            brandMentioned: response?.brandMentioned
-          });
-          
-          // Skip if provider returned null (not configured)
-          if (response === null) {
-            console.log(`Skipping ${provider.name} - not configured`);
-            
-            // Send analysis complete event with skipped status
-            await sendEvent({
-              type: 'analysis-complete',
-              stage: 'analyzing-prompts',
-              data: {
-                provider: provider.name,
-                prompt: prompt.prompt,
-                promptIndex: promptIndex + 1,
-                totalPrompts: analysisPrompts.length,
-                providerIndex: 0,
-                totalProviders: availableProviders.length,
-                status: 'failed'
-              } as AnalysisProgressData,
-              timestamp: new Date()
-            });
-            
-            return; // Return early instead of continue
-          }
-          
-          // If using mock mode, add a small delay for visual effect
-          if (useMockMode) {
-            await new Promise(resolve => setTimeout(resolve, Math.random() * 1000 + 500));
-          }
-          
-          responses.push(response);
-
-          // Send partial result
+          if (sample === null) break;
+          samples.push(sample);
+        }
+        const response = samples.length > 0 ? samples[0] : null;
+        
+        console.log(`Analysis completed for ${provider.name}:`, {
+          hasResponse: !!response,
+          provider: response?.provider,
+          brandMentioned: response?.brandMentioned,
+          samples: samples.length
+        });
+        
+        // Cancelled before the first sample came back
+        if (response === null && isCancelled()) {
           await sendEvent({
-            type: 'partial-result',
+            type: 'analysis-complete',
             stage: 'analyzing-prompts',
-            data: {
-              provider: provider.name,
-              prompt: prompt.prompt,
-              response: {
-                provider: response.provider,
-                brandMentioned: response.brandMentioned,
-                brandPosition: response.brandPosition,
-                sentiment: response.sentiment
-              }
-            } as PartialResultData,
+            data: { ...pairProgress, status: 'skipped' } as AnalysisProgressData,
             timestamp: new Date()
           });
+          return;
+        }
 
-          // Send analysis complete event
+        // Skip if provider returned null (not configured)
+        if (response === null) {
+          console.log(`Skipping ${provider.name} - not configured`);
+          
+          // Send analysis complete event with skipped status
           await sendEvent({
             type: 'analysis-complete',
             stage: 'analyzing-prompts',
-            data: {
-              provider: provider.name,
-              prompt: prompt.prompt,
-              promptIndex: promptIndex + 1,
-              totalPrompts: analysisPrompts.length,
-              providerIndex: 0,
-              totalProviders: availableProviders.length,
-              status: 'completed'
-            } as AnalysisProgressData,
+            data: { ...pairProgress, status: 'failed' } as AnalysisProgressData,
             timestamp: new Date()
           });
-
-        } catch (error) {
-          console.error(`Error with ${provider.name} for prompt "${prompt.prompt}":`, error);
-          errors.push(`${provider.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
           
-          // Send analysis failed event
+          return; // Return early instead of continue
+        }
+        
+        pairResponses[pairIndex] = samples;
+
+        // Pairs answered entirely from the cache never went through the queue
+        await sendStart();
+
+        // Send partial result
+        await sendEvent({
+          type: 'partial-result',
+          stage: 'analyzing-prompts',
+          data: {
+            provider: provider.name,
+            prompt: prompt.prompt,
+            response: {
+              provider: response.provider,
+              brandMentioned: response.brandMentioned,
+              brandPosition: response.brandPosition,
+              sentiment: response.sentiment,
+              cached: samples.every(sample => sample.cached)
+            }
+          } as PartialResultData,
+          timestamp: new Date()
+        });
+
+        // Send analysis complete event
+        await sendEvent({
+          type: 'analysis-complete',
+          stage: 'analyzing-prompts',
+          data: { ...pairProgress, status: 'completed' } as AnalysisProgressData,
+          timestamp: new Date()
+        });
+
+      } catch (error) {
+        // Aborted mid-call: keep the samples that finished, otherwise mark the pair skipped
+        if (isCancelled()) {
+          pairResponses[pairIndex] = samples;
           await sendEvent({
             type: 'analysis-complete',
             stage: 'analyzing-prompts',
-            data: {
-              provider: provider.name,
-              prompt: prompt.prompt,
-              promptIndex: promptIndex + 1,
-              totalPrompts: analysisPrompts.length,
-              providerIndex: 0,
-              totalProviders: availableProviders.length,
-              status: 'failed'
-            } as AnalysisProgressData,
+            data: { ...pairProgress, status: samples.length > 0 ? 'completed' : 'skipped' } as AnalysisProgressData,
             timestamp: new Date()
           });
+          return;
         }
 
-        completedAnalyses++;
-        const progress = Math.round((completedAnalyses / totalAnalyses) * 100);
+        console.error(`Error with ${provider.name} for prompt "${prompt.prompt}":`, error);
+        errors.push(`${provider.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         
+        // Send analysis failed event
         await sendEvent({
-          type: 'progress',
+          type: 'analysis-complete',
           stage: 'analyzing-prompts',
-          data: {
-            stage: 'analyzing-prompts',
-            progress,
-            message: `Completed ${completedAnalyses} of ${totalAnalyses} analyses`
-          } as ProgressData,
+          data: { ...pairProgress, status: 'failed' } as AnalysisProgressData,
           timestamp: new Date()
         });
-      })
-    );
-    
-    // Wait for all promises in this batch to complete
-    await Promise.all(batchPromises);
+      }
+
+      completedAnalyses++;
+      const progress = Math.round((completedAnalyses / totalAnalyses) * 100);
+      
+      await sendEvent({
+        type: 'progress',
+        stage: 'analyzing-prompts',
+        data: {
+          stage: 'analyzing-prompts',
+          progress,
+          message: `Completed ${completedAnalyses} of ${totalAnalyses} analyses`
+        } as ProgressData,
+        timestamp: new Date()
+      });
+    })
+  );
+
+  await Promise.all(pairTasks);
+  const responses = pairResponses.flat();
+
+  if (isCancelled()) {
+    console.log(`Analysis cancelled after ${completedAnalyses} of ${totalAnalyses} analyses`);
+    await sendEvent({
+      type: 'progress',
+      stage: 'analyzing-prompts',
+      data: {
+        stage: 'analyzing-prompts',
+        progress: Math.round((completedAnalyses / Math.max(totalAnalyses, 1)) * 100),
+        message: `Cancelled after ${completedAnalyses} of ${totalAnalyses} analyses, scoring partial results...`
+      } as ProgressData,
+      timestamp: new Date()
+    });
   }
 
   // Stage 4: Calculate scores
@@ -326,7 +402,7 @@ export async function performAnalysis({
   });
 
   // Analyze competitors from all responses
-  const competitorRankings = await analyzeCompetitors(company, responses, competitors);
+  const competitorRankings = await analyzeCompetitors(company, responses, competitors, scoringProfile);
 
   // Send scoring progress for each competitor
   for (let i = 0; i < competitorRankings.length; i++) {
@@ -347,11 +423,13 @@ export async function performAnalysis({
   const { providerRankings, providerComparison } = await analyzeCompetitorsByProvider(
     company, 
     responses, 
-    competitors
+    competitors,
+    availableProviders.map(p => p.name),
+    scoringProfile
   );
 
   // Calculate final scores
-  const scores = calculateBrandScores(responses, company.name, competitorRankings);
+  const scores = calculateBrandScores(responses, company.name, competitorRankings, scoringProfile);
 
   await sendEvent({
     type: 'progress',
@@ -385,30 +463,52 @@ export async function performAnalysis({
     competitors: competitorRankings,
     providerRankings,
     providerComparison,
+    citedSources: aggregateCitedSources(responses),
     errors: errors.length > 0 ? errors : undefined,
     webSearchUsed: useWebSearch,
+    samplesPerPrompt,
+    scoringProfile,
+    brandTerms,
+    modelSelections: availableProviders.map(p => ({ providerId: p.providerId, modelId: p.model })),
+    cancelled: isCancelled() || undefined,
   };
 }
 
 /**
- * Get available providers based on configured API keys
+ * Get available providers based on configured API keys, or the explicitly selected
+ * provider models. The name doubles as the column label in the comparison matrix.
  */
-export function getAvailableProviders() {
+export function getAvailableProviders(modelSelections?: ProviderModelSelection[]) {
   const configuredProviders = getConfiguredProviders();
-  // Map to the format expected by the rest of the code
-  return configuredProviders.map(provider => ({
-    name: provider.name,
-    model: provider.defaultModel,
-    icon: provider.icon,
+
+  if (!modelSelections || modelSelections.length === 0) {
+    // Map to the format expected by the rest of the code
+    return configuredProviders.map(provider => ({
+      name: provider.name,
+      providerId: provider.id,
+      model: provider.defaultModel,
+      icon: provider.icon,
+    }));
+  }
+
+  return modelSelections.map(selection => ({
+    name: getModelSelectionLabel(selection, modelSelections, configuredProviders),
+    providerId: selection.providerId,
+    model: selection.modelId,
+    icon: getProviderConfig(selection.providerId)?.icon || '',
   }));
 }
 
 /**
- * Create SSE message with proper format
+ * Create SSE message with proper format. Job events carry their id so clients
+ * can resume with Last-Event-ID.
  */
-export function createSSEMessage(event: SSEEvent): string {
+export function createSSEMessage(event: SSEEvent, id?: number): string {
   // Ensure proper SSE format with event type
   const lines: string[] = [];
+  if (id !== undefined) {
+    lines.push(`id: ${id}`);
+  }
   if (event.type) {
     lines.push(`event: ${event.type}`);
   }
@@ -416,4 +516,4 @@ export function createSSEMessage(event: SSEEvent): string {
   lines.push(''); // Empty line to signal end of event
   lines.push(''); // Extra newline for proper SSE format
   return lines.join('\n');
-}
\ No newline at end of file
+}
@@ -1,186 +1,108 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { AIResponse } from './types';
+import { APICallError } from 'ai';
+import { WebSource } from './types';
 
-interface WebSearchResult {
-  url: string;
-  title: string;
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicCitation {
+  type: string;
+  url?: string;
+  title?: string | null;
   cited_text?: string;
 }
 
-interface AnalysisResult {
-  response: string;
-  brandMentioned: boolean;
-  brandPosition?: number;
-  sentiment: 'positive' | 'neutral' | 'negative';
-  confidence: number;
-  webSearchResults?: WebSearchResult[];
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  citations?: AnthropicCitation[] | null;
+  content?: { type: string; url?: string; title?: string }[] | { type: string };
 }
 
 /**
- * Analyze brand visibility using Anthropic's native web search capability
+ * Generate an answer with Anthropic's native web search tool.
+ * Calls the Messages API directly because the AI SDK provider does not expose the
+ * server-side web_search tool. Returns the answer text and the pages it cited.
  */
-export async function analyzeWithAnthropicWebSearch(
-  prompt: string,
-  brandName: string,
-  competitors: string[],
-  anthropicApiKey: string
-): Promise<AIResponse | null> {
-  if (!anthropicApiKey) {
-    console.warn('Anthropic API key not configured');
-    return null;
+export async function generateWithAnthropicWebSearch({
+  prompt,
+  system,
+  modelId,
+  maxTokens = 1024,
+  maxUses = 3,
+  abortSignal,
+}: {
+  prompt: string;
+  system?: string;
+  modelId: string;
+  maxTokens?: number;
+  maxUses?: number;
+  abortSignal?: AbortSignal;
+}): Promise<{ text: string; sources: WebSource[] }> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error('Anthropic API key not configured');
   }
 
-  const client = new Anthropic({
-    apiKey: anthropicApiKey,
+  const requestBody = {
+    model: modelId,
+    max_tokens: maxTokens,
+    system,
+    messages: [{ role: 'user', content: prompt }],
+    tools: [{
+      type: 'web_search_20250305',
+      name: 'web_search',
+      max_uses: maxUses, // Limit searches to control costs
+    }],
+  };
+  const response = await fetch(ANTHROPIC_MESSAGES_URL, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify(requestBody),
+    signal: abortSignal,
   });
 
-  try {
-    // Create the analysis prompt
-    const fullPrompt = `${prompt}
+  if (!response.ok) {
+    const body = await response.text();
+    // Same error type as the AI SDK so 429/5xx are retried like any other provider call
+    throw new APICallError({
+      message: `Anthropic web search failed (${response.status}): ${body.substring(0, 200)}`,
+      url: ANTHROPIC_MESSAGES_URL,
+      requestBodyValues: requestBody,
+      statusCode: response.status,
+      responseHeaders: Object.fromEntries(response.headers.entries()),
+      responseBody: body,
+    });
+  }
 
-Please search for current, factual information to answer this question. Focus on recent data and real user opinions about ${brandName} and its competitors: ${competitors.join(', ')}.
+  const message = await response.json() as { content: AnthropicContentBlock[] };
 
-After searching, analyze your response and determine:
-1. Is ${brandName} mentioned? (even if not ranked)
-2. What position/rank does ${brandName} have (if any)?
-3. What is the sentiment towards ${brandName}?
-4. Which competitors are mentioned and their positions?`;
+  let text = '';
+  const cited: WebSource[] = [];
+  const searched: WebSource[] = [];
 
-    // Call Anthropic with web search tool
-    const message = await client.messages.create({
-      model: 'claude-3-5-sonnet-latest', // This model supports web search
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: fullPrompt,
+  for (const block of message.content) {
+    if (block.type === 'text' && block.text) {
+      text += block.text;
+      (block.citations || []).forEach(citation => {
+        if (citation.type === 'web_search_result_location' && citation.url) {
+          cited.push({ url: citation.url, title: citation.title || undefined, snippet: citation.cited_text });
         }
-      ],
-      tools: [{
-        type: 'web_search_20250305',
-        name: 'web_search',
-        max_uses: 3, // Limit searches to control costs
-      }],
-    });
-
-    // Extract the response text and citations
-    let responseText = '';
-    const webSearchResults: WebSearchResult[] = [];
-
-    for (const content of message.content) {
-      if (content.type === 'text') {
-        responseText += content.text;
-        
-        // Extract citations if available
-        if ('citations' in content && content.citations) {
-          for (const citation of content.citations) {
-            if (citation.type === 'web_search_result_location') {
-              webSearchResults.push({
-                url: citation.url,
-                title: citation.title || '',
-                cited_text: citation.cited_text,
-              });
-            }
-          }
+      });
+    } else if (block.type === 'web_search_tool_result' && Array.isArray(block.content)) {
+      block.content.forEach(result => {
+        if (result.type === 'web_search_result' && result.url) {
+          searched.push({ url: result.url, title: result.title });
         }
-      }
+      });
     }
-
-    // Analyze the response to extract structured data
-    const analysis = await analyzeResponseContent(
-      responseText,
-      brandName,
-      competitors,
-      client
-    );
-
-    return {
-      provider: 'Anthropic',
-      prompt,
-      response: responseText,
-      brandMentioned: analysis.brandMentioned,
-      brandPosition: analysis.brandPosition,
-      competitors: analysis.competitorsMentioned,
-      sentiment: analysis.sentiment,
-      confidence: analysis.confidence,
-      timestamp: new Date()
-    };
-
-  } catch (error) {
-    console.error('Error with Anthropic web search:', error);
-    throw error;
   }
-}
 
-/**
- * Analyze the response content to extract structured information
- */
-async function analyzeResponseContent(
-  responseText: string,
-  brandName: string,
-  competitors: string[],
-  client: Anthropic
-): Promise<{
-  brandMentioned: boolean;
-  brandPosition?: number;
-  competitorsMentioned: string[];
-  sentiment: 'positive' | 'neutral' | 'negative';
-  confidence: number;
-}> {
-  try {
-    // Use Claude to analyze its own response
-    const analysisResponse = await client.messages.create({
-      model: 'claude-3-5-haiku-latest', // Use a faster model for analysis
-      max_tokens: 500,
-      messages: [
-        {
-          role: 'user',
-          content: `Analyze this AI response about ${brandName}:
-
-"${responseText}"
-
-Extract the following information in JSON format:
-{
-  "brandMentioned": boolean (is ${brandName} mentioned anywhere?),
-  "brandPosition": number or null (what rank/position if mentioned),
-  "competitorsMentioned": array of competitor names mentioned from: ${competitors.join(', ')},
-  "sentiment": "positive" | "neutral" | "negative" (sentiment towards ${brandName}),
-  "confidence": number between 0 and 1
-}
-
-Only respond with valid JSON, no other text.`,
-        }
-      ],
-    });
-
-    const analysisText = analysisResponse.content[0].type === 'text' ? analysisResponse.content[0].text : '{}';
-    const analysis = JSON.parse(analysisText);
-
-    return {
-      brandMentioned: analysis.brandMentioned || false,
-      brandPosition: analysis.brandPosition || undefined,
-      competitorsMentioned: analysis.competitorsMentioned || [],
-      sentiment: analysis.sentiment || 'neutral',
-      confidence: analysis.confidence || 0.5,
-    };
-
-  } catch (error) {
-    console.error('Error analyzing response:', error);
-    
-    // Fallback to basic text analysis
-    const textLower = responseText.toLowerCase();
-    const brandLower = brandName.toLowerCase();
-    
-    return {
-      brandMentioned: textLower.includes(brandLower),
-      brandPosition: undefined,
-      competitorsMentioned: competitors.filter(c => 
-        textLower.includes(c.toLowerCase())
-      ),
-      sentiment: 'neutral',
-      confidence: 0.3,
-    };
-  }
+  // Prefer the pages the answer actually cites, fall back to everything the search returned
+  return { text, sources: cited.length > 0 ? cited : searched };
 }
 
 /**
@@ -188,4 +110,4 @@ Only respond with valid JSON, no other text.`,
  */
 export function isAnthropicWebSearchAvailable(): boolean {
   return !!process.env.ANTHROPIC_API_KEY;
-}
\ No newline at end of file
+}
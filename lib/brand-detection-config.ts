@@ -3,14 +3,12 @@
  */
 
 import { BrandDetectionOptions } from './brand-detection-utils';
+import { BrandTerms } from './types';
 
 export interface BrandDetectionConfig {
   // Default detection options
   defaultOptions: BrandDetectionOptions;
   
-  // Brand-specific aliases and variations
-  brandAliases: Map<string, string[]>;
-  
   // Common suffixes to ignore when matching
   ignoredSuffixes: string[];
   
@@ -34,8 +32,6 @@ export const DEFAULT_BRAND_DETECTION_CONFIG: BrandDetectionConfig = {
     excludeNegativeContext: false,
   },
   
-  brandAliases: new Map(),
-  
   ignoredSuffixes: [
     'inc', 'incorporated',
     'llc', 'limited liability company',
@@ -78,12 +74,6 @@ export function updateBrandDetectionConfig(updates: Partial<BrandDetectionConfig
     globalConfig.defaultOptions = { ...globalConfig.defaultOptions, ...updates.defaultOptions };
   }
   
-  if (updates.brandAliases) {
-    updates.brandAliases.forEach((aliases, brand) => {
-      globalConfig.brandAliases.set(brand, aliases);
-    });
-  }
-  
   if (updates.ignoredSuffixes) {
     globalConfig.ignoredSuffixes = updates.ignoredSuffixes;
   }
@@ -110,31 +100,33 @@ export function getBrandDetectionConfig(): BrandDetectionConfig {
  */
 export function resetBrandDetectionConfig() {
   globalConfig = { ...DEFAULT_BRAND_DETECTION_CONFIG };
-  globalConfig.brandAliases = new Map();
-}
-
-/**
- * Adds aliases for a specific brand
- * @param brandName The brand name
- * @param aliases Array of aliases
- */
-export function addBrandAliases(brandName: string, aliases: string[]) {
-  const existingAliases = globalConfig.brandAliases.get(brandName) || [];
-  globalConfig.brandAliases.set(brandName, [...new Set([...existingAliases, ...aliases])]);
 }
 
 /**
  * Gets detection options for a specific brand
+ * Brand terms are per analysis (saved per user and domain, see lib/brand-terms.ts),
+ * never stored in the global configuration.
  * @param brandName The brand name
- * @returns Detection options with brand-specific aliases
+ * @param terms Aliases, misspellings, product names and excluded look-alikes of the brand
+ * @returns Detection options with the brand's own variations
  */
-export function getBrandDetectionOptions(brandName: string): BrandDetectionOptions {
+export function getBrandDetectionOptions(brandName: string, terms: BrandTerms = {}): BrandDetectionOptions {
   const options = { ...globalConfig.defaultOptions };
-  const aliases = globalConfig.brandAliases.get(brandName);
+  // Camel-case names are also written with a space ("ScrapingBee" → "Scraping Bee")
+  const spaced = brandName.replace(/([a-z])([A-Z])/g, '$1 $2');
+  const variations = [
+    ...(terms.aliases || []),
+    ...(terms.misspellings || []),
+    ...(terms.productNames || []),
+    ...(spaced !== brandName ? [spaced.toLowerCase()] : []),
+  ];
   
-  if (aliases && aliases.length > 0) {
-    options.customVariations = aliases;
+  if (variations.length > 0) {
+    options.customVariations = variations;
+  }
+  if (terms.excludedTerms && terms.excludedTerms.length > 0) {
+    options.excludedTerms = terms.excludedTerms;
   }
   
   return options;
-}
\ No newline at end of file
+}
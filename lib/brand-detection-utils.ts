@@ -186,6 +186,24 @@ export interface BrandDetectionOptions {
   excludeNegativeContext?: boolean;
   includeUrlDetection?: boolean;
   brandUrls?: string[];
+  excludedTerms?: string[]; // Matches inside one of these phrases are not mentions
+}
+
+/**
+ * Character ranges of every occurrence of the excluded phrases in the text
+ */
+function findExcludedRanges(text: string, excludedTerms: string[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  excludedTerms.forEach(term => {
+    const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    if (!escaped) return;
+    const regex = new RegExp(`\\b${escaped}\\b`, 'gi');
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  });
+  return ranges;
 }
 
 export function detectBrandMention(
@@ -198,11 +216,13 @@ export function detectBrandMention(
     wholeWordOnly = true,
     includeVariations = true,
     customVariations = [],
-    excludeNegativeContext = false
+    excludeNegativeContext = false,
+    excludedTerms = []
   } = options;
   
   const searchText = caseSensitive ? text : text.toLowerCase();
   const matches: BrandDetectionResult['matches'] = [];
+  const excludedRanges = findExcludedRanges(searchText, excludedTerms);
   
   // Generate patterns
   const patterns = wholeWordOnly 
@@ -218,6 +238,9 @@ export function detectBrandMention(
       const matchText = match[0];
       const matchIndex = match.index;
       
+      // Skip look-alikes such as "apple pie" for Apple
+      if (excludedRanges.some(([start, end]) => matchIndex >= start && matchIndex < end)) continue;
+      
       // Check for negative context if requested
       if (excludeNegativeContext) {
         const contextStart = Math.max(0, matchIndex - 50);
@@ -286,18 +309,18 @@ export function detectBrandMention(
  * Detects multiple brands in text
  * @param text The text to search in
  * @param brands Array of brand names
- * @param options Detection options
+ * @param options Detection options, or a function returning each brand's own options
  * @returns Map of brand names to detection results
  */
 export function detectMultipleBrands(
   text: string,
   brands: string[],
-  options: BrandDetectionOptions = {}
+  options: BrandDetectionOptions | ((brand: string) => BrandDetectionOptions) = {}
 ): Map<string, BrandDetectionResult> {
   const results = new Map<string, BrandDetectionResult>();
   
   brands.forEach(brand => {
-    results.set(brand, detectBrandMention(text, brand, options));
+    results.set(brand, detectBrandMention(text, brand, typeof options === 'function' ? options(brand) : options));
   });
   
   return results;
@@ -1,4 +1,5 @@
-import { Company, CompetitorRanking, AnalysisStage, PartialResultData } from './types';
+import { BrandScores, BrandTerms, CitedSource, Company, FactSheet, CompetitorRanking, AnalysisStage, PartialResultData, ProviderModelSelection, ProviderOption, ReportInsights, ReportTemplate, ScoringProfile } from './types';
+import { DEFAULT_REPORT_TEMPLATE } from './report-template';
 
 // Action Types
 export type BrandMonitorAction =
@@ -17,6 +18,17 @@ export type BrandMonitorAction =
   | { type: 'ADD_CUSTOM_PROMPT'; payload: string }
   | { type: 'REMOVE_DEFAULT_PROMPT'; payload: number }
   | { type: 'SET_AVAILABLE_PROVIDERS'; payload: string[] }
+  | { type: 'SET_PROVIDER_OPTIONS'; payload: ProviderOption[] }
+  | { type: 'SET_MODEL_SELECTIONS'; payload: ProviderModelSelection[] }
+  | { type: 'SET_USE_WEB_SEARCH'; payload: boolean }
+  | { type: 'SET_SAMPLES_PER_PROMPT'; payload: number }
+  | { type: 'SET_FORCE_REFRESH'; payload: boolean }
+  | { type: 'SET_BRAND_TERMS'; payload: BrandTerms }
+  | { type: 'SET_FACT_SHEET'; payload: FactSheet }
+  | { type: 'SET_REPORT_TEMPLATE'; payload: ReportTemplate }
+  | { type: 'SET_SCORING_PROFILES'; payload: ScoringProfile[] }
+  | { type: 'SET_SCORING_PROFILE_ID'; payload: string }
+  | { type: 'SET_CANCELLING'; payload: boolean }
   | { type: 'SET_IDENTIFIED_COMPETITORS'; payload: IdentifiedCompetitor[] }
   | { type: 'REMOVE_COMPETITOR'; payload: number }
   | { type: 'ADD_COMPETITOR'; payload: IdentifiedCompetitor }
@@ -36,7 +48,8 @@ export type BrandMonitorAction =
   | { type: 'SET_NEW_COMPETITOR'; payload: { name?: string; url?: string } }
   | { type: 'RESET_STATE' }
   | { type: 'SCRAPE_SUCCESS'; payload: Company }
-  | { type: 'ANALYSIS_COMPLETE'; payload: Analysis };
+  | { type: 'ANALYSIS_COMPLETE'; payload: Analysis }
+  | { type: 'RESUME_ANALYSIS'; payload: { company: Company; prompts: string[]; providers: string[]; competitors: IdentifiedCompetitor[] } };
 
 // State Interfaces
 export interface IdentifiedCompetitor {
@@ -81,6 +94,7 @@ export interface AnalysisTile {
       brandMentioned: boolean;
       brandPosition?: number;
       sentiment: 'positive' | 'neutral' | 'negative';
+      cached?: boolean;
     };
   }[];
 }
@@ -90,20 +104,19 @@ export interface Analysis {
   knownCompetitors: string[];
   prompts: any[]; // BrandPrompt[]
   responses: any[]; // AIResponse[]
-  scores: {
-    visibilityScore: number;
-    sentimentScore: number;
-    shareOfVoice: number;
-    overallScore: number;
-    averagePosition: number;
-  };
+  scores: BrandScores;
+  scoringProfile?: ScoringProfile;
+  brandTerms?: BrandTerms; // The brand terms the analysis ran with
   competitors: CompetitorRanking[];
   providerRankings?: any[]; // ProviderSpecificRanking[]
   providerComparison?: any[]; // ProviderComparisonData[]
+  citedSources?: CitedSource[];
   errors?: string[];
+  cancelled?: boolean; // Stopped early; scores cover the analyses that finished
+  insights?: ReportInsights;
 }
 
-export type ResultsTab = 'visibility' | 'matrix' | 'rankings' | 'metrics' | 'prompts' | 'report';
+export type ResultsTab = 'visibility' | 'matrix' | 'rankings' | 'metrics' | 'prompts' | 'sources' | 'accuracy' | 'trends' | 'report';
 
 export interface BrandMonitorState {
   // URL and validation
@@ -115,6 +128,7 @@ export interface BrandMonitorState {
   loading: boolean;
   analyzing: boolean;
   preparingAnalysis: boolean;
+  cancelling: boolean;
   scrapingCompetitors: boolean;
   
   // Core data
@@ -135,8 +149,26 @@ export interface BrandMonitorState {
   // Competitors
   identifiedCompetitors: IdentifiedCompetitor[];
   
+  // Brand detection
+  brandTerms: BrandTerms; // Aliases and excluded look-alikes of the company being analyzed
+  
+  // Accuracy
+  factSheet: FactSheet; // Facts about the company that answers are checked against
+  
+  // Report
+  reportTemplate: ReportTemplate; // The user's saved report layout and branding
+  
   // Providers
   availableProviders: string[];
+  providerOptions: ProviderOption[];
+  modelSelections: ProviderModelSelection[];
+  useWebSearch: boolean;
+  samplesPerPrompt: number;
+  forceRefresh: boolean; // Ignore cached provider responses on the next run
+  
+  // Scoring
+  scoringProfiles: ScoringProfile[];
+  scoringProfileId: string;
   
   // Analysis progress
   analysisProgress: AnalysisProgressState;
@@ -165,6 +197,7 @@ export const initialBrandMonitorState: BrandMonitorState = {
   loading: false,
   analyzing: false,
   preparingAnalysis: false,
+  cancelling: false,
   scrapingCompetitors: false,
   company: null,
   analysis: null,
@@ -177,6 +210,16 @@ export const initialBrandMonitorState: BrandMonitorState = {
   analyzingPrompts: [],
   identifiedCompetitors: [],
   availableProviders: [],
+  providerOptions: [],
+  modelSelections: [],
+  useWebSearch: false,
+  samplesPerPrompt: 1,
+  forceRefresh: false,
+  brandTerms: {},
+  factSheet: {},
+  reportTemplate: DEFAULT_REPORT_TEMPLATE,
+  scoringProfiles: [],
+  scoringProfileId: 'balanced',
   analysisProgress: {
     stage: 'initializing',
     progress: 0,
@@ -222,6 +265,9 @@ export function brandMonitorReducer(
     case 'SET_PREPARING_ANALYSIS':
       return { ...state, preparingAnalysis: action.payload };
       
+    case 'SET_CANCELLING':
+      return { ...state, cancelling: action.payload };
+      
     case 'SET_COMPANY':
       return { ...state, company: action.payload };
       
@@ -249,6 +295,36 @@ export function brandMonitorReducer(
     case 'SET_AVAILABLE_PROVIDERS':
       return { ...state, availableProviders: action.payload };
       
+    case 'SET_PROVIDER_OPTIONS':
+      return { ...state, providerOptions: action.payload };
+      
+    case 'SET_MODEL_SELECTIONS':
+      return { ...state, modelSelections: action.payload };
+      
+    case 'SET_USE_WEB_SEARCH':
+      return { ...state, useWebSearch: action.payload };
+      
+    case 'SET_SAMPLES_PER_PROMPT':
+      return { ...state, samplesPerPrompt: action.payload };
+      
+    case 'SET_FORCE_REFRESH':
+      return { ...state, forceRefresh: action.payload };
+      
+    case 'SET_BRAND_TERMS':
+      return { ...state, brandTerms: action.payload };
+      
+    case 'SET_FACT_SHEET':
+      return { ...state, factSheet: action.payload };
+      
+    case 'SET_REPORT_TEMPLATE':
+      return { ...state, reportTemplate: action.payload };
+      
+    case 'SET_SCORING_PROFILES':
+      return { ...state, scoringProfiles: action.payload };
+      
+    case 'SET_SCORING_PROFILE_ID':
+      return { ...state, scoringProfileId: action.payload };
+      
     case 'SET_IDENTIFIED_COMPETITORS':
       return { ...state, identifiedCompetitors: action.payload };
       
@@ -342,22 +418,54 @@ export function brandMonitorReducer(
       };
       
     case 'RESET_STATE':
-      return initialBrandMonitorState;
+      // The report template belongs to the user, not to the analysis
+      return { ...initialBrandMonitorState, reportTemplate: state.reportTemplate };
       
     case 'SCRAPE_SUCCESS':
       return {
         ...state,
         company: action.payload,
+        brandTerms: {},
+        factSheet: {},
         showInput: false,
         loading: false,
         error: null
       };
       
+    case 'RESUME_ANALYSIS': {
+      // Rebuild the progress view of a running job; replayed events fill in the rest
+      const promptCompletionStatus: PromptCompletionStatus = {};
+      action.payload.prompts.forEach(prompt => {
+        promptCompletionStatus[prompt] = {};
+        action.payload.providers.forEach(provider => {
+          promptCompletionStatus[prompt][provider] = 'pending';
+        });
+      });
+      return {
+        ...state,
+        company: action.payload.company,
+        identifiedCompetitors: action.payload.competitors,
+        analyzingPrompts: action.payload.prompts,
+        availableProviders: action.payload.providers,
+        promptCompletionStatus,
+        showInput: false,
+        showCompanyCard: false,
+        showPromptsList: true,
+        showCompetitors: false,
+        analyzing: true,
+        analysisProgress: {
+          ...initialBrandMonitorState.analysisProgress,
+          message: 'Reconnecting to analysis...'
+        }
+      };
+    }
+      
     case 'ANALYSIS_COMPLETE':
       return {
         ...state,
         analysis: action.payload,
-        analyzing: false
+        analyzing: false,
+        cancelling: false
       };
       
     default:
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { and, eq } from 'drizzle-orm';
+import { db } from './db';
+import { brandTerms } from './db/schema';
+import { BrandTerms } from './types';
+import { normalizeTrendUrl } from './trends';
+
+const termList = z.array(z.string().trim().min(1).max(100)).max(50);
+
+const BrandTermsSchema = z.object({
+  aliases: termList.optional(),
+  misspellings: termList.optional(),
+  productNames: termList.optional(),
+  excludedTerms: termList.optional(),
+});
+
+/**
+ * Validate brand terms from a request body. Duplicates (ignoring case) are dropped.
+ */
+export function parseBrandTerms(value: unknown): { terms?: BrandTerms; error?: string } {
+  const result = BrandTermsSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join('.') || 'terms'}: ${issue.message}` };
+  }
+
+  const dedupe = (list?: string[]) =>
+    list?.filter((term, i) => list.findIndex(t => t.toLowerCase() === term.toLowerCase()) === i);
+  return {
+    terms: {
+      aliases: dedupe(result.data.aliases),
+      misspellings: dedupe(result.data.misspellings),
+      productNames: dedupe(result.data.productNames),
+      excludedTerms: dedupe(result.data.excludedTerms),
+    },
+  };
+}
+
+const asTermList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((term): term is string => typeof term === 'string') : [];
+
+/**
+ * Load the brand terms the user saved for the company at this URL.
+ * Every analysis and tracked project of the same domain shares them.
+ */
+export async function getBrandTerms(userId: string, url: string): Promise<BrandTerms> {
+  const entry = await db.query.brandTerms.findFirst({
+    where: and(
+      eq(brandTerms.userId, userId),
+      eq(brandTerms.domain, normalizeTrendUrl(url))
+    ),
+  });
+
+  return {
+    aliases: asTermList(entry?.aliases),
+    misspellings: asTermList(entry?.misspellings),
+    productNames: asTermList(entry?.productNames),
+    excludedTerms: asTermList(entry?.excludedTerms),
+  };
+}
+
+export async function saveBrandTerms(userId: string, url: string, terms: BrandTerms): Promise<void> {
+  const values = {
+    aliases: terms.aliases || [],
+    misspellings: terms.misspellings || [],
+    productNames: terms.productNames || [],
+    excludedTerms: terms.excludedTerms || [],
+  };
+
+  await db
+    .insert(brandTerms)
+    .values({ userId, domain: normalizeTrendUrl(url), ...values })
+    .onConflictDoUpdate({
+      target: [brandTerms.userId, brandTerms.domain],
+      set: { ...values, updatedAt: new Date() },
+    });
+}
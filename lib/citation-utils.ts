@@ -0,0 +1,94 @@
+import { AIResponse, Citation, CitedSource } from './types';
+import { getDomain } from './utils';
+
+const MAX_PAGES_PER_DOMAIN = 5;
+
+/**
+ * Turn the sources of a response into citations. A page supports the tracked
+ * companies it names itself; a page that names none supports the companies
+ * mentioned in the answer that cites it.
+ */
+export function buildCitations(response: AIResponse, brandName: string): Citation[] {
+  const answerBrands = [
+    ...(response.brandMentioned ? [brandName] : []),
+    ...response.competitors.filter(c => c !== brandName),
+  ];
+
+  return (response.sources || []).map(source => {
+    const pageBrands = [
+      ...(source.mentionsBrand ? [brandName] : []),
+      ...(source.competitorsMentioned || []).filter(c => c !== brandName),
+    ];
+    return {
+      url: source.url,
+      domain: getDomain(source.url),
+      title: source.title,
+      brands: pageBrands.length > 0 ? pageBrands : answerBrands,
+    };
+  });
+}
+
+/**
+ * Count citations per domain across responses, with the pages cited and the
+ * companies each domain supports. Sorted by citation count.
+ */
+export function aggregateCitedSources(responses: AIResponse[]): CitedSource[] {
+  const sources: CitedSource[] = [];
+
+  responses.forEach(response => {
+    (response.citations || []).forEach(citation => {
+      sources.push({
+        domain: citation.domain,
+        citations: 1,
+        pages: [{ url: citation.url, title: citation.title, citations: 1 }],
+        brands: Object.fromEntries(citation.brands.map(brand => [brand, 1])),
+        providers: [response.provider],
+      });
+    });
+  });
+
+  return mergeCitedSources(sources);
+}
+
+/**
+ * Merge cited source lists, e.g. from several runs, into one entry per domain
+ */
+export function mergeCitedSources(sources: CitedSource[]): CitedSource[] {
+  const byDomain = new Map<string, CitedSource>();
+
+  sources.forEach(source => {
+    const entry = byDomain.get(source.domain);
+    if (!entry) {
+      byDomain.set(source.domain, {
+        ...source,
+        pages: source.pages.map(page => ({ ...page })),
+        brands: { ...source.brands },
+        providers: [...source.providers],
+      });
+      return;
+    }
+
+    entry.citations += source.citations;
+    source.pages.forEach(page => {
+      const existing = entry.pages.find(p => p.url === page.url);
+      if (existing) {
+        existing.citations += page.citations;
+      } else {
+        entry.pages.push({ ...page });
+      }
+    });
+    Object.entries(source.brands).forEach(([brand, count]) => {
+      entry.brands[brand] = (entry.brands[brand] || 0) + count;
+    });
+    source.providers.forEach(provider => {
+      if (!entry.providers.includes(provider)) entry.providers.push(provider);
+    });
+  });
+
+  return Array.from(byDomain.values())
+    .map(entry => ({
+      ...entry,
+      pages: entry.pages.sort((a, b) => b.citations - a.citations).slice(0, MAX_PAGES_PER_DOMAIN),
+    }))
+    .sort((a, b) => b.citations - a.citations || a.domain.localeCompare(b.domain));
+}
@@ -0,0 +1,221 @@
+/**
+ * Factual accuracy of AI answers
+ * Claims an answer makes about the brand (headquarters, founding year, prices, free tier,
+ * discontinued products) are extracted with patterns and checked against the company's
+ * fact sheet. A new fact sheet is seeded from the company's own website with the same patterns.
+ */
+
+import { AIResponse, BrandClaim, ClaimTopic, Company, FactSheet, ProviderAccuracy, TrackedCompany } from './types';
+import { detectBrandMention } from './brand-detection-utils';
+import { getBrandDetectionOptions } from './brand-detection-config';
+import { splitClauses, stripMarkdown } from './mention-analysis';
+
+export interface AuditedClaim extends BrandClaim {
+  provider: string;
+  prompt: string;
+}
+
+export interface AccuracyAudit {
+  providers: ProviderAccuracy[];
+  claims: AuditedClaim[]; // Contradictions first
+}
+
+const HEADQUARTERS = /\b(?:[Hh]eadquartered|[Bb]ased|[Hh]eadquarters|HQ)\s+(?:is\s+|are\s+)?in\s+([A-Z][\w'-]*(?:(?:,\s*|\s+)[A-Z][\w'-]*){0,3})/;
+const FOUNDED = /\b(?:founded|established|incorporated)\b[^.!?\n]{0,40}?\b((?:19|20)\d{2})\b/i;
+const PRICE = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?(?:\s*(?:\/\s*|per\s+|a\s+)(?:month|mo|year|yr|user|seat))?/gi;
+const NO_FREE_TIER = /\b(?:no|without an?|lacks an?|(?:doesn't|does not|don't|do not) (?:have|offer) an?)\s+free\s+(?:tier|plan|version|option)\b|\bpaid[- ]only\b/i;
+const FREE_TIER = /\bfree\s+(?:tier|plan|version|forever)\b|\bfreemium\b/i;
+const DISCONTINUED_CONTEXT = /\b(discontinued|deprecated|no longer|sunset|retired|shut down|end[- ]of[- ]life|replaced by|formerly|used to)\b/i;
+const HEADING = /^\s*#{1,6}\s/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function priceAmount(price: string): number {
+  return Number(price.replace(/[^\d.]/g, '').replace(/\.$/, ''));
+}
+
+function cityOf(place: string): string {
+  return place.split(',')[0].trim().toLowerCase();
+}
+
+/**
+ * Sentences of an answer that speak about the brand: those naming it, the ones right after
+ * them until a competitor is named ("It starts at $16/mo."), and the section under a heading
+ * naming it. Clauses about a competitor alone are dropped, so "Apify costs $49, while X costs $16"
+ * only keeps the brand's price.
+ */
+function brandSentences(text: string, brand: TrackedCompany, competitors: TrackedCompany[]): string[] {
+  const names = (company: TrackedCompany, passage: string) =>
+    detectBrandMention(passage, company.name, getBrandDetectionOptions(company.name, company)).mentioned;
+  const namesCompetitor = (passage: string) => competitors.some(c => names(c, passage));
+
+  const sentences: string[] = [];
+  let aboutBrand = false;
+  let inBrandSection = false;
+
+  text.split('\n').forEach(line => {
+    if (HEADING.test(line)) {
+      inBrandSection = names(brand, line) && !namesCompetitor(line);
+      aboutBrand = inBrandSection;
+      return;
+    }
+    if (!inBrandSection) aboutBrand = false;
+
+    line.split(/(?<=[.!?])\s+/).forEach(sentence => {
+      if (names(brand, sentence)) {
+        aboutBrand = true;
+      } else if (namesCompetitor(sentence)) {
+        aboutBrand = false;
+      }
+      if (!aboutBrand) return;
+
+      const clauses = splitClauses(sentence)
+        .map(clause => clause.text)
+        .filter(clause => names(brand, clause) || !namesCompetitor(clause));
+      sentences.push(stripMarkdown(clauses.join(', ').replace(/\|/g, ' ')).replace(/\s+/g, ' '));
+    });
+  });
+
+  return sentences.filter(Boolean);
+}
+
+function checkClaim(topic: ClaimTopic, claim: string, facts: FactSheet): Pick<BrandClaim, 'status' | 'expected'> {
+  switch (topic) {
+    case 'headquarters': {
+      if (!facts.headquarters) return { status: 'unverified' };
+      const matches = claim.toLowerCase().includes(cityOf(facts.headquarters)) ||
+        facts.headquarters.toLowerCase().includes(cityOf(claim));
+      return { status: matches ? 'consistent' : 'contradicted', expected: facts.headquarters };
+    }
+    case 'founded':
+      if (!facts.foundedYear) return { status: 'unverified' };
+      return { status: Number(claim) === facts.foundedYear ? 'consistent' : 'contradicted', expected: String(facts.foundedYear) };
+    case 'pricing': {
+      const known = (facts.pricing || []).flatMap(price => Array.from(price.matchAll(PRICE), m => priceAmount(m[0])));
+      if (known.length === 0) return { status: 'unverified' };
+      const amount = priceAmount(claim);
+      return {
+        status: known.some(k => Math.abs(k - amount) < 0.01) ? 'consistent' : 'contradicted',
+        expected: facts.pricing!.join(', '),
+      };
+    }
+    case 'free_tier':
+      if (facts.hasFreeTier === undefined) return { status: 'unverified' };
+      return {
+        status: (claim === 'Free tier') === facts.hasFreeTier ? 'consistent' : 'contradicted',
+        expected: facts.hasFreeTier ? 'Free tier' : 'No free tier',
+      };
+    case 'discontinued_product':
+      return { status: 'contradicted', expected: 'Discontinued' };
+  }
+}
+
+/**
+ * Claims an answer makes about the brand, each checked against the fact sheet.
+ * Topics the fact sheet leaves empty come back unverified.
+ */
+export function extractClaims(
+  text: string,
+  brand: TrackedCompany,
+  competitors: TrackedCompany[],
+  facts: FactSheet
+): BrandClaim[] {
+  const found: { topic: ClaimTopic; claim: string; sentence: string }[] = [];
+
+  brandSentences(text, brand, competitors.filter(c => c.name !== brand.name)).forEach(sentence => {
+    const headquarters = sentence.match(HEADQUARTERS);
+    if (headquarters) found.push({ topic: 'headquarters', claim: headquarters[1].replace(/[.,]+$/, ''), sentence });
+
+    const founded = sentence.match(FOUNDED);
+    if (founded) found.push({ topic: 'founded', claim: founded[1], sentence });
+
+    Array.from(sentence.matchAll(PRICE)).forEach(price => {
+      found.push({ topic: 'pricing', claim: price[0].trim(), sentence });
+    });
+
+    if (NO_FREE_TIER.test(sentence)) {
+      found.push({ topic: 'free_tier', claim: 'No free tier', sentence });
+    } else if (FREE_TIER.test(sentence)) {
+      found.push({ topic: 'free_tier', claim: 'Free tier', sentence });
+    }
+  });
+
+  // Discontinued products count wherever they appear, unless the answer says they are gone
+  (facts.discontinuedProducts || []).forEach(product => {
+    const pattern = new RegExp(`\\b${escapeRegExp(product)}\\b`, 'i');
+    text.split(/(?<=[.!?])\s+|\n/).forEach(sentence => {
+      if (pattern.test(sentence) && !DISCONTINUED_CONTEXT.test(sentence)) {
+        found.push({ topic: 'discontinued_product', claim: product, sentence: stripMarkdown(sentence) });
+      }
+    });
+  });
+
+  // The same claim repeated in one answer counts once
+  const claims: BrandClaim[] = [];
+  found.forEach(({ topic, claim, sentence }) => {
+    if (claims.some(c => c.topic === topic && c.claim.toLowerCase() === claim.toLowerCase())) return;
+    claims.push({ topic, claim, sentence, ...checkClaim(topic, claim, facts) });
+  });
+  return claims;
+}
+
+/**
+ * Check every response of an analysis against the fact sheet and total the results per provider
+ */
+export function auditResponses(
+  responses: AIResponse[],
+  brand: TrackedCompany,
+  competitors: TrackedCompany[],
+  facts: FactSheet
+): AccuracyAudit {
+  const providers = new Map<string, ProviderAccuracy>();
+  const claims: AuditedClaim[] = [];
+
+  responses.forEach(response => {
+    if (!response.response) return;
+    let accuracy = providers.get(response.provider);
+    if (!accuracy) {
+      accuracy = { provider: response.provider, responses: 0, claims: 0, consistent: 0, contradicted: 0, unverified: 0, accuracy: null };
+      providers.set(response.provider, accuracy);
+    }
+    accuracy.responses++;
+
+    extractClaims(response.response, brand, competitors, facts).forEach(claim => {
+      accuracy!.claims++;
+      accuracy![claim.status]++;
+      claims.push({ ...claim, provider: response.provider, prompt: response.prompt });
+    });
+  });
+
+  const statusOrder = { contradicted: 0, consistent: 1, unverified: 2 };
+  return {
+    providers: Array.from(providers.values()).map(p => {
+      const checked = p.consistent + p.contradicted;
+      return { ...p, accuracy: checked > 0 ? Math.round((p.consistent / checked) * 100) : null };
+    }),
+    claims: claims.sort((a, b) => statusOrder[a.status] - statusOrder[b.status]),
+  };
+}
+
+/**
+ * Starting fact sheet for a company, read from its own scraped website
+ */
+export function seedFactSheet(company: Company): FactSheet {
+  const data = company.scrapedData;
+  if (!data) return {};
+  const text = [data.description, data.mainContent].filter(Boolean).join('\n');
+
+  const facts: FactSheet = {};
+  const headquarters = text.match(HEADQUARTERS);
+  if (headquarters) facts.headquarters = headquarters[1].replace(/[.,]+$/, '');
+  const founded = text.match(FOUNDED);
+  if (founded) facts.foundedYear = Number(founded[1]);
+  const prices = Array.from(new Set(Array.from(text.matchAll(PRICE), m => m[0].trim()))).slice(0, 10);
+  if (prices.length > 0) facts.pricing = prices;
+  if (NO_FREE_TIER.test(text)) {
+    facts.hasFreeTier = false;
+  } else if (FREE_TIER.test(text)) {
+    facts.hasFreeTier = true;
+  }
+  return facts;
+}
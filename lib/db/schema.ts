@@ -1,8 +1,10 @@
-import { pgTable, text, timestamp, uuid, boolean, jsonb, integer, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, boolean, jsonb, integer, pgEnum, real, index, uniqueIndex } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enums
 export const themeEnum = pgEnum('theme', ['light', 'dark']);
+export const scheduleCadenceEnum = pgEnum('schedule_cadence', ['daily', 'weekly']);
+export const analysisJobStatusEnum = pgEnum('analysis_job_status', ['pending', 'running', 'completed', 'failed', 'cancelled']);
 
 // User Profile table - extends Better Auth user with additional fields
 export const userProfile = pgTable('user_profile', {
@@ -24,6 +26,10 @@ export const userSettings = pgTable('user_settings', {
   emailNotifications: boolean('email_notifications').default(true),
   marketingEmails: boolean('marketing_emails').default(false),
   defaultModel: text('default_model').default('gpt-3.5-turbo'),
+  analysisModels: jsonb('analysis_models'), // Default {providerId, modelId} pairs for brand analyses
+  scoringProfiles: jsonb('scoring_profiles'), // Saved custom ScoringProfile definitions
+  scoringProfileId: text('scoring_profile_id'), // Default scoring profile (built-in or saved)
+  reportTemplate: jsonb('report_template'), // Saved ReportTemplate: report sections, their order and branding
   metadata: jsonb('metadata'), // For any additional settings
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
@@ -44,16 +50,232 @@ export const brandAnalyses = pgTable('brand_analyses', {
   updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
 });
 
+// Analysis Prompts - one row per prompt used in a brand analysis
+export const analysisPrompts = pgTable('analysis_prompts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  analysisId: uuid('analysis_id').notNull().references(() => brandAnalyses.id, { onDelete: 'cascade' }),
+  prompt: text('prompt').notNull(),
+  category: text('category'),
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_analysis_prompts_analysis_id').on(table.analysisId),
+]);
+
+// Analysis Responses - one row per prompt/provider answer
+export const analysisResponses = pgTable('analysis_responses', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  analysisId: uuid('analysis_id').notNull().references(() => brandAnalyses.id, { onDelete: 'cascade' }),
+  promptId: uuid('prompt_id').references(() => analysisPrompts.id, { onDelete: 'set null' }),
+  provider: text('provider').notNull(),
+  prompt: text('prompt').notNull(),
+  response: text('response').notNull(),
+  brandMentioned: boolean('brand_mentioned').notNull().default(false),
+  brandPosition: integer('brand_position'),
+  sentiment: text('sentiment'),
+  confidence: real('confidence'),
+  competitors: jsonb('competitors'), // Competitor names detected in the response
+  rankings: jsonb('rankings'), // CompanyRanking[] extracted from the response
+  webSearchUsed: boolean('web_search_used').notNull().default(false),
+  sources: jsonb('sources'), // WebSource[] returned by the provider's web search
+  respondedAt: timestamp('responded_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_analysis_responses_analysis_id').on(table.analysisId),
+  index('idx_analysis_responses_provider_position').on(table.provider, table.brandPosition),
+]);
+
+// Analysis Competitor Scores - overall (provider is null) and per-provider scores
+export const analysisCompetitorScores = pgTable('analysis_competitor_scores', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  analysisId: uuid('analysis_id').notNull().references(() => brandAnalyses.id, { onDelete: 'cascade' }),
+  provider: text('provider'),
+  competitor: text('competitor').notNull(),
+  isOwn: boolean('is_own').default(false),
+  mentions: integer('mentions').default(0),
+  averagePosition: real('average_position'),
+  sentiment: text('sentiment'),
+  sentimentScore: real('sentiment_score'),
+  shareOfVoice: real('share_of_voice'),
+  visibilityScore: real('visibility_score'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_analysis_competitor_scores_analysis_id').on(table.analysisId),
+  index('idx_analysis_competitor_scores_competitor').on(table.competitor),
+]);
+
+// Tracked Projects - companies re-analyzed on a recurring schedule
+export const trackedProjects = pgTable('tracked_projects', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  url: text('url').notNull(),
+  companyName: text('company_name').notNull(),
+  industry: text('industry'),
+  company: jsonb('company').notNull(), // Company snapshot passed to performAnalysis
+  competitors: jsonb('competitors'), // Competitor names to track
+  prompts: jsonb('prompts'), // Prompt strings to run each time
+  cadence: scheduleCadenceEnum('cadence').notNull().default('weekly'),
+  useWebSearch: boolean('use_web_search').default(false),
+  enabled: boolean('enabled').default(true),
+  lastRunAt: timestamp('last_run_at'),
+  nextRunAt: timestamp('next_run_at').notNull().defaultNow(),
+  lastAnalysisId: uuid('last_analysis_id'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
+});
+
+// Analysis Jobs - a brand analysis run started from the UI, persisted so clients can reconnect
+export const analysisJobs = pgTable('analysis_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id'), // Null for anonymous runs
+  companyName: text('company_name').notNull(),
+  status: analysisJobStatusEnum('status').notNull().default('pending'),
+  request: jsonb('request').notNull(), // AnalysisJobRequest the job was started with
+  result: jsonb('result'), // AnalysisResult once completed
+  error: text('error'),
+  lastEventId: integer('last_event_id').notNull().default(0),
+  cancelRequestedAt: timestamp('cancel_requested_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
+  completedAt: timestamp('completed_at'),
+}, (table) => [
+  index('idx_analysis_jobs_user_id').on(table.userId),
+]);
+
+// Analysis Job Events - the SSE events of a job, numbered from 1 for Last-Event-ID replay
+export const analysisJobEvents = pgTable('analysis_job_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').notNull().references(() => analysisJobs.id, { onDelete: 'cascade' }),
+  eventId: integer('event_id').notNull(),
+  event: jsonb('event').notNull(), // SSEEvent as sent to the client
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('idx_analysis_job_events_job_event').on(table.jobId, table.eventId),
+]);
+
+// Provider responses reused by later analyses until they expire
+export const responseCache = pgTable('response_cache', {
+  cacheKey: text('cache_key').primaryKey(), // Hash of normalized prompt, provider, model and temperature
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  prompt: text('prompt').notNull(), // Normalized prompt
+  temperature: real('temperature').notNull(),
+  value: jsonb('value').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+}, (table) => [
+  index('idx_response_cache_expires_at').on(table.expiresAt),
+]);
+
+// Brand Terms - a user's aliases and excluded look-alikes for a brand, keyed by its domain
+export const brandTerms = pgTable('brand_terms', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  domain: text('domain').notNull(), // Hostname without www, shared by analyses and tracked projects of the brand
+  aliases: jsonb('aliases'), // string[] of other names of the brand
+  misspellings: jsonb('misspellings'), // string[]
+  productNames: jsonb('product_names'), // string[] of products that count as the brand
+  excludedTerms: jsonb('excluded_terms'), // string[] of look-alike phrases that do not count
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
+}, (table) => [
+  uniqueIndex('idx_brand_terms_user_domain').on(table.userId, table.domain),
+]);
+
+// Fact Sheets - what a user states is true about a brand, to check AI answers against
+export const factSheets = pgTable('fact_sheets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  domain: text('domain').notNull(), // Hostname without www, as in brand_terms
+  facts: jsonb('facts').notNull(), // FactSheet
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
+}, (table) => [
+  uniqueIndex('idx_fact_sheets_user_domain').on(table.userId, table.domain),
+]);
+
+// Analysis Shares - public, expiring read-only links to a saved analysis and its report
+export const analysisShares = pgTable('analysis_shares', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  analysisId: uuid('analysis_id').notNull().references(() => brandAnalyses.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(), // Owner of the analysis, whose report template the link uses
+  passwordHash: text('password_hash'), // scrypt hash; null when the link needs no password
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  lastViewedAt: timestamp('last_viewed_at'),
+  viewCount: integer('view_count').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('idx_analysis_shares_analysis_id').on(table.analysisId),
+]);
+
 // Define relations
 export const userProfileRelations = relations(userProfile, ({ many }) => ({
   brandAnalyses: many(brandAnalyses),
+  trackedProjects: many(trackedProjects),
 }));
 
-export const brandAnalysesRelations = relations(brandAnalyses, ({ one }) => ({
+export const brandAnalysesRelations = relations(brandAnalyses, ({ one, many }) => ({
   userProfile: one(userProfile, {
     fields: [brandAnalyses.userId],
     references: [userProfile.userId],
   }),
+  analysisPrompts: many(analysisPrompts),
+  analysisResponses: many(analysisResponses),
+  analysisCompetitorScores: many(analysisCompetitorScores),
+  shares: many(analysisShares),
+}));
+
+export const analysisPromptsRelations = relations(analysisPrompts, ({ one, many }) => ({
+  analysis: one(brandAnalyses, {
+    fields: [analysisPrompts.analysisId],
+    references: [brandAnalyses.id],
+  }),
+  responses: many(analysisResponses),
+}));
+
+export const analysisResponsesRelations = relations(analysisResponses, ({ one }) => ({
+  analysis: one(brandAnalyses, {
+    fields: [analysisResponses.analysisId],
+    references: [brandAnalyses.id],
+  }),
+  prompt: one(analysisPrompts, {
+    fields: [analysisResponses.promptId],
+    references: [analysisPrompts.id],
+  }),
+}));
+
+export const analysisCompetitorScoresRelations = relations(analysisCompetitorScores, ({ one }) => ({
+  analysis: one(brandAnalyses, {
+    fields: [analysisCompetitorScores.analysisId],
+    references: [brandAnalyses.id],
+  }),
+}));
+
+export const analysisSharesRelations = relations(analysisShares, ({ one }) => ({
+  analysis: one(brandAnalyses, {
+    fields: [analysisShares.analysisId],
+    references: [brandAnalyses.id],
+  }),
+}));
+
+export const trackedProjectsRelations = relations(trackedProjects, ({ one }) => ({
+  userProfile: one(userProfile, {
+    fields: [trackedProjects.userId],
+    references: [userProfile.userId],
+  }),
+}));
+
+export const analysisJobsRelations = relations(analysisJobs, ({ many }) => ({
+  events: many(analysisJobEvents),
+}));
+
+export const analysisJobEventsRelations = relations(analysisJobEvents, ({ one }) => ({
+  job: one(analysisJobs, {
+    fields: [analysisJobEvents.jobId],
+    references: [analysisJobs.id],
+  }),
 }));
 
 // Type exports for use in application
@@ -62,4 +284,21 @@ export type NewUserProfile = typeof userProfile.$inferInsert;
 export type UserSettings = typeof userSettings.$inferSelect;
 export type NewUserSettings = typeof userSettings.$inferInsert;
 export type BrandAnalysis = typeof brandAnalyses.$inferSelect;
-export type NewBrandAnalysis = typeof brandAnalyses.$inferInsert;
\ No newline at end of file
+export type NewBrandAnalysis = typeof brandAnalyses.$inferInsert;
+export type AnalysisPrompt = typeof analysisPrompts.$inferSelect;
+export type NewAnalysisPrompt = typeof analysisPrompts.$inferInsert;
+export type AnalysisResponse = typeof analysisResponses.$inferSelect;
+export type NewAnalysisResponse = typeof analysisResponses.$inferInsert;
+export type AnalysisCompetitorScore = typeof analysisCompetitorScores.$inferSelect;
+export type NewAnalysisCompetitorScore = typeof analysisCompetitorScores.$inferInsert;
+export type TrackedProject = typeof trackedProjects.$inferSelect;
+export type NewTrackedProject = typeof trackedProjects.$inferInsert;
+export type ScheduleCadence = typeof scheduleCadenceEnum.enumValues[number];
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type NewAnalysisJob = typeof analysisJobs.$inferInsert;
+export type AnalysisJobEvent = typeof analysisJobEvents.$inferSelect;
+export type AnalysisJobStatus = typeof analysisJobStatusEnum.enumValues[number];
+export type ResponseCacheEntry = typeof responseCache.$inferSelect;
+export type BrandTermsEntry = typeof brandTerms.$inferSelect;
+export type FactSheetEntry = typeof factSheets.$inferSelect;
+export type AnalysisShare = typeof analysisShares.$inferSelect;
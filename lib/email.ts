@@ -7,12 +7,14 @@ export const sendEmail = async ({
   to, 
   subject, 
   text, 
-  html 
+  html,
+  attachments
 }: { 
   to: string; 
   subject: string; 
   text?: string; 
   html?: string; 
+  attachments?: { filename: string; content: Buffer }[]; // e.g. the PDF report of a scheduled run
 }) => {
   // In development without API key, just log to console
   if (!process.env.RESEND_API_KEY || !resend) {
@@ -20,6 +22,7 @@ export const sendEmail = async ({
     console.log('To:', to);
     console.log('Subject:', subject);
     console.log('Content:', html || text);
+    if (attachments?.length) console.log('Attachments:', attachments.map(a => a.filename).join(', '));
     console.log('\n⚠️  Add RESEND_API_KEY to .env.local to send real emails');
     return { id: 'dev-email' };
   }
@@ -31,6 +34,7 @@ export const sendEmail = async ({
       subject,
       text,
       html: html || text,
+      attachments,
     });
     
     console.log('Email sent:', data.id);
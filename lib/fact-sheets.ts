@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { and, eq } from 'drizzle-orm';
+import { db } from './db';
+import { factSheets } from './db/schema';
+import { FactSheet } from './types';
+import { normalizeTrendUrl } from './trends';
+
+const FactSheetSchema = z.object({
+  headquarters: z.string().trim().max(200).optional(),
+  foundedYear: z.number().int().min(1800).max(2100).optional(),
+  pricing: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  hasFreeTier: z.boolean().optional(),
+  discontinuedProducts: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+});
+
+/**
+ * Validate a fact sheet from a request body. Empty fields are dropped.
+ */
+export function parseFactSheet(value: unknown): { facts?: FactSheet; error?: string } {
+  const result = FactSheetSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join('.') || 'facts'}: ${issue.message}` };
+  }
+
+  const { headquarters, pricing, discontinuedProducts, ...rest } = result.data;
+  return {
+    facts: {
+      ...rest,
+      ...(headquarters && { headquarters }),
+      ...(pricing?.length && { pricing }),
+      ...(discontinuedProducts?.length && { discontinuedProducts }),
+    },
+  };
+}
+
+/**
+ * Load the fact sheet the user saved for the company at this URL, or null when there is none
+ * (the client then seeds one from the scraped website)
+ */
+export async function getFactSheet(userId: string, url: string): Promise<FactSheet | null> {
+  const entry = await db.query.factSheets.findFirst({
+    where: and(
+      eq(factSheets.userId, userId),
+      eq(factSheets.domain, normalizeTrendUrl(url))
+    ),
+  });
+
+  return entry ? parseFactSheet(entry.facts).facts ?? {} : null;
+}
+
+export async function saveFactSheet(userId: string, url: string, facts: FactSheet): Promise<void> {
+  await db
+    .insert(factSheets)
+    .values({ userId, domain: normalizeTrendUrl(url), facts })
+    .onConflictDoUpdate({
+      target: [factSheets.userId, factSheets.domain],
+      set: { facts, updatedAt: new Date() },
+    });
+}
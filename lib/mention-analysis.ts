@@ -0,0 +1,240 @@
+/**
+ * Mention-level sentiment and stance
+ * Every sentence that names a tracked company becomes one mention, labelled with the
+ * sentiment of the clause around it, a stance (recommended, neutral listing, warned
+ * against, compared unfavorably) and the reasons the answer gives, grouped by theme.
+ * Works on the response text alone, so stored responses can be classified again.
+ */
+
+import { AIResponse, BrandMention, CompanyRanking, MentionReason, MentionStance, MentionSummary, TrackedCompany } from './types';
+import { detectBrandMention } from './brand-detection-utils';
+import { getBrandDetectionConfig, getBrandDetectionOptions } from './brand-detection-config';
+
+type Sentiment = NonNullable<CompanyRanking['sentiment']>;
+
+const POSITIVE_TERMS = ['best', 'leading', 'excellent', 'top', 'great', 'popular', 'powerful', 'recommended', 'reliable', 'easy to use', 'robust', 'standout', 'affordable', 'cheap', 'intuitive', 'flexible'];
+const NEGATIVE_TERMS = ['not recommended', 'expensive', 'limited', 'lacks', 'poor', 'outdated', 'difficult', 'slow', 'complex', 'steep learning curve', 'unreliable', 'drawback', 'overpriced', 'clunky'];
+
+const RECOMMENDATION = /\b(recommend(ed)?|best (choice|option|overall|fit|for)|top (choice|pick)|go with|ideal|stands? out|first choice|(my|our) pick)\b/i;
+// The company before the phrase comes out ahead of the one after it...
+const FAVORABLE_COMPARISON = /\b(better than|superior to|outperforms?|beats|ahead of|preferable to|cheaper than|easier than|faster than|more reliable than)\b/i;
+// ...or behind it
+const UNFAVORABLE_COMPARISON = /\b(worse than|inferior to|lags? behind|falls? short of|weaker than|pricier than|more expensive than|slower than|harder than|not as \w+ as)\b/i;
+
+const REASON_THEMES: { theme: string; pattern: RegExp }[] = [
+  { theme: 'Price', pattern: /\b(price[ds]?|pricing|costs?|costly|cheap(er)?|affordable|(over)?priced|pricier|expensive|free tier|budget)\b/i },
+  { theme: 'Ease of use', pattern: /\b(easy|easier|simple|simpler|intuitive|user-friendly|learning curve|complex|complicated|difficult|clunky)\b/i },
+  { theme: 'Features', pattern: /\b(features?|powerful|flexible|capabilit(y|ies)|integrations?|limited|lacks?|missing|versatile)\b/i },
+  { theme: 'Performance', pattern: /\b(fast(er)?|slow(er)?|speed|performance|scal(e|able|ability|ing))\b/i },
+  { theme: 'Reliability', pattern: /\b(reliab(le|ility)|unreliable|stable|stability|uptime|robust|accura(te|cy))\b/i },
+  { theme: 'Support', pattern: /\b(support|documentation|docs|community|customer service)\b/i },
+  { theme: 'Reputation', pattern: /\b(popular|trusted|leading|leader|well-known|established|reputation|industry standard)\b/i },
+];
+
+// Sentences end at . ! or ? followed by whitespace, or at a line break ("firecrawl.dev" does not end one)
+const SENTENCE_END = /[.!?](?=\s|$)|\n/g;
+// A dash is not a separator: in list items it joins the name to its description
+const CLAUSE_SEPARATOR = /[;,]\s+|\s+(?:but|while|whereas|although|however)\s+/gi;
+
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Links and images keep their text
+    .replace(/\*\*|__|`|~~/g, '')
+    .replace(/(^|\s)[*_](\S)/g, '$1$2')
+    .replace(/(\S)[*_](?=\s|$|[.,:;!?])/g, '$1')
+    .trim();
+}
+
+function countTerm(text: string, term: string): { count: number; rest: string } {
+  const pattern = new RegExp(`\\b${term.replace(/\s+/g, '\\s+')}\\b`, 'g');
+  return { count: (text.match(pattern) || []).length, rest: text.replace(pattern, ' ') };
+}
+
+/**
+ * Lexicon sentiment of a passage: positive and negative terms cancel out
+ */
+export function scoreSentiment(text: string): Sentiment {
+  let rest = text.toLowerCase();
+  let score = 0;
+  // Negative phrases first, so "not recommended" does not also count as "recommended"
+  NEGATIVE_TERMS.forEach(term => {
+    const result = countTerm(rest, term);
+    score -= result.count;
+    rest = result.rest;
+  });
+  POSITIVE_TERMS.forEach(term => {
+    score += countTerm(rest, term).count;
+  });
+  return score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral';
+}
+
+/**
+ * Start and end offsets of the sentence containing the index
+ */
+function sentenceRange(text: string, index: number): [number, number] {
+  let start = 0;
+  let end = text.length;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const boundary = match.index! + match[0].length;
+    if (boundary <= index) {
+      start = boundary;
+    } else {
+      end = boundary;
+      break;
+    }
+  }
+  return [start, end];
+}
+
+export function sentenceAt(text: string, index: number): string {
+  return text.slice(...sentenceRange(text, index));
+}
+
+/**
+ * Clauses of a sentence with their offsets, so a mention can be matched to its own clause
+ */
+export function splitClauses(sentence: string): { text: string; start: number }[] {
+  const clauses: { text: string; start: number }[] = [];
+  let start = 0;
+  for (const match of sentence.matchAll(CLAUSE_SEPARATOR)) {
+    clauses.push({ text: sentence.slice(start, match.index), start });
+    start = match.index! + match[0].length;
+  }
+  clauses.push({ text: sentence.slice(start), start });
+  return clauses;
+}
+
+function cleanSentence(sentence: string): string {
+  return stripMarkdown(sentence.replace(/^\s*(?:#{1,6}|[-*+•]|\d{1,2}[.)])\s+/, '').replace(/\|/g, ' '))
+    .replace(/\s+/g, ' ');
+}
+
+// Comparison phrases such as "worse than" are also warning patterns; they are left to the comparison check
+const COMPARISON_PHRASES = new RegExp(`${FAVORABLE_COMPARISON.source}|${UNFAVORABLE_COMPARISON.source}`, 'gi');
+
+/**
+ * Stance of a mention at `offset` within the sentence. Warnings are read from the mention's
+ * own clause; comparisons from the whole sentence, by which side of the phrase the company is on.
+ */
+function classifyStance(sentence: string, clause: string, offset: number): MentionStance {
+  const warning = clause.replace(COMPARISON_PHRASES, ' ');
+  if (getBrandDetectionConfig().negativeContextPatterns.some(pattern => pattern.test(warning))) {
+    return 'warned_against';
+  }
+
+  // The side of the comparison that comes out ahead counts as recommended
+  const favorable = sentence.match(FAVORABLE_COMPARISON);
+  if (favorable) return offset > favorable.index! ? 'compared_unfavorably' : 'recommended';
+  const unfavorable = sentence.match(UNFAVORABLE_COMPARISON);
+  if (unfavorable) return offset < unfavorable.index! ? 'compared_unfavorably' : 'recommended';
+
+  if (RECOMMENDATION.test(clause) || scoreSentiment(clause) === 'positive') return 'recommended';
+  return 'neutral';
+}
+
+function extractReasons(clauses: string[]): MentionReason[] {
+  const reasons: MentionReason[] = [];
+  clauses.forEach(clause => {
+    const text = cleanSentence(clause);
+    REASON_THEMES.forEach(({ theme, pattern }) => {
+      if (pattern.test(text) && !reasons.some(r => r.theme === theme)) {
+        reasons.push({ theme, sentiment: scoreSentiment(text), text });
+      }
+    });
+  });
+  return reasons;
+}
+
+/**
+ * Classify every mention of the brand and competitors in a response.
+ * A company named twice in one sentence counts once there.
+ */
+export function classifyMentions(
+  text: string,
+  brand: TrackedCompany,
+  competitors: TrackedCompany[]
+): BrandMention[] {
+  const mentions: BrandMention[] = [];
+  const detections = [brand, ...competitors.filter(c => c.name !== brand.name)].map(company => ({
+    company: company.name,
+    matches: [...detectBrandMention(text, company.name, getBrandDetectionOptions(company.name, company)).matches]
+      .sort((a, b) => a.index - b.index),
+  }));
+  const namesOtherCompany = (company: string, from: number, to: number) => detections.some(other =>
+    other.company !== company && other.matches.some(m => m.index >= from && m.index < to));
+
+  detections.forEach(({ company, matches }) => {
+    const seenSentences = new Set<number>();
+
+    matches.forEach(match => {
+      const [start, end] = sentenceRange(text, match.index);
+      if (seenSentences.has(start)) return;
+      seenSentences.add(start);
+
+      const sentence = text.slice(start, end);
+      const offset = match.index - start;
+      const clauses = splitClauses(sentence);
+      const clause = [...clauses].reverse().find(c => c.start <= offset) ?? clauses[0];
+      // Reasons come from the mention's clause and the ones after it, up to the next company
+      const laterClauses = clauses.filter(c => c.start > clause.start);
+      const nextCompany = laterClauses.findIndex(c => namesOtherCompany(company, start + c.start, start + c.start + c.text.length));
+      const reasonClauses = [clause, ...(nextCompany < 0 ? laterClauses : laterClauses.slice(0, nextCompany))].map(c => c.text);
+
+      const stance = classifyStance(sentence, clause.text, offset);
+      const clauseSentiment = scoreSentiment(clause.text);
+      mentions.push({
+        company,
+        index: match.index,
+        sentence: cleanSentence(sentence),
+        sentiment: stance === 'warned_against' || stance === 'compared_unfavorably' ? 'negative'
+          : stance === 'recommended' && clauseSentiment === 'neutral' ? 'positive'
+          : clauseSentiment,
+        stance,
+        reasons: extractReasons(reasonClauses),
+      });
+    });
+  });
+
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Aggregate the mentions of every company across responses: sentiment and stance counts
+ * and the reasons cited most often
+ */
+export function summarizeMentions(responses: AIResponse[], brandName: string): MentionSummary[] {
+  const summaries = new Map<string, MentionSummary>();
+
+  responses.forEach(response => {
+    (response.mentions || []).forEach(mention => {
+      let summary = summaries.get(mention.company);
+      if (!summary) {
+        summary = {
+          company: mention.company,
+          isOwn: mention.company === brandName,
+          mentions: 0,
+          sentiment: { positive: 0, neutral: 0, negative: 0 },
+          stances: { recommended: 0, neutral: 0, warned_against: 0, compared_unfavorably: 0 },
+          reasons: [],
+        };
+        summaries.set(mention.company, summary);
+      }
+
+      summary.mentions++;
+      summary.sentiment[mention.sentiment]++;
+      summary.stances[mention.stance]++;
+      mention.reasons.forEach(reason => {
+        const existing = summary!.reasons.find(r => r.theme === reason.theme && r.sentiment === reason.sentiment);
+        if (existing) {
+          existing.count++;
+        } else {
+          summary!.reasons.push({ theme: reason.theme, sentiment: reason.sentiment, count: 1, example: reason.text });
+        }
+      });
+    });
+  });
+
+  return Array.from(summaries.values())
+    .map(summary => ({ ...summary, reasons: summary.reasons.sort((a, b) => b.count - a.count) }))
+    .sort((a, b) => Number(b.isOwn) - Number(a.isOwn) || b.mentions - a.mentions);
+}
@@ -0,0 +1,155 @@
+/**
+ * Fixture data for the offline mock provider
+ * Each fixture describes a company the mock model "knows" about: what its
+ * homepage says, which market it serves and who it competes with.
+ *
+ * Add a fixture here to run the full pipeline offline against a specific company.
+ * Unknown domains fall back to a generic fixture built from the domain name.
+ */
+
+export interface MockCompanyFixture {
+  domain: string;
+  name: string;
+  industry: string;
+  description: string;
+  keywords: string[];
+  mainProducts: string[];
+  competitors: string[];
+  primaryMarket: string;
+  secondaryMarkets: string[];
+  marketScope: 'local' | 'regional' | 'national' | 'global';
+  content: string; // Homepage markdown returned instead of a Firecrawl scrape
+}
+
+export const MOCK_COMPANY_FIXTURES: MockCompanyFixture[] = [
+  {
+    domain: 'firecrawl.dev',
+    name: 'Firecrawl',
+    industry: 'web scraping',
+    description: 'Firecrawl turns entire websites into clean, LLM-ready markdown or structured data with a single API.',
+    keywords: ['web scraping', 'crawling', 'data extraction', 'markdown', 'LLM'],
+    mainProducts: ['scrape API', 'crawl API', 'extract API'],
+    competitors: ['Apify', 'ScrapingBee', 'Bright Data', 'Browserless', 'Diffbot', 'Zyte'],
+    primaryMarket: 'Global',
+    secondaryMarkets: [],
+    marketScope: 'global',
+    content: `# Firecrawl
+
+Turn websites into LLM-ready data. Power your AI apps with clean data crawled from any website.
+
+## Scrape, crawl and extract
+- **Scrape** any URL and get markdown, HTML or screenshots
+- **Crawl** all accessible subpages of a site
+- **Extract** structured data with a prompt or schema
+
+Trusted by thousands of developers building AI agents and RAG pipelines.`,
+  },
+  {
+    domain: 'yeti.com',
+    name: 'YETI',
+    industry: 'outdoor gear',
+    description: 'YETI designs premium coolers, drinkware and outdoor equipment built for the wild.',
+    keywords: ['coolers', 'drinkware', 'tumblers', 'outdoor', 'camping'],
+    mainProducts: ['coolers', 'tumblers', 'drinkware', 'bags'],
+    competitors: ['RTIC', 'Igloo', 'Coleman', 'Hydro Flask', 'Stanley', 'Pelican'],
+    primaryMarket: 'United States',
+    secondaryMarkets: ['Canada', 'Australia'],
+    marketScope: 'global',
+    content: `# YETI
+
+Built for the wild. Shop hard coolers, soft coolers, tumblers and drinkware.
+
+## Best sellers
+- Tundra hard coolers
+- Rambler tumblers and bottles
+- Hopper soft coolers
+
+Free shipping on orders over $75.`,
+  },
+  {
+    domain: 'vercel.com',
+    name: 'Vercel',
+    industry: 'deployment',
+    description: 'Vercel is a frontend cloud platform for building, deploying and scaling web applications.',
+    keywords: ['deployment', 'hosting', 'cloud platform', 'serverless', 'Next.js'],
+    mainProducts: ['hosting', 'serverless functions', 'edge network', 'preview deployments'],
+    competitors: ['Netlify', 'Render', 'Railway', 'Fly.io', 'Heroku', 'Cloudflare Pages'],
+    primaryMarket: 'Global',
+    secondaryMarkets: [],
+    marketScope: 'global',
+    content: `# Vercel
+
+Your complete platform for the web. Build and deploy on the AI Cloud.
+
+## Features
+- Git-based preview deployments
+- Serverless and edge functions
+- Global edge network
+
+The native home of Next.js.`,
+  },
+];
+
+const GENERIC_COMPETITORS = ['Northwind', 'Contoso', 'Globex', 'Initech', 'Umbrella', 'Hooli'];
+
+function domainFromUrl(url: string): string {
+  try {
+    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
+    return urlObj.hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Find the fixture for a URL, or build a generic one from the domain name
+ */
+export function getMockFixtureForUrl(url: string): MockCompanyFixture {
+  const domain = domainFromUrl(url);
+  const fixture = MOCK_COMPANY_FIXTURES.find(f => domain === f.domain || domain.endsWith(`.${f.domain}`));
+  if (fixture) {
+    return fixture;
+  }
+
+  const baseName = domain.split('.')[0] || 'Example';
+  const name = baseName.charAt(0).toUpperCase() + baseName.slice(1);
+
+  return {
+    domain,
+    name,
+    industry: 'software',
+    description: `${name} provides software for modern businesses.`,
+    keywords: ['software', 'business', 'platform'],
+    mainProducts: ['platform'],
+    competitors: GENERIC_COMPETITORS,
+    primaryMarket: 'Global',
+    secondaryMarkets: [],
+    marketScope: 'global',
+    content: `# ${name}\n\n${name} provides software for modern businesses.`,
+  };
+}
+
+/**
+ * Pick the fixture that best matches free text such as a search prompt.
+ * Scores fixtures by how many of their names, industry and keywords appear in the text.
+ */
+export function getMockFixtureForText(text: string): MockCompanyFixture | undefined {
+  const lower = text.toLowerCase();
+  let best: MockCompanyFixture | undefined;
+  let bestScore = 0;
+
+  MOCK_COMPANY_FIXTURES.forEach(fixture => {
+    const terms = [fixture.name, fixture.domain, fixture.industry, ...fixture.keywords, ...fixture.mainProducts, ...fixture.competitors];
+    const score = terms.filter(term => lower.includes(term.toLowerCase())).length;
+    if (score > bestScore) {
+      best = fixture;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+export function getGenericMockCompetitors(): string[] {
+  return GENERIC_COMPETITORS;
+}
@@ -0,0 +1,420 @@
+/**
+ * Deterministic offline language model
+ * Implements LanguageModelV1 so it can be registered in PROVIDER_CONFIGS and used
+ * by generateText/generateObject like any real provider. Output depends only on
+ * the seed, the model id and the prompt, so the same run always produces the same result.
+ *
+ * The model recognises the prompts sent by the brand monitor pipeline (company
+ * extraction, market analysis, competitor discovery, prompt generation, ranking
+ * analysis, report insights) and answers them from the fixtures in mock-fixtures.ts.
+ */
+
+import {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+  simulateReadableStream,
+} from 'ai';
+import {
+  getMockFixtureForText,
+  getMockFixtureForUrl,
+  getGenericMockCompetitors,
+} from './mock-fixtures';
+
+type Rng = () => number;
+type MockSource = NonNullable<Awaited<ReturnType<LanguageModelV1['doGenerate']>>['sources']>[number];
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  required?: string[];
+};
+
+export const MOCK_DEFAULT_SEED = 'firegeo';
+
+// FNV-1a string hash, used to turn the seed and prompt into a PRNG state
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 PRNG
+function createRng(seed: string): Rng {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], rng: Rng): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function pick<T>(items: T[], rng: Rng): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+function promptToText(prompt: LanguageModelV1Prompt): { system: string; user: string } {
+  const system: string[] = [];
+  const user: string[] = [];
+
+  prompt.forEach(message => {
+    if (message.role === 'system') {
+      system.push(message.content);
+    } else if (message.role === 'user') {
+      message.content.forEach(part => {
+        if (part.type === 'text') user.push(part.text);
+      });
+    }
+  });
+
+  return { system: system.join('\n'), user: user.join('\n') };
+}
+
+// Reasons are phrased so sentiment can be recovered from the text alone
+const REASONS = {
+  positive: [
+    'a trusted leader known for excellent reliability',
+    'widely praised for its standout features and support',
+    'a best-in-class option with an excellent reputation',
+  ],
+  neutral: [
+    'a solid option with a broad feature set',
+    'a popular choice for teams of all sizes',
+    'a well-known alternative with flexible pricing',
+  ],
+  negative: [
+    'often criticized for limited support and high prices',
+    'lags behind on features and has mixed reviews',
+    'an expensive option with frequent complaints',
+  ],
+};
+
+const NEGATIVE_TERMS = ['criticized', 'limited', 'lags', 'complaints', 'expensive', 'mixed reviews'];
+const POSITIVE_TERMS = ['trusted', 'excellent', 'praised', 'standout', 'best-in-class', 'leader'];
+
+function classifySentiment(text: string): 'positive' | 'neutral' | 'negative' {
+  const lower = text.toLowerCase();
+  if (NEGATIVE_TERMS.some(term => lower.includes(term))) return 'negative';
+  if (POSITIVE_TERMS.some(term => lower.includes(term))) return 'positive';
+  return 'neutral';
+}
+
+function generateAnswer(prompt: string, rng: Rng): string {
+  const fixture = getMockFixtureForText(prompt);
+  const industry = fixture?.industry || 'software';
+  const candidates = fixture ? [fixture.name, ...fixture.competitors] : getGenericMockCompetitors();
+  const ranked = shuffle(candidates, rng).slice(0, 4 + Math.floor(rng() * 3));
+
+  const lines = ranked.map((name, index) => {
+    const roll = rng();
+    const tone = roll < 0.5 ? 'positive' : roll < 0.85 ? 'neutral' : 'negative';
+    return `${index + 1}. **${name}** - ${pick(REASONS[tone], rng)}`;
+  });
+
+  return `Here are some of the top ${industry} options right now:\n\n${lines.join('\n')}\n\nThe best choice depends on your budget, scale and the features you need.`;
+}
+
+const MOCK_SOURCE_SITES = ['g2.com', 'capterra.com', 'techradar.com', 'reddit.com', 'forbes.com'];
+
+// Review-style pages for the companies named in an answer, used in web search mode
+function generateSources(answer: string, rng: Rng): MockSource[] {
+  const names = Array.from(answer.matchAll(/^\d+\. \*\*(.+?)\*\*/gm), match => match[1]);
+  if (names.length === 0) return [];
+
+  return shuffle(MOCK_SOURCE_SITES, rng)
+    .slice(0, 2 + Math.floor(rng() * 2))
+    .map((site, index) => {
+      const featured = names.slice(index, index + 2);
+      const slug = featured.join('-vs-').toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+      return {
+        sourceType: 'url' as const,
+        id: `mock-source-${index}`,
+        url: `https://www.${site}/compare/${slug}`,
+        title: `${featured.join(' vs ')}: reviews and comparison`,
+      };
+    });
+}
+
+function generateMarketAnalysis(prompt: string): string {
+  const url = prompt.match(/URL: (\S+)/)?.[1] || '';
+  const fixture = getMockFixtureForUrl(url);
+
+  return JSON.stringify({
+    primaryMarket: fixture.primaryMarket,
+    secondaryMarkets: fixture.secondaryMarkets,
+    marketScope: fixture.marketScope,
+    confidence: 0.9,
+  });
+}
+
+const SIMPLE_PROMPT_ADJECTIVES = [
+  'best', 'top rated', 'most trusted', 'cheapest', 'fastest', 'most reliable',
+  'affordable', 'most popular', 'highest rated', 'easiest to use', 'most innovative', 'best value',
+];
+const SIMPLE_PROMPT_NOUNS = ['companies', 'tools', 'providers', 'solutions', 'services'];
+
+function generatePromptList(prompt: string, rng: Rng): string {
+  const industry = prompt.match(/- Industry: (.+)/)?.[1]?.trim() || 'software';
+  const primaryMarket = prompt.match(/- Primary Market: (.+)/)?.[1]?.trim() || 'Global';
+  const isGlobal = /Market Scope: Global/i.test(prompt);
+  const total = parseInt(prompt.match(/Generate EXACTLY (\d+) prompts/i)?.[1] || '30', 10);
+  const suffix = isGlobal ? ' worldwide' : ` in ${primaryMarket}`;
+
+  const combinations = SIMPLE_PROMPT_ADJECTIVES.flatMap(adjective =>
+    SIMPLE_PROMPT_NOUNS.map(noun => `${adjective} ${industry} ${noun}${suffix}`)
+  );
+  const simple = shuffle(combinations, rng)
+    .slice(0, Math.max(0, total - 3))
+    .map(text => ({ prompt: text, category: 'simple' }));
+  const advanced = [
+    `Which ${industry} providers demonstrate the strongest competitive advantages in emerging market segments?`,
+    `How do leading ${industry} companies differentiate their value proposition?`,
+    `What are the key innovation trends among top ${industry} providers?`,
+  ].map(text => ({ prompt: text, category: 'advanced' }));
+
+  return `Here are the prompts:\n\n${JSON.stringify([...simple, ...advanced], null, 2)}`;
+}
+
+function generateRankingAnalysis(prompt: string, rng: Rng) {
+  const brandName = prompt.match(/Analyze this AI response about ([\s\S]+?) and its competitors:/)?.[1]?.trim() || '';
+  const responseText = prompt.match(/Response: "([\s\S]*)"\s*\n\s*Your task:/)?.[1] || prompt;
+  const trackedCompetitors = (prompt.match(/mention of these competitors: (.*)/)?.[1] || '')
+    .split(',')
+    .map(c => c.trim())
+    .filter(Boolean);
+
+  const rankings: { position: number; company: string; reason: string; sentiment: string }[] = [];
+  const listPattern = /^\s*(\d+)\.\s+\**([^*\n]+?)\**\s+[-–—]\s+(.*)$/gm;
+  let match: RegExpExecArray | null;
+  while ((match = listPattern.exec(responseText)) !== null) {
+    rankings.push({
+      position: parseInt(match[1], 10),
+      company: match[2].trim(),
+      reason: match[3].trim(),
+      sentiment: classifySentiment(match[3]),
+    });
+  }
+
+  const lowerResponse = responseText.toLowerCase();
+  const brandRanking = rankings.find(r => r.company.toLowerCase() === brandName.toLowerCase());
+
+  return {
+    rankings,
+    analysis: {
+      brandMentioned: !!brandName && lowerResponse.includes(brandName.toLowerCase()),
+      brandPosition: brandRanking?.position,
+      competitors: trackedCompetitors.filter(c => lowerResponse.includes(c.toLowerCase())),
+      overallSentiment: brandRanking?.sentiment || 'neutral',
+      confidence: Math.round((0.75 + rng() * 0.2) * 100) / 100,
+    },
+  };
+}
+
+function generateCompetitorList(prompt: string) {
+  const fixture = getMockFixtureForText(prompt);
+  const industry = fixture?.industry || 'software';
+  const names = fixture?.competitors || getGenericMockCompetitors();
+
+  return {
+    competitors: names.map((name, index) => ({
+      name,
+      description: `${name} competes in the ${industry} market`,
+      isDirectCompetitor: true,
+      marketOverlap: index < 3 ? 'high' : 'medium',
+      businessModel: 'SaaS',
+      competitorType: 'direct',
+    })),
+  };
+}
+
+function generateCompanyInfo(prompt: string) {
+  const url = prompt.match(/URL: (\S+)/)?.[1] || '';
+  const fixture = getMockFixtureForUrl(url);
+
+  return {
+    name: fixture.name,
+    description: fixture.description,
+    keywords: fixture.keywords,
+    industry: fixture.industry,
+    mainProducts: fixture.mainProducts,
+    competitors: fixture.competitors.slice(0, 3),
+  };
+}
+
+// Report insights name the tracked companies listed in the prompt, the leaders first
+function generateInsights(prompt: string) {
+  const brand = prompt.match(/^Brand: (.+)$/m)?.[1] || 'The brand';
+  const visibility = prompt.match(/^Visibility score: (\d+)%/m)?.[1] || '0';
+  const ranking = prompt.split('Company visibility (average across providers):\n')[1]?.split('\n\n')[0] || '';
+  const rows = Array.from(ranking.matchAll(/^- (.+?): (\d+)%$/gm));
+  const brandAverage = Number(rows.find(match => match[1].endsWith('(the brand)'))?.[2] || 0);
+  // Only the companies ahead of the brand are gaps
+  const rivals = rows
+    .filter(match => !match[1].endsWith('(the brand)') && Number(match[2]) > brandAverage)
+    .map(match => ({ name: match[1], average: match[2] }))
+    .slice(0, 5);
+
+  return {
+    executiveSummary: `${brand} appears in ${visibility}% of AI answers. ${rivals[0] ? `${rivals[0].name} leads with ${rivals[0].average}% visibility.` : ''} Closing the gap starts with the prompts where competitors are named and ${brand} is not.`.replace(/\s+/g, ' ').trim(),
+    visibilityGaps: rivals.map(rival => ({
+      competitor: rival.name,
+      gap: `${rival.name} is named more often in comparison and recommendation answers`,
+      evidence: `${rival.average}% average visibility against ${brandAverage}% for ${brand}`,
+    })),
+    contentActions: rivals.slice(0, 3).map(rival => ({
+      title: `Publish a ${brand} vs ${rival.name} comparison page`,
+      description: `Compare features, pricing and use cases side by side so assistants can cite ${brand} when asked about ${rival.name}.`,
+      competitor: rival.name,
+    })),
+  };
+}
+
+// Fallback for schemas the pipeline does not know about: smallest valid value
+function buildFromSchema(schema: JsonSchema | undefined): unknown {
+  if (!schema) return null;
+  if (schema.enum?.length) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, buildFromSchema(value)])
+      );
+    case 'array':
+      return [];
+    case 'string':
+      return 'mock';
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+function generateObjectForSchema(schema: JsonSchema | undefined, prompt: string, rng: Rng): unknown {
+  const properties = schema?.properties || {};
+
+  if (properties.rankings && properties.analysis) {
+    return generateRankingAnalysis(prompt, rng);
+  }
+  if (properties.competitors?.items?.properties?.isDirectCompetitor) {
+    return generateCompetitorList(prompt);
+  }
+  if (properties.mainProducts && properties.keywords) {
+    return generateCompanyInfo(prompt);
+  }
+  if (properties.visibilityGaps && properties.contentActions) {
+    return generateInsights(prompt);
+  }
+  return buildFromSchema(schema);
+}
+
+function generateTextForPrompt(prompt: string, rng: Rng): string {
+  if (prompt.includes('"primaryMarket"')) {
+    return generateMarketAnalysis(prompt);
+  }
+  if (/Generate EXACTLY \d+ prompts/i.test(prompt) && prompt.includes('JSON array')) {
+    return generatePromptList(prompt, rng);
+  }
+  return generateAnswer(prompt, rng);
+}
+
+export class MockLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1' as const;
+  readonly provider = 'mock';
+  readonly defaultObjectGenerationMode = 'json' as const;
+  readonly supportsImageUrls = false;
+  readonly modelId: string;
+  private readonly seed: string;
+  private readonly webSearch: boolean;
+
+  constructor(modelId: string, seed: string = MOCK_DEFAULT_SEED, webSearch: boolean = false) {
+    this.modelId = modelId;
+    this.seed = seed;
+    this.webSearch = webSearch;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const { system, user } = promptToText(options.prompt);
+    // The call seed (set for repeated samples) varies the answer for the same prompt
+    const callSeed = options.seed !== undefined ? `:${options.seed}` : '';
+    const rng = createRng(`${this.seed}:${this.modelId}${callSeed}:${system}:${user}`);
+    const mode = options.mode;
+
+    let text: string | undefined;
+    let toolCalls: { toolCallType: 'function'; toolCallId: string; toolName: string; args: string }[] | undefined;
+
+    if (mode.type === 'object-json') {
+      text = JSON.stringify(generateObjectForSchema(mode.schema as JsonSchema, user, rng));
+    } else if (mode.type === 'object-tool') {
+      toolCalls = [{
+        toolCallType: 'function',
+        toolCallId: `mock-${hashString(user).toString(16)}`,
+        toolName: mode.tool.name,
+        args: JSON.stringify(generateObjectForSchema(mode.tool.parameters as JsonSchema, user, rng)),
+      }];
+    } else {
+      text = generateTextForPrompt(user, rng);
+    }
+
+    const output = text ?? toolCalls?.[0]?.args ?? '';
+    const sources = this.webSearch && mode.type === 'regular' && text ? generateSources(text, rng) : undefined;
+
+    return {
+      text,
+      toolCalls,
+      sources,
+      finishReason: (toolCalls ? 'tool-calls' : 'stop') as 'tool-calls' | 'stop',
+      usage: {
+        promptTokens: Math.ceil((system.length + user.length) / 4),
+        completionTokens: Math.ceil(output.length / 4),
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: { seed: this.seed } },
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const result = await this.doGenerate(options);
+    const chunks: LanguageModelV1StreamPart[] = [
+      { type: 'text-delta', textDelta: result.text ?? '' },
+      ...(result.sources || []).map(source => ({ type: 'source' as const, source })),
+      { type: 'finish', finishReason: result.finishReason, usage: result.usage },
+    ];
+
+    return {
+      stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }),
+      rawCall: result.rawCall,
+    };
+  }
+}
+
+/**
+ * Mock mode replaces every real provider (and Firecrawl) with offline fixtures.
+ * NEXT_PUBLIC_USE_MOCK_MODE lets the browser bundle show the mock provider too.
+ */
+export function isMockModeEnabled(): boolean {
+  return process.env.USE_MOCK_MODE === 'true' || process.env.NEXT_PUBLIC_USE_MOCK_MODE === 'true';
+}
+
+export function getMockSeed(): string {
+  return process.env.MOCK_PROVIDER_SEED || MOCK_DEFAULT_SEED;
+}
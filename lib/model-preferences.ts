@@ -0,0 +1,35 @@
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { userSettings } from './db/schema';
+import { ProviderModelSelection } from './types';
+import { isModelSelectionList } from './model-selection';
+import { validateModelSelections } from './provider-config';
+
+/**
+ * Load the user's default provider/model selection. Returns undefined when nothing
+ * is saved or the saved selection no longer matches the configured providers.
+ */
+export async function getDefaultModelSelections(userId: string): Promise<ProviderModelSelection[] | undefined> {
+  const settings = await db.query.userSettings.findFirst({
+    where: eq(userSettings.userId, userId),
+  });
+
+  const saved = settings?.analysisModels;
+  if (!isModelSelectionList(saved) || validateModelSelections(saved) !== null) {
+    return undefined;
+  }
+  return saved;
+}
+
+/**
+ * Save a provider/model selection as the user's default for future analyses
+ */
+export async function saveDefaultModelSelections(userId: string, selections: ProviderModelSelection[]): Promise<void> {
+  await db
+    .insert(userSettings)
+    .values({ userId, analysisModels: selections })
+    .onConflictDoUpdate({
+      target: userSettings.userId,
+      set: { analysisModels: selections, updatedAt: new Date() },
+    });
+}
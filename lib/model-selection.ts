@@ -0,0 +1,50 @@
+import { ProviderModelSelection } from './types';
+
+interface ProviderLabelInfo {
+  id: string;
+  name: string;
+  defaultModel: string;
+}
+
+/**
+ * Check that a value has the shape of a {providerId, modelId} list.
+ * Whether the providers and models exist is checked by validateModelSelections.
+ */
+export function isModelSelectionList(value: unknown): value is ProviderModelSelection[] {
+  return Array.isArray(value) && value.every(item =>
+    !!item &&
+    typeof item === 'object' &&
+    typeof (item as ProviderModelSelection).providerId === 'string' &&
+    typeof (item as ProviderModelSelection).modelId === 'string'
+  );
+}
+
+/**
+ * Column label for a selection. A provider running its default model keeps its
+ * plain name so existing analyses stay comparable; otherwise the model id is
+ * appended, e.g. "OpenAI (gpt-4o-mini)".
+ */
+export function getModelSelectionLabel(
+  selection: ProviderModelSelection,
+  selections: ProviderModelSelection[],
+  providers: ProviderLabelInfo[]
+): string {
+  const provider = providers.find(p => p.id === selection.providerId);
+  if (!provider) {
+    return `${selection.providerId} (${selection.modelId})`;
+  }
+
+  const sameProviderCount = selections.filter(s => s.providerId === selection.providerId).length;
+  if (sameProviderCount === 1 && selection.modelId === provider.defaultModel) {
+    return provider.name;
+  }
+  return `${provider.name} (${selection.modelId})`;
+}
+
+/**
+ * Split a column label back into the provider name and the model id, if any
+ */
+export function splitProviderLabel(label: string): { provider: string; model?: string } {
+  const match = label.match(/^(.+?) \((.+)\)$/);
+  return match ? { provider: match[1], model: match[2] } : { provider: label };
+}
@@ -6,10 +6,17 @@
  * 1. Update PROVIDER_ENABLED_CONFIG below
  * 2. Set to true to enable a provider, false to disable it
  * 3. Even if enabled, providers still require valid API keys to function
+ * 4. Or set ENABLED_AI_PROVIDERS to a comma-separated list of provider ids at runtime
+ *
+ * Additional OpenAI-compatible providers can be registered without code changes
+ * through CUSTOM_AI_PROVIDERS (see provider-registry.ts).
  * 
  * Provider availability is determined by:
  * - enabled: true in PROVIDER_ENABLED_CONFIG
  * - Valid API key in environment variables
+ *
+ * Setting USE_MOCK_MODE=true makes the offline mock provider the only available
+ * provider, so the whole pipeline runs without network access.
  */
 
 import { openai } from '@ai-sdk/openai';
@@ -17,6 +24,9 @@ import { anthropic } from '@ai-sdk/anthropic';
 import { google } from '@ai-sdk/google';
 import { perplexity } from '@ai-sdk/perplexity';
 import { LanguageModelV1 } from 'ai';
+import { MockLanguageModel, isMockModeEnabled, getMockSeed } from './mock-provider';
+import { loadCustomProviders } from './provider-registry';
+import { ProviderModelSelection, ProviderOption } from './types';
 
 export interface ProviderModel {
   id: string;
@@ -58,6 +68,7 @@ export const PROVIDER_ENABLED_CONFIG: Record<string, boolean> = {
   anthropic: true,   // Anthropic is enabled
   google: false,     // Google is disabled
   perplexity: true,  // Perplexity is enabled
+  mock: isMockModeEnabled(), // Mock is only enabled in mock mode
 };
 
 /**
@@ -78,7 +89,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
         maxTokens: 128000,
         supportsFunctionCalling: true,
         supportsStructuredOutput: true,
-        supportsWebSearch: false,
+        supportsWebSearch: true, // Via responses API
       },
       {
         id: 'gpt-4o-mini',
@@ -110,7 +121,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
       const model = modelId || PROVIDER_CONFIGS.openai.defaultModel;
       
       // Use responses API for web search if requested
-      if (options?.useWebSearch && model === 'gpt-4o-mini') {
+      if (options?.useWebSearch) {
         return openai.responses(model);
       }
       
@@ -132,7 +143,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
         maxTokens: 200000,
         supportsFunctionCalling: true,
         supportsStructuredOutput: true,
-        supportsWebSearch: false,
+        supportsWebSearch: true, // Via the Messages API web_search tool
       },
       {
         id: 'claude-3-5-sonnet-20241022',
@@ -140,7 +151,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
         maxTokens: 200000,
         supportsFunctionCalling: true,
         supportsStructuredOutput: true,
-        supportsWebSearch: false,
+        supportsWebSearch: true, // Via the Messages API web_search tool
       },
       {
         id: 'claude-3-opus-20240229',
@@ -153,7 +164,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
     ],
     defaultModel: 'claude-4-sonnet-20250514',
     capabilities: {
-      webSearch: false,
+      webSearch: true, // Via the web_search tool in anthropic-web-search.ts
       functionCalling: true,
       structuredOutput: true,
       streamingResponse: true,
@@ -253,13 +264,73 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
     },
     isConfigured: () => !!process.env.PERPLEXITY_API_KEY,
   },
+
+  mock: {
+    id: 'mock',
+    name: 'Mock',
+    icon: '🧪',
+    envKey: 'USE_MOCK_MODE',
+    enabled: PROVIDER_ENABLED_CONFIG.mock,
+    models: [
+      {
+        id: 'mock-1',
+        name: 'Mock Model',
+        maxTokens: 8000,
+        supportsFunctionCalling: true,
+        supportsStructuredOutput: true,
+        supportsWebSearch: true, // Returns canned sources
+      },
+    ],
+    defaultModel: 'mock-1',
+    capabilities: {
+      webSearch: true,
+      functionCalling: true,
+      structuredOutput: true,
+      streamingResponse: true,
+    },
+    getModel: (modelId?: string, options?: { useWebSearch?: boolean }) => {
+      if (!isMockModeEnabled()) return null;
+      return new MockLanguageModel(modelId || PROVIDER_CONFIGS.mock.defaultModel, getMockSeed(), options?.useWebSearch || false);
+    },
+    isConfigured: () => isMockModeEnabled(),
+  },
 };
 
+// Register custom providers from CUSTOM_AI_PROVIDERS (built-in ids cannot be replaced)
+loadCustomProviders().forEach(provider => {
+  if (PROVIDER_CONFIGS[provider.id]) {
+    console.warn(`[Providers] Custom provider "${provider.id}" conflicts with a built-in provider and was ignored`);
+    return;
+  }
+  PROVIDER_CONFIGS[provider.id] = provider;
+});
+
+// ENABLED_AI_PROVIDERS replaces the compile-time enabled flags when set (mock mode is unaffected)
+if (process.env.ENABLED_AI_PROVIDERS) {
+  const enabledIds = process.env.ENABLED_AI_PROVIDERS.split(',').map(id => id.trim().toLowerCase());
+  Object.values(PROVIDER_CONFIGS).forEach(provider => {
+    if (provider.id !== 'mock') {
+      provider.enabled = enabledIds.includes(provider.id);
+    }
+  });
+}
+
+/**
+ * A provider can be used when it is enabled and configured. In mock mode only
+ * the mock provider is available so no request ever leaves the machine.
+ */
+function isProviderAvailable(provider: ProviderConfig): boolean {
+  if (isMockModeEnabled() && provider.id !== 'mock') {
+    return false;
+  }
+  return provider.enabled && provider.isConfigured();
+}
+
 /**
  * Get all configured providers (must be both enabled and have API key)
  */
 export function getConfiguredProviders(): ProviderConfig[] {
-  return Object.values(PROVIDER_CONFIGS).filter(provider => provider.enabled && provider.isConfigured());
+  return Object.values(PROVIDER_CONFIGS).filter(isProviderAvailable);
 }
 
 /**
@@ -267,7 +338,7 @@ export function getConfiguredProviders(): ProviderConfig[] {
  */
 export function getProvidersWithCapability(capability: keyof ProviderCapabilities): ProviderConfig[] {
   return Object.values(PROVIDER_CONFIGS).filter(
-    provider => provider.enabled && provider.isConfigured() && provider.capabilities[capability]
+    provider => isProviderAvailable(provider) && provider.capabilities[capability]
   );
 }
 
@@ -283,7 +354,7 @@ export function getProviderConfig(providerId: string): ProviderConfig | undefine
  */
 export function isProviderConfigured(providerId: string): boolean {
   const provider = getProviderConfig(providerId);
-  return (provider?.enabled && provider?.isConfigured()) || false;
+  return provider ? isProviderAvailable(provider) : false;
 }
 
 /**
@@ -295,7 +366,7 @@ export function getProviderModel(
   options?: any
 ): LanguageModelV1 | null {
   const provider = getProviderConfig(providerId);
-  if (!provider || !provider.enabled || !provider.isConfigured()) {
+  if (!provider || !isProviderAvailable(provider)) {
     return null;
   }
   return provider.getModel(modelId, options);
@@ -321,6 +392,7 @@ export const PROVIDER_NAME_MAP: Record<string, string> = {
   'Anthropic': 'anthropic',
   'Google': 'google',
   'Perplexity': 'perplexity',
+  'Mock': 'mock',
   // Add more mappings as needed
 };
 
@@ -328,7 +400,9 @@ export const PROVIDER_NAME_MAP: Record<string, string> = {
  * Normalize provider name for consistency
  */
 export function normalizeProviderName(name: string): string {
-  return PROVIDER_NAME_MAP[name] || name.toLowerCase();
+  if (PROVIDER_NAME_MAP[name]) return PROVIDER_NAME_MAP[name];
+  const provider = Object.values(PROVIDER_CONFIGS).find(p => p.name === name);
+  return provider?.id || name.toLowerCase();
 }
 
 /**
@@ -343,5 +417,49 @@ export function isProviderEnabled(providerId: string): boolean {
  * Get all enabled providers (may or may not have API keys)
  */
 export function getEnabledProviders(): ProviderConfig[] {
-  return Object.values(PROVIDER_CONFIGS).filter(provider => provider.enabled);
-}
\ No newline at end of file
+  return Object.values(PROVIDER_CONFIGS).filter(
+    provider => provider.enabled && (!isMockModeEnabled() || provider.id === 'mock')
+  );
+}
+
+/**
+ * Describe the configured providers and their models for the model picker
+ */
+export function getProviderOptions(): ProviderOption[] {
+  return getConfiguredProviders().map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    icon: provider.icon,
+    defaultModel: provider.defaultModel,
+    models: provider.models.map(model => ({ id: model.id, name: model.name })),
+  }));
+}
+
+/**
+ * Check {providerId, modelId} pairs against the configured providers and their models.
+ * Returns an error message for the first invalid entry, or null when all are valid.
+ */
+export function validateModelSelections(selections: ProviderModelSelection[]): string | null {
+  if (selections.length === 0) {
+    return 'Select at least one provider model';
+  }
+
+  const seen = new Set<string>();
+  for (const selection of selections) {
+    const provider = PROVIDER_CONFIGS[selection.providerId];
+    if (!provider || !isProviderAvailable(provider)) {
+      return `Provider "${selection.providerId}" is not configured`;
+    }
+    if (!provider.models.some(model => model.id === selection.modelId)) {
+      return `Model "${selection.modelId}" is not available for ${provider.name}`;
+    }
+
+    const key = `${selection.providerId}:${selection.modelId}`;
+    if (seen.has(key)) {
+      return `${provider.name} ${selection.modelId} is selected more than once`;
+    }
+    seen.add(key);
+  }
+
+  return null;
+}
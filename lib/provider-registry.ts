@@ -0,0 +1,139 @@
+/**
+ * Custom provider registry
+ * Loads additional OpenAI-compatible providers (Mistral, Groq, DeepSeek, xAI,
+ * Ollama, vLLM, ...) from the CUSTOM_AI_PROVIDERS environment variable so they
+ * can be added without code changes. CUSTOM_AI_PROVIDERS holds a JSON array:
+ *
+ * [{
+ *   "id": "groq",
+ *   "name": "Groq",
+ *   "baseURL": "https://api.groq.com/openai/v1",
+ *   "envKey": "GROQ_API_KEY",
+ *   "models": ["llama-3.3-70b-versatile"],
+ *   "capabilities": { "structuredOutput": true }
+ * }]
+ *
+ * Providers without an envKey (e.g. a local Ollama server) are always configured.
+ */
+
+import { createOpenAI } from '@ai-sdk/openai';
+import { z } from 'zod';
+import type { ProviderConfig } from './provider-config';
+
+const CustomModelSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  supportsFunctionCalling: z.boolean().optional(),
+  supportsStructuredOutput: z.boolean().optional(),
+  supportsWebSearch: z.boolean().optional(),
+});
+
+const CustomProviderSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Provider id must be lowercase letters, numbers or dashes'),
+  name: z.string().min(1),
+  baseURL: z.string().url(),
+  envKey: z.string().optional(),
+  icon: z.string().optional(),
+  enabled: z.boolean().default(true),
+  headers: z.record(z.string()).optional(),
+  models: z.array(z.union([z.string().min(1), CustomModelSchema])).min(1),
+  defaultModel: z.string().optional(),
+  capabilities: z.object({
+    webSearch: z.boolean().optional(),
+    functionCalling: z.boolean().optional(),
+    structuredOutput: z.boolean().optional(),
+    streamingResponse: z.boolean().optional(),
+    maxRequestsPerMinute: z.number().int().positive().optional(),
+  }).optional(),
+});
+
+export type CustomProviderDefinition = z.infer<typeof CustomProviderSchema>;
+
+/**
+ * Parse provider definitions from a JSON string. Invalid entries are logged and
+ * skipped so a typo in one provider never takes the others down.
+ */
+export function parseCustomProviderDefinitions(json: string | undefined): CustomProviderDefinition[] {
+  if (!json || !json.trim()) {
+    return [];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    console.error('[Providers] CUSTOM_AI_PROVIDERS is not valid JSON:', (error as Error).message);
+    return [];
+  }
+
+  if (!Array.isArray(raw)) {
+    console.error('[Providers] CUSTOM_AI_PROVIDERS must be a JSON array');
+    return [];
+  }
+
+  return raw.flatMap((entry, index) => {
+    const result = CustomProviderSchema.safeParse(entry);
+    if (!result.success) {
+      console.error(`[Providers] Skipping custom provider #${index + 1}:`, result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', '));
+      return [];
+    }
+    return [result.data];
+  });
+}
+
+/**
+ * Turn a validated definition into a ProviderConfig backed by an OpenAI-compatible client
+ */
+export function createCustomProviderConfig(definition: CustomProviderDefinition): ProviderConfig {
+  const models = definition.models.map(model => typeof model === 'string'
+    ? { id: model, name: model }
+    : { ...model, name: model.name || model.id });
+  const defaultModel = definition.defaultModel || models[0].id;
+  const isConfigured = () => !definition.envKey || !!process.env[definition.envKey];
+
+  // The client is created lazily so the API key is read when the model is first used
+  let client: ReturnType<typeof createOpenAI> | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = createOpenAI({
+        name: definition.id,
+        baseURL: definition.baseURL,
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: definition.envKey ? process.env[definition.envKey] : 'not-needed',
+        headers: definition.headers,
+        compatibility: 'compatible',
+      });
+    }
+    return client;
+  };
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    icon: definition.icon || '🔌',
+    envKey: definition.envKey || '',
+    enabled: definition.enabled,
+    models,
+    defaultModel,
+    capabilities: {
+      webSearch: definition.capabilities?.webSearch ?? false,
+      functionCalling: definition.capabilities?.functionCalling ?? false,
+      structuredOutput: definition.capabilities?.structuredOutput ?? true,
+      streamingResponse: definition.capabilities?.streamingResponse ?? true,
+      maxRequestsPerMinute: definition.capabilities?.maxRequestsPerMinute,
+    },
+    getModel: (modelId?: string) => {
+      if (!isConfigured()) return null;
+      return getClient()(modelId || defaultModel);
+    },
+    isConfigured,
+  };
+}
+
+/**
+ * Load every custom provider defined in CUSTOM_AI_PROVIDERS
+ */
+export function loadCustomProviders(json: string | undefined = process.env.CUSTOM_AI_PROVIDERS): ProviderConfig[] {
+  return parseCustomProviderDefinitions(json).map(createCustomProviderConfig);
+}
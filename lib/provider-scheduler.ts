@@ -0,0 +1,243 @@
+/**
+ * Provider request scheduling for the analysis fan-out.
+ * Every provider has its own queue: a concurrency cap plus a token bucket refilled at its
+ * requests-per-minute limit (ProviderCapabilities.maxRequestsPerMinute), and each model a
+ * bucket from MODEL_RATE_LIMITS. A slow or throttled provider only delays its own calls.
+ * Calls that fail with 429 or 5xx are retried with exponential backoff, honouring Retry-After.
+ */
+
+import { APICallError, RetryError } from 'ai';
+import { getProviderConfig } from './provider-config';
+import {
+  AI_MAX_RETRIES,
+  DEFAULT_REQUESTS_PER_MINUTE,
+  HTTP_STATUS,
+  MAX_CONCURRENT_REQUESTS_PER_PROVIDER,
+  MODEL_RATE_LIMITS,
+  PROVIDER_RETRY_BASE_DELAY,
+  PROVIDER_RETRY_MAX_DELAY,
+  RATE_LIMIT_BURST_SECONDS,
+} from '@/config/constants';
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  onStart?: () => Promise<void> | void; // Called once the call has a slot, before rate limiting
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Request aborted');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+
+  constructor(requestsPerMinute: number) {
+    this.capacity = Math.max(1, Math.ceil(requestsPerMinute * RATE_LIMIT_BURST_SECONDS / 60));
+    this.refillPerMs = requestsPerMinute / 60_000;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Take a token if one is available; otherwise return how long to wait for one
+   */
+  private tryTake(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) return this.pausedUntil - now;
+
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  async take(signal?: AbortSignal): Promise<void> {
+    let wait: number;
+    while ((wait = this.tryTake()) > 0) {
+      await sleep(wait, signal);
+    }
+  }
+
+  /**
+   * Hold every call back for a while, e.g. after the provider answered 429
+   */
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+class Semaphore {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting.splice(this.waiting.indexOf(grant), 1);
+        reject(abortError(signal!));
+      };
+      this.waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next(); // Hand the slot straight to the next call
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Requests-per-minute limit of a model from MODEL_RATE_LIMITS, matched by the longest key
+ * the model id starts with (e.g. claude-3-5-sonnet-20241022 → claude-3-5-sonnet)
+ */
+export function getModelRateLimit(providerId: string, modelId?: string): number | undefined {
+  if (!modelId) return undefined;
+  const candidates = [modelId, `${providerId}-${modelId}`];
+  const key = Object.keys(MODEL_RATE_LIMITS)
+    .filter(k => candidates.some(c => c.startsWith(k)))
+    .sort((a, b) => b.length - a.length)[0] as keyof typeof MODEL_RATE_LIMITS | undefined;
+  return key ? MODEL_RATE_LIMITS[key] : undefined;
+}
+
+/**
+ * HTTP status of a failed provider call, looking through the AI SDK's own retry wrapper
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  return APICallError.isInstance(cause) ? cause.statusCode : undefined;
+}
+
+function isRetryableStatus(status: number | undefined): boolean {
+  return status === HTTP_STATUS.RATE_LIMIT || (status !== undefined && status >= HTTP_STATUS.INTERNAL_ERROR);
+}
+
+function getRetryDelay(error: unknown, attempt: number): number {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  const retryAfter = APICallError.isInstance(cause) ? Number(cause.responseHeaders?.['retry-after']) : NaN;
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, PROVIDER_RETRY_MAX_DELAY);
+  }
+
+  const backoff = PROVIDER_RETRY_BASE_DELAY * 2 ** attempt;
+  // Jitter keeps parallel calls that failed together from retrying together
+  return Math.min(backoff + Math.random() * backoff / 2, PROVIDER_RETRY_MAX_DELAY);
+}
+
+interface ProviderQueue {
+  slots: Semaphore;
+  bucket: TokenBucket;
+}
+
+export class ProviderScheduler {
+  private readonly providers = new Map<string, ProviderQueue>();
+  private readonly models = new Map<string, TokenBucket | null>();
+
+  private getProviderQueue(providerId: string): ProviderQueue {
+    let queue = this.providers.get(providerId);
+    if (!queue) {
+      const requestsPerMinute = getProviderConfig(providerId)?.capabilities.maxRequestsPerMinute;
+      queue = {
+        slots: new Semaphore(MAX_CONCURRENT_REQUESTS_PER_PROVIDER),
+        bucket: new TokenBucket(requestsPerMinute || DEFAULT_REQUESTS_PER_MINUTE),
+      };
+      this.providers.set(providerId, queue);
+    }
+    return queue;
+  }
+
+  private getModelBucket(providerId: string, modelId?: string): TokenBucket | null {
+    const key = `${providerId}/${modelId || ''}`;
+    if (!this.models.has(key)) {
+      const requestsPerMinute = getModelRateLimit(providerId, modelId);
+      this.models.set(key, requestsPerMinute ? new TokenBucket(requestsPerMinute) : null);
+    }
+    return this.models.get(key)!;
+  }
+
+  /**
+   * Run one provider call once the provider has a free slot and both its and the model's
+   * rate limits allow it. Every attempt, retries included, counts against the limits, so
+   * the task must not retry on its own (AI SDK calls pass maxRetries: 0).
+   */
+  async run<T>(
+    providerId: string,
+    modelId: string | undefined,
+    task: () => Promise<T>,
+    { signal, onStart }: ScheduleOptions = {}
+  ): Promise<T> {
+    const queue = this.getProviderQueue(providerId);
+    const modelBucket = this.getModelBucket(providerId, modelId);
+
+    await queue.slots.acquire(signal);
+    try {
+      await onStart?.();
+      for (let attempt = 0; ; attempt++) {
+        await queue.bucket.take(signal);
+        await modelBucket?.take(signal);
+        try {
+          return await task();
+        } catch (error) {
+          const status = getErrorStatus(error);
+          if (signal?.aborted || attempt >= AI_MAX_RETRIES || !isRetryableStatus(status)) {
+            throw error;
+          }
+
+          const delay = getRetryDelay(error, attempt);
+          if (status === HTTP_STATUS.RATE_LIMIT) {
+            queue.bucket.pause(delay);
+          }
+          console.warn(`${providerId} returned ${status}, retrying in ${Math.round(delay)}ms (retry ${attempt + 1} of ${AI_MAX_RETRIES})`);
+          await sleep(delay, signal);
+        }
+      }
+    } finally {
+      queue.slots.release();
+    }
+  }
+}
+
+// Rate limits are per API key, so every analysis in the process shares one scheduler
+const globalForScheduler = globalThis as unknown as { providerScheduler?: ProviderScheduler };
+export const providerScheduler = globalForScheduler.providerScheduler ?? new ProviderScheduler();
+globalForScheduler.providerScheduler = providerScheduler;
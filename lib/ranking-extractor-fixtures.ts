@@ -0,0 +1,288 @@
+/**
+ * Real-world answer shapes for the local ranking extractor
+ * Each fixture is a provider answer as it came back, with the tracked companies and the
+ * positions extractRankings should find for them. Untracked entries are not listed, and
+ * companies only named in prose have no position.
+ *
+ * Add a fixture here whenever an answer is ranked wrongly, before changing the extractor.
+ */
+
+import { CompanyRanking, TrackedCompany } from './types';
+
+export interface RankingExtractionFixture {
+  name: string;
+  brand: TrackedCompany;
+  competitors: TrackedCompany[];
+  response: string;
+  expected: {
+    rankings: { company: string; position: number }[];
+    brandPosition?: number;
+    brandMentioned?: boolean;
+    competitors?: string[]; // Every tracked competitor the answer mentions, ranked or not
+    sentiment?: CompanyRanking['sentiment'];
+  };
+}
+
+const firecrawl: TrackedCompany = { name: 'Firecrawl' };
+const scrapingCompetitors: TrackedCompany[] = [
+  { name: 'Apify' },
+  { name: 'ScrapingBee' },
+  { name: 'Bright Data', aliases: ['Luminati'] },
+  { name: 'Browserless' },
+  { name: 'Diffbot' },
+  { name: 'Zyte' },
+];
+
+export const RANKING_EXTRACTION_FIXTURES: RankingExtractionFixture[] = [
+  {
+    name: 'numbered list with bold names',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `Here are the best web scraping tools for AI applications in 2025:
+
+1. **Firecrawl** - Turns any website into clean, LLM-ready markdown. Excellent for RAG pipelines and very easy to use.
+2. **Apify** - A powerful platform with thousands of ready-made scrapers (Actors).
+3. **Bright Data** - Enterprise-grade proxy network and datasets, but expensive for small teams.
+4. **ScrapingBee** - Simple API that handles headless browsers and proxies.
+5. **Zyte** - Formerly Scrapinghub, with a mature extraction API.
+
+Overall, Firecrawl is the best fit if your goal is feeding data to language models.`,
+    expected: {
+      rankings: [
+        { company: 'Firecrawl', position: 1 },
+        { company: 'Apify', position: 2 },
+        { company: 'Bright Data', position: 3 },
+        { company: 'ScrapingBee', position: 4 },
+        { company: 'Zyte', position: 5 },
+      ],
+      brandPosition: 1,
+      sentiment: 'positive',
+    },
+  },
+  {
+    name: 'numbered list with paragraphs and nested bullets between items',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `When choosing a scraping API, these stand out:
+
+1. Apify: the most complete platform.
+
+   Apify offers a marketplace of scrapers and solid scheduling.
+   - Pros: huge ecosystem
+   - Cons: pricing can get complex
+
+2. Firecrawl: built for AI use cases.
+
+   It crawls entire sites and returns markdown, which makes it popular with LLM developers.
+   - Pros: clean output, simple API
+   - Cons: fewer pre-built integrations than Apify
+
+3. Browserless: hosted headless Chrome.
+   - Good when you already have Puppeteer or Playwright scripts
+
+Note: Diffbot is worth a look if you need a knowledge graph rather than raw pages.`,
+    expected: {
+      rankings: [
+        { company: 'Apify', position: 1 },
+        { company: 'Firecrawl', position: 2 },
+        { company: 'Browserless', position: 3 },
+      ],
+      brandPosition: 2,
+      competitors: ['Apify', 'Browserless', 'Diffbot'],
+      sentiment: 'positive',
+    },
+  },
+  {
+    name: 'bulleted list',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `Popular options for scraping JavaScript-heavy sites include:
+
+- **ScrapingBee**: renders pages in a real browser and rotates proxies for you.
+- **Browserless**: run your own Puppeteer code against hosted browsers.
+- **Firecrawl**: crawl and scrape with LLM-ready output.
+- **Zyte API**: automatic extraction with smart proxy management.
+
+Each of these has a free tier, so it is easy to try them side by side.`,
+    expected: {
+      rankings: [
+        { company: 'ScrapingBee', position: 1 },
+        { company: 'Browserless', position: 2 },
+        { company: 'Firecrawl', position: 3 },
+        { company: 'Zyte', position: 4 },
+      ],
+      brandPosition: 3,
+    },
+  },
+  {
+    name: 'table with a rank column',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `| Rank | Tool | Best for | Starting price |
+|------|------|----------|----------------|
+| 1 | Bright Data | Large-scale proxy scraping | $500/mo |
+| 2 | Apify | Pre-built scrapers | $49/mo |
+| 3 | Firecrawl | LLM-ready markdown | $16/mo |
+| 4 | Diffbot | Knowledge graph | $299/mo |
+
+Bright Data leads on scale, while Firecrawl is the most affordable for AI workloads.`,
+    expected: {
+      rankings: [
+        { company: 'Bright Data', position: 1 },
+        { company: 'Apify', position: 2 },
+        { company: 'Firecrawl', position: 3 },
+        { company: 'Diffbot', position: 4 },
+      ],
+      brandPosition: 3,
+    },
+  },
+  {
+    name: 'table without a rank column',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `A quick comparison of the main scraping APIs:
+
+| | Output formats | JavaScript rendering | Free tier |
+|---|---|---|---|
+| Firecrawl | Markdown, HTML, JSON | Yes | 500 credits |
+| ScrapingBee | HTML, JSON | Yes | 1,000 calls |
+| Zyte | JSON | Yes | Trial only |
+
+For most AI projects Firecrawl's markdown output saves the most post-processing.`,
+    expected: {
+      rankings: [
+        { company: 'Firecrawl', position: 1 },
+        { company: 'ScrapingBee', position: 2 },
+        { company: 'Zyte', position: 3 },
+      ],
+      brandPosition: 1,
+    },
+  },
+  {
+    name: 'numbered headings',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `## Top 3 Web Scraping APIs
+
+### 1. Apify
+Apify is the leading all-in-one platform for web automation, with a large library of scrapers.
+
+### 2. Luminati (Bright Data)
+The biggest proxy network on the market. Reliable, although the pricing is complex.
+
+### 3. Firecrawl
+A newer tool focused on AI: it is limited in proxy options but outputs clean markdown.
+
+## Conclusion
+Pick Apify for breadth, Bright Data for scale and Firecrawl for LLM pipelines.`,
+    expected: {
+      rankings: [
+        { company: 'Apify', position: 1 },
+        { company: 'Bright Data', position: 2 },
+        { company: 'Firecrawl', position: 3 },
+      ],
+      brandPosition: 3,
+      sentiment: 'negative',
+    },
+  },
+  {
+    name: 'prose only',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `There is no single best tool. Apify is a great choice when you want ready-made scrapers, and ScrapingBee keeps things simple for developers who only need rendered HTML. If your data is headed for a language model, Firecrawl is worth considering because it returns markdown directly.`,
+    expected: {
+      rankings: [],
+      brandMentioned: true,
+      competitors: ['Apify', 'ScrapingBee'],
+      sentiment: 'neutral',
+    },
+  },
+  {
+    name: 'warned against, not listed',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `Avoid Firecrawl for this; it is not recommended. Apify is a fine choice.`,
+    expected: {
+      rankings: [],
+      brandMentioned: true,
+      competitors: ['Apify'],
+      sentiment: 'negative',
+    },
+  },
+  {
+    name: 'criteria list before the ranking',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `Before picking a tool, consider:
+
+1. **Output format** - do you need HTML, JSON or markdown? Firecrawl returns markdown by default.
+2. **Scale** - how many pages per day?
+3. **Budget** - Bright Data is powerful but expensive.
+
+With that in mind, my ranking:
+
+1. **Firecrawl** - best for AI and RAG use cases
+2. **ScrapingBee** - best for simple, rendered pages
+3. **Bright Data** - best for very large crawls`,
+    expected: {
+      rankings: [
+        { company: 'Firecrawl', position: 1 },
+        { company: 'ScrapingBee', position: 2 },
+        { company: 'Bright Data', position: 3 },
+      ],
+      brandPosition: 1,
+      sentiment: 'positive',
+    },
+  },
+  {
+    name: 'name variants without spaces',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `1. BrightData – market leader in residential proxies
+2. Scraping Bee – straightforward rendering API
+3. firecrawl.dev – crawls whole sites into markdown`,
+    expected: {
+      rankings: [
+        { company: 'Bright Data', position: 1 },
+        { company: 'ScrapingBee', position: 2 },
+        { company: 'Firecrawl', position: 3 },
+      ],
+      brandPosition: 3,
+    },
+  },
+  {
+    name: 'comparison table with companies as columns',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `Here is how Firecrawl compares with Apify:
+
+| Feature | Firecrawl | Apify |
+|---------|-----------|-------|
+| Markdown output | Yes | Via Actors |
+| Pre-built scrapers | No | Thousands |
+| Open source | Yes | Partly |
+
+Firecrawl is the simpler option for LLM pipelines; Apify is more flexible.`,
+    expected: {
+      rankings: [],
+      brandMentioned: true,
+      competitors: ['Apify'],
+    },
+  },
+  {
+    name: 'brand not mentioned',
+    brand: firecrawl,
+    competitors: scrapingCompetitors,
+    response: `For scraping at scale I would recommend:
+
+1. **Zyte** – reliable managed extraction
+2. **Apify** – flexible and popular
+3. **Octoparse** – no-code desktop scraper`,
+    expected: {
+      rankings: [
+        { company: 'Zyte', position: 1 },
+        { company: 'Apify', position: 2 },
+      ],
+    },
+  },
+];
@@ -0,0 +1,285 @@
+/**
+ * Local extraction of company rankings from a provider's answer.
+ * The answer's numbered and bulleted lists, markdown tables and headings give the order
+ * companies are ranked in; brand detection maps each entry to a tracked company.
+ * Tracked companies the answer only mentions in prose count as mentioned but get no position.
+ * Deterministic and free, unlike a structured-output LLM pass.
+ */
+
+import { CompanyRanking, TrackedCompany } from './types';
+import { BrandDetectionOptions, BrandDetectionResult, detectBrandMention } from './brand-detection-utils';
+import { getBrandDetectionOptions } from './brand-detection-config';
+import { scoreSentiment, sentenceAt, stripMarkdown } from './mention-analysis';
+
+type Sentiment = NonNullable<CompanyRanking['sentiment']>;
+
+export interface ExtractedRankings {
+  rankings: CompanyRanking[];
+  brandMentioned: boolean;
+  brandPosition?: number;
+  competitors: string[]; // Tracked competitors the answer mentions
+  sentiment: Sentiment; // Sentiment towards the brand
+  confidence: number;
+  brandDetection: BrandDetectionResult;
+  competitorDetections: Map<string, BrandDetectionResult>;
+}
+
+interface ListItem {
+  position: number;
+  titles: string[]; // Texts that name the entry, most likely first
+  body: string; // Everything written about the entry, for sentiment
+}
+
+interface ListBlock {
+  kind: 'numbered' | 'bulleted' | 'table' | 'heading';
+  items: ListItem[];
+}
+
+interface Tracked {
+  name: string;
+  options: BrandDetectionOptions;
+}
+
+// Confidence when the ranking comes from a list, table or headings vs. from prose alone
+const STRUCTURED_CONFIDENCE = 0.9;
+const PROSE_CONFIDENCE = 0.6;
+// Longer titles are sentences rather than names and are not ranked as untracked companies
+const MAX_UNTRACKED_TITLE_LENGTH = 60;
+const MAX_UNTRACKED_TITLE_WORDS = 6;
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const NUMBERED = /^(\s*)(?:\*\*)?(\d{1,2})[.)]\s+(.*)$/;
+const BULLET = /^(\s*)[-*+•]\s+(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?(\s*:?-{2,}:?\s*\|)+\s*(:?-{2,}:?\s*)?\|?\s*$/;
+const RANK_COLUMN = /^(rank(ing)?|#|no\.?|position|pos\.?|place)$/;
+const NAME_COLUMN = /\b(name|tool|company|platform|product|service|provider|vendor|solution|brand|option)s?\b/;
+
+/**
+ * Possible names of a list entry: its bold lead-in or the text before a separator,
+ * then any other bold text in the line (e.g. "Best overall: **Firecrawl**")
+ */
+function titleCandidates(text: string): string[] {
+  const lead = text.match(/^\s*(?:\*\*|__)(.+?)(?:\*\*|__)/);
+  const title = lead ? lead[1] : text.split(/\s+[-–—]\s+|:\s|\s\(/)[0];
+  const bold = Array.from(text.matchAll(/\*\*(.+?)\*\*/g), m => m[1]);
+  return Array.from(new Set([title, ...bold].map(t => stripMarkdown(t).replace(/[:.,;]+$/, '').trim())))
+    .filter(Boolean);
+}
+
+function splitLeadingNumber(text: string): { number?: number; rest: string } {
+  const match = stripMarkdown(text).match(/^(?:#|No\.\s*)?(\d{1,2})[.):]?\s+(.*)$/i);
+  return match ? { number: Number(match[1]), rest: match[2] } : { rest: text };
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => stripMarkdown(cell.trim()));
+}
+
+/**
+ * Split the answer into the lists, tables and heading groups it is made of, in order of appearance.
+ * Paragraphs and bullets between numbered items belong to the item above them;
+ * a heading or table ends the list.
+ */
+function parseBlocks(text: string): ListBlock[] {
+  const blocks: ListBlock[] = [];
+  let numbered: { block: ListBlock; indent: number; last: number } | null = null;
+  let bulleted: { block: ListBlock; indent: number } | null = null;
+  let table: { block: ListBlock; rankColumn: number; nameColumn: number } | null = null;
+  const headingBlocks = new Map<number, ListBlock>();
+  let headingItem: ListItem | null = null;
+
+  const openBlock = (kind: ListBlock['kind']): ListBlock => {
+    const block: ListBlock = { kind, items: [] };
+    blocks.push(block);
+    return block;
+  };
+  const appendToLastItem = (block: ListBlock, line: string) => {
+    const item = block.items[block.items.length - 1];
+    item.body += '\n' + line;
+  };
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(HEADING);
+    if (heading) {
+      numbered = bulleted = table = null;
+      const level = heading[1].length;
+      Array.from(headingBlocks.keys()).filter(l => l > level).forEach(l => headingBlocks.delete(l));
+      const block = headingBlocks.get(level) ?? openBlock('heading');
+      headingBlocks.set(level, block);
+      const { number, rest } = splitLeadingNumber(heading[2]);
+      headingItem = { position: number ?? block.items.length + 1, titles: titleCandidates(rest), body: rest };
+      block.items.push(headingItem);
+      continue;
+    }
+
+    if (headingItem) headingItem.body += '\n' + line;
+    if (!line.trim()) continue;
+
+    if (TABLE_ROW.test(line)) {
+      numbered = bulleted = null;
+      if (TABLE_SEPARATOR.test(line)) continue;
+      const cells = splitTableRow(line);
+      if (!table) {
+        // The first row is the header
+        const header = cells.map(cell => cell.toLowerCase());
+        table = {
+          block: openBlock('table'),
+          rankColumn: header.findIndex(cell => RANK_COLUMN.test(cell)),
+          nameColumn: header.findIndex(cell => NAME_COLUMN.test(cell)),
+        };
+        continue;
+      }
+      const { block, rankColumn, nameColumn } = table;
+      const rank = rankColumn >= 0 ? parseInt(cells[rankColumn]?.replace(/\D/g, '') ?? '', 10) : NaN;
+      const titles = nameColumn >= 0
+        ? [cells[nameColumn] ?? '']
+        : cells.filter((cell, i) => i !== rankColumn && /[a-z]/i.test(cell));
+      block.items.push({
+        position: rank > 0 ? rank : block.items.length + 1,
+        titles: titles.filter(Boolean),
+        body: cells.join(' '),
+      });
+      continue;
+    }
+    table = null;
+
+    const numberedItem = line.match(NUMBERED);
+    if (numberedItem) {
+      const indent = numberedItem[1].length;
+      const number = Number(numberedItem[2]);
+      if (numbered && indent > numbered.indent) {
+        appendToLastItem(numbered.block, line);
+        continue;
+      }
+      if (!numbered && bulleted && indent > bulleted.indent) {
+        appendToLastItem(bulleted.block, line);
+        continue;
+      }
+      bulleted = null;
+      if (!numbered || indent < numbered.indent || number <= numbered.last) {
+        numbered = { block: openBlock('numbered'), indent, last: 0 };
+      }
+      numbered.last = number;
+      numbered.block.items.push({ position: number, titles: titleCandidates(numberedItem[3]), body: numberedItem[3] });
+      continue;
+    }
+
+    const bulletItem = line.match(BULLET);
+    if (bulletItem) {
+      const indent = bulletItem[1].length;
+      if (numbered) {
+        appendToLastItem(numbered.block, line);
+        continue;
+      }
+      if (bulleted && indent > bulleted.indent) {
+        appendToLastItem(bulleted.block, line);
+        continue;
+      }
+      if (!bulleted || indent < bulleted.indent) {
+        bulleted = { block: openBlock('bulleted'), indent };
+      }
+      bulleted.block.items.push({
+        position: bulleted.block.items.length + 1,
+        titles: titleCandidates(bulletItem[2]),
+        body: bulletItem[2],
+      });
+      continue;
+    }
+
+    // Prose
+    if (numbered) {
+      appendToLastItem(numbered.block, line);
+    } else if (bulleted && line.length - line.trimStart().length > bulleted.indent) {
+      appendToLastItem(bulleted.block, line);
+    } else {
+      bulleted = null;
+    }
+  }
+
+  return blocks.filter(block => block.items.length > 0);
+}
+
+function firstMentionIndex(detection: BrandDetectionResult): number {
+  return detection.matches.reduce((min, m) => Math.min(min, m.index), Infinity);
+}
+
+/**
+ * The tracked company an entry names: the earliest match in the first title that has one
+ */
+function matchTrackedCompany(titles: string[], tracked: Tracked[]): string | undefined {
+  for (const title of titles) {
+    let best: { name: string; index: number; length: number } | undefined;
+    tracked.forEach(company => {
+      const detection = detectBrandMention(title, company.name, company.options);
+      if (!detection.mentioned) return;
+      const index = firstMentionIndex(detection);
+      const length = Math.max(...detection.matches.filter(m => m.index === index).map(m => m.text.length));
+      if (!best || index < best.index || (index === best.index && length > best.length)) {
+        best = { name: company.name, index, length };
+      }
+    });
+    if (best) return best.name;
+  }
+  return undefined;
+}
+
+function isUntrackedName(title: string | undefined): boolean {
+  return !!title &&
+    /[a-z]/i.test(title) &&
+    title.length <= MAX_UNTRACKED_TITLE_LENGTH &&
+    title.split(/\s+/).length <= MAX_UNTRACKED_TITLE_WORDS;
+}
+
+/**
+ * Derive rankings, positions and sentiment from an answer without calling a model.
+ * The ranking comes from the list, table or heading group naming the most tracked
+ * companies; untracked entries of that list are kept under their own name.
+ */
+export function extractRankings(
+  text: string,
+  brand: TrackedCompany,
+  competitors: TrackedCompany[]
+): ExtractedRankings {
+  const tracked: Tracked[] = [brand, ...competitors.filter(c => c.name !== brand.name)]
+    .map(company => ({ name: company.name, options: getBrandDetectionOptions(company.name, company) }));
+  const detections = new Map(tracked.map(company => [company.name, detectBrandMention(text, company.name, company.options)]));
+
+  let primary: { entries: { item: ListItem; company?: string }[]; trackedCount: number } | undefined = undefined;
+  for (const block of parseBlocks(text)) {
+    const entries = block.items.map(item => ({ item, company: matchTrackedCompany(item.titles, tracked) }));
+    const trackedCount = new Set(entries.map(e => e.company).filter(Boolean)).size;
+    // Ties go to the earlier block
+    if (trackedCount > (primary?.trackedCount ?? 0)) {
+      primary = { entries, trackedCount };
+    }
+  }
+
+  const rankings: CompanyRanking[] = [];
+  primary?.entries.forEach(({ item, company }) => {
+    const name = company ?? item.titles[0];
+    if (!company && !isUntrackedName(name)) return;
+    if (rankings.some(r => r.company.toLowerCase() === name.toLowerCase())) return;
+    rankings.push({ position: item.position, company: name, sentiment: scoreSentiment(item.body) });
+  });
+
+  const brandDetection = detections.get(brand.name)!;
+  const brandRanking = rankings.find(r => r.company === brand.name);
+  const competitorNames = tracked.slice(1).map(company => company.name);
+  const isMentioned = (name: string) => detections.get(name)!.mentioned || rankings.some(r => r.company === name);
+  // A brand named only in prose has no position, but the sentence naming it still has a tone
+  const brandSentiment = brandRanking?.sentiment ?? (brandDetection.mentioned
+    ? scoreSentiment(sentenceAt(text, firstMentionIndex(brandDetection)))
+    : 'neutral');
+
+  return {
+    rankings,
+    brandMentioned: isMentioned(brand.name),
+    brandPosition: brandRanking?.position,
+    competitors: competitorNames.filter(isMentioned),
+    sentiment: brandSentiment,
+    confidence: primary ? STRUCTURED_CONFIDENCE : PROSE_CONFIDENCE,
+    brandDetection,
+    competitorDetections: new Map(competitorNames.map(name => [name, detections.get(name)!])),
+  };
+}
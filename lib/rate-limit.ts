@@ -42,5 +42,45 @@ export function createRateLimit(config: RateLimitConfig) {
   };
 }
 
+/**
+ * Like createRateLimit, but only failed attempts count: `check` throws once `maxRequests`
+ * failures were recorded in the window, and `recordFailure` records one.
+ */
+export function createFailureRateLimit(config: RateLimitConfig) {
+  return {
+    check(identifier: string) {
+      const now = Date.now();
+      const current = rateLimitStore.get(identifier);
+      if (current && current.resetTime >= now && current.count >= config.maxRequests) {
+        const retryAfter = Math.ceil((current.resetTime - now) / 1000);
+        throw new RateLimitError(
+          `Too many failed attempts. Try again in ${retryAfter} seconds.`,
+          retryAfter
+        );
+      }
+    },
+    recordFailure(identifier: string) {
+      const now = Date.now();
+      const current = rateLimitStore.get(identifier);
+      if (!current || current.resetTime < now) {
+        rateLimitStore.set(identifier, { count: 1, resetTime: now + config.windowMs });
+        return;
+      }
+      current.count++;
+    },
+  };
+}
+
+/**
+ * Address of the client as seen by the proxy in front of the app. The proxy appends it to
+ * X-Forwarded-For, so only the last entry is trusted; earlier ones are whatever the client sent.
+ */
+export function clientAddress(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean);
+  return forwarded?.[forwarded.length - 1] || request.headers.get('x-real-ip') || 'unknown';
+}
+
 export const apiRateLimit = createRateLimit({ windowMs: 60000, maxRequests: 100 });
 export const authRateLimit = createRateLimit({ windowMs: 900000, maxRequests: 5 });
+export const shareUnlockRateLimit = createFailureRateLimit({ windowMs: 900000, maxRequests: 10 });
+export const shareUnlockLinkRateLimit = createFailureRateLimit({ windowMs: 900000, maxRequests: 100 });
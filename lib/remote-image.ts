@@ -0,0 +1,86 @@
+/**
+ * Server-side download of user supplied images (report logos)
+ * Only public addresses are contacted: the host is checked as the socket resolves it, so a
+ * name cannot point at an internal or cloud metadata address, and redirects are not followed.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+const PRIVATE_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = isIP(address);
+  if (!family) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      return callback(new Error(`${hostname} resolves to a non-public address`), address, family);
+    }
+    callback(null, address, family);
+  });
+};
+
+/**
+ * Download a PNG or JPEG from a public http(s) URL. Rejects private hosts, redirects,
+ * other content types and images over maxBytes.
+ */
+export function fetchPublicImage(url: string, { timeoutMs, maxBytes }: { timeoutMs: number; maxBytes: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return reject(new Error(`Invalid image URL: ${url}`));
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return reject(new Error(`Unsupported image URL protocol: ${target.protocol}`));
+    }
+    // IP literals skip the lookup, so they are checked here
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && isPrivateAddress(host)) {
+      return reject(new Error(`${host} is not a public address`));
+    }
+
+    const client = target.protocol === 'https:' ? https : http;
+    const request = client.get(target, { lookup: publicLookup, timeout: timeoutMs }, response => {
+      const contentType = response.headers['content-type'] || '';
+      if (response.statusCode !== 200 || !/^image\/(png|jpe?g)/.test(contentType)) {
+        response.resume();
+        return reject(new Error(`${url} returned ${response.statusCode} ${contentType}`));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          request.destroy(new Error(`${url} is larger than ${maxBytes} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+    });
+    request.on('timeout', () => request.destroy(new Error(`${url} timed out after ${timeoutMs}ms`)));
+    request.on('error', reject);
+  });
+}
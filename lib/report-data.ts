@@ -0,0 +1,157 @@
+import { AIResponse, BrandPrompt, BrandScores, Company, CompetitorRanking, ProviderComparisonData, ProviderSpecificRanking, ReportInsights, ReportTemplate, ScoringProfile } from './types';
+import { calculateBrandScores, DEFAULT_SCORING_PROFILE, findScoringProfile, getBrandRank, parseScoringProfile } from './scoring';
+import { summarizeMentions } from './mention-analysis';
+import { REPORT_SECTIONS } from './report-template';
+
+// The parts of an analysis the report reads; analyses saved by older versions may lack some
+export interface ReportAnalysis {
+  responses?: AIResponse[];
+  prompts?: BrandPrompt[];
+  providerComparison?: ProviderComparisonData[];
+  providerRankings?: ProviderSpecificRanking[];
+  competitors?: CompetitorRanking[];
+  scores?: BrandScores;
+  scoringProfile?: ScoringProfile;
+  insights?: ReportInsights;
+}
+
+// Closing advice of every report
+export const REPORT_RECOMMENDATIONS = [
+  {
+    title: 'Optimize Content for AI-First Search',
+    text: 'Focus on creating authoritative, structured content that answers specific questions in your industry. AI models favor comprehensive, factual content that directly addresses user queries.',
+  },
+  {
+    title: 'Build Strategic Industry Partnerships',
+    text: "Collaborate with recognized industry leaders and publications to increase your brand's credibility signals. Co-authored content and expert quotes significantly boost AI model recognition.",
+  },
+];
+
+/**
+ * The industry shown on the report: the detected one, else the first scraped keyword
+ */
+export function reportIndustry(company: Company): string | undefined {
+  return company.industry || company.scrapedData?.keywords?.[0] || undefined;
+}
+
+/**
+ * The figures and tables of the GEO report, shared by the HTML and PDF renderings
+ */
+export function processReportData(analysis: ReportAnalysis, company: { name: string }) {
+  const responses = analysis.responses || [];
+  const prompts = analysis.prompts || [];
+  const providerComparison = analysis.providerComparison || [];
+  const providerRankings = analysis.providerRankings || [];
+  
+  // Process comparison matrix data
+  const matrixData = providerComparison.map(comp => ({
+    competitor: comp.competitor,
+    isOwn: !!comp.isOwn,
+    providers: comp.providers
+  }));
+
+  // Process prompts and responses
+  const promptsData = prompts.map(prompt => {
+    const promptResponses = responses.filter(r => r.prompt === prompt.prompt);
+    const brandMentions = promptResponses.filter(r => r.brandMentioned).length;
+    return {
+      prompt: prompt.prompt,
+      totalResponses: promptResponses.length,
+      brandMentions,
+      mentionRate: promptResponses.length > 0 ? Math.round((brandMentions / promptResponses.length) * 100) : 0,
+      responses: promptResponses
+    };
+  });
+
+  // Process provider rankings data
+  const rankingsData = providerRankings.map(ranking => ({
+    provider: ranking.provider,
+    competitors: ranking.competitors.map((comp, index) => ({
+      rank: index + 1,
+      name: comp.name,
+      isOwn: !!comp.isOwn,
+      visibilityScore: comp.visibilityScore,
+      shareOfVoice: comp.shareOfVoice,
+      sentiment: comp.sentiment
+    }))
+  }));
+
+  // Providers come from the analysis itself so custom providers get their own columns
+  const providerSet = new Set<string>();
+  matrixData.forEach(comp => Object.keys(comp.providers || {}).forEach(provider => providerSet.add(provider)));
+  rankingsData.forEach(ranking => providerSet.add(ranking.provider));
+  const providers = Array.from(providerSet);
+
+  // Headline numbers come from the scoring module so the report matches the UI tabs
+  const totalQueries = responses.length;
+  const companyMentions = responses.filter(r => r.brandMentioned).length;
+  const rankedCompetitors = analysis.competitors || [];
+  const scoringProfile = findScoringProfile(analysis.scoringProfile?.id)
+    || parseScoringProfile(analysis.scoringProfile).profile
+    || DEFAULT_SCORING_PROFILE;
+  const scores = analysis.scores?.overallScore !== undefined
+    ? analysis.scores
+    : calculateBrandScores(responses, company.name, rankedCompetitors, scoringProfile);
+  const brandRank = getBrandRank(rankedCompetitors);
+  // Analyses saved before mention classification have no mentions and skip the table
+  const mentionSummaries = summarizeMentions(responses, company.name);
+
+  // Companies by their visibility averaged over every provider, best first
+  const providerCount = providers.length || 1;
+  const visibilityRanking = matrixData
+    .map(comp => ({
+      competitor: comp.competitor,
+      isOwn: comp.isOwn,
+      average: Math.round(
+        Object.values(comp.providers || {}).reduce((sum, p) => sum + (p.visibilityScore || 0), 0) / providerCount
+      ),
+    }))
+    .sort((a, b) => b.average - a.average);
+  const ownProviders = matrixData.find(comp => comp.isOwn)?.providers || {};
+  const weakestProvider = [...providers].sort(
+    (a, b) => (ownProviders[a]?.visibilityScore || 0) - (ownProviders[b]?.visibilityScore || 0)
+  )[0];
+
+  return {
+    matrixData,
+    promptsData,
+    rankingsData,
+    providers,
+    totalQueries,
+    companyMentions,
+    visibilityScore: Math.round(scores.visibilityScore),
+    overallScore: scores.overallScore,
+    scoringProfileName: scoringProfile.name,
+    brandRank,
+    mentionSummaries,
+    visibilityRanking,
+    weakestProvider,
+    insights: analysis.insights
+  };
+}
+
+export type ReportData = ReturnType<typeof processReportData>;
+
+/**
+ * Text that opens the executive summary: the user's own, else the AI-written one
+ */
+export function reportSummaryText(template: ReportTemplate, data: ReportData): string | undefined {
+  return template.executiveSummary || data.insights?.executiveSummary;
+}
+
+/**
+ * Whether the recommendations come from the AI insights instead of the generic advice
+ */
+export function hasInsightRecommendations(data: ReportData): data is ReportData & { insights: ReportInsights } {
+  return !!data.insights && (data.insights.visibilityGaps.length > 0 || data.insights.contentActions.length > 0);
+}
+
+/**
+ * The template's sections that have something to show for this analysis, in template order.
+ * Analyses saved before mention classification have no sentiment and stance to report.
+ */
+export function reportSections(template: ReportTemplate, data: ReportData) {
+  return template.sections
+    .filter(id => id !== 'sentiment_stance' || data.mentionSummaries.length > 0)
+    .map(id => REPORT_SECTIONS.find(section => section.id === id)!);
+}
@@ -0,0 +1,427 @@
+/**
+ * HTML rendering of the GEO report
+ * Every section has its own renderer; the user's ReportTemplate decides which of them run,
+ * in which order, and how the report is branded. Sections start on a new page when printed.
+ */
+
+import { Company, ReportInsights, ReportSectionId, ReportTemplate } from './types';
+import { processReportData, ReportAnalysis, ReportData, REPORT_RECOMMENDATIONS, hasInsightRecommendations, reportIndustry, reportSections, reportSummaryText } from './report-data';
+import { DEFAULT_REPORT_TEMPLATE } from './report-template';
+
+interface ReportContext {
+  data: ReportData;
+  template: ReportTemplate;
+  companyName: string;
+}
+
+interface TableRow {
+  cells: string[]; // Already escaped HTML
+  own?: boolean;
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function companyCell(name: string, isOwn?: boolean): string {
+  return `<strong>${escapeHtml(name)}</strong>${isOwn ? ' <span class="own-tag">Your Brand</span>' : ''}`;
+}
+
+function metricCards(metrics: { label: string; value: string | number }[]): string {
+  return `
+    <div class="metrics" style="grid-template-columns: repeat(${metrics.length}, 1fr);">
+      ${metrics.map(metric => `
+        <div class="metric">
+          <div class="metric-value">${escapeHtml(metric.value)}</div>
+          <div class="metric-label">${escapeHtml(metric.label)}</div>
+        </div>`).join('')}
+    </div>`;
+}
+
+function table(headers: string[], rows: TableRow[]): string {
+  return `
+    <table class="data-table">
+      <thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${rows.map(row => `<tr${row.own ? ' class="own-row"' : ''}>${row.cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}
+      </tbody>
+    </table>`;
+}
+
+// Horizontal bars for 0-100 values, the brand's bar in the accent color
+function barChart(title: string, bars: { label: string; value: number; own?: boolean }[]): string {
+  return `
+    <div class="chart">
+      <h3>${escapeHtml(title)}</h3>
+      ${bars.map(bar => `
+        <div class="bar-row">
+          <div class="bar-label">${escapeHtml(bar.label)}</div>
+          <div class="bar-track"><div class="bar${bar.own ? ' own' : ''}" style="width: ${Math.max(0, Math.min(100, bar.value))}%;"></div></div>
+          <div class="bar-value">${Math.round(bar.value)}%</div>
+        </div>`).join('')}
+    </div>`;
+}
+
+function definitions(entries: [string, string][]): string {
+  return `
+    <dl class="definitions">
+      ${entries.map(([term, description]) => `<dt>${escapeHtml(term)}</dt><dd>${escapeHtml(description)}</dd>`).join('')}
+    </dl>`;
+}
+
+function renderExecutiveSummary({ data, template, companyName }: ReportContext): string {
+  const { visibilityScore, brandRank, matrixData } = data;
+  const summaryText = reportSummaryText(template, data);
+  const summary = summaryText
+    ? `<div class="summary-text">${summaryText.split(/\n\s*\n/).map(paragraph => `<p>${escapeHtml(paragraph.trim())}</p>`).join('')}</div>`
+    : '';
+
+  return `
+    ${summary}
+    ${metricCards([
+      { label: 'Overall Visibility Score', value: `${visibilityScore}%` },
+      { label: `Overall Score (${data.scoringProfileName})`, value: data.overallScore },
+      { label: 'Market Ranking', value: `#${brandRank}` },
+      { label: 'Competitors Analyzed', value: matrixData.length },
+    ])}
+    <h3>Key Findings</h3>
+    <div class="findings">
+      <div class="finding">
+        <h4>Brand Visibility Performance</h4>
+        <p>${escapeHtml(companyName)} achieved a ${visibilityScore}% visibility score across AI providers, ${
+          visibilityScore >= 50 ? 'indicating strong' : visibilityScore >= 25 ? 'showing moderate' : 'revealing limited'
+        } brand recognition in AI-powered search results.</p>
+      </div>
+      <div class="finding">
+        <h4>Competitive Position</h4>
+        <p>Among ${matrixData.length} competitors analyzed, ${escapeHtml(companyName)} ranks #${brandRank} in overall AI visibility, mentioned in ${data.companyMentions} of ${data.totalQueries} responses.</p>
+      </div>
+    </div>
+    <h3>Strategic Priorities</h3>
+    <ul class="priorities">
+      ${visibilityScore < 25 ? '<li class="critical"><strong>Critical priority: build the foundation.</strong> Low visibility requires immediate attention to content strategy and industry authority building.</li>' : ''}
+      <li><strong>Optimize provider performance.</strong> Focus on ${escapeHtml(data.weakestProvider || 'underperforming')} channels for maximum impact improvement.</li>
+      <li><strong>Learn from the leaders.</strong> Analyze top-performing competitors' content strategies to identify successful visibility tactics.</li>
+    </ul>`;
+}
+
+function renderComparisonMatrix({ data }: ReportContext): string {
+  const { providers, matrixData, visibilityRanking } = data;
+  const topScore = Math.max(0, ...matrixData.flatMap(comp => Object.values(comp.providers || {}).map(p => p.visibilityScore || 0)));
+
+  return `
+    ${definitions([
+      ['Visibility Score', 'Percentage of queries where the brand appears in AI responses (0-100%)'],
+      ['AI Providers', `Leading AI models tested - ${providers.join(', ')}`],
+      ['Average Score', `Mean visibility across all ${providers.length} AI providers`],
+    ])}
+    ${metricCards([
+      { label: 'Competitors', value: matrixData.length },
+      { label: 'AI Providers', value: providers.length },
+      { label: 'Your Avg Score', value: `${data.visibilityScore}%` },
+      { label: 'Top Score', value: `${topScore}%` },
+    ])}
+    ${table(
+      ['Company', ...providers, 'Average'],
+      visibilityRanking.map(comp => {
+        const scores = matrixData.find(row => row.competitor === comp.competitor)?.providers || {};
+        return {
+          cells: [
+            companyCell(comp.competitor, comp.isOwn),
+            ...providers.map(provider => `${scores[provider]?.visibilityScore ?? 0}%`),
+            `<strong>${comp.average}%</strong>`,
+          ],
+          own: comp.isOwn,
+        };
+      })
+    )}
+    ${barChart('Average visibility across providers', visibilityRanking.slice(0, 12).map(comp => ({
+      label: comp.competitor,
+      value: comp.average,
+      own: comp.isOwn,
+    })))}`;
+}
+
+function renderPromptsResponses({ data }: ReportContext): string {
+  return `
+    ${metricCards([
+      { label: 'Total Prompts', value: data.promptsData.length },
+      { label: 'Total Responses', value: data.totalQueries },
+      { label: 'Brand Mentions', value: data.companyMentions },
+      { label: 'Mention Rate', value: `${data.visibilityScore}%` },
+    ])}
+    ${table(
+      ['Query', 'Responses', 'Brand Mentions', 'Mention Rate'],
+      data.promptsData.map(prompt => ({
+        cells: [escapeHtml(prompt.prompt), String(prompt.totalResponses), String(prompt.brandMentions), `<strong>${prompt.mentionRate}%</strong>`],
+      }))
+    )}`;
+}
+
+function renderProviderRankings({ data }: ReportContext): string {
+  return data.rankingsData.map(ranking => `
+    <div class="provider-block">
+      <h3>${escapeHtml(ranking.provider)} Rankings</h3>
+      ${table(
+        ['Rank', 'Company', 'Visibility Score', 'Share of Voice', 'Sentiment'],
+        ranking.competitors.slice(0, 10).map(comp => ({
+          cells: [
+            `<strong>#${comp.rank}</strong>`,
+            companyCell(comp.name, comp.isOwn),
+            `${Math.round(comp.visibilityScore)}%`,
+            `${Math.round(comp.shareOfVoice)}%`,
+            `<span class="sentiment ${escapeHtml(comp.sentiment)}">${escapeHtml(comp.sentiment)}</span>`,
+          ],
+          own: comp.isOwn,
+        }))
+      )}
+    </div>`).join('');
+}
+
+function renderVisibilityAnalysis({ data, companyName }: ReportContext): string {
+  const { visibilityRanking } = data;
+  const topScore = visibilityRanking[0]?.average ?? 0;
+  const ownProviders = data.matrixData.find(comp => comp.isOwn)?.providers || {};
+
+  return `
+    ${definitions([
+      ['Overall Score', "Your brand's average visibility across all AI providers and queries"],
+      ['Total Mentions', 'Number of AI responses that specifically mentioned your brand'],
+      ['Market Position', 'Your ranking compared to identified competitors (#1 = highest visibility)'],
+      ['Performance Gap', 'Percentage difference from the market leader (-X% = behind leader)'],
+    ])}
+    ${metricCards([
+      { label: 'Overall Score', value: `${data.visibilityScore}%` },
+      { label: data.companyMentions > 0 ? 'Brand Mentions' : 'No Mentions', value: data.companyMentions },
+      { label: 'Queries Tested', value: data.totalQueries },
+      { label: 'Competitors Found', value: data.matrixData.length },
+    ])}
+    ${data.providers.length > 0 ? barChart(`${companyName} visibility by provider`, data.providers.map(provider => ({
+      label: provider,
+      value: ownProviders[provider]?.visibilityScore || 0,
+      own: true,
+    }))) : ''}
+    <h3>Competitive Visibility Comparison</h3>
+    ${table(
+      ['Company', 'Visibility Score', 'Market Position', 'Performance Gap'],
+      visibilityRanking.map((comp, index) => ({
+        cells: [
+          companyCell(comp.competitor, comp.isOwn),
+          `${comp.average}%`,
+          `#${index + 1}`,
+          topScore - comp.average > 0 ? `-${topScore - comp.average}%` : 'Leader',
+        ],
+        own: comp.isOwn,
+      }))
+    )}`;
+}
+
+function renderSentimentStance({ data }: ReportContext): string {
+  return table(
+    ['Company', 'Mentions', 'Recommended', 'Neutral', 'Warned Against', 'Compared Unfavorably', 'Top Reasons Cited'],
+    data.mentionSummaries.map(summary => ({
+      cells: [
+        companyCell(summary.company, summary.isOwn),
+        String(summary.mentions),
+        String(summary.stances.recommended),
+        String(summary.stances.neutral),
+        String(summary.stances.warned_against),
+        String(summary.stances.compared_unfavorably),
+        escapeHtml(summary.reasons.slice(0, 3).map(reason => `${reason.theme} (${reason.sentiment}, ${reason.count})`).join(', ') || '-'),
+      ],
+      own: summary.isOwn,
+    }))
+  );
+}
+
+// Gaps and actions from the AI insights, when the analysis has them
+function renderInsightRecommendations(insights: ReportInsights): string {
+  return `
+    ${insights.visibilityGaps.length > 0 ? `
+      <h3>Visibility Gaps</h3>
+      ${table(
+        ['Competitor', 'Gap', 'Evidence'],
+        insights.visibilityGaps.map(gap => ({
+          cells: [companyCell(gap.competitor), escapeHtml(gap.gap), escapeHtml(gap.evidence)],
+        }))
+      )}` : ''}
+    ${insights.contentActions.length > 0 ? '<h3>Content Actions</h3>' : ''}
+    ${insights.contentActions.map((action, i) => `
+      <div class="recommendation">
+        <h4>${i + 1}. ${escapeHtml(action.title)}</h4>
+        <p>${escapeHtml(action.description)}</p>
+        ${action.competitor ? `<p class="note">Closes the gap to ${escapeHtml(action.competitor)}</p>` : ''}
+      </div>`).join('')}
+    <p class="note">Gaps and actions written by ${escapeHtml(insights.model)} from the figures of this report.</p>`;
+}
+
+function renderRecommendations({ data }: ReportContext): string {
+  if (hasInsightRecommendations(data)) {
+    return `
+      ${renderInsightRecommendations(data.insights)}
+      <p class="note">Analysis based on ${data.totalQueries} queries across ${data.providers.length} AI providers.</p>`;
+  }
+  return `
+    ${REPORT_RECOMMENDATIONS.map((recommendation, i) => `
+      <div class="recommendation">
+        <h4>${i + 1}. ${escapeHtml(recommendation.title)}</h4>
+        <p>${escapeHtml(recommendation.text)}</p>
+      </div>`).join('')}
+    <p class="note">Analysis based on ${data.totalQueries} queries across ${data.providers.length} AI providers.</p>`;
+}
+
+const SECTION_RENDERERS: Record<ReportSectionId, (context: ReportContext) => string> = {
+  executive_summary: renderExecutiveSummary,
+  comparison_matrix: renderComparisonMatrix,
+  prompts_responses: renderPromptsResponses,
+  provider_rankings: renderProviderRankings,
+  visibility_analysis: renderVisibilityAnalysis,
+  sentiment_stance: renderSentimentStance,
+  recommendations: renderRecommendations,
+};
+
+function renderLogo(template: ReportTemplate, companyName: string): string {
+  if (template.branding.logoUrl) {
+    return `<img class="logo" src="${escapeHtml(template.branding.logoUrl)}" alt="">`;
+  }
+  const initials = companyName.split(/\s+/).slice(0, 2).map(word => word.charAt(0).toUpperCase()).join('');
+  return `<div class="logo initials">${escapeHtml(initials)}</div>`;
+}
+
+const STYLES = `
+  * { margin: 0; padding: 0; box-sizing: border-box; }
+  body { font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #1a202c; line-height: 1.5; font-size: 13px; background: white; }
+  .report { max-width: 210mm; margin: 0 auto; padding: 0 32px; }
+  .cover { min-height: 260mm; display: flex; flex-direction: column; justify-content: center; text-align: center; border-top: 8px solid var(--primary); }
+  .cover .eyebrow { color: var(--primary); font-weight: 700; letter-spacing: 2px; font-size: 12px; margin: 24px 0 8px; }
+  .cover h1 { font-size: 40px; font-weight: 600; letter-spacing: -0.02em; }
+  .cover .industry, .cover .meta { color: #64748b; margin-top: 6px; }
+  .cover .prepared-by { margin-top: 40px; font-size: 12px; color: #64748b; }
+  .logo { max-height: 64px; max-width: 200px; margin: 0 auto; display: block; }
+  .logo.initials { width: 56px; height: 56px; border-radius: 10px; background: var(--primary); color: white; font-size: 22px; font-weight: 700; display: flex; align-items: center; justify-content: center; }
+  .contents { padding-top: 40px; }
+  .contents h2, .section h2 { font-size: 24px; font-weight: 700; padding-bottom: 8px; border-bottom: 2px solid var(--primary); margin-bottom: 20px; }
+  .contents ol { list-style: none; }
+  .contents li { display: flex; justify-content: space-between; padding: 12px 16px; margin-bottom: 10px; background: #f8fafc; border-left: 4px solid var(--primary); border-radius: 6px; }
+  .contents a { color: #1f2937; font-weight: 600; text-decoration: none; }
+  .contents .description { color: #6b7280; font-size: 11px; }
+  .section { padding-top: 40px; }
+  h3 { font-size: 15px; margin: 24px 0 10px; }
+  h4 { font-size: 13px; margin-bottom: 4px; color: var(--primary); }
+  .summary-text p { margin-bottom: 10px; }
+  .metrics { display: grid; gap: 12px; margin: 16px 0; }
+  .metric { border: 1px solid #e2e8f0; border-radius: 8px; padding: 14px; text-align: center; }
+  .metric-value { font-size: 24px; font-weight: 700; color: var(--primary); }
+  .metric-label { font-size: 10px; color: #64748b; text-transform: uppercase; letter-spacing: 0.5px; }
+  .findings { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  .finding, .recommendation { background: #f8fafc; border-radius: 8px; padding: 14px; margin-bottom: 12px; }
+  .priorities { padding-left: 20px; }
+  .priorities li { margin-bottom: 8px; }
+  .priorities .critical { color: #b91c1c; }
+  .definitions { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px; font-size: 11px; }
+  .definitions dt { font-weight: 600; }
+  .definitions dd { color: #6b7280; margin-bottom: 4px; }
+  .data-table { width: 100%; border-collapse: collapse; margin: 12px 0 20px; font-size: 11px; }
+  .data-table th { background: #f3f4f6; color: #4b5563; text-align: left; padding: 8px; font-weight: 600; }
+  .data-table td { padding: 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  .data-table thead { display: table-header-group; }
+  .data-table tr { break-inside: avoid; }
+  .own-row td { background: color-mix(in srgb, var(--accent) 12%, white); }
+  .own-tag { font-size: 9px; color: var(--accent); font-weight: 600; text-transform: uppercase; }
+  .sentiment { padding: 2px 6px; border-radius: 4px; font-size: 10px; font-weight: 600; background: #e2e3e5; color: #383d41; }
+  .sentiment.positive { background: #d4edda; color: #155724; }
+  .sentiment.negative { background: #f8d7da; color: #721c24; }
+  .chart { margin: 16px 0 24px; break-inside: avoid; }
+  .bar-row { display: grid; grid-template-columns: 160px 1fr 48px; gap: 8px; align-items: center; margin-bottom: 6px; font-size: 11px; }
+  .bar-label { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .bar-track { background: #f3f4f6; height: 14px; border-radius: 3px; }
+  .bar { background: #9ca3af; height: 100%; border-radius: 3px; }
+  .bar.own { background: var(--accent); }
+  .note { color: #64748b; font-size: 11px; margin-top: 24px; }
+  .report-footer { display: flex; justify-content: space-between; color: #94a3b8; font-size: 10px; border-top: 1px solid #e2e8f0; padding: 8px 0; margin-top: 40px; }
+  @media print {
+    body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .section, .contents { break-before: page; }
+    .report-footer { position: fixed; bottom: 0; left: 32px; right: 32px; background: white; }
+  }
+  @page { size: A4; margin: 16mm 0 18mm; }
+`;
+
+/**
+ * Render the GEO report of an analysis as a standalone HTML document
+ */
+export function renderReportHtml(
+  analysis: ReportAnalysis,
+  company: Company,
+  template: ReportTemplate = DEFAULT_REPORT_TEMPLATE
+): string {
+  const data = processReportData(analysis, company);
+  const companyName = company.name || 'Unknown Company';
+  const industry = reportIndustry(company);
+  const date = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const context: ReportContext = { data, template, companyName };
+  const { branding } = template;
+
+  const sections = reportSections(template, data).map(section => ({
+    ...section,
+    html: SECTION_RENDERERS[section.id](context),
+  }));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(companyName)} - GEO Analysis Report</title>
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">
+  <style>:root { --primary: ${branding.primaryColor}; --accent: ${branding.accentColor}; }${STYLES}</style>
+</head>
+<body>
+  <div class="report">
+    <div class="cover">
+      ${renderLogo(template, companyName)}
+      <div class="eyebrow">GEO ANALYSIS REPORT</div>
+      <h1>${escapeHtml(companyName)}</h1>
+      ${industry ? `<div class="industry">${escapeHtml(industry)}</div>` : ''}
+      <div class="meta">${escapeHtml(company.url || '')}</div>
+      <div class="meta">${date}</div>
+      ${metricCards([
+        { label: 'Visibility Score', value: `${data.visibilityScore}%` },
+        { label: 'Queries Analyzed', value: data.totalQueries },
+        { label: 'Competitors Assessed', value: data.matrixData.length },
+      ])}
+      ${branding.agencyName ? `<div class="prepared-by">Prepared by ${escapeHtml(branding.agencyName)}</div>` : ''}
+    </div>
+
+    <div class="contents">
+      <h2>Table of Contents</h2>
+      <ol>
+        ${sections.map((section, i) => `
+          <li>
+            <div>
+              <a href="#${section.id}">${i + 1}. ${escapeHtml(section.title)}</a>
+              <div class="description">${escapeHtml(section.description)}</div>
+            </div>
+          </li>`).join('')}
+      </ol>
+    </div>
+
+    ${sections.map((section, i) => `
+    <section class="section" id="${section.id}">
+      <h2>${i + 1}. ${escapeHtml(section.title)}</h2>
+      ${section.html}
+    </section>`).join('')}
+
+    <footer class="report-footer">
+      <span>${escapeHtml(branding.footerText || `${companyName} - GEO Analysis`)}</span>
+      <span>${date}</span>
+    </footer>
+  </div>
+</body>
+</html>`;
+}
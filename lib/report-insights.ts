@@ -0,0 +1,137 @@
+/**
+ * AI-written insights for the GEO report
+ * One structured pass over the report figures (processReportData) produces an executive
+ * summary, the largest visibility gaps against named competitors and concrete content actions.
+ * The result is checked against the analysis before it is returned: gaps must name a company
+ * that was tracked, and lists are capped, so a weak answer degrades instead of inventing rivals.
+ */
+
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { Company, ContentAction, ReportInsights, VisibilityGap } from './types';
+import { getProviderModel, getProvidersWithCapability } from './provider-config';
+import { processReportData, ReportAnalysis, ReportData } from './report-data';
+
+const MAX_GAPS = 5;
+const MAX_ACTIONS = 6;
+// Prompts listed in the request; the ones the brand is missing from come first
+const MAX_PROMPTS = 15;
+
+const InsightsSchema = z.object({
+  executiveSummary: z.string().describe('Three to five sentences for a marketing lead: where the brand stands in AI answers, who leads, and what matters most'),
+  visibilityGaps: z.array(z.object({
+    competitor: z.string().describe('Exact name of a competitor from the data'),
+    gap: z.string().describe('Where this competitor is ahead of the brand, in one sentence'),
+    evidence: z.string().describe('The figures, prompts or providers that show it'),
+  })).describe('Up to 5 gaps, largest first'),
+  contentActions: z.array(z.object({
+    title: z.string().describe('Short imperative title'),
+    description: z.string().describe('What to publish or change and where, specific enough to brief a writer'),
+    competitor: z.string().optional().describe('The competitor whose gap it closes, if any'),
+  })).describe('3 to 6 concrete content actions'),
+});
+
+function buildPrompt(data: ReportData, company: Company): string {
+  const ownProviders = data.matrixData.find(comp => comp.isOwn)?.providers || {};
+  const prompts = [...data.promptsData]
+    .sort((a, b) => a.mentionRate - b.mentionRate)
+    .slice(0, MAX_PROMPTS);
+  const rivalsByPrompt = (responses: ReportData['promptsData'][number]['responses']) =>
+    Array.from(new Set(responses.flatMap(response => response.competitors || []))).slice(0, 5);
+
+  return `You are a generative engine optimization (GEO) consultant. Using ONLY the data below, explain how visible ${company.name} is in AI assistant answers compared with its competitors, and what content would close the gaps.
+
+Brand: ${company.name}
+${company.url ? `Website: ${company.url}\n` : ''}${company.industry ? `Industry: ${company.industry}\n` : ''}Visibility score: ${data.visibilityScore}% (overall score ${data.overallScore}, ${data.scoringProfileName} profile)
+Rank among tracked companies: #${data.brandRank}
+Brand mentioned in ${data.companyMentions} of ${data.totalQueries} responses
+
+Company visibility (average across providers):
+${data.visibilityRanking.map(comp => `- ${comp.competitor}${comp.isOwn ? ' (the brand)' : ''}: ${comp.average}%`).join('\n')}
+
+${company.name} visibility by provider:
+${data.providers.map(provider => `- ${provider}: ${ownProviders[provider]?.visibilityScore ?? 0}%`).join('\n')}
+
+Prompts (brand mention rate; competitors named in the answers):
+${prompts.map(prompt => `- "${prompt.prompt}": ${prompt.mentionRate}%; ${rivalsByPrompt(prompt.responses).join(', ') || 'none'}`).join('\n')}
+${data.mentionSummaries.length > 0 ? `
+How answers talk about each company (recommended / warned against; top reasons):
+${data.mentionSummaries.slice(0, 10).map(summary => `- ${summary.company}: ${summary.stances.recommended} / ${summary.stances.warned_against}; ${summary.reasons.slice(0, 3).map(reason => `${reason.theme} (${reason.sentiment})`).join(', ') || 'no reasons'}`).join('\n')}
+` : ''}
+Rules:
+- Only name competitors from the lists above, spelled exactly as shown.
+- Quote figures from the data; do not invent numbers, prompts or providers.
+- Content actions must be specific (page types, topics, comparison pages, sources to be cited in), not generic advice.`;
+}
+
+// Competitor names the model returned, matched to the tracked companies
+function matchCompetitor(name: string | undefined, data: ReportData): string | undefined {
+  const wanted = name?.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return data.matrixData.find(comp => !comp.isOwn && comp.competitor.toLowerCase() === wanted)?.competitor;
+}
+
+function cleanGaps(gaps: z.infer<typeof InsightsSchema>['visibilityGaps'], data: ReportData): VisibilityGap[] {
+  const seen = new Set<string>();
+  return gaps.flatMap(gap => {
+    const competitor = matchCompetitor(gap.competitor, data);
+    if (!competitor || seen.has(competitor) || !gap.gap.trim()) return [];
+    seen.add(competitor);
+    return [{ competitor, gap: gap.gap.trim(), evidence: gap.evidence.trim() }];
+  }).slice(0, MAX_GAPS);
+}
+
+function cleanActions(actions: z.infer<typeof InsightsSchema>['contentActions'], data: ReportData): ContentAction[] {
+  return actions
+    .filter(action => action.title.trim() && action.description.trim())
+    .map(action => {
+      const competitor = matchCompetitor(action.competitor, data);
+      return {
+        title: action.title.trim(),
+        description: action.description.trim(),
+        ...(competitor && { competitor }),
+      };
+    })
+    .slice(0, MAX_ACTIONS);
+}
+
+/**
+ * Write the insights of an analysis with the first provider that supports structured output
+ */
+export async function generateReportInsights(
+  analysis: ReportAnalysis,
+  company: Company,
+  abortSignal?: AbortSignal
+): Promise<ReportInsights> {
+  const provider = getProvidersWithCapability('structuredOutput')[0];
+  if (!provider) {
+    throw new Error('No AI provider with structured output is configured');
+  }
+  const model = getProviderModel(provider.id, provider.defaultModel);
+  if (!model) {
+    throw new Error(`${provider.name} model not available`);
+  }
+
+  const data = processReportData(analysis, company);
+  const { object } = await generateObject({
+    model,
+    schema: InsightsSchema,
+    prompt: buildPrompt(data, company),
+    temperature: 0.3,
+    maxRetries: 2,
+    abortSignal,
+  });
+
+  const executiveSummary = object.executiveSummary.trim();
+  if (!executiveSummary) {
+    throw new Error(`${provider.name} returned an empty executive summary`);
+  }
+
+  return {
+    executiveSummary,
+    visibilityGaps: cleanGaps(object.visibilityGaps, data),
+    contentActions: cleanActions(object.contentActions, data),
+    model: `${provider.name} ${provider.defaultModel}`,
+    generatedAt: new Date().toISOString(),
+  };
+}
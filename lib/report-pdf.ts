@@ -0,0 +1,597 @@
+/**
+ * Server-side PDF rendering of the GEO report
+ * Draws the report with pdfkit: a cover, a linked table of contents (also exported as PDF
+ * bookmarks), the sections of the user's ReportTemplate in its order, bar charts, and tables
+ * that continue on the next page with their header repeated. Page numbers are stamped once the
+ * page count is known. Needs no browser or session, so scheduled runs can render and attach it too.
+ */
+
+import PDFDocument from 'pdfkit';
+import { Company, ReportInsights, ReportSectionId, ReportTemplate } from './types';
+import { processReportData, ReportAnalysis, ReportData, REPORT_RECOMMENDATIONS, hasInsightRecommendations, reportIndustry, reportSections, reportSummaryText } from './report-data';
+import { DEFAULT_REPORT_TEMPLATE } from './report-template';
+import { fetchPublicImage } from './remote-image';
+
+type PDFDoc = InstanceType<typeof PDFDocument>;
+
+interface TableColumn {
+  header: string;
+  width: number; // Share of the content width
+  align?: 'left' | 'right';
+}
+
+interface TableRow {
+  cells: string[];
+  highlight?: boolean; // The brand's own row
+}
+
+interface ChartBar {
+  label: string;
+  value: number; // 0-100
+  highlight?: boolean;
+}
+
+interface TocEntry {
+  title: string;
+  destination: string;
+  page: number; // 1-based
+}
+
+// Template colors
+interface Theme {
+  primary: string;
+  accent: string;
+  highlightFill: string;
+}
+
+interface SectionContext {
+  doc: PDFDoc;
+  data: ReportData;
+  template: ReportTemplate;
+  theme: Theme;
+  companyName: string;
+  date: string;
+}
+
+const MARGIN = 50;
+const FONT = 'Helvetica';
+const BOLD_FONT = 'Helvetica-Bold';
+const COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  bar: '#9ca3af',
+  border: '#e5e7eb',
+  headerFill: '#f3f4f6',
+};
+const MAX_TABLE_ROWS = 25;
+const MAX_CHART_BARS = 12;
+const LOGO_TIMEOUT = 5000;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+/**
+ * The built-in PDF fonts only cover Latin-1: other characters are folded to their
+ * unaccented form where one exists (e.g. Lithuanian letters) and dropped otherwise (emoji)
+ */
+function pdfText(value: unknown): string {
+  return String(value ?? '')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\n\x20-\x7e\xa0-\xff]/g, ch => ch.normalize('NFKD').replace(/[^\x20-\x7e]/g, ''))
+    .trim();
+}
+
+// A hex color mixed with white, for row highlights
+function tint(hex: string, strength: number): string {
+  const channel = (offset: number) => {
+    const value = parseInt(hex.slice(offset, offset + 2), 16);
+    return Math.round(255 - (255 - value) * strength).toString(16).padStart(2, '0');
+  };
+  return `#${channel(1)}${channel(3)}${channel(5)}`;
+}
+
+function contentWidth(doc: PDFDoc): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function currentPage(doc: PDFDoc): number {
+  const range = doc.bufferedPageRange();
+  return range.start + range.count;
+}
+
+/**
+ * Start a new page when the next block would not fit on this one. Returns whether it did.
+ */
+function ensureSpace(doc: PDFDoc, height: number): boolean {
+  if (doc.y + height <= doc.page.height - doc.page.margins.bottom) return false;
+  doc.addPage();
+  return true;
+}
+
+function startSection(doc: PDFDoc, theme: Theme, toc: TocEntry[], title: string) {
+  doc.addPage();
+  const destination = `section-${toc.length + 1}`;
+  const numbered = `${toc.length + 1}. ${title}`;
+  doc.addNamedDestination(destination);
+  doc.outline.addItem(numbered);
+  toc.push({ title: numbered, destination, page: currentPage(doc) });
+  doc.font(BOLD_FONT).fontSize(20).fillColor(COLORS.text).text(numbered);
+  doc.moveDown(0.2);
+  const y = doc.y;
+  doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth(doc), y).lineWidth(2).strokeColor(theme.primary).stroke();
+  doc.moveDown(1);
+}
+
+function subheading(doc: PDFDoc, text: string) {
+  ensureSpace(doc, 60);
+  doc.moveDown(0.5);
+  doc.font(BOLD_FONT).fontSize(13).fillColor(COLORS.text).text(pdfText(text));
+  doc.moveDown(0.4);
+}
+
+function paragraph(doc: PDFDoc, text: string, color: string = COLORS.text) {
+  doc.font(FONT).fontSize(10).fillColor(color).text(pdfText(text), { lineGap: 2 });
+  doc.moveDown(0.6);
+}
+
+function metricCards(doc: PDFDoc, theme: Theme, metrics: { label: string; value: string }[]) {
+  const gap = 12;
+  const width = (contentWidth(doc) - gap * (metrics.length - 1)) / metrics.length;
+  const height = 60;
+  ensureSpace(doc, height + 10);
+  const top = doc.y;
+
+  metrics.forEach((metric, i) => {
+    const x = MARGIN + i * (width + gap);
+    doc.roundedRect(x, top, width, height, 6).lineWidth(1).strokeColor(COLORS.border).stroke();
+    doc.font(BOLD_FONT).fontSize(20).fillColor(theme.primary)
+      .text(pdfText(metric.value), x, top + 10, { width, align: 'center', lineBreak: false });
+    doc.font(FONT).fontSize(8).fillColor(COLORS.muted)
+      .text(pdfText(metric.label), x + 4, top + 38, { width: width - 8, align: 'center' });
+  });
+
+  doc.x = MARGIN;
+  doc.y = top + height + 14;
+}
+
+/**
+ * A table that breaks across pages, repeating its header on each one
+ */
+function drawTable(doc: PDFDoc, theme: Theme, columns: TableColumn[], rows: TableRow[]) {
+  const fontSize = 9;
+  const padding = 5;
+  const widths = columns.map(column => column.width * contentWidth(doc));
+
+  const rowHeight = (cells: string[], font: string) => {
+    doc.font(font).fontSize(fontSize);
+    return Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: widths[i] - padding * 2 }))) + padding * 2;
+  };
+
+  const drawRow = (cells: string[], options: { header?: boolean; highlight?: boolean }) => {
+    const font = options.header || options.highlight ? BOLD_FONT : FONT;
+    const height = rowHeight(cells, font);
+    const top = doc.y;
+    if (options.header || options.highlight) {
+      doc.rect(MARGIN, top, contentWidth(doc), height)
+        .fill(options.header ? COLORS.headerFill : theme.highlightFill);
+    }
+
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      doc.font(font).fontSize(fontSize).fillColor(options.header ? COLORS.muted : COLORS.text)
+        .text(cell, x + padding, top + padding, { width: widths[i] - padding * 2, align: columns[i].align || 'left' });
+      x += widths[i];
+    });
+
+    doc.moveTo(MARGIN, top + height).lineTo(MARGIN + contentWidth(doc), top + height)
+      .lineWidth(0.5).strokeColor(COLORS.border).stroke();
+    doc.x = MARGIN;
+    doc.y = top + height;
+  };
+
+  const headers = columns.map(column => pdfText(column.header));
+  ensureSpace(doc, rowHeight(headers, BOLD_FONT) * 2);
+  drawRow(headers, { header: true });
+
+  rows.forEach(row => {
+    const cells = row.cells.map(pdfText);
+    if (ensureSpace(doc, rowHeight(cells, row.highlight ? BOLD_FONT : FONT))) {
+      drawRow(headers, { header: true });
+    }
+    drawRow(cells, { highlight: row.highlight });
+  });
+
+  doc.moveDown(1);
+}
+
+/**
+ * Horizontal bar chart of 0-100 values, the brand's bar in the accent color
+ */
+function drawBarChart(doc: PDFDoc, theme: Theme, title: string, bars: ChartBar[]) {
+  const barHeight = 14;
+  const gap = 6;
+  const labelWidth = 150;
+  const valueWidth = 40;
+  const trackWidth = contentWidth(doc) - labelWidth - valueWidth;
+
+  ensureSpace(doc, 30 + Math.min(bars.length, 4) * (barHeight + gap));
+  doc.font(BOLD_FONT).fontSize(10).fillColor(COLORS.text).text(pdfText(title));
+  doc.moveDown(0.5);
+
+  bars.forEach(bar => {
+    ensureSpace(doc, barHeight + gap);
+    const top = doc.y;
+    const value = Math.max(0, Math.min(100, bar.value));
+    doc.font(bar.highlight ? BOLD_FONT : FONT).fontSize(9).fillColor(COLORS.text)
+      .text(pdfText(bar.label), MARGIN, top + 3, { width: labelWidth - 8, ellipsis: true, lineBreak: false });
+    doc.rect(MARGIN + labelWidth, top, trackWidth, barHeight).fill(COLORS.headerFill);
+    if (value > 0) {
+      doc.rect(MARGIN + labelWidth, top, (trackWidth * value) / 100, barHeight)
+        .fill(bar.highlight ? theme.accent : COLORS.bar);
+    }
+    doc.font(FONT).fontSize(9).fillColor(COLORS.text)
+      .text(`${Math.round(value)}%`, MARGIN + labelWidth + trackWidth + 6, top + 3, { width: valueWidth - 6, lineBreak: false });
+    doc.x = MARGIN;
+    doc.y = top + barHeight + gap;
+  });
+
+  doc.moveDown(1);
+}
+
+/**
+ * The template's logo as image data: PNG/JPEG data URLs are decoded, http(s) URLs fetched
+ * from public hosts only. A logo that cannot be loaded is left out rather than failing the report.
+ */
+async function loadLogo(logoUrl: string | undefined): Promise<Buffer | null> {
+  if (!logoUrl) return null;
+  try {
+    const dataUrl = logoUrl.match(/^data:image\/(?:png|jpeg);base64,(.+)$/);
+    if (dataUrl) return Buffer.from(dataUrl[1], 'base64');
+
+    return await fetchPublicImage(logoUrl, { timeoutMs: LOGO_TIMEOUT, maxBytes: MAX_LOGO_BYTES });
+  } catch (error) {
+    console.warn('Report logo skipped:', error);
+    return null;
+  }
+}
+
+function drawCover(
+  doc: PDFDoc,
+  theme: Theme,
+  company: Company,
+  template: ReportTemplate,
+  logo: Buffer | null,
+  date: string,
+  data: ReportData
+) {
+  doc.rect(0, 0, doc.page.width, 8).fill(theme.primary);
+  if (logo) {
+    try {
+      doc.image(logo, MARGIN, 90, { fit: [180, 60] });
+    } catch (error) {
+      console.warn('Report logo skipped:', error);
+    }
+  }
+  doc.x = MARGIN;
+  doc.y = 180;
+  doc.font(BOLD_FONT).fontSize(12).fillColor(theme.primary).text('GEO ANALYSIS REPORT', { characterSpacing: 2 });
+  doc.moveDown(0.5);
+  doc.font(BOLD_FONT).fontSize(34).fillColor(COLORS.text).text(pdfText(company.name || 'Unknown Company'));
+  const industry = reportIndustry(company);
+  if (industry) doc.font(FONT).fontSize(14).fillColor(COLORS.muted).text(pdfText(industry));
+  if (company.url) doc.font(FONT).fontSize(10).fillColor(COLORS.muted).text(pdfText(company.url));
+  doc.moveDown(0.5);
+  doc.font(FONT).fontSize(10).fillColor(COLORS.muted).text(date);
+  doc.moveDown(3);
+
+  metricCards(doc, theme, [
+    { label: 'Visibility Score', value: `${data.visibilityScore}%` },
+    { label: `Overall Score (${data.scoringProfileName})`, value: String(data.overallScore) },
+    { label: 'Market Ranking', value: `#${data.brandRank}` },
+    { label: 'Queries Tested', value: String(data.totalQueries) },
+  ]);
+
+  if (template.branding.agencyName) {
+    doc.moveDown(2);
+    doc.font(FONT).fontSize(11).fillColor(COLORS.muted).text(`Prepared by ${pdfText(template.branding.agencyName)}`);
+  }
+}
+
+function drawTableOfContents(doc: PDFDoc, page: number, toc: TocEntry[]) {
+  doc.switchToPage(page - 1);
+  doc.x = MARGIN;
+  doc.y = MARGIN;
+  doc.font(BOLD_FONT).fontSize(20).fillColor(COLORS.text).text('Table of Contents');
+  doc.moveDown(1);
+
+  const width = contentWidth(doc);
+  toc.forEach(entry => {
+    const top = doc.y;
+    doc.font(FONT).fontSize(12).fillColor(COLORS.text)
+      .text(entry.title, MARGIN, top, { width: width - 40, lineBreak: false, goTo: entry.destination });
+    doc.text(String(entry.page), MARGIN + width - 40, top, { width: 40, align: 'right', lineBreak: false, goTo: entry.destination });
+    doc.moveTo(MARGIN, top + 18).lineTo(MARGIN + width, top + 18).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+    doc.y = top + 26;
+  });
+}
+
+// Footer on every page but the cover; the bottom margin is lifted so it does not start a new page
+function stampPageNumbers(doc: PDFDoc, footerText: string) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start + 1; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - 35;
+    doc.font(FONT).fontSize(8).fillColor(COLORS.muted)
+      .text(pdfText(footerText), MARGIN, y, { width: contentWidth(doc) - 80, ellipsis: true, lineBreak: false })
+      .text(`Page ${i + 1} of ${range.count}`, MARGIN, y, { width: contentWidth(doc), align: 'right', lineBreak: false });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+function drawExecutiveSummary({ doc, data, template, theme, companyName }: SectionContext) {
+  const summaryText = reportSummaryText(template, data);
+  if (summaryText) {
+    summaryText.split(/\n\s*\n/).forEach(text => paragraph(doc, text));
+    doc.moveDown(0.5);
+  }
+  metricCards(doc, theme, [
+    { label: 'Overall Visibility Score', value: `${data.visibilityScore}%` },
+    { label: 'Market Ranking', value: `#${data.brandRank}` },
+    { label: 'Competitors Analyzed', value: String(data.matrixData.length) },
+  ]);
+  subheading(doc, 'Key Findings');
+  paragraph(doc, `${companyName} achieved a ${data.visibilityScore}% visibility score across AI providers, ${
+    data.visibilityScore >= 50 ? 'indicating strong' : data.visibilityScore >= 25 ? 'showing moderate' : 'revealing limited'
+  } brand recognition in AI-powered search results.`);
+  paragraph(doc, `Among ${data.matrixData.length} competitors analyzed, ${companyName} ranks #${data.brandRank} in overall AI visibility, mentioned in ${data.companyMentions} of ${data.totalQueries} responses.`);
+  subheading(doc, 'Strategic Priorities');
+  if (data.visibilityScore < 25) {
+    paragraph(doc, 'Critical priority: low visibility requires immediate attention to content strategy and industry authority building.');
+  }
+  paragraph(doc, `Optimize provider performance: focus on ${data.weakestProvider || 'underperforming'} channels for maximum impact improvement.`);
+  paragraph(doc, "Analyze top-performing competitors' content strategies to identify successful visibility tactics.");
+}
+
+function drawComparisonMatrix({ doc, data, theme }: SectionContext) {
+  const { providers, matrixData, visibilityRanking } = data;
+  paragraph(doc, 'Visibility score of each company per AI provider.', COLORS.muted);
+  const providerShare = 0.55 / (providers.length || 1);
+  drawTable(
+    doc,
+    theme,
+    [
+      { header: 'Company', width: 0.3 },
+      ...providers.map(provider => ({ header: provider, width: providerShare, align: 'right' as const })),
+      { header: 'Average', width: 0.15, align: 'right' },
+    ],
+    visibilityRanking.slice(0, MAX_TABLE_ROWS).map(comp => {
+      const scores = matrixData.find(row => row.competitor === comp.competitor)?.providers || {};
+      return {
+        cells: [
+          comp.isOwn ? `${comp.competitor} (Your Brand)` : comp.competitor,
+          ...providers.map(provider => `${scores[provider]?.visibilityScore ?? 0}%`),
+          `${comp.average}%`,
+        ],
+        highlight: comp.isOwn,
+      };
+    })
+  );
+  drawBarChart(doc, theme, 'Average visibility across providers', visibilityRanking.slice(0, MAX_CHART_BARS).map(comp => ({
+    label: comp.competitor,
+    value: comp.average,
+    highlight: comp.isOwn,
+  })));
+}
+
+function drawPromptsResponses({ doc, data, theme, companyName }: SectionContext) {
+  paragraph(doc, `How often ${companyName} was mentioned in the answers to each prompt.`, COLORS.muted);
+  drawTable(
+    doc,
+    theme,
+    [
+      { header: 'Prompt', width: 0.58 },
+      { header: 'Responses', width: 0.14, align: 'right' },
+      { header: 'Mentions', width: 0.14, align: 'right' },
+      { header: 'Mention Rate', width: 0.14, align: 'right' },
+    ],
+    data.promptsData.map(prompt => ({
+      cells: [prompt.prompt, String(prompt.totalResponses), String(prompt.brandMentions), `${prompt.mentionRate}%`],
+    }))
+  );
+}
+
+function drawProviderRankings({ doc, data, theme }: SectionContext) {
+  data.rankingsData.forEach(ranking => {
+    subheading(doc, `${ranking.provider} Rankings`);
+    drawTable(
+      doc,
+      theme,
+      [
+        { header: 'Rank', width: 0.1, align: 'right' },
+        { header: 'Company', width: 0.4 },
+        { header: 'Visibility', width: 0.17, align: 'right' },
+        { header: 'Share of Voice', width: 0.17, align: 'right' },
+        { header: 'Sentiment', width: 0.16 },
+      ],
+      ranking.competitors.slice(0, 10).map(comp => ({
+        cells: [
+          `#${comp.rank}`,
+          comp.isOwn ? `${comp.name} (Your Brand)` : comp.name,
+          `${Math.round(comp.visibilityScore)}%`,
+          `${Math.round(comp.shareOfVoice)}%`,
+          comp.sentiment,
+        ],
+        highlight: comp.isOwn,
+      }))
+    );
+  });
+}
+
+function drawVisibilityAnalysis({ doc, data, theme, companyName }: SectionContext) {
+  const { providers, visibilityRanking } = data;
+  const ownProviders = data.matrixData.find(comp => comp.isOwn)?.providers || {};
+  metricCards(doc, theme, [
+    { label: 'Brand Mentions', value: String(data.companyMentions) },
+    { label: 'Queries Tested', value: String(data.totalQueries) },
+    { label: 'Competitors Found', value: String(data.matrixData.length) },
+  ]);
+  if (providers.length > 0) {
+    drawBarChart(doc, theme, `${companyName} visibility by provider`, providers.map(provider => ({
+      label: provider,
+      value: ownProviders[provider]?.visibilityScore || 0,
+      highlight: true,
+    })));
+  }
+  subheading(doc, 'Competitive Visibility Comparison');
+  const topScore = visibilityRanking[0]?.average ?? 0;
+  drawTable(
+    doc,
+    theme,
+    [
+      { header: 'Company', width: 0.4 },
+      { header: 'Visibility Score', width: 0.2, align: 'right' },
+      { header: 'Market Position', width: 0.2, align: 'right' },
+      { header: 'Performance Gap', width: 0.2, align: 'right' },
+    ],
+    visibilityRanking.slice(0, MAX_TABLE_ROWS).map((comp, index) => ({
+      cells: [
+        comp.isOwn ? `${comp.competitor} (Your Brand)` : comp.competitor,
+        `${comp.average}%`,
+        `#${index + 1}`,
+        topScore - comp.average > 0 ? `-${topScore - comp.average}%` : 'Leader',
+      ],
+      highlight: comp.isOwn,
+    }))
+  );
+}
+
+function drawSentimentStance({ doc, data, theme }: SectionContext) {
+  drawTable(
+    doc,
+    theme,
+    [
+      { header: 'Company', width: 0.22 },
+      { header: 'Mentions', width: 0.1, align: 'right' },
+      { header: 'Recommended', width: 0.13, align: 'right' },
+      { header: 'Neutral', width: 0.1, align: 'right' },
+      { header: 'Warned Against', width: 0.11, align: 'right' },
+      { header: 'Compared Unfavorably', width: 0.12, align: 'right' },
+      { header: 'Top Reasons Cited', width: 0.22 },
+    ],
+    data.mentionSummaries.slice(0, MAX_TABLE_ROWS).map(summary => ({
+      cells: [
+        summary.isOwn ? `${summary.company} (Your Brand)` : summary.company,
+        String(summary.mentions),
+        String(summary.stances.recommended),
+        String(summary.stances.neutral),
+        String(summary.stances.warned_against),
+        String(summary.stances.compared_unfavorably),
+        summary.reasons.slice(0, 3).map(reason => `${reason.theme} (${reason.sentiment}, ${reason.count})`).join(', ') || '-',
+      ],
+      highlight: summary.isOwn,
+    }))
+  );
+}
+
+// Gaps and actions from the AI insights, when the analysis has them
+function drawInsightRecommendations(doc: PDFDoc, theme: Theme, insights: ReportInsights) {
+  if (insights.visibilityGaps.length > 0) {
+    subheading(doc, 'Visibility Gaps');
+    drawTable(
+      doc,
+      theme,
+      [
+        { header: 'Competitor', width: 0.22 },
+        { header: 'Gap', width: 0.42 },
+        { header: 'Evidence', width: 0.36 },
+      ],
+      insights.visibilityGaps.map(gap => ({ cells: [gap.competitor, gap.gap, gap.evidence] }))
+    );
+  }
+  if (insights.contentActions.length > 0) subheading(doc, 'Content Actions');
+  insights.contentActions.forEach((action, i) => {
+    subheading(doc, `${i + 1}. ${action.title}`);
+    paragraph(doc, action.description);
+    if (action.competitor) paragraph(doc, `Closes the gap to ${action.competitor}`, COLORS.muted);
+  });
+  paragraph(doc, `Gaps and actions written by ${insights.model} from the figures of this report.`, COLORS.muted);
+}
+
+function drawRecommendations({ doc, data, theme, date }: SectionContext) {
+  if (hasInsightRecommendations(data)) {
+    drawInsightRecommendations(doc, theme, data.insights);
+  } else {
+    REPORT_RECOMMENDATIONS.forEach((recommendation, i) => {
+      subheading(doc, `${i + 1}. ${recommendation.title}`);
+      paragraph(doc, recommendation.text);
+    });
+  }
+  doc.moveDown(2);
+  paragraph(doc, `Analysis based on ${data.totalQueries} queries across ${data.providers.length} AI providers. Generated ${date}.`, COLORS.muted);
+}
+
+const SECTION_RENDERERS: Record<ReportSectionId, (context: SectionContext) => void> = {
+  executive_summary: drawExecutiveSummary,
+  comparison_matrix: drawComparisonMatrix,
+  prompts_responses: drawPromptsResponses,
+  provider_rankings: drawProviderRankings,
+  visibility_analysis: drawVisibilityAnalysis,
+  sentiment_stance: drawSentimentStance,
+  recommendations: drawRecommendations,
+};
+
+/**
+ * Render the GEO report of an analysis as a PDF
+ */
+export async function renderReportPdf(
+  analysis: ReportAnalysis,
+  company: Company,
+  template: ReportTemplate = DEFAULT_REPORT_TEMPLATE
+): Promise<Buffer> {
+  const data = processReportData(analysis, company);
+  const companyName = company.name || 'Unknown Company';
+  const date = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const { branding } = template;
+  const theme: Theme = {
+    primary: branding.primaryColor,
+    accent: branding.accentColor,
+    highlightFill: tint(branding.accentColor, 0.12),
+  };
+  const logo = await loadLogo(branding.logoUrl);
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `${pdfText(companyName)} - GEO Analysis Report`,
+      Subject: 'AI visibility analysis',
+      ...(branding.agencyName && { Author: pdfText(branding.agencyName) }),
+    },
+  });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  drawCover(doc, theme, company, template, logo, date, data);
+  // Filled in once the section pages are known
+  doc.addPage();
+  const tocPage = currentPage(doc);
+  const toc: TocEntry[] = [];
+
+  reportSections(template, data).forEach(section => {
+    startSection(doc, theme, toc, section.title);
+    SECTION_RENDERERS[section.id]({ doc, data, template, theme, companyName, date });
+  });
+
+  drawTableOfContents(doc, tocPage, toc);
+  stampPageNumbers(doc, branding.footerText || `${companyName} - GEO Analysis - ${date}`);
+  doc.end();
+  return done;
+}
@@ -0,0 +1,27 @@
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { userSettings } from './db/schema';
+import { ReportTemplate } from './types';
+import { DEFAULT_REPORT_TEMPLATE, parseReportTemplate } from './report-template';
+
+/**
+ * Load the user's saved report template, or the default one when none is saved
+ * (or the saved one no longer validates)
+ */
+export async function getReportTemplate(userId: string): Promise<ReportTemplate> {
+  const settings = await db.query.userSettings.findFirst({
+    where: eq(userSettings.userId, userId),
+  });
+
+  return parseReportTemplate(settings?.reportTemplate).template || DEFAULT_REPORT_TEMPLATE;
+}
+
+export async function saveReportTemplate(userId: string, template: ReportTemplate): Promise<void> {
+  await db
+    .insert(userSettings)
+    .values({ userId, reportTemplate: template })
+    .onConflictDoUpdate({
+      target: userSettings.userId,
+      set: { reportTemplate: template, updatedAt: new Date() },
+    });
+}
@@ -0,0 +1,75 @@
+/**
+ * Report input sanitizing
+ * Replaces Baltic letters, smart quotes and dashes that break ByteString conversion
+ * (e.g. in the report file name header), keeping everything else including emojis.
+ */
+
+// Function to sanitize only problematic characters while keeping emojis
+export function sanitizeForByteString(text: string): string {
+  if (!text || typeof text !== 'string') return '';
+  
+  // Only replace Lithuanian and other Baltic special characters
+  const lithuanianReplacements: Record<string, string> = {
+    // Lithuanian characters
+    'Ą': 'A', 'ą': 'a',
+    'Č': 'C', 'č': 'c',
+    'Ę': 'E', 'ę': 'e',
+    'Ė': 'E', 'ė': 'e',
+    'Į': 'I', 'į': 'i',
+    'Š': 'S', 'š': 's',
+    'Ų': 'U', 'ų': 'u',
+    'Ū': 'U', 'ū': 'u',
+    'Ž': 'Z', 'ž': 'z',
+    
+    // Latvian characters
+    'Ā': 'A', 'ā': 'a',
+    'Ē': 'E', 'ē': 'e',
+    'Ģ': 'G', 'ģ': 'g',
+    'Ī': 'I', 'ī': 'i',
+    'Ķ': 'K', 'ķ': 'k',
+    'Ļ': 'L', 'ļ': 'l',
+    'Ņ': 'N', 'ņ': 'n',
+    'Ō': 'O', 'ō': 'o',
+    
+    // Estonian characters
+    'Õ': 'O', 'õ': 'o',
+    'Ä': 'A', 'ä': 'a',
+    'Ö': 'O', 'ö': 'o',
+    'Ü': 'U', 'ü': 'u',
+    
+    // Common problematic quotes and dashes (keep emojis intact)
+    '\u201C': '"', '\u201D': '"', // Smart quotes
+    '\u2018': "'", '\u2019': "'", // Smart single quotes
+    '\u2013': '-', '\u2014': '-', // En dash, Em dash
+    '\u2026': '...', // Ellipsis
+  };
+  
+  // Replace only the specified characters, keep everything else including emojis
+  let result = text;
+  for (const [lithuanian, english] of Object.entries(lithuanianReplacements)) {
+    result = result.replace(new RegExp(lithuanian, 'g'), english);
+  }
+  
+  return result;
+}
+
+// Sanitize objects recursively
+export function sanitizeObject<T>(obj: T): T {
+  if (typeof obj === 'string') {
+    return sanitizeForByteString(obj) as T;
+  }
+  
+  if (Array.isArray(obj)) {
+    return obj.map(sanitizeObject) as T;
+  }
+  
+  if (obj && typeof obj === 'object') {
+    const sanitized: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(obj)) {
+      sanitized[key] = sanitizeObject(value);
+    }
+    return sanitized as T;
+  }
+  
+  return obj;
+}
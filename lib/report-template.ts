@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { ReportSectionId, ReportTemplate } from './types';
+
+// Every section a report can contain, in the default order
+export const REPORT_SECTIONS: { id: ReportSectionId; title: string; description: string }[] = [
+  { id: 'executive_summary', title: 'Executive Summary', description: 'Key findings and strategic priorities' },
+  { id: 'comparison_matrix', title: 'Comparison Matrix', description: 'Cross-provider visibility performance' },
+  { id: 'prompts_responses', title: 'Prompts & Responses', description: 'Query analysis and brand mention rates' },
+  { id: 'provider_rankings', title: 'Provider Rankings', description: 'Competitive positioning by AI provider' },
+  { id: 'visibility_analysis', title: 'Visibility Analysis', description: 'Market position and performance gaps' },
+  { id: 'sentiment_stance', title: 'Sentiment & Stance', description: 'How each company is talked about' },
+  { id: 'recommendations', title: 'Strategic Recommendations', description: 'Actionable next steps and optimization' },
+];
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  sections: REPORT_SECTIONS.map(section => section.id),
+  branding: {
+    primaryColor: '#ea580c',
+    accentColor: '#f97316',
+  },
+};
+
+const SECTION_IDS = REPORT_SECTIONS.map(section => section.id) as [ReportSectionId, ...ReportSectionId[]];
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'must be a hex color like #ea580c');
+// Logos are drawn into the PDF, which only embeds PNG and JPEG
+const logoUrl = z.string().trim().max(200_000).refine(
+  value => /^https?:\/\/\S+$/i.test(value) || /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/.test(value),
+  'must be an http(s) URL or a PNG/JPEG data URL'
+);
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+const ReportTemplateSchema = z.object({
+  sections: z.array(z.enum(SECTION_IDS)).min(1, 'pick at least one section')
+    .refine(sections => new Set(sections).size === sections.length, 'sections must not repeat'),
+  branding: z.object({
+    agencyName: optionalText(100),
+    logoUrl: logoUrl.optional().or(z.literal('')),
+    primaryColor: hexColor,
+    accentColor: hexColor,
+    footerText: optionalText(200),
+  }),
+  executiveSummary: optionalText(5000),
+});
+
+/**
+ * Validate a report template from a request body or a saved row. Empty texts are dropped.
+ */
+export function parseReportTemplate(value: unknown): { template?: ReportTemplate; error?: string } {
+  const result = ReportTemplateSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join('.') || 'template'}: ${issue.message}` };
+  }
+
+  const { branding, executiveSummary, sections } = result.data;
+  return {
+    template: {
+      sections,
+      branding: {
+        primaryColor: branding.primaryColor,
+        accentColor: branding.accentColor,
+        ...(branding.agencyName && { agencyName: branding.agencyName }),
+        ...(branding.logoUrl && { logoUrl: branding.logoUrl }),
+        ...(branding.footerText && { footerText: branding.footerText }),
+      },
+      ...(executiveSummary && { executiveSummary }),
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { AIResponse, CompanyRanking, ScoringProfile, TrackedCompany } from './types';
+import { AnalysisResult } from './analyze-common';
+import { analyzeCompetitors, analyzeCompetitorsByProvider } from './ai-utils';
+import { detectMultipleBrands } from './brand-detection-utils';
+import { getBrandDetectionOptions } from './brand-detection-config';
+import { annotateSources } from './web-search-utils';
+import { aggregateCitedSources, buildCitations } from './citation-utils';
+import { calculateBrandScores } from './scoring';
+import { classifyMentions } from './mention-analysis';
+
+export interface RescoreRequest {
+  competitors: TrackedCompany[];
+  brandAliases?: string[];
+  scoringProfileId?: string;
+}
+
+const aliasList = z.array(z.string().trim().min(1).max(100)).max(20);
+
+const RescoreRequestSchema = z.object({
+  competitors: z.array(z.object({
+    name: z.string().trim().min(1).max(100),
+    aliases: aliasList.optional(),
+  })).min(1).max(50),
+  brandAliases: aliasList.optional(),
+  scoringProfileId: z.string().optional(),
+});
+
+/**
+ * Validate a rescore request body. Returns the request or an error message.
+ */
+export function parseRescoreRequest(value: unknown): { request?: RescoreRequest; error?: string } {
+  const result = RescoreRequestSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join('.') || 'request'}: ${issue.message}` };
+  }
+  return { request: result.data };
+}
+
+/**
+ * Run brand detection over a stored response again for a new set of tracked companies.
+ * Ranking entries are renamed to the tracked company they refer to (aliases included);
+ * positions only come from the stored rankings, so companies the text merely names
+ * count as mentioned without being ranked.
+ */
+export function redetectResponse(response: AIResponse, brand: TrackedCompany, competitors: TrackedCompany[]): AIResponse {
+  const tracked = [brand, ...competitors];
+  const trackedNames = tracked.map(c => c.name);
+  const optionsByName = new Map(tracked.map(c => [c.name, getBrandDetectionOptions(c.name, c)]));
+  const detectionOptions = (name: string) => optionsByName.get(name)!;
+  const trackedName = (company: string) => {
+    const detections = detectMultipleBrands(company, trackedNames, detectionOptions);
+    return trackedNames.find(name => detections.get(name)!.mentioned) ?? company;
+  };
+
+  const rankings: CompanyRanking[] = [];
+  (response.rankings || []).forEach(ranking => {
+    const company = trackedName(ranking.company);
+    if (!rankings.some(r => r.company === company)) {
+      rankings.push({ ...ranking, company });
+    }
+  });
+
+  const detections = detectMultipleBrands(response.response, trackedNames, detectionOptions);
+  const isMentioned = (name: string) => detections.get(name)!.mentioned || rankings.some(r => r.company === name);
+  const competitorNames = competitors.map(c => c.name);
+  const brandRanking = rankings.find(r => r.company === brand.name);
+  const brandMentioned = isMentioned(brand.name);
+  const redetected: AIResponse = {
+    ...response,
+    rankings,
+    brandMentioned,
+    brandPosition: brandRanking?.position,
+    sentiment: brandRanking?.sentiment ?? (brandMentioned ? response.sentiment : 'neutral'),
+    competitors: competitorNames.filter(isMentioned),
+    sources: response.sources ? annotateSources(response.sources, brand.name, competitorNames) : undefined,
+    mentions: classifyMentions(response.response, brand, competitors),
+  };
+  return { ...redetected, citations: buildCitations(redetected, brand.name) };
+}
+
+/**
+ * Score a saved analysis again from its stored responses, without calling any provider.
+ * Used when competitors or aliases change after a run.
+ */
+export async function rescoreAnalysis(
+  analysis: AnalysisResult,
+  { competitors, brandAliases }: RescoreRequest,
+  scoringProfile: ScoringProfile
+): Promise<AnalysisResult> {
+  const { company } = analysis;
+  const competitorNames = competitors.map(c => c.name).filter(name => name !== company.name);
+  // Aliases sent with the request add to the ones the analysis ran with
+  const brand: TrackedCompany = {
+    ...analysis.brandTerms,
+    name: company.name,
+    aliases: [...(analysis.brandTerms?.aliases || []), ...(brandAliases || [])],
+  };
+  const responses = analysis.responses.map(response => redetectResponse(response, brand, competitors));
+  // Provider labels in the order they first answered, as in the original run
+  const providers = Array.from(new Set(responses.map(r => r.provider)));
+
+  const competitorRankings = await analyzeCompetitors(company, responses, competitorNames, scoringProfile);
+  const { providerRankings, providerComparison } = await analyzeCompetitorsByProvider(
+    company,
+    responses,
+    competitorNames,
+    providers,
+    scoringProfile
+  );
+
+  return {
+    ...analysis,
+    knownCompetitors: competitorNames,
+    responses,
+    competitors: competitorRankings,
+    providerRankings,
+    providerComparison,
+    scores: calculateBrandScores(responses, company.name, competitorRankings, scoringProfile),
+    citedSources: aggregateCitedSources(responses),
+    scoringProfile,
+    // Written from the old figures
+    insights: undefined,
+  };
+}
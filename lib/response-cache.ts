@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import { and, eq, gt, lte } from 'drizzle-orm';
+import { db } from './db';
+import { responseCache } from './db/schema';
+import { RESPONSE_CACHE_TTL } from '@/config/constants';
+
+export interface ResponseCacheKey {
+  prompt: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  variant?: string; // Anything else that changes the answer, e.g. web search or the sample seed
+}
+
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function hashCacheKey(key: ResponseCacheKey): string {
+  return createHash('sha256')
+    .update(JSON.stringify([normalizePrompt(key.prompt), key.provider, key.model, key.temperature, key.variant ?? '']))
+    .digest('hex');
+}
+
+export async function getCachedResponse<T>(key: ResponseCacheKey): Promise<T | undefined> {
+  const entry = await db.query.responseCache.findFirst({
+    where: and(
+      eq(responseCache.cacheKey, hashCacheKey(key)),
+      gt(responseCache.expiresAt, new Date())
+    ),
+  });
+  return entry?.value as T | undefined;
+}
+
+export async function setCachedResponse<T>(key: ResponseCacheKey, value: T, ttlMs = RESPONSE_CACHE_TTL): Promise<void> {
+  const expiresAt = new Date(Date.now() + ttlMs);
+  await db.insert(responseCache)
+    .values({
+      cacheKey: hashCacheKey(key),
+      provider: key.provider,
+      model: key.model,
+      prompt: normalizePrompt(key.prompt),
+      temperature: key.temperature,
+      value,
+      expiresAt,
+    })
+    .onConflictDoUpdate({
+      target: responseCache.cacheKey,
+      set: { value, createdAt: new Date(), expiresAt },
+    });
+}
+
+/**
+ * Return the cached value for the key, or compute and cache it.
+ * forceRefresh skips the lookup but still stores the fresh value.
+ * The cache is best effort: when the database is unavailable the value is just computed.
+ */
+export async function withResponseCache<T>(
+  key: ResponseCacheKey,
+  options: { forceRefresh?: boolean },
+  compute: () => Promise<T>
+): Promise<{ value: T; cached: boolean }> {
+  if (!options.forceRefresh) {
+    try {
+      const cached = await getCachedResponse<T>(key);
+      if (cached !== undefined) {
+        return { value: cached, cached: true };
+      }
+    } catch (error) {
+      console.warn('Response cache lookup failed:', (error as Error).message);
+    }
+  }
+
+  const value = await compute();
+  try {
+    await setCachedResponse(key, value);
+  } catch (error) {
+    console.warn('Failed to cache response:', (error as Error).message);
+  }
+  return { value, cached: false };
+}
+
+/**
+ * Delete expired entries; returns how many were removed
+ */
+export async function purgeExpiredResponses(): Promise<number> {
+  const deleted = await db.delete(responseCache)
+    .where(lte(responseCache.expiresAt, new Date()))
+    .returning({ cacheKey: responseCache.cacheKey });
+  return deleted.length;
+}
@@ -0,0 +1,51 @@
+import { MetricStats } from './types';
+
+// Two-sided 95% Student's t critical values by degrees of freedom (index 0 = 1 df)
+const T_CRITICAL_95 = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228];
+const Z_CRITICAL_95 = 1.96;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Mean, sample variance and 95% confidence interval of the mean.
+ * Uses the t distribution because analyses only take a handful of samples;
+ * the interval is clipped to the metric's range (e.g. 0-100 for percentages).
+ */
+export function summarizeSamples(values: number[], range: [number, number] = [-Infinity, Infinity]): MetricStats {
+  const n = values.length;
+  if (n === 0) {
+    return { mean: 0, variance: 0, ciLow: 0, ciHigh: 0, samples: 0 };
+  }
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  if (n === 1) {
+    return { mean: round(mean), variance: 0, ciLow: round(mean), ciHigh: round(mean), samples: 1 };
+  }
+
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const critical = T_CRITICAL_95[n - 2] ?? Z_CRITICAL_95;
+  const margin = critical * Math.sqrt(variance / n);
+
+  return {
+    mean: round(mean),
+    variance: round(variance),
+    ciLow: round(Math.max(range[0], mean - margin)),
+    ciHigh: round(Math.min(range[1], mean + margin)),
+    samples: n,
+  };
+}
+
+/**
+ * Split responses into one group per sample index, e.g. every prompt/provider
+ * answer from the second repeated call. Responses without an index count as sample 0.
+ */
+export function groupBySample<T extends { sampleIndex?: number }>(responses: T[]): T[][] {
+  const groups = new Map<number, T[]>();
+  responses.forEach(response => {
+    const index = response.sampleIndex ?? 0;
+    groups.set(index, [...(groups.get(index) || []), response]);
+  });
+  return Array.from(groups.keys()).sort((a, b) => a - b).map(index => groups.get(index)!);
+}
@@ -0,0 +1,176 @@
+import { and, eq, lte } from 'drizzle-orm';
+import { db, pool } from './db';
+import { brandAnalyses, trackedProjects, TrackedProject, ScheduleCadence, BrandAnalysis } from './db/schema';
+import { AnalysisResult, performAnalysis } from './analyze-common';
+import { storeAnalysisDetails } from './analysis-storage';
+import { getDefaultModelSelections } from './model-preferences';
+import { resolveScoringProfile } from './scoring-preferences';
+import { getBrandTerms } from './brand-terms';
+import { sendEmail } from './email';
+import { escapeHtml } from './report-html';
+import { renderReportPdf } from './report-pdf';
+import { getReportTemplate } from './report-preferences';
+import { sanitizeForByteString, sanitizeObject } from './report-sanitize';
+import { Company } from './types';
+import { ONE_DAY, ONE_WEEK } from '@/config/constants';
+
+export interface ScheduledRunResult {
+  projectId: string;
+  analysisId?: string;
+  error?: string;
+}
+
+const CADENCE_INTERVALS: Record<ScheduleCadence, number> = {
+  daily: ONE_DAY,
+  weekly: ONE_WEEK,
+};
+
+/**
+ * Calculate when a project with the given cadence should run next
+ */
+export function getNextRunAt(cadence: ScheduleCadence, from: Date = new Date()): Date {
+  return new Date(from.getTime() + CADENCE_INTERVALS[cadence]);
+}
+
+/**
+ * Run the analysis for a single tracked project and store it as a new brand_analyses row.
+ * Progress events are discarded since nobody is listening on a stream.
+ * The owner's default provider/model selection, scoring profile and brand terms are used when saved.
+ */
+export async function runTrackedProject(project: TrackedProject): Promise<BrandAnalysis> {
+  const company = project.company as Company;
+  const competitorNames = (project.competitors as string[] | null) || [];
+  const prompts = (project.prompts as string[] | null) || [];
+  const modelSelections = await getDefaultModelSelections(project.userId);
+  const scoringProfile = await resolveScoringProfile(project.userId);
+  const brandTerms = await getBrandTerms(project.userId, project.url);
+
+  const result = await performAnalysis({
+    company,
+    customPrompts: prompts.length > 0 ? prompts : undefined,
+    userSelectedCompetitors: competitorNames.length > 0
+      ? competitorNames.map(name => ({ name }))
+      : undefined,
+    useWebSearch: project.useWebSearch ?? false,
+    modelSelections,
+    scoringProfile,
+    brandTerms,
+    forceRefresh: true, // Trend points must reflect what the providers answer today
+    sendEvent: async () => {},
+  });
+
+  return db.transaction(async (tx) => {
+    const [analysis] = await tx.insert(brandAnalyses).values({
+      userId: project.userId,
+      url: project.url,
+      companyName: project.companyName,
+      industry: project.industry,
+      analysisData: result,
+      competitors: result.knownCompetitors.map(name => ({ name })),
+      prompts: result.prompts,
+      creditsUsed: 0,
+    }).returning();
+
+    await storeAnalysisDetails(analysis.id, result, tx);
+
+    return analysis;
+  });
+}
+
+/**
+ * Email the owner of a tracked project the PDF report of its latest run, rendered with
+ * their report template. Owners without an email address are skipped.
+ */
+async function emailScheduledReport(project: TrackedProject, analysis: BrandAnalysis): Promise<void> {
+  // Users live in the auth tables, which are not part of the Drizzle schema
+  const { rows } = await pool.query<{ email: string | null }>('SELECT email FROM "user" WHERE id = $1', [project.userId]);
+  const email = rows[0]?.email;
+  if (!email) return;
+
+  const result = analysis.analysisData as AnalysisResult;
+  const company: Company = sanitizeObject(result.company);
+  const template = sanitizeObject(await getReportTemplate(project.userId));
+  const pdf = await renderReportPdf(sanitizeObject(result), company, template);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  await sendEmail({
+    to: email,
+    subject: `${project.companyName} - scheduled GEO analysis`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your ${project.cadence} analysis of ${escapeHtml(project.companyName)} is ready</h2>
+        <p style="color: #666; line-height: 1.6;">
+          The full report is attached as a PDF. Open the brand monitor to compare it with earlier runs.
+        </p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${appUrl}/brand-monitor" style="background-color: #f97316; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+            Open Brand Monitor
+          </a>
+        </div>
+      </div>
+    `,
+    attachments: [{
+      filename: `${sanitizeForByteString(company.name || 'Company')}-GEO-Analysis-Report.pdf`,
+      content: pdf,
+    }],
+  });
+}
+
+/**
+ * Find every enabled project whose next run is due and run them one at a time.
+ * Each project is claimed by moving nextRunAt forward before the analysis starts,
+ * so overlapping workers never pick up the same project twice.
+ */
+export async function runDueTrackedProjects(now: Date = new Date()): Promise<ScheduledRunResult[]> {
+  const dueProjects = await db.query.trackedProjects.findMany({
+    where: and(
+      eq(trackedProjects.enabled, true),
+      lte(trackedProjects.nextRunAt, now)
+    ),
+  });
+
+  const results: ScheduledRunResult[] = [];
+
+  for (const project of dueProjects) {
+    const [claimed] = await db.update(trackedProjects)
+      .set({ nextRunAt: getNextRunAt(project.cadence, now) })
+      .where(and(
+        eq(trackedProjects.id, project.id),
+        eq(trackedProjects.nextRunAt, project.nextRunAt)
+      ))
+      .returning();
+
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      console.log(`[Scheduler] Running tracked project ${project.id} (${project.companyName})`);
+      const analysis = await runTrackedProject(claimed);
+
+      await db.update(trackedProjects)
+        .set({ lastRunAt: new Date(), lastAnalysisId: analysis.id, lastError: null })
+        .where(eq(trackedProjects.id, project.id));
+
+      results.push({ projectId: project.id, analysisId: analysis.id });
+
+      // The run itself succeeded; a report that cannot be sent does not fail it
+      try {
+        await emailScheduledReport(claimed, analysis);
+      } catch (emailError) {
+        console.error(`[Scheduler] Failed to email the report of tracked project ${project.id}:`, emailError);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Analysis failed';
+      console.error(`[Scheduler] Tracked project ${project.id} failed:`, error);
+
+      await db.update(trackedProjects)
+        .set({ lastRunAt: new Date(), lastError: message })
+        .where(eq(trackedProjects.id, project.id));
+
+      results.push({ projectId: project.id, error: message });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,65 @@
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { userSettings } from './db/schema';
+import { ScoringProfile } from './types';
+import { DEFAULT_SCORING_PROFILE, findScoringProfile, parseScoringProfile } from './scoring';
+
+export interface ScoringPreferences {
+  savedProfiles: ScoringProfile[];
+  defaultProfileId: string;
+}
+
+/**
+ * Load the user's saved scoring profiles and default profile id.
+ * Saved entries that no longer validate are dropped.
+ */
+export async function getScoringPreferences(userId: string): Promise<ScoringPreferences> {
+  const settings = await db.query.userSettings.findFirst({
+    where: eq(userSettings.userId, userId),
+  });
+
+  const saved = Array.isArray(settings?.scoringProfiles) ? settings.scoringProfiles : [];
+  const savedProfiles = saved
+    .map(entry => parseScoringProfile(entry).profile)
+    .filter((profile): profile is ScoringProfile => !!profile);
+
+  const defaultProfileId = findScoringProfile(settings?.scoringProfileId, savedProfiles)?.id
+    || DEFAULT_SCORING_PROFILE.id;
+
+  return { savedProfiles, defaultProfileId };
+}
+
+/**
+ * Save the user's custom profiles and, optionally, a new default profile id
+ */
+export async function saveScoringPreferences(
+  userId: string,
+  savedProfiles: ScoringProfile[],
+  defaultProfileId?: string
+): Promise<void> {
+  const values = {
+    scoringProfiles: savedProfiles,
+    ...(defaultProfileId !== undefined && { scoringProfileId: defaultProfileId }),
+  };
+
+  await db
+    .insert(userSettings)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({
+      target: userSettings.userId,
+      set: { ...values, updatedAt: new Date() },
+    });
+}
+
+/**
+ * Resolve the profile for an analysis: the requested id if it exists,
+ * otherwise the user's default, otherwise the built-in default
+ */
+export async function resolveScoringProfile(userId: string | undefined, profileId?: string): Promise<ScoringProfile | undefined> {
+  if (!userId) {
+    return profileId ? findScoringProfile(profileId) : DEFAULT_SCORING_PROFILE;
+  }
+
+  const { savedProfiles, defaultProfileId } = await getScoringPreferences(userId);
+  return findScoringProfile(profileId || defaultProfileId, savedProfiles);
+}
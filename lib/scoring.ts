@@ -0,0 +1,203 @@
+/**
+ * Brand scoring
+ * Every score shown in the UI tabs and the HTML report is computed here, from a
+ * ScoringProfile. The formulas, for metrics on a 0-100 scale:
+ *
+ *   visibility     = responses mentioning the company / all responses × 100
+ *   share of voice = mentions of the company / mentions of all tracked companies × 100
+ *   sentiment      = mean of sentimentScores[s] over the company's mentions (neutral when none)
+ *   position score = positionDecay(average ranked position), 0 beyond maxPosition
+ *                      linear:      100 × (maxPosition + 1 − p) / maxPosition
+ *                      exponential: 100 × 0.5 ^ ((p − 1) / halfLife)
+ *                      reciprocal:  100 / p
+ *   overall        = Σ weight × metric / Σ weights
+ */
+
+import { z } from 'zod';
+import { AIResponse, BrandScores, CompetitorRanking, ScoringProfile } from './types';
+import { MAX_SCORED_POSITION, SCORING_WEIGHTS, SENTIMENT_SCORES } from '@/config/constants';
+
+type Sentiment = 'positive' | 'neutral' | 'negative';
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 'balanced',
+  name: 'Balanced',
+  description: 'Visibility and share of voice first, with sentiment and position as tie-breakers',
+  weights: {
+    visibility: SCORING_WEIGHTS.VISIBILITY,
+    sentiment: SCORING_WEIGHTS.SENTIMENT,
+    shareOfVoice: SCORING_WEIGHTS.SHARE_OF_VOICE,
+    position: SCORING_WEIGHTS.POSITION,
+  },
+  positionDecay: { curve: 'linear', maxPosition: MAX_SCORED_POSITION },
+  sentimentScores: {
+    positive: SENTIMENT_SCORES.POSITIVE,
+    neutral: SENTIMENT_SCORES.NEUTRAL,
+    negative: SENTIMENT_SCORES.NEGATIVE,
+  },
+  builtIn: true,
+};
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    id: 'top-rank',
+    name: 'Top Rank',
+    description: 'Rewards being ranked near the top; each two places down halves the position score',
+    weights: { visibility: 0.2, sentiment: 0.1, shareOfVoice: 0.2, position: 0.5 },
+    positionDecay: { curve: 'exponential', maxPosition: MAX_SCORED_POSITION, halfLife: 2 },
+    sentimentScores: DEFAULT_SCORING_PROFILE.sentimentScores,
+    builtIn: true,
+  },
+  {
+    id: 'reputation',
+    name: 'Reputation',
+    description: 'Sentiment-led; negative mentions pull the score down harder',
+    weights: { visibility: 0.2, sentiment: 0.5, shareOfVoice: 0.2, position: 0.1 },
+    positionDecay: { curve: 'reciprocal', maxPosition: MAX_SCORED_POSITION },
+    sentimentScores: { positive: 100, neutral: 40, negative: 0 },
+    builtIn: true,
+  },
+];
+
+const scoreValue = z.number().min(0).max(100);
+
+const ScoringProfileSchema = z.object({
+  id: z.string().min(1).max(64).regex(/^[a-z0-9-]+$/, 'id may only contain lowercase letters, numbers and dashes'),
+  name: z.string().min(1).max(80),
+  description: z.string().max(200).optional(),
+  weights: z.object({
+    visibility: z.number().min(0),
+    sentiment: z.number().min(0),
+    shareOfVoice: z.number().min(0),
+    position: z.number().min(0),
+  }).refine(w => w.visibility + w.sentiment + w.shareOfVoice + w.position > 0, 'At least one weight must be positive'),
+  positionDecay: z.object({
+    curve: z.enum(['linear', 'exponential', 'reciprocal']),
+    maxPosition: z.number().int().min(1).max(50),
+    halfLife: z.number().positive().optional(),
+  }),
+  sentimentScores: z.object({
+    positive: scoreValue,
+    neutral: scoreValue,
+    negative: scoreValue,
+  }),
+});
+
+/**
+ * Validate a user-defined profile. Returns the profile or an error message.
+ */
+export function parseScoringProfile(value: unknown): { profile?: ScoringProfile; error?: string } {
+  const result = ScoringProfileSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join('.') || 'profile'}: ${issue.message}` };
+  }
+  if (BUILT_IN_SCORING_PROFILES.some(p => p.id === result.data.id)) {
+    return { error: `id: "${result.data.id}" is reserved for a built-in profile` };
+  }
+  return { profile: { ...result.data, builtIn: false } };
+}
+
+/**
+ * Find a profile by id among the built-in and the user's saved profiles
+ */
+export function findScoringProfile(id: string | undefined | null, savedProfiles: ScoringProfile[] = []): ScoringProfile | undefined {
+  if (!id) return undefined;
+  return [...BUILT_IN_SCORING_PROFILES, ...savedProfiles].find(p => p.id === id);
+}
+
+export function sentimentToScore(sentiment: Sentiment, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): number {
+  return profile.sentimentScores[sentiment];
+}
+
+/**
+ * Mean sentiment score of a company's mentions; neutral when it was never mentioned
+ */
+export function calculateSentimentScore(sentiments: Sentiment[], profile: ScoringProfile = DEFAULT_SCORING_PROFILE): number {
+  if (sentiments.length === 0) return profile.sentimentScores.neutral;
+
+  const sum = sentiments.reduce((acc, s) => acc + sentimentToScore(s, profile), 0);
+  return Math.round(sum / sentiments.length);
+}
+
+/**
+ * Map an average ranked position (1 = top) to a 0-100 score using the profile's decay curve
+ */
+export function positionToScore(averagePosition: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): number {
+  const { curve, maxPosition, halfLife = 2 } = profile.positionDecay;
+  if (!Number.isFinite(averagePosition) || averagePosition < 1 || averagePosition > maxPosition) {
+    return 0;
+  }
+
+  switch (curve) {
+    case 'exponential':
+      return 100 * Math.pow(0.5, (averagePosition - 1) / halfLife);
+    case 'reciprocal':
+      return 100 / averagePosition;
+    case 'linear':
+    default:
+      return 100 * (maxPosition + 1 - averagePosition) / maxPosition;
+  }
+}
+
+/**
+ * Weighted overall score; weights are normalised so they need not add up to 1
+ */
+export function calculateOverallScore(
+  metrics: { visibilityScore: number; sentimentScore: number; shareOfVoice: number; averagePosition: number },
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number {
+  const { weights } = profile;
+  const totalWeight = weights.visibility + weights.sentiment + weights.shareOfVoice + weights.position;
+  if (totalWeight <= 0) return 0;
+
+  const weighted =
+    metrics.visibilityScore * weights.visibility +
+    metrics.sentimentScore * weights.sentiment +
+    metrics.shareOfVoice * weights.shareOfVoice +
+    positionToScore(metrics.averagePosition, profile) * weights.position;
+
+  return weighted / totalWeight;
+}
+
+/**
+ * Headline scores of the analysed brand from its entry in the competitor rankings
+ */
+export function calculateBrandScores(
+  responses: AIResponse[],
+  brandName: string,
+  competitors: CompetitorRanking[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): BrandScores {
+  const brandRanking = competitors.find(c => c.isOwn) || competitors.find(c => c.name === brandName);
+
+  if (responses.length === 0 || !brandRanking) {
+    return {
+      visibilityScore: 0,
+      sentimentScore: 0,
+      shareOfVoice: 0,
+      overallScore: 0,
+      averagePosition: 0,
+    };
+  }
+
+  const overallScore = calculateOverallScore(brandRanking, profile);
+
+  return {
+    visibilityScore: Math.round(brandRanking.visibilityScore * 10) / 10,
+    sentimentScore: Math.round(brandRanking.sentimentScore * 10) / 10,
+    shareOfVoice: Math.round(brandRanking.shareOfVoice * 10) / 10,
+    overallScore: Math.round(overallScore * 10) / 10,
+    averagePosition: Math.round(brandRanking.averagePosition * 10) / 10,
+    stats: brandRanking.stats,
+  };
+}
+
+/**
+ * Rank of the analysed brand by visibility among all tracked companies (1 = top)
+ */
+export function getBrandRank(competitors: CompetitorRanking[]): number {
+  const sorted = [...competitors].sort((a, b) => b.visibilityScore - a.visibilityScore);
+  return sorted.findIndex(c => c.isOwn) + 1;
+}
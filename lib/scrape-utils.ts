@@ -3,10 +3,35 @@ import { z } from 'zod';
 import { Company } from './types';
 import FirecrawlApp from '@mendable/firecrawl-js';
 import { getConfiguredProviders, getProviderModel } from './provider-config';
+import { isMockModeEnabled } from './mock-provider';
+import { getMockFixtureForUrl } from './mock-fixtures';
 
-const firecrawl = new FirecrawlApp({
-  apiKey: process.env.FIRECRAWL_API_KEY,
-});
+let firecrawl: FirecrawlApp | null = null;
+
+// Created on first use so mock mode never needs a Firecrawl API key
+function getFirecrawl(): FirecrawlApp {
+  if (!firecrawl) {
+    firecrawl = new FirecrawlApp({
+      apiKey: process.env.FIRECRAWL_API_KEY,
+    });
+  }
+  return firecrawl;
+}
+
+async function scrapeMarkdown(url: string, maxAge: number) {
+  if (isMockModeEnabled()) {
+    return { markdown: getMockFixtureForUrl(url).content, metadata: undefined };
+  }
+
+  const response = await getFirecrawl().scrapeUrl(url, {
+    formats: ['markdown'],
+    maxAge,
+  });
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+  return { markdown: response.markdown, metadata: response.metadata };
+}
 
 const CompanyInfoSchema = z.object({
   name: z.string(),
@@ -30,15 +55,7 @@ export async function scrapeCompanyInfo(url: string, maxAge?: number): Promise<C
     
     // For demo purposes, we'll use a simplified approach
     // In production, you'd want to use a proper scraping service like Firecrawl
-    const response = await firecrawl.scrapeUrl(normalizedUrl, {
-      formats: ['markdown'],
-      maxAge: cacheAge,
-    });
-    if (!response.success) {
-      throw new Error(response.error);
-    }
-    const html = response.markdown;
-    const metadata = response.metadata;
+    const { markdown: html, metadata } = await scrapeMarkdown(normalizedUrl, cacheAge);
     
 
     // Use AI to extract structured information - use first available provider
@@ -0,0 +1,70 @@
+/**
+ * Signed tokens of public share links
+ * A token is "<shareId>_<expiry in unix seconds>_<HMAC-SHA256 signature>", signed with
+ * BETTER_AUTH_SECRET. It has no dots, since the middleware skips paths with dots.
+ * Only Web Crypto is used, so the middleware can check a token without the database.
+ * The share API routes check revocation and passwords against the share row.
+ */
+
+export const SHARE_PATH_PREFIX = '/brand-monitor/share/';
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(bytes).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+async function signingKey(): Promise<CryptoKey> {
+  const secret = process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error('BETTER_AUTH_SECRET is required to sign share links');
+  }
+  return crypto.subtle.importKey('raw', encoder.encode(`share-link:${secret}`), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export async function createShareToken(shareId: string, expiresAt: Date): Promise<string> {
+  const payload = `${shareId}_${Math.floor(expiresAt.getTime() / 1000)}`;
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(payload));
+  return `${payload}_${toBase64Url(signature)}`;
+}
+
+/**
+ * The share a token was signed for, or null when it is malformed, forged or expired
+ */
+export async function verifyShareToken(token: string): Promise<{ shareId: string; expiresAt: Date } | null> {
+  const match = token.match(/^([0-9a-f-]{36})_(\d{1,12})_([A-Za-z0-9_-]+)$/i);
+  if (!match) return null;
+
+  const [, shareId, expiry, signature] = match;
+  const signatureBytes = fromBase64Url(signature);
+  if (!signatureBytes) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(), signatureBytes, encoder.encode(`${shareId}_${expiry}`));
+    const expiresAt = new Date(Number(expiry) * 1000);
+    return valid && expiresAt.getTime() > Date.now() ? { shareId, expiresAt } : null;
+  } catch (error) {
+    console.warn('Share token could not be verified:', error);
+    return null;
+  }
+}
+
+// The token in a public share page path, e.g. /brand-monitor/share/<token>
+export function shareTokenFromPath(pathname: string): string | null {
+  if (!pathname.startsWith(SHARE_PATH_PREFIX)) return null;
+  const token = pathname.slice(SHARE_PATH_PREFIX.length).split('/')[0];
+  return token || null;
+}
@@ -1,11 +1,11 @@
 export class SSEParser {
   private buffer = '';
-  private currentEvent: { event?: string; data?: string } = {};
+  private currentEvent: { event?: string; data?: string; id?: string } = {};
 
-  parse(chunk: string): Array<{ event?: string; data?: string }> {
+  parse(chunk: string): Array<{ event?: string; data?: string; id?: string }> {
     this.buffer += chunk;
     const lines = this.buffer.split('\n');
-    const events: Array<{ event?: string; data?: string }> = [];
+    const events: Array<{ event?: string; data?: string; id?: string }> = [];
     
     // Keep the last line if it's incomplete
     this.buffer = lines[lines.length - 1];
@@ -27,6 +27,8 @@ export class SSEParser {
         this.currentEvent.event = line.slice(6).trim();
       } else if (line.startsWith('data:')) {
         this.currentEvent.data = line.slice(5).trim();
+      } else if (line.startsWith('id:')) {
+        this.currentEvent.id = line.slice(3).trim();
       }
     }
     
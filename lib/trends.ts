@@ -0,0 +1,126 @@
+import { AIResponse, BrandTrends, CitedSource, CompetitorRanking, ProviderSpecificRanking, TrendMetrics, TrendPoint } from './types';
+import { aggregateCitedSources, mergeCitedSources } from './citation-utils';
+import type { BrandAnalysis } from './db/schema';
+import { ONE_WEEK } from '@/config/constants';
+
+/**
+ * Reduce a URL to its hostname so runs saved as "https://www.acme.com/" and "acme.com" match
+ */
+export function normalizeTrendUrl(url: string): string {
+  try {
+    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
+    return urlObj.hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function toTrendMetrics(competitor: CompetitorRanking): TrendMetrics {
+  return {
+    visibilityScore: competitor.visibilityScore,
+    shareOfVoice: competitor.shareOfVoice,
+    averagePosition: competitor.averagePosition,
+    sentimentScore: competitor.sentimentScore,
+  };
+}
+
+/**
+ * Build visibility, share of voice, position and sentiment series from saved analyses.
+ * Analyses without stored competitor data are skipped. Cited sources are summed over all runs.
+ */
+export function buildBrandTrends(url: string, analyses: BrandAnalysis[]): BrandTrends {
+  const normalizedUrl = normalizeTrendUrl(url);
+  let brandName: string | undefined;
+  const citedSources: CitedSource[] = [];
+
+  const points: TrendPoint[] = analyses
+    .filter(a => normalizeTrendUrl(a.url) === normalizedUrl && a.createdAt)
+    .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())
+    .flatMap(analysis => {
+      const data = analysis.analysisData as {
+        competitors?: CompetitorRanking[];
+        providerRankings?: ProviderSpecificRanking[];
+        responses?: AIResponse[];
+        citedSources?: CitedSource[];
+      } | null;
+
+      citedSources.push(...(data?.citedSources || aggregateCitedSources(data?.responses || [])));
+
+      if (!data?.competitors?.length) {
+        return [];
+      }
+
+      const point: TrendPoint = {
+        analysisId: analysis.id,
+        date: analysis.createdAt!.toISOString(),
+        competitors: {},
+        providers: {},
+      };
+
+      data.competitors.forEach(competitor => {
+        point.competitors[competitor.name] = toTrendMetrics(competitor);
+        if (competitor.isOwn) {
+          brandName = competitor.name;
+        }
+      });
+
+      data.providerRankings?.forEach(ranking => {
+        point.providers[ranking.provider] = {};
+        ranking.competitors.forEach(competitor => {
+          point.providers[ranking.provider][competitor.name] = toTrendMetrics(competitor);
+        });
+      });
+
+      return [point];
+    });
+
+  brandName = brandName || analyses.find(a => a.companyName)?.companyName || undefined;
+
+  const historicalData = brandName
+    ? points
+        .filter(point => point.competitors[brandName!])
+        .map(point => ({
+          date: new Date(point.date),
+          visibilityScore: point.competitors[brandName!].visibilityScore,
+          position: point.competitors[brandName!].averagePosition,
+        }))
+    : [];
+
+  return {
+    url: normalizedUrl,
+    brandName,
+    points,
+    historicalData,
+    weeklyChange: calculateWeeklyChange(points),
+    citedSources: mergeCitedSources(citedSources),
+  };
+}
+
+/**
+ * Visibility change for each competitor between the latest run and the
+ * most recent run at least a week older than it
+ */
+function calculateWeeklyChange(points: TrendPoint[]): BrandTrends['weeklyChange'] {
+  const weeklyChange: BrandTrends['weeklyChange'] = {};
+  const latest = points[points.length - 1];
+
+  if (!latest) {
+    return weeklyChange;
+  }
+
+  const cutoff = new Date(latest.date).getTime() - ONE_WEEK;
+  const baseline = [...points].reverse().find(point => new Date(point.date).getTime() <= cutoff);
+
+  if (!baseline) {
+    return weeklyChange;
+  }
+
+  Object.entries(latest.competitors).forEach(([name, metrics]) => {
+    const previous = baseline.competitors[name];
+    if (previous) {
+      weeklyChange[name] = Math.round((metrics.visibilityScore - previous.visibilityScore) * 10) / 10;
+    }
+  });
+
+  return weeklyChange;
+}
@@ -68,6 +68,38 @@ export interface Company {
     ogImage?: string;
     favicon?: string;
   };
+  factSheet?: FactSheet; // What is true about the company, to check AI answers against
+}
+
+// User-maintained facts about a company; empty fields are not checked
+export interface FactSheet {
+  headquarters?: string; // e.g. "San Francisco, CA"
+  foundedYear?: number;
+  pricing?: string[]; // Current price points, e.g. "$16/mo"
+  hasFreeTier?: boolean;
+  discontinuedProducts?: string[];
+}
+
+export type ClaimTopic = 'headquarters' | 'founded' | 'pricing' | 'free_tier' | 'discontinued_product';
+export type ClaimStatus = 'consistent' | 'contradicted' | 'unverified';
+
+// A statement an answer makes about the brand, checked against the fact sheet
+export interface BrandClaim {
+  topic: ClaimTopic;
+  claim: string; // What the answer says, e.g. "$29/mo"
+  expected?: string; // What the fact sheet says, when the claim is contradicted or consistent
+  status: ClaimStatus;
+  sentence: string;
+}
+
+export interface ProviderAccuracy {
+  provider: string;
+  responses: number;
+  claims: number;
+  consistent: number;
+  contradicted: number;
+  unverified: number;
+  accuracy: number | null; // Consistent share of the checked claims, 0-100; null when none could be checked
 }
 
 export interface AIProvider {
@@ -82,8 +114,36 @@ export interface BrandPrompt {
   category: 'ranking' | 'comparison' | 'alternatives' | 'recommendations';
 }
 
+export type MentionStance = 'recommended' | 'neutral' | 'warned_against' | 'compared_unfavorably';
+
+export interface MentionReason {
+  theme: string; // What the reason is about, e.g. "Price" or "Ease of use"
+  sentiment: 'positive' | 'neutral' | 'negative';
+  text: string; // The clause it was taken from
+}
+
+export interface BrandMention {
+  company: string;
+  index: number; // Offset of the mention in the response text
+  sentence: string; // The sentence the mention appears in, without markdown
+  sentiment: 'positive' | 'neutral' | 'negative';
+  stance: MentionStance;
+  reasons: MentionReason[];
+}
+
+// Mentions of one company aggregated across responses
+export interface MentionSummary {
+  company: string;
+  isOwn: boolean;
+  mentions: number;
+  sentiment: Record<'positive' | 'neutral' | 'negative', number>;
+  stances: Record<MentionStance, number>;
+  reasons: { theme: string; sentiment: MentionReason['sentiment']; count: number; example: string }[]; // Most cited first
+}
+
 export interface AIResponse {
   provider: string;
+  model?: string; // Model id used for this response
   prompt: string;
   response: string;
   rankings?: CompanyRanking[];
@@ -93,6 +153,12 @@ export interface AIResponse {
   sentiment: 'positive' | 'neutral' | 'negative';
   confidence: number;
   timestamp: Date;
+  sampleIndex?: number; // Which repeated call of the same prompt/provider pair produced this response
+  webSearchUsed?: boolean; // True when the answer came from the provider's native web search
+  sources?: WebSource[]; // Pages the provider returned as sources for this answer
+  citations?: Citation[]; // Sources with the tracked companies each one supports
+  cached?: boolean; // True when the provider's answer came from the response cache
+  mentions?: BrandMention[]; // Each tracked company's mentions with their sentiment and stance
   // Enhanced detection information
   detectionDetails?: {
     brandMatches?: {
@@ -112,6 +178,31 @@ export interface AIResponse {
   };
 }
 
+export interface WebSource {
+  url: string;
+  title?: string;
+  snippet?: string;
+  mentionsBrand?: boolean;
+  competitorsMentioned?: string[];
+}
+
+// A cited page and the tracked companies it supports
+export interface Citation {
+  url: string;
+  domain: string;
+  title?: string;
+  brands: string[];
+}
+
+// Citations of one domain aggregated across responses
+export interface CitedSource {
+  domain: string;
+  citations: number;
+  pages: { url: string; title?: string; citations: number }[];
+  brands: { [brand: string]: number }; // Citations supporting each tracked company
+  providers: string[];
+}
+
 export interface CompanyRanking {
   position: number;
   company: string;
@@ -119,6 +210,18 @@ export interface CompanyRanking {
   sentiment?: 'positive' | 'neutral' | 'negative';
 }
 
+// Extra names that count as a company in brand detection, and look-alikes that do not
+export interface BrandTerms {
+  aliases?: string[]; // Other names the company goes by, e.g. a former name or abbreviation
+  misspellings?: string[];
+  productNames?: string[]; // Products whose mention counts as the company
+  excludedTerms?: string[]; // Phrases that contain the name but mean something else, e.g. "apple pie"
+}
+
+export interface TrackedCompany extends BrandTerms {
+  name: string;
+}
+
 export interface BrandAnalysis {
   company: Company;
   prompts: BrandPrompt[];
@@ -126,6 +229,7 @@ export interface BrandAnalysis {
   competitors: CompetitorRanking[];
   providerRankings?: ProviderSpecificRanking[];
   providerComparison?: ProviderComparisonData[];
+  citedSources?: CitedSource[];
   overallScore: number;
   visibilityScore: number;
   sentimentScore: number;
@@ -198,7 +302,7 @@ export interface AnalysisProgressData {
   totalPrompts: number;
   providerIndex: number;
   totalProviders: number;
-  status: 'started' | 'completed' | 'failed';
+  status: 'started' | 'completed' | 'failed' | 'skipped';
 }
 
 export interface PartialResultData {
@@ -236,6 +340,120 @@ export interface CompetitorRanking {
   visibilityScore: number;
   weeklyChange?: number;
   isOwn?: boolean;
+  citations?: number; // Web search citations supporting this company
+  topCitedDomains?: string[];
+  stats?: ScoreStats; // Present when each prompt was sampled more than once
+}
+
+// Spread of a metric across repeated samples of the same analysis
+export interface MetricStats {
+  mean: number;
+  variance: number;
+  ciLow: number; // 95% confidence interval
+  ciHigh: number;
+  samples: number;
+}
+
+export interface ScoreStats {
+  visibilityScore: MetricStats;
+  averagePosition?: MetricStats; // Missing when the company was never ranked
+  sentimentScore: MetricStats;
+}
+
+// Headline scores of the analysed brand, computed by lib/scoring.ts
+export interface BrandScores {
+  visibilityScore: number;
+  sentimentScore: number;
+  shareOfVoice: number;
+  overallScore: number;
+  averagePosition: number;
+  stats?: ScoreStats;
+}
+
+export type PositionDecayCurve = 'linear' | 'exponential' | 'reciprocal';
+
+// How the overall score is built from the individual metrics
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  weights: {
+    visibility: number;
+    sentiment: number;
+    shareOfVoice: number;
+    position: number;
+  };
+  positionDecay: {
+    curve: PositionDecayCurve;
+    maxPosition: number; // Positions beyond this score 0
+    halfLife?: number; // Positions per halving, exponential curve only
+  };
+  sentimentScores: {
+    positive: number;
+    neutral: number;
+    negative: number;
+  };
+  builtIn?: boolean;
+}
+
+// Sections a generated report can contain
+export type ReportSectionId =
+  | 'executive_summary'
+  | 'comparison_matrix'
+  | 'prompts_responses'
+  | 'provider_rankings'
+  | 'visibility_analysis'
+  | 'sentiment_stance'
+  | 'recommendations';
+
+// White-label look of a generated report
+export interface ReportBranding {
+  agencyName?: string; // Shown on the cover as "Prepared by"
+  logoUrl?: string; // PNG or JPEG, as an http(s) or data URL
+  primaryColor: string; // Hex; headings and highlights
+  accentColor: string; // Hex; charts and the brand's own rows
+  footerText?: string;
+}
+
+// Saved per user: which sections a report has, in which order, and how it looks
+export interface ReportTemplate {
+  sections: ReportSectionId[];
+  branding: ReportBranding;
+  executiveSummary?: string; // Written by the user, opens the executive summary
+}
+
+// A competitor that AI answers favor over the brand, and where it shows
+export interface VisibilityGap {
+  competitor: string;
+  gap: string;
+  evidence: string; // The figures, prompts or providers the gap is read from
+}
+
+export interface ContentAction {
+  title: string;
+  description: string;
+  competitor?: string; // The gap it closes
+}
+
+// Written by a model from the report figures; stored with the saved analysis
+export interface ReportInsights {
+  executiveSummary: string;
+  visibilityGaps: VisibilityGap[]; // At most 5, largest first
+  contentActions: ContentAction[];
+  model: string;
+  generatedAt: string;
+}
+
+// A public share link of a saved analysis, as listed to its owner
+export interface AnalysisShareLink {
+  id: string;
+  url: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  passwordProtected: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string | null;
 }
 
 export interface ProviderSpecificRanking {
@@ -256,6 +474,90 @@ export interface ProviderComparisonData {
   isOwn?: boolean;
 }
 
+// Trend series built from saved analyses of the same company
+export interface TrendMetrics {
+  visibilityScore: number;
+  shareOfVoice: number;
+  averagePosition: number;
+  sentimentScore: number;
+}
+
+export interface TrendPoint {
+  analysisId: string;
+  date: string;
+  competitors: {
+    [competitor: string]: TrendMetrics;
+  };
+  providers: {
+    [provider: string]: {
+      [competitor: string]: TrendMetrics;
+    };
+  };
+}
+
+export interface BrandTrends {
+  url: string;
+  brandName?: string;
+  points: TrendPoint[];
+  historicalData: HistoricalDataPoint[];
+  weeklyChange: {
+    [competitor: string]: number;
+  };
+  citedSources: CitedSource[]; // Aggregated over every run
+}
+
+// Run-over-run comparison of two saved analyses
+export interface PositionDelta {
+  competitor: string;
+  provider: string;
+  beforePosition?: number;
+  afterPosition?: number;
+  delta?: number;
+  beforeVisibility?: number;
+  afterVisibility?: number;
+  isOwn?: boolean;
+}
+
+export interface MentionFlip {
+  prompt: string;
+  provider: string;
+  before: boolean;
+  after: boolean;
+}
+
+export interface ResponsePair {
+  prompt: string;
+  provider: string;
+  before?: AIResponse;
+  after?: AIResponse;
+}
+
+export interface AnalysisDiff {
+  url: string;
+  brandName: string;
+  before: { analysisId: string; date: string };
+  after: { analysisId: string; date: string };
+  competitorsAdded: string[];
+  competitorsRemoved: string[];
+  positionDeltas: PositionDelta[];
+  mentionFlips: MentionFlip[];
+  responsePairs: ResponsePair[];
+}
+
+export interface ProviderModelSelection {
+  providerId: string;
+  modelId: string;
+}
+
+// Provider and model choices offered to the user for an analysis run
+export interface ProviderOption {
+  id: string;
+  name: string;
+  icon: string;
+  defaultModel: string;
+  models: { id: string; name: string }[];
+}
+
 // AI_PROVIDERS moved to provider-config.ts for centralized management
 
 export const PROMPT_TEMPLATES = {
@@ -1,71 +1,127 @@
 import { generateText } from 'ai';
-import { z } from 'zod';
-import { getProviderModel, isProviderConfigured } from './provider-config';
+import { openai } from '@ai-sdk/openai';
+import { getProviderConfig, getProviderModel, isProviderConfigured } from './provider-config';
+import { generateWithAnthropicWebSearch } from './anthropic-web-search';
+import { WebSource } from './types';
 
 // ============================================
-// Provider-Specific Search Configurations
+// Provider-Native Web Search
 // ============================================
-// Note: Each provider should use their native search capabilities
-// - OpenAI: Uses responses API with web_search_preview tool
-// - Google: Uses search grounding with google_search_retrieval
-// - Perplexity: Has built-in web search
-// - Anthropic: No native web search (uses base knowledge only)
+// Each provider uses its own search capability:
+// - OpenAI: responses API with the web_search_preview tool
+// - Anthropic: Messages API web_search tool (see anthropic-web-search.ts)
+// - Google: search grounding (useSearchGrounding in provider-config.ts)
+// - Perplexity: built-in web search on every model
+// - Other providers: used when their capabilities declare webSearch
+//
+// Firecrawl is ONLY used for initial website scraping in scrape-utils.ts
 
-// ============================================
-// Enhanced Brand Analysis with Web Search
-// ============================================
-// ============================================
-// Enhanced Brand Analysis with Provider-Native Search
-// ============================================
-export async function analyzeBrandWithProviderSearch(
-  brandName: string,
-  competitors: string[],
-  prompt: string,
-  provider: 'openai' | 'anthropic' | 'google' | 'perplexity' = 'openai'
-) {
-  // This function is now handled by ai-utils-enhanced.ts
-  // which properly uses each provider's native search capabilities
-  throw new Error(
-    'This function has been deprecated. Use analyzePromptWithProviderEnhanced from ai-utils-enhanced.ts instead.'
-  );
+export interface WebSearchAnswer {
+  text: string;
+  sources: WebSource[];
 }
 
-// ============================================
-// Note on Provider-Native Search Capabilities
-// ============================================
-// Each provider should use their own search capabilities:
-// 
-// OpenAI with Web Search:
-//   - Use openai.responses('gpt-4o-mini') with web_search_preview tool
-//   - Only gpt-4o-mini supports web search via responses API
-//
-// Google with Search Grounding:
-//   - Use { useSearchGrounding: true } option
-//   - Automatically includes web search results
-//
-// Perplexity:
-//   - All models have built-in web search
-//   - No additional configuration needed
-//
-// Anthropic:
-//   - No native web search capability
-//   - Uses base knowledge only
+/**
+ * Check whether a provider model can answer with native web search
+ */
+export function supportsWebSearch(providerId: string, modelId?: string): boolean {
+  const provider = getProviderConfig(providerId);
+  if (!provider || !provider.capabilities.webSearch || !isProviderConfigured(providerId)) {
+    return false;
+  }
+  const model = provider.models.find(m => m.id === (modelId || provider.defaultModel));
+  return model?.supportsWebSearch ?? true;
+}
 
-// ============================================
-// Competitor Discovery (without web search)
-// ============================================
-// Note: Competitor discovery is now handled in ai-utils.ts
-// using the AI's knowledge base without external search.
-// Web scraping via Firecrawl is only used for the initial
-// company website analysis in scrape-utils.ts
+/**
+ * Convert AI SDK sources to WebSource entries, dropping duplicates
+ */
+export function toWebSources(sources: { url: string; title?: string }[] | undefined): WebSource[] {
+  return dedupeSources((sources || []).map(source => ({ url: source.url, title: source.title })));
+}
 
-// ============================================
-// Migration Notice
-// ============================================
-// Web search functionality has been moved to provider-specific implementations:
-// - OpenAI: Uses responses API with web_search_preview (in ai-utils-enhanced.ts)
-// - Google: Uses search grounding (in provider-config.ts)
-// - Perplexity: Built-in web search (no special config needed)
-// - Anthropic: No web search (base knowledge only)
-//
-// Firecrawl should ONLY be used for initial website scraping in scrape-utils.ts
\ No newline at end of file
+function dedupeSources(sources: WebSource[]): WebSource[] {
+  const seen = new Set<string>();
+  return sources.filter(source => {
+    if (!source.url || seen.has(source.url)) return false;
+    seen.add(source.url);
+    return true;
+  });
+}
+
+/**
+ * Mark which sources mention the brand or competitors in their URL, title or cited text
+ */
+export function annotateSources(sources: WebSource[], brandName: string, competitors: string[]): WebSource[] {
+  const mentions = (haystack: string, name: string) => {
+    const lower = name.toLowerCase();
+    return haystack.includes(lower) || haystack.includes(lower.replace(/\s+/g, ''));
+  };
+
+  return sources.map(source => {
+    const haystack = `${source.url} ${source.title || ''} ${source.snippet || ''}`.toLowerCase();
+    return {
+      ...source,
+      mentionsBrand: mentions(haystack, brandName),
+      competitorsMentioned: competitors.filter(c => mentions(haystack, c)),
+    };
+  });
+}
+
+/**
+ * Answer a prompt using the provider's native web search.
+ * Returns null when the provider model has no search capability so the caller
+ * can fall back to a regular generation.
+ */
+export async function generateWithWebSearch({
+  providerId,
+  modelId,
+  system,
+  prompt,
+  temperature = 0.7,
+  maxTokens = 800,
+  seed,
+  maxRetries,
+  abortSignal,
+}: {
+  providerId: string;
+  modelId?: string;
+  system: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  seed?: number;
+  maxRetries?: number; // AI SDK retries; 0 when the provider scheduler retries instead
+  abortSignal?: AbortSignal;
+}): Promise<WebSearchAnswer | null> {
+  if (!supportsWebSearch(providerId, modelId)) {
+    return null;
+  }
+
+  const resolvedModelId = modelId || getProviderConfig(providerId)!.defaultModel;
+
+  if (providerId === 'anthropic') {
+    const answer = await generateWithAnthropicWebSearch({ prompt, system, modelId: resolvedModelId, maxTokens, abortSignal });
+    return { text: answer.text, sources: dedupeSources(answer.sources) };
+  }
+
+  const model = getProviderModel(providerId, resolvedModelId, { useWebSearch: true });
+  if (!model) {
+    return null;
+  }
+
+  const result = await generateText({
+    model,
+    system,
+    prompt,
+    temperature,
+    maxTokens,
+    seed,
+    maxRetries,
+    abortSignal,
+    // OpenAI only searches when the responses API tool is passed explicitly
+    ...(providerId === 'openai' && { tools: { web_search_preview: openai.tools.webSearchPreview({}) } }),
+  });
+
+  return { text: result.text, sources: toWebSources(result.sources) };
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSessionCookie } from 'better-auth/cookies';
+import { shareTokenFromPath, verifyShareToken } from '@/lib/share-token';
 
 // Define protected routes
 const protectedRoutes = ['/dashboard', '/chat', '/brand-monitor'];
@@ -12,7 +13,12 @@ export async function middleware(request: NextRequest) {
     pathname.startsWith(route)
   );
 
-  if (isProtectedRoute) {
+  // Public share links open without login while their token is valid; the share API
+  // still checks revocation and passwords
+  const shareToken = shareTokenFromPath(pathname);
+  const isValidShareLink = !!shareToken && !!(await verifyShareToken(shareToken));
+
+  if (isProtectedRoute && !isValidShareLink) {
     // Check for session cookie
     const sessionCookie = await getSessionCookie(request);
     
@@ -28,7 +34,8 @@ export async function middleware(request: NextRequest) {
   
   response.headers.set('X-Frame-Options', 'DENY');
   response.headers.set('X-Content-Type-Options', 'nosniff');
-  response.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');
+  // Keep share tokens out of the Referer header of outgoing links
+  response.headers.set('Referrer-Policy', shareToken ? 'no-referrer' : 'strict-origin-when-cross-origin');
   response.headers.set('X-XSS-Protection', '1; mode=block');
   
   return response;
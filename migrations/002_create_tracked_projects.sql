@@ -0,0 +1,32 @@
+-- Tracked Projects
+-- Companies registered for recurring brand visibility analysis.
+-- Each scheduled run is stored as a new row in brand_analyses.
+
+DO $$ BEGIN
+    CREATE TYPE "schedule_cadence" AS ENUM('daily', 'weekly');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "tracked_projects" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "user_id" text NOT NULL,
+    "url" text NOT NULL,
+    "company_name" text NOT NULL,
+    "industry" text,
+    "company" jsonb NOT NULL,
+    "competitors" jsonb,
+    "prompts" jsonb,
+    "cadence" "schedule_cadence" NOT NULL DEFAULT 'weekly',
+    "use_web_search" boolean DEFAULT false,
+    "enabled" boolean DEFAULT true,
+    "last_run_at" timestamp,
+    "next_run_at" timestamp NOT NULL DEFAULT now(),
+    "last_analysis_id" uuid,
+    "last_error" text,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_tracked_projects_user_id" ON "tracked_projects"("user_id");
+CREATE INDEX IF NOT EXISTS "idx_tracked_projects_next_run_at" ON "tracked_projects"("next_run_at") WHERE "enabled" = true;
@@ -0,0 +1,51 @@
+-- Normalized Analysis Storage
+-- Prompts, responses and competitor scores from each brand analysis,
+-- stored relationally so they can be queried across runs.
+-- The full payload is still kept in brand_analyses.analysis_data.
+
+CREATE TABLE IF NOT EXISTS "analysis_prompts" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "analysis_id" uuid NOT NULL REFERENCES "brand_analyses"("id") ON DELETE CASCADE,
+    "prompt" text NOT NULL,
+    "category" text,
+    "sort_order" integer NOT NULL DEFAULT 0,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "analysis_responses" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "analysis_id" uuid NOT NULL REFERENCES "brand_analyses"("id") ON DELETE CASCADE,
+    "prompt_id" uuid REFERENCES "analysis_prompts"("id") ON DELETE SET NULL,
+    "provider" text NOT NULL,
+    "prompt" text NOT NULL,
+    "response" text NOT NULL,
+    "brand_mentioned" boolean NOT NULL DEFAULT false,
+    "brand_position" integer,
+    "sentiment" text,
+    "confidence" real,
+    "competitors" jsonb,
+    "rankings" jsonb,
+    "responded_at" timestamp,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "analysis_competitor_scores" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "analysis_id" uuid NOT NULL REFERENCES "brand_analyses"("id") ON DELETE CASCADE,
+    "provider" text,
+    "competitor" text NOT NULL,
+    "is_own" boolean DEFAULT false,
+    "mentions" integer DEFAULT 0,
+    "average_position" real,
+    "sentiment" text,
+    "sentiment_score" real,
+    "share_of_voice" real,
+    "visibility_score" real,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_analysis_prompts_analysis_id" ON "analysis_prompts"("analysis_id");
+CREATE INDEX IF NOT EXISTS "idx_analysis_responses_analysis_id" ON "analysis_responses"("analysis_id");
+CREATE INDEX IF NOT EXISTS "idx_analysis_responses_provider_position" ON "analysis_responses"("provider", "brand_position");
+CREATE INDEX IF NOT EXISTS "idx_analysis_competitor_scores_analysis_id" ON "analysis_competitor_scores"("analysis_id");
+CREATE INDEX IF NOT EXISTS "idx_analysis_competitor_scores_competitor" ON "analysis_competitor_scores"("competitor");
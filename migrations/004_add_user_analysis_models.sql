@@ -0,0 +1,4 @@
+-- Default provider/model selection for brand analyses
+-- Stores a JSON array of {"providerId", "modelId"} pairs per user.
+
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "analysis_models" jsonb;
@@ -0,0 +1,5 @@
+-- Web search sources for analysis responses
+-- Stores the pages a provider cited when answering with native web search.
+
+ALTER TABLE "analysis_responses" ADD COLUMN IF NOT EXISTS "web_search_used" boolean DEFAULT false NOT NULL;
+ALTER TABLE "analysis_responses" ADD COLUMN IF NOT EXISTS "sources" jsonb;
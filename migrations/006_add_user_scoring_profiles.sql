@@ -0,0 +1,5 @@
+-- Scoring profiles for brand analyses
+-- Stores the user's custom ScoringProfile definitions and the id of the profile used by default.
+
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "scoring_profiles" jsonb;
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "scoring_profile_id" text;
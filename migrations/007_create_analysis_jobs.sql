@@ -0,0 +1,35 @@
+-- Analysis Jobs
+-- Brand analyses started from the UI run as persisted jobs. Every progress event is stored
+-- with an increasing event id so a client can reconnect and replay from its Last-Event-ID.
+
+DO $$ BEGIN
+    CREATE TYPE "analysis_job_status" AS ENUM('pending', 'running', 'completed', 'failed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "analysis_jobs" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "user_id" text,
+    "company_name" text NOT NULL,
+    "status" "analysis_job_status" NOT NULL DEFAULT 'pending',
+    "request" jsonb NOT NULL,
+    "result" jsonb,
+    "error" text,
+    "last_event_id" integer NOT NULL DEFAULT 0,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now(),
+    "completed_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "idx_analysis_jobs_user_id" ON "analysis_jobs"("user_id");
+
+CREATE TABLE IF NOT EXISTS "analysis_job_events" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "job_id" uuid NOT NULL REFERENCES "analysis_jobs"("id") ON DELETE CASCADE,
+    "event_id" integer NOT NULL,
+    "event" jsonb NOT NULL,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_analysis_job_events_job_event" ON "analysis_job_events"("job_id", "event_id");
@@ -0,0 +1,7 @@
+-- Analysis job cancellation
+-- A DELETE on a running job sets cancel_requested_at; the worker running it stops
+-- starting new prompt/provider pairs and finishes the job as 'cancelled'.
+
+ALTER TYPE "analysis_job_status" ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE "analysis_jobs" ADD COLUMN IF NOT EXISTS "cancel_requested_at" timestamp;
@@ -0,0 +1,16 @@
+-- Response Cache
+-- Provider answers and structured analyses keyed by normalized prompt, provider, model and
+-- temperature, so rerunning an analysis does not pay for the same LLM calls again.
+
+CREATE TABLE IF NOT EXISTS "response_cache" (
+    "cache_key" text PRIMARY KEY,
+    "provider" text NOT NULL,
+    "model" text NOT NULL,
+    "prompt" text NOT NULL,
+    "temperature" real NOT NULL,
+    "value" jsonb NOT NULL,
+    "created_at" timestamp DEFAULT now(),
+    "expires_at" timestamp NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_response_cache_expires_at" ON "response_cache"("expires_at");
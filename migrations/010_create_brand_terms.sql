@@ -0,0 +1,17 @@
+-- Brand Terms
+-- A user's aliases, misspellings and product names that count as a brand in brand detection,
+-- and look-alike phrases that must not count. One row per user and brand domain.
+
+CREATE TABLE IF NOT EXISTS "brand_terms" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "user_id" text NOT NULL,
+    "domain" text NOT NULL,
+    "aliases" jsonb,
+    "misspellings" jsonb,
+    "product_names" jsonb,
+    "excluded_terms" jsonb,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_brand_terms_user_domain" ON "brand_terms"("user_id", "domain");
@@ -0,0 +1,14 @@
+-- Fact Sheets
+-- What a user states is true about a brand (headquarters, founding year, pricing, free tier,
+-- discontinued products), used to flag wrong claims in AI answers. One row per user and brand domain.
+
+CREATE TABLE IF NOT EXISTS "fact_sheets" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "user_id" text NOT NULL,
+    "domain" text NOT NULL,
+    "facts" jsonb NOT NULL,
+    "created_at" timestamp DEFAULT now(),
+    "updated_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_fact_sheets_user_domain" ON "fact_sheets"("user_id", "domain");
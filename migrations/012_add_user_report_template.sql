@@ -0,0 +1,5 @@
+-- Report templates
+-- Stores which sections the user's generated reports contain, in which order, and their
+-- white-label branding (agency name, logo, colors, footer text, executive summary).
+
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "report_template" jsonb;
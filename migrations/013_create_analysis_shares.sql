@@ -0,0 +1,17 @@
+-- Analysis Shares
+-- Public read-only links to a saved brand analysis and its report, for clients without an account.
+-- Each link expires, can be revoked and can require a password (stored as a scrypt hash).
+
+CREATE TABLE IF NOT EXISTS "analysis_shares" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    "analysis_id" uuid NOT NULL REFERENCES "brand_analyses"("id") ON DELETE CASCADE,
+    "user_id" text NOT NULL,
+    "password_hash" text,
+    "expires_at" timestamp NOT NULL,
+    "revoked_at" timestamp,
+    "last_viewed_at" timestamp,
+    "view_count" integer NOT NULL DEFAULT 0,
+    "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_analysis_shares_analysis_id" ON "analysis_shares"("analysis_id");
@@ -12,6 +12,8 @@ const nextConfig: NextConfig = {
     // your project has type errors.
     ignoreBuildErrors: true,
   },
+  // pdfkit reads its font metrics from its own package directory at runtime
+  serverExternalPackages: ['pdfkit'],
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,60 @@
+import * as dotenv from 'dotenv';
+
+// Load environment variables before the database pool is created
+dotenv.config({ path: '.env.local', quiet: true });
+
+/**
+ * Populate analysis_prompts, analysis_responses and analysis_competitor_scores
+ * from the analysis_data jsonb of existing brand_analyses rows.
+ * Rows that already have normalized prompts are skipped unless --force is passed.
+ */
+async function main() {
+  const { asc, eq } = await import('drizzle-orm');
+  const { db, pool } = await import('../lib/db');
+  const { brandAnalyses, analysisPrompts } = await import('../lib/db/schema');
+  const { storeAnalysisDetails } = await import('../lib/analysis-storage');
+
+  const force = process.argv.includes('--force');
+  let processed = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  try {
+    const analyses = await db.select({ id: brandAnalyses.id, analysisData: brandAnalyses.analysisData })
+      .from(brandAnalyses)
+      .orderBy(asc(brandAnalyses.createdAt));
+
+    console.log(`Found ${analyses.length} brand analyses`);
+
+    for (const analysis of analyses) {
+      if (!force) {
+        const existing = await db.query.analysisPrompts.findFirst({
+          where: eq(analysisPrompts.analysisId, analysis.id),
+        });
+        if (existing) {
+          skipped++;
+          continue;
+        }
+      }
+
+      try {
+        const counts = await db.transaction(tx => storeAnalysisDetails(analysis.id, analysis.analysisData, tx));
+        processed++;
+        console.log(`✓ ${analysis.id}: ${counts.prompts} prompts, ${counts.responses} responses, ${counts.scores} scores`);
+      } catch (error) {
+        failed++;
+        console.error(`✗ ${analysis.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`\nBackfill complete: ${processed} processed, ${skipped} skipped, ${failed} failed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+import { extractRankings } from '../lib/ranking-extractor';
+import { RANKING_EXTRACTION_FIXTURES, RankingExtractionFixture } from '../lib/ranking-extractor-fixtures';
+
+/**
+ * Differences between what extractRankings finds for a fixture and what it should find.
+ * Only tracked companies are compared, as the fixtures do not list untracked entries.
+ */
+function checkFixture(fixture: RankingExtractionFixture): string[] {
+  const result = extractRankings(fixture.response, fixture.brand, fixture.competitors);
+  const tracked = new Set([fixture.brand, ...fixture.competitors].map(company => company.name));
+  const format = (rankings: { company: string; position: number }[]) =>
+    rankings.map(r => `${r.position}. ${r.company}`).join(', ') || 'none';
+
+  const failures: string[] = [];
+  const actual = format(result.rankings.filter(r => tracked.has(r.company)));
+  const expected = format(fixture.expected.rankings);
+  if (actual !== expected) {
+    failures.push(`rankings: expected ${expected}, got ${actual}`);
+  }
+  if (result.brandPosition !== fixture.expected.brandPosition) {
+    failures.push(`brand position: expected ${fixture.expected.brandPosition ?? 'none'}, got ${result.brandPosition ?? 'none'}`);
+  }
+  if (fixture.expected.brandMentioned !== undefined && result.brandMentioned !== fixture.expected.brandMentioned) {
+    failures.push(`brand mentioned: expected ${fixture.expected.brandMentioned}, got ${result.brandMentioned}`);
+  }
+  if (fixture.expected.competitors) {
+    const expectedCompetitors = fixture.expected.competitors.join(', ') || 'none';
+    const actualCompetitors = result.competitors.join(', ') || 'none';
+    if (actualCompetitors !== expectedCompetitors) {
+      failures.push(`competitors: expected ${expectedCompetitors}, got ${actualCompetitors}`);
+    }
+  }
+  if (fixture.expected.sentiment && result.sentiment !== fixture.expected.sentiment) {
+    failures.push(`sentiment: expected ${fixture.expected.sentiment}, got ${result.sentiment}`);
+  }
+  return failures;
+}
+
+let failed = 0;
+for (const fixture of RANKING_EXTRACTION_FIXTURES) {
+  const failures = checkFixture(fixture);
+  if (failures.length === 0) {
+    console.log(`✓ ${fixture.name}`);
+    continue;
+  }
+  failed++;
+  console.log(`✗ ${fixture.name}`);
+  failures.forEach(failure => console.log(`    ${failure}`));
+}
+
+console.log(`\n${RANKING_EXTRACTION_FIXTURES.length - failed} of ${RANKING_EXTRACTION_FIXTURES.length} fixtures passed`);
+process.exitCode = failed > 0 ? 1 : 0;
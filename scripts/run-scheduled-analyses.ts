@@ -0,0 +1,34 @@
+import * as dotenv from 'dotenv';
+
+// Load environment variables before the database pool is created
+dotenv.config({ path: '.env.local', quiet: true });
+
+async function main() {
+  const { runDueTrackedProjects } = await import('../lib/scheduler');
+  const { pool } = await import('../lib/db');
+
+  try {
+    const results = await runDueTrackedProjects();
+
+    if (results.length === 0) {
+      console.log('No tracked projects are due.');
+    }
+
+    for (const result of results) {
+      if (result.error) {
+        console.log(`✗ ${result.projectId}: ${result.error}`);
+      } else {
+        console.log(`✓ ${result.projectId}: saved analysis ${result.analysisId}`);
+      }
+    }
+
+    process.exitCode = results.some(r => r.error) ? 1 : 0;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Scheduled analysis run failed:', error);
+  process.exit(1);
+});